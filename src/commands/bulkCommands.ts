@@ -0,0 +1,281 @@
+import * as vscode from "vscode";
+import { TaskTreeItem } from "../providers/taskTreeProvider";
+import { TaskManagerService } from "../services/taskManagerService";
+import {
+  VALID_TASK_PRIORITIES,
+  VALID_TASK_STATUSES,
+} from "../services/tasksRepository";
+import { TaskPriority, TaskStatus } from "../types";
+import {
+  formatTaskExport,
+  selectTasksForExport,
+  TaskExportFormat,
+} from "../utils/taskExport";
+import { selectedTaskIds } from "../utils/treeSelection";
+
+/**
+ * Bulk actions on the tasks and subtasks selected in the task tree
+ * Each action asks once, then applies to the whole selection as a single
+ * undoable operation followed by one refresh
+ */
+export class BulkCommands {
+  constructor(private readonly taskManagerService: TaskManagerService) {}
+
+  /**
+   * Set the status of the selected tasks and subtasks
+   */
+  public async setStatus(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const ids = selectedIds(item, selection);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const status = (await vscode.window.showQuickPick(VALID_TASK_STATUSES, {
+      placeHolder: `Set status of ${describeIds(ids)} to...`,
+    })) as TaskStatus | undefined;
+    if (!status) {
+      return;
+    }
+
+    await this.run(`Setting ${describeIds(ids)} to ${status}`, () =>
+      this.taskManagerService.updateTasksFields(ids, { status })
+    );
+  }
+
+  /**
+   * Set the priority of the selected top-level tasks
+   */
+  public async setPriority(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const ids = selectedIds(item, selection).filter((id) => !id.includes("."));
+    if (ids.length === 0) {
+      vscode.window.showInformationMessage("Subtasks have no priority");
+      return;
+    }
+
+    const priority = (await vscode.window.showQuickPick(
+      VALID_TASK_PRIORITIES,
+      { placeHolder: `Set priority of ${describeIds(ids)} to...` }
+    )) as TaskPriority | undefined;
+    if (!priority) {
+      return;
+    }
+
+    await this.run(`Setting priority of ${describeIds(ids)}`, () =>
+      this.taskManagerService.updateTasksFields(ids, { priority })
+    );
+  }
+
+  /**
+   * Make the selected tasks and subtasks depend on a common task or subtask
+   */
+  public async addDependency(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const ids = selectedIds(item, selection);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const candidates = this.taskManagerService
+      .getTasks()
+      .flatMap((task) => [
+        { label: `${task.id}`, description: task.title },
+        ...(task.subtasks || []).map((subtask) => ({
+          label: `${task.id}.${subtask.id}`,
+          description: subtask.title,
+        })),
+      ])
+      .filter((candidate) => !ids.includes(candidate.label));
+    const target = await vscode.window.showQuickPick(candidates, {
+      placeHolder: `Make ${describeIds(ids)} depend on...`,
+      matchOnDescription: true,
+    });
+    if (!target) {
+      return;
+    }
+
+    const added = await this.run(
+      `Adding dependency on ${target.label}`,
+      () => this.taskManagerService.addTasksDependency(ids, target.label)
+    );
+    if (added) {
+      vscode.window.showInformationMessage(
+        added.length > 0
+          ? `${added.join(", ")} now depend on ${target.label}`
+          : `All selected tasks already depend on ${target.label}`
+      );
+    }
+  }
+
+  /**
+   * Delete the selected tasks and subtasks after confirmation
+   */
+  public async delete(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const ids = selectedIds(item, selection);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete ${describeIds(ids)}?`,
+      {
+        modal: true,
+        detail:
+          "Subtasks of deleted tasks are deleted too, and dependencies on " +
+          "them are removed. Use Undo to restore them.",
+      },
+      "Delete"
+    );
+    if (confirm !== "Delete") {
+      return;
+    }
+
+    await this.run(`Deleting ${describeIds(ids)}`, () =>
+      this.taskManagerService.removeTasks(ids)
+    );
+  }
+
+  /**
+   * Expand the selected top-level tasks into subtasks using the CLI
+   */
+  public async expand(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const taskIds = selectedIds(item, selection)
+      .filter((id) => !id.includes("."))
+      .map(Number);
+    if (taskIds.length === 0) {
+      vscode.window.showInformationMessage("Only tasks can be expanded");
+      return;
+    }
+
+    // The CLI expansion reports its own progress and errors
+    await this.taskManagerService.expandTasks(taskIds);
+  }
+
+  /**
+   * Open the selected tasks and subtasks as a Markdown or JSON document
+   */
+  public async export(
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const ids = selectedIds(item, selection);
+    if (ids.length === 0) {
+      return;
+    }
+
+    const format = await vscode.window.showQuickPick(
+      [
+        { label: "Markdown", value: "markdown" as TaskExportFormat },
+        { label: "JSON", value: "json" as TaskExportFormat },
+      ],
+      { placeHolder: `Export ${describeIds(ids)} as...` }
+    );
+    if (!format) {
+      return;
+    }
+
+    try {
+      const tasks = selectTasksForExport(
+        this.taskManagerService.getTasks(),
+        ids
+      );
+      const doc = await vscode.workspace.openTextDocument({
+        content: formatTaskExport(
+          tasks,
+          format.value,
+          this.taskManagerService.getCurrentTag()
+        ),
+        language: format.value,
+      });
+      await vscode.window.showTextDocument(doc, { preview: false });
+    } catch (error) {
+      console.error("Error exporting tasks:", error);
+      vscode.window.showErrorMessage(`Failed to export tasks: ${error}`);
+    }
+  }
+
+  /**
+   * Run a bulk operation under one progress notification
+   * Returns undefined when it failed
+   */
+  private async run<T>(
+    title: string,
+    operation: () => Promise<T>
+  ): Promise<T | undefined> {
+    try {
+      return await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title },
+        operation
+      );
+    } catch (error) {
+      console.error(`Error in bulk operation (${title}):`, error);
+      vscode.window.showErrorMessage(`${title} failed: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Register the bulk commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskManagerService: TaskManagerService
+  ): void {
+    const bulkCommands = new BulkCommands(taskManagerService);
+    const register = (
+      command: string,
+      handler: (item?: TaskTreeItem, selection?: TaskTreeItem[]) => unknown
+    ) => vscode.commands.registerCommand(command, handler);
+
+    context.subscriptions.push(
+      register("taskMaster.bulkSetStatus", (item, selection) =>
+        bulkCommands.setStatus(item, selection)
+      ),
+      register("taskMaster.bulkSetPriority", (item, selection) =>
+        bulkCommands.setPriority(item, selection)
+      ),
+      register("taskMaster.bulkAddDependency", (item, selection) =>
+        bulkCommands.addDependency(item, selection)
+      ),
+      register("taskMaster.bulkDelete", (item, selection) =>
+        bulkCommands.delete(item, selection)
+      ),
+      register("taskMaster.bulkExpand", (item, selection) =>
+        bulkCommands.expand(item, selection)
+      ),
+      register("taskMaster.bulkExport", (item, selection) =>
+        bulkCommands.export(item, selection)
+      )
+    );
+  }
+}
+
+/**
+ * Full IDs of the selected task items; other selected tree items, and
+ * tasks of other workspace folders, are left out
+ */
+function selectedIds(
+  item?: vscode.TreeItem,
+  selection?: vscode.TreeItem[]
+): string[] {
+  return selectedTaskIds(item, selection, (treeItem) =>
+    treeItem instanceof TaskTreeItem ? treeItem.getFullId() : undefined
+  );
+}
+
+function describeIds(ids: string[]): string {
+  return ids.length === 1 ? `task ${ids[0]}` : `${ids.length} tasks`;
+}
@@ -1,9 +1,11 @@
 import * as vscode from "vscode";
-import { CLIService } from "../services/cliService";
+import { TasksRepository } from "../services/tasksRepository";
+import { Task } from "../types";
 import {
-  parseDependencyFixOutput,
-  parseDependencyValidationOutput,
-} from "../utils/outputParser";
+  analyzeDependencies,
+  applyDependencyFixes,
+  planDependencyFixes,
+} from "../utils/dependencyAnalyzer";
 
 /**
  * Command handlers for dependency operations
@@ -11,11 +13,13 @@ import {
 
 /**
  * Add a dependency to a task
+ * Writes tasks.json in-process through the TasksRepository
  */
 export async function addDependency(
   srcId: number | undefined,
   depId: number | undefined,
-  cliService: CLIService,
+  tasksRepository: TasksRepository,
+  tag: string,
   onRefreshTasks: () => Promise<void>
 ): Promise<void> {
   try {
@@ -66,23 +70,22 @@ export async function addDependency(
       return;
     }
 
-    // Debug: log the command being executed
-    console.log(
-      `Executing: add-dependency --id=${sourceTaskId} --depends-on=${dependencyTaskId}`
+    const added = await tasksRepository.addDependency(
+      tag,
+      sourceTaskId,
+      dependencyTaskId
     );
-
-    // Ensure we pass numeric values (not strings) to CLI
-    await cliService.executeCommand("add-dependency", {
-      extraArgs: [
-        `--id=${Number(sourceTaskId)}`,
-        `--depends-on=${Number(dependencyTaskId)}`,
-      ],
-      format: "text",
-    });
     await onRefreshTasks();
-    vscode.window.showInformationMessage(
-      `Dependency added: Task ${sourceTaskId} now depends on task ${dependencyTaskId}`
-    );
+
+    if (added) {
+      vscode.window.showInformationMessage(
+        `Dependency added: Task ${sourceTaskId} now depends on task ${dependencyTaskId}`
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        `Task ${sourceTaskId} already depends on task ${dependencyTaskId}`
+      );
+    }
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to add dependency: ${error}`);
   }
@@ -90,16 +93,18 @@ export async function addDependency(
 
 /**
  * Remove a dependency from a task
+ * Writes tasks.json in-process through the TasksRepository
  */
 export async function removeDependency(
   srcId: number | undefined,
   depId: number | undefined,
-  cliService: CLIService,
+  tasksRepository: TasksRepository,
+  tag: string,
   onRefreshTasks: () => Promise<void>
 ): Promise<void> {
   try {
     let sourceTaskId: number;
-    let dependencyTaskId: number;
+    let dependencyId: string | number;
 
     // Get source task ID if not provided or invalid
     if (!srcId || isNaN(srcId)) {
@@ -120,177 +125,144 @@ export async function removeDependency(
       sourceTaskId = srcId;
     }
 
-    // Always show current dependencies and prompt for which one to remove
-    try {
-      const taskResult = await cliService.executeCommand("show", {
-        extraArgs: [`--id=${sourceTaskId}`],
-        format: "text",
-      });
-      // Just show the output as information, since we can't parse dependencies from text
-      if (
-        taskResult &&
-        typeof taskResult === "string" &&
-        taskResult.trim().length > 0
-      ) {
+    // Let the user pick one of the task's current dependencies
+    if (!depId || isNaN(depId)) {
+      const tasks = await tasksRepository.getTasks(tag);
+      const sourceTask = tasks.find((task) => Number(task.id) === sourceTaskId);
+      if (!sourceTask) {
+        vscode.window.showWarningMessage(`Task ${sourceTaskId} not found`);
+        return;
+      }
+
+      const dependencies = sourceTask.dependencies || [];
+      if (dependencies.length === 0) {
         vscode.window.showInformationMessage(
-          `Task ${sourceTaskId} details:\n${taskResult.trim()}`
-        );
-      } else {
-        vscode.window.showWarningMessage(
-          `No details found for task ${sourceTaskId}`
+          `Task ${sourceTaskId} has no dependencies`
         );
         return;
       }
-    } catch (error) {
-      console.log("Could not fetch task details for dependency info:", error);
-    }
 
-    // Get dependency task ID if not provided or invalid
-    if (!depId || isNaN(depId)) {
-      const depInput = await vscode.window.showInputBox({
-        prompt: `Enter the ID of the dependency to remove from task ${sourceTaskId}`,
-        placeHolder: "e.g., 3",
-        validateInput: (value) => {
-          const num = parseInt(value);
-          return isNaN(num) || num <= 0 ? "Please enter a valid task ID" : null;
-        },
-      });
-      if (!depInput) {
+      const selected = await vscode.window.showQuickPick(
+        dependencies.map((dep) => {
+          const dependencyTask = tasks.find(
+            (task) => String(task.id) === String(dep)
+          );
+          return {
+            label: `${dep}`,
+            description: dependencyTask?.title,
+            dependencyId: dep as string | number,
+          };
+        }),
+        {
+          placeHolder: `Select the dependency to remove from task ${sourceTaskId}`,
+        }
+      );
+      if (!selected) {
         vscode.window.showInformationMessage("Remove dependency cancelled");
         return;
       }
-      dependencyTaskId = parseInt(depInput);
+      dependencyId = selected.dependencyId;
     } else {
-      dependencyTaskId = depId;
+      dependencyId = depId;
     }
 
-    // Debug: log the command being executed
-    console.log(
-      `Executing: remove-dependency --id=${sourceTaskId} --depends-on=${dependencyTaskId}`
+    const removed = await tasksRepository.removeDependency(
+      tag,
+      sourceTaskId,
+      dependencyId
     );
-
-    // Ensure we pass numeric values (not strings) to CLI
-    const result = await cliService.executeCommand("remove-dependency", {
-      extraArgs: [
-        `--id=${Number(sourceTaskId)}`,
-        `--depends-on=${Number(dependencyTaskId)}`,
-      ],
-      format: "text",
-    });
-
-    // Debug: log the result
-    console.log("Remove dependency result:", result);
-
     await onRefreshTasks();
-    vscode.window.showInformationMessage(
-      `Dependency removed: Task ${sourceTaskId} no longer depends on task ${dependencyTaskId}`
-    );
-  } catch (error) {
-    // Enhanced error handling with more details
-    console.error("Remove dependency error:", error);
-
-    // Try to extract more meaningful error info
-    let errorMessage = `Failed to remove dependency: ${error}`;
-    if (
-      error instanceof Error &&
-      error.message.includes("CLI command failed")
-    ) {
-      // Extract task IDs from error for better messaging
-      const taskIdMatch = error.message.match(/--id=(\d+)/);
-      const depIdMatch = error.message.match(/--depends-on=(\d+)/);
-      const taskId = taskIdMatch ? taskIdMatch[1] : "unknown";
-      const depId = depIdMatch ? depIdMatch[1] : "unknown";
-
-      errorMessage += `\n\nThis could be due to:
-- Task ${taskId} doesn't exist
-- Task ${depId} doesn't exist
-- Task ${taskId} doesn't actually depend on task ${depId}
-- CLI communication issue
 
-Try running 'task-master show --id=${taskId}' in terminal to verify the task and its dependencies.`;
+    if (removed) {
+      vscode.window.showInformationMessage(
+        `Dependency removed: Task ${sourceTaskId} no longer depends on task ${dependencyId}`
+      );
+    } else {
+      vscode.window.showWarningMessage(
+        `Task ${sourceTaskId} does not depend on task ${dependencyId}`
+      );
     }
-
-    vscode.window.showErrorMessage(errorMessage);
+  } catch (error) {
+    console.error("Remove dependency error:", error);
+    vscode.window.showErrorMessage(`Failed to remove dependency: ${error}`);
   }
 }
 
 /**
  * Validate dependencies for all tasks
+ * Analyzes the tasks in-process and offers to open the issues view
  */
-export async function validateDependencies(
-  cliService: CLIService
-): Promise<void> {
-  try {
-    const result = await cliService.executeCommand("validate-dependencies", {
-      format: "text",
-    });
-
-    // Parse the CLI output for clean user messages
-    if (result && result.toString().trim()) {
-      const resultText = result.toString().trim();
-      const parsed = parseDependencyValidationOutput(resultText);
+export async function validateDependencies(tasks: Task[]): Promise<void> {
+  const issues = analyzeDependencies(tasks);
+  if (issues.length === 0) {
+    vscode.window.showInformationMessage("All dependencies are valid");
+    return;
+  }
 
-      if (parsed.success) {
-        vscode.window.showInformationMessage(parsed.message);
-      } else {
-        const message = parsed.details
-          ? `${parsed.message}: ${parsed.details}`
-          : parsed.message;
-        vscode.window.showWarningMessage(message);
-      }
-    } else {
-      vscode.window.showInformationMessage(
-        "Dependencies validated - no issues found"
-      );
-    }
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to validate dependencies: ${error}`);
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const warnings = issues.length - errors;
+  const actions =
+    errors > 0 ? ["Show Issues", "Fix Dependencies"] : ["Show Issues"];
+  const choice = await vscode.window.showWarningMessage(
+    `Dependency validation found ${errors} error(s) and ${warnings} warning(s)`,
+    ...actions
+  );
+  if (choice === "Show Issues") {
+    await vscode.commands.executeCommand("taskMaster.dependencyIssues.focus");
+  } else if (choice === "Fix Dependencies") {
+    await vscode.commands.executeCommand("taskMaster.fixDependencies");
   }
 }
 
 /**
  * Fix dependencies for all tasks
+ * Previews the planned removals and applies the ones the user keeps
  */
 export async function fixDependencies(
-  cliService: CLIService,
+  tasksRepository: TasksRepository,
+  tag: string,
   onRefreshTasks: () => Promise<void>
 ): Promise<void> {
   try {
-    const confirm = await vscode.window.showWarningMessage(
-      "This will automatically fix invalid dependencies. Continue?",
-      { modal: true },
-      "Yes",
-      "No"
-    );
+    const fixes = planDependencyFixes(await tasksRepository.getTasks(tag));
+    if (fixes.length === 0) {
+      vscode.window.showInformationMessage(
+        "All dependencies are valid - no fixes needed"
+      );
+      return;
+    }
 
-    if (confirm !== "Yes") {
+    const selected = await vscode.window.showQuickPick(
+      fixes.map((fix) => ({
+        label: fix.description,
+        description: fix.kind,
+        picked: true,
+        fix,
+      })),
+      {
+        canPickMany: true,
+        title: "Fix Dependencies",
+        placeHolder: "Select the dependency removals to apply",
+      }
+    );
+    if (!selected || selected.length === 0) {
       vscode.window.showInformationMessage("Fix dependencies cancelled");
       return;
     }
 
-    const result = await cliService.executeCommand("fix-dependencies", {
-      format: "text",
-    });
+    const removed = await tasksRepository.mutateTag(tag, (tasks) =>
+      applyDependencyFixes(
+        tasks,
+        selected.map((item) => item.fix)
+      )
+    );
     await onRefreshTasks();
 
-    // Parse the CLI output for clean user messages
-    if (result && result.toString().trim()) {
-      const resultText = result.toString().trim();
-      const parsed = parseDependencyFixOutput(resultText);
-
-      if (parsed.success) {
-        const message = parsed.details
-          ? `${parsed.message} (${parsed.details})`
-          : parsed.message;
-        vscode.window.showInformationMessage(message);
-      } else {
-        vscode.window.showWarningMessage(parsed.message);
-      }
-    } else {
-      vscode.window.showInformationMessage(
-        "Dependencies fixed successfully - no changes needed"
-      );
-    }
+    vscode.window.showInformationMessage(
+      `Removed ${removed} invalid ${
+        removed === 1 ? "dependency" : "dependencies"
+      }`
+    );
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to fix dependencies: ${error}`);
   }
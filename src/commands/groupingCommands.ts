@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { TaskTreeProvider } from "../providers/taskTreeProvider";
+import { TaskGroupMode, TaskSortMode } from "../utils/taskGrouping";
+
+const GROUP_MODE_KEY = "taskMaster.groupMode";
+const SORT_MODE_KEY = "taskMaster.sortMode";
+
+const GROUP_MODES: { mode: TaskGroupMode; label: string }[] = [
+  { mode: "none", label: "No Grouping" },
+  { mode: "status", label: "Status" },
+  { mode: "priority", label: "Priority" },
+  { mode: "complexity", label: "Complexity Band" },
+  { mode: "readiness", label: "Ready vs Blocked by Dependencies" },
+];
+
+const SORT_MODES: { mode: TaskSortMode; label: string }[] = [
+  { mode: "id", label: "ID" },
+  { mode: "priority", label: "Priority" },
+  { mode: "complexity", label: "Complexity (highest first)" },
+  { mode: "depth", label: "Dependency Depth (shallowest first)" },
+];
+
+/**
+ * Grouping and sorting of the task tree, persisted per workspace
+ */
+export class GroupingCommands {
+  private groupMode: TaskGroupMode;
+  private sortMode: TaskSortMode;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly taskTreeProvider: TaskTreeProvider
+  ) {
+    // Fall back to the defaults if a stored mode is no longer known
+    const groupMode = context.workspaceState.get<string>(GROUP_MODE_KEY);
+    const sortMode = context.workspaceState.get<string>(SORT_MODE_KEY);
+    this.groupMode =
+      GROUP_MODES.find(({ mode }) => mode === groupMode)?.mode ?? "none";
+    this.sortMode =
+      SORT_MODES.find(({ mode }) => mode === sortMode)?.mode ?? "id";
+    this.apply();
+  }
+
+  /**
+   * Pick how tasks are grouped
+   */
+  public async groupBy(mode?: TaskGroupMode): Promise<void> {
+    const selected = await this.resolveMode(
+      GROUP_MODES,
+      mode,
+      this.groupMode,
+      "Group tasks by"
+    );
+    if (!selected) {
+      return;
+    }
+    this.groupMode = selected;
+    await this.context.workspaceState.update(GROUP_MODE_KEY, selected);
+    this.apply();
+  }
+
+  /**
+   * Pick how tasks are ordered (within their group when grouping)
+   */
+  public async sortBy(mode?: TaskSortMode): Promise<void> {
+    const selected = await this.resolveMode(
+      SORT_MODES,
+      mode,
+      this.sortMode,
+      "Sort tasks by"
+    );
+    if (!selected) {
+      return;
+    }
+    this.sortMode = selected;
+    await this.context.workspaceState.update(SORT_MODE_KEY, selected);
+    this.apply();
+  }
+
+  /**
+   * Use the given mode if it is known, or let the user pick one
+   */
+  private async resolveMode<T extends string>(
+    modes: { mode: T; label: string }[],
+    mode: T | undefined,
+    current: T,
+    placeHolder: string
+  ): Promise<T | undefined> {
+    if (modes.some((known) => known.mode === mode)) {
+      return mode;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      modes.map(({ mode, label }) => ({
+        label,
+        description: mode === current ? "current" : undefined,
+        mode,
+      })),
+      { placeHolder }
+    );
+    return selected?.mode;
+  }
+
+  private apply(): void {
+    this.taskTreeProvider.setGrouping(this.groupMode, this.sortMode);
+  }
+
+  /**
+   * Register the grouping and sorting commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskTreeProvider: TaskTreeProvider
+  ): GroupingCommands {
+    const groupingCommands = new GroupingCommands(context, taskTreeProvider);
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "taskMaster.groupBy",
+        (mode?: TaskGroupMode) => groupingCommands.groupBy(mode)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.sortBy",
+        (mode?: TaskSortMode) => groupingCommands.sortBy(mode)
+      )
+    );
+
+    return groupingCommands;
+  }
+}
@@ -0,0 +1,123 @@
+import * as vscode from "vscode";
+import { JournalConflictError } from "../services/operationJournal";
+import { TaskManagerService } from "../services/taskManagerService";
+
+/**
+ * Command handlers for undoing and redoing task changes
+ */
+
+/**
+ * Undo the most recent task change
+ */
+export async function undoLastChange(
+  taskManagerService: TaskManagerService
+): Promise<void> {
+  const entry = await runWithConflictPrompt("Undo", (force) =>
+    taskManagerService.undo(force)
+  );
+  if (entry) {
+    vscode.window.showInformationMessage(`Undid: ${entry.label}`);
+  } else if (entry === undefined) {
+    vscode.window.showInformationMessage("Nothing to undo");
+  }
+}
+
+/**
+ * Redo the most recently undone task change
+ */
+export async function redoLastChange(
+  taskManagerService: TaskManagerService
+): Promise<void> {
+  const entry = await runWithConflictPrompt("Redo", (force) =>
+    taskManagerService.redo(force)
+  );
+  if (entry) {
+    vscode.window.showInformationMessage(`Redid: ${entry.label}`);
+  } else if (entry === undefined) {
+    vscode.window.showInformationMessage("Nothing to redo");
+  }
+}
+
+/**
+ * Show recent task changes and undo back to the selected one
+ */
+export async function showRecentChanges(
+  taskManagerService: TaskManagerService
+): Promise<void> {
+  const history = taskManagerService.getChangeHistory();
+  if (history.length === 0) {
+    vscode.window.showInformationMessage("No recent task changes to undo");
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    history.map((entry, index) => ({
+      label: entry.label,
+      description: `${entry.changes
+        .map((change) => change.tag)
+        .join(", ")} · ${formatTime(entry.timestamp)}`,
+      detail:
+        index === 0
+          ? "Undo this change"
+          : `Undo this change and the ${index} after it`,
+      entry,
+    })),
+    {
+      placeHolder: "Select a change to undo (later changes are undone too)",
+    }
+  );
+  if (!selected) {
+    return;
+  }
+
+  const undone = await runWithConflictPrompt("Undo", (force) =>
+    taskManagerService.undoTo(selected.entry.id, force)
+  );
+  if (undone) {
+    vscode.window.showInformationMessage(
+      `Undid ${undone.length} change${undone.length === 1 ? "" : "s"}`
+    );
+  }
+}
+
+/**
+ * Run an undo/redo action, asking before overwriting changes made since
+ * Returns null when the user declined or the action failed
+ */
+async function runWithConflictPrompt<T>(
+  actionName: string,
+  action: (force: boolean) => Promise<T>
+): Promise<T | null> {
+  try {
+    return await action(false);
+  } catch (error) {
+    if (!(error instanceof JournalConflictError)) {
+      vscode.window.showErrorMessage(
+        `Failed to ${actionName.toLowerCase()}: ${error}`
+      );
+      return null;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `${error.message}. ${actionName} anyway?`,
+      { modal: true },
+      actionName
+    );
+    if (choice !== actionName) {
+      return null;
+    }
+
+    try {
+      return await action(true);
+    } catch (forceError) {
+      vscode.window.showErrorMessage(
+        `Failed to ${actionName.toLowerCase()}: ${forceError}`
+      );
+      return null;
+    }
+  }
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import { CLIJobRunner } from "../services/cliJobRunner";
+import { CLIJobsService } from "../services/cliJobsService";
+
+/**
+ * Command handlers for queued and running CLI jobs
+ */
+
+/**
+ * List queued and running CLI jobs and kill the selected one
+ */
+export async function showRunningJobs(
+  jobRunner: CLIJobRunner,
+  cliJobsService: CLIJobsService
+): Promise<void> {
+  const jobs = jobRunner.getJobs();
+  if (jobs.length === 0) {
+    const choice = await vscode.window.showInformationMessage(
+      "No Task Master CLI jobs are running",
+      "Show Output"
+    );
+    if (choice === "Show Output") {
+      cliJobsService.showOutput();
+    }
+    return;
+  }
+
+  const now = Date.now();
+  const selected = await vscode.window.showQuickPick(
+    jobs.map((job) => ({
+      label: job.label,
+      description:
+        job.state === "running"
+          ? `running ${Math.round((now - (job.startedAt ?? now)) / 1000)}s`
+          : "queued",
+      detail: job.cwd,
+      job,
+    })),
+    { placeHolder: "Select a CLI job to kill" }
+  );
+  if (!selected) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Kill "${selected.job.label}"?`,
+    { modal: true },
+    "Kill"
+  );
+  if (confirm !== "Kill") {
+    return;
+  }
+
+  if (!jobRunner.cancel(selected.job.id)) {
+    vscode.window.showInformationMessage(
+      `"${selected.job.label}" already finished`
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import { TaskTreeItem } from "../providers/taskTreeProvider";
+import { ConfigService } from "../services/configService";
+import { TaskManagerService } from "../services/taskManagerService";
+import { TaskStatus } from "../types";
+import {
+  compileTaskReferencePattern,
+  DEFAULT_TASK_REFERENCE_PATTERN,
+  taskReferenceSearchPattern,
+} from "../utils/taskReferences";
+
+/**
+ * Commands behind task references in source code: status changes from
+ * hovers and CodeLens, and a workspace search for references to a task
+ */
+export class ReferenceCommands {
+  constructor(private readonly taskManagerService: TaskManagerService) {}
+
+  /**
+   * Set the status of a referenced task or subtask
+   */
+  public async setStatus(id: string, status: TaskStatus): Promise<void> {
+    try {
+      await this.taskManagerService.updateTaskFields(id, { status });
+      vscode.window.showInformationMessage(`Task ${id} set to ${status}`);
+    } catch (error) {
+      console.error(`Error setting status of task ${id}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to set status of task ${id}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Search the workspace for references to a task or subtask
+   * References to a task also find those to its subtasks ("TM-42.3")
+   */
+  public async findReferences(item?: TaskTreeItem): Promise<void> {
+    let id = item?.getFullId();
+    if (!id) {
+      id = await vscode.window.showInputBox({
+        prompt: "Find references to task",
+        placeHolder: "Task or subtask ID, e.g. 42 or 42.3",
+        validateInput: (value) =>
+          /^\d+(\.\d+)?$/.test(value.trim())
+            ? undefined
+            : "Enter a task or subtask ID",
+      });
+      if (!id) {
+        return;
+      }
+    }
+
+    const configured = ConfigService.getCodeReferenceConfig().pattern;
+    const pattern = compileTaskReferencePattern(configured)
+      ? configured
+      : DEFAULT_TASK_REFERENCE_PATTERN;
+    await vscode.commands.executeCommand("workbench.action.findInFiles", {
+      query: taskReferenceSearchPattern(pattern, id.trim()),
+      isRegex: true,
+      isCaseSensitive: true,
+      triggerSearch: true,
+    });
+  }
+
+  /**
+   * Register the task reference commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskManagerService: TaskManagerService
+  ): void {
+    const referenceCommands = new ReferenceCommands(taskManagerService);
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "taskMaster.setReferencedTaskStatus",
+        (id: string, status: TaskStatus) =>
+          referenceCommands.setStatus(id, status)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.findTaskReferences",
+        (item?: TaskTreeItem) => referenceCommands.findReferences(item)
+      )
+    );
+  }
+}
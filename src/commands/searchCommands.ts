@@ -0,0 +1,229 @@
+import * as vscode from "vscode";
+import { TaskTreeProvider } from "../providers/taskTreeProvider";
+import { TaskManagerService } from "../services/taskManagerService";
+import {
+  isEmptySearchQuery,
+  parseSearchQuery,
+  searchTasks,
+  TaskSearchMatch,
+} from "../utils/taskSearch";
+
+const SEARCH_QUERY_KEY = "taskMaster.searchQuery";
+
+/** Number of matching subtasks revealed at most after a search */
+const MAX_REVEALED_SUBTASKS = 20;
+
+/**
+ * Search of the task tree
+ * The query filters the tree live while it is typed, is re-applied whenever
+ * the tasks or the tag change and persists per workspace. A tag qualifier
+ * naming another tag searches that tag's tasks; accepting the query
+ * switches the tree to it
+ */
+export class SearchCommands implements vscode.Disposable {
+  private query: string;
+  /** Incremented per applied query so stale results are dropped */
+  private applyCount = 0;
+
+  private readonly onTasksChanged = () => this.apply(this.query);
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly taskManagerService: TaskManagerService,
+    private readonly taskTreeProvider: TaskTreeProvider,
+    private readonly treeView: vscode.TreeView<unknown>
+  ) {
+    this.query = context.workspaceState.get<string>(SEARCH_QUERY_KEY, "");
+    this.taskManagerService.on("tasksUpdated", this.onTasksChanged);
+    this.taskManagerService.on("currentTagChanged", this.onTasksChanged);
+    this.apply(this.query);
+  }
+
+  /**
+   * Edit the search query in a filter box, filtering the tree as it changes
+   * Escape restores the previous query
+   */
+  public search(): void {
+    const previous = this.query;
+    let accepted = false;
+
+    const input = vscode.window.createInputBox();
+    input.title = "Search Tasks";
+    input.placeholder =
+      'Text, "phrase", status:pending priority:high dep:12 complexity:>7 tag:feature-x';
+    input.prompt = "Fuzzy-matches titles, descriptions, details and subtasks";
+    input.value = this.query;
+
+    input.onDidChangeValue(async (value) => {
+      input.validationMessage = parseSearchQuery(value).errors.join("; ");
+      await this.apply(value);
+    });
+    input.onDidAccept(() => {
+      accepted = true;
+      input.hide();
+      this.setQuery(input.value.trim(), true);
+    });
+    input.onDidHide(() => {
+      if (!accepted) {
+        this.apply(previous);
+      }
+      input.dispose();
+    });
+    input.show();
+  }
+
+  /**
+   * Show all tasks again
+   */
+  public async clearSearch(): Promise<void> {
+    await this.setQuery("", false);
+  }
+
+  /**
+   * Apply and persist a query; a tag qualifier naming another tag switches
+   * to that tag first
+   */
+  private async setQuery(query: string, reveal: boolean): Promise<void> {
+    this.query = query;
+    await this.context.workspaceState.update(SEARCH_QUERY_KEY, query);
+
+    try {
+      const { tag } = parseSearchQuery(query);
+      if (tag && tag !== this.taskManagerService.getCurrentTag()) {
+        const tagInfos = await this.taskManagerService.getAllTags();
+        if (tagInfos.some((tagInfo) => tagInfo.name === tag)) {
+          await this.taskManagerService.setCurrentTag(tag);
+        }
+      }
+    } catch (error) {
+      console.error("Error switching tag for search:", error);
+    }
+
+    const matches = await this.apply(this.query);
+    if (reveal && matches.length > 0) {
+      await this.reveal(matches);
+    }
+  }
+
+  /**
+   * Filter the tree by a query and describe the outcome above it
+   * Matches in a tag other than the current one are only counted, as the
+   * tree shows the current tag
+   */
+  private async apply(query: string): Promise<TaskSearchMatch[]> {
+    const applyId = ++this.applyCount;
+    const parsed = parseSearchQuery(query);
+    const active = !isEmptySearchQuery(parsed);
+    vscode.commands.executeCommand(
+      "setContext",
+      "taskMaster.searchActive",
+      active
+    );
+    if (!active) {
+      this.taskTreeProvider.setSearchResults(undefined);
+      this.treeView.message = undefined;
+      return [];
+    }
+
+    const currentTag = this.taskManagerService.getCurrentTag();
+    const tag = parsed.tag ?? currentTag;
+    let tasks = this.taskManagerService.getTasks();
+    let tagExists = true;
+    if (tag !== currentTag) {
+      try {
+        const tagInfos = await this.taskManagerService.getAllTags();
+        tagExists = tagInfos.some((tagInfo) => tagInfo.name === tag);
+        tasks = tagExists
+          ? await this.taskManagerService.getTasksByTag(tag)
+          : [];
+      } catch (error) {
+        console.error(`Error reading tag ${tag} for search:`, error);
+        tasks = [];
+      }
+    }
+    if (applyId !== this.applyCount) {
+      return [];
+    }
+
+    const matches = searchTasks(tasks, parsed);
+    if (tag !== currentTag) {
+      this.taskTreeProvider.setSearchResults([]);
+      this.treeView.message = tagExists
+        ? `Search "${query}": ${matches.length} of ${tasks.length} tasks ` +
+          `in tag "${tag}". Accept the search to switch to it`
+        : `No tag "${tag}" to search`;
+      return [];
+    }
+
+    this.taskTreeProvider.setSearchResults(matches);
+    this.treeView.message =
+      matches.length > 0
+        ? `Search "${query}": ${matches.length} of ${tasks.length} tasks`
+        : `No tasks match "${query}"`;
+    return matches;
+  }
+
+  /**
+   * Reveal the matching subtasks and select the first match
+   */
+  private async reveal(matches: TaskSearchMatch[]): Promise<void> {
+    try {
+      const subtaskMatches = matches
+        .flatMap((match) =>
+          [...match.subtasks.keys()].map((subtaskId) => ({
+            taskId: match.taskId,
+            subtaskId,
+          }))
+        )
+        .slice(0, MAX_REVEALED_SUBTASKS);
+      for (const { taskId, subtaskId } of subtaskMatches) {
+        const item = this.taskTreeProvider.getTaskItem(taskId, subtaskId);
+        if (item) {
+          await this.treeView.reveal(item, { select: false, focus: false });
+        }
+      }
+
+      const first = this.taskTreeProvider.getTaskItem(matches[0].taskId);
+      if (first) {
+        await this.treeView.reveal(first, { select: true, focus: true });
+      }
+    } catch (error) {
+      // Revealing is best effort; the tree may be hidden or refreshing
+      console.warn("Could not reveal search results:", error);
+    }
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("tasksUpdated", this.onTasksChanged);
+    this.taskManagerService.off("currentTagChanged", this.onTasksChanged);
+  }
+
+  /**
+   * Register the search commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskManagerService: TaskManagerService,
+    taskTreeProvider: TaskTreeProvider,
+    treeView: vscode.TreeView<unknown>
+  ): SearchCommands {
+    const searchCommands = new SearchCommands(
+      context,
+      taskManagerService,
+      taskTreeProvider,
+      treeView
+    );
+
+    context.subscriptions.push(
+      searchCommands,
+      vscode.commands.registerCommand("taskMaster.search", () =>
+        searchCommands.search()
+      ),
+      vscode.commands.registerCommand("taskMaster.clearSearch", () =>
+        searchCommands.clearSearch()
+      )
+    );
+
+    return searchCommands;
+  }
+}
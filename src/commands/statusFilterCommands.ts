@@ -0,0 +1,125 @@
+import * as vscode from "vscode";
+import { TaskTreeProvider } from "../providers/taskTreeProvider";
+import { VALID_TASK_STATUSES } from "../services/tasksRepository";
+import { TaskStatus } from "../types";
+
+const HIDDEN_STATUSES_KEY = "taskMaster.hiddenStatuses";
+
+const COMPLETED_STATUSES: TaskStatus[] = ["done", "cancelled"];
+
+/**
+ * Per-status visibility of tasks and subtasks in the task tree
+ * The hidden statuses persist per workspace, independent of the tag, and
+ * are mirrored into "taskMaster.statusHidden.<status>" context keys so the
+ * Status Visibility menu offers the matching Hide/Show toggle
+ */
+export class StatusFilterCommands {
+  private hiddenStatuses: TaskStatus[];
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly taskTreeProvider: TaskTreeProvider
+  ) {
+    const stored = context.workspaceState.get<string[]>(
+      HIDDEN_STATUSES_KEY,
+      []
+    );
+    this.hiddenStatuses = VALID_TASK_STATUSES.filter((status) =>
+      stored.includes(status)
+    );
+    this.apply();
+  }
+
+  /**
+   * Show or hide the tasks and subtasks of one status
+   */
+  public async setStatusHidden(
+    status: TaskStatus,
+    hidden: boolean
+  ): Promise<void> {
+    const statuses = new Set(this.hiddenStatuses);
+    if (hidden) {
+      statuses.add(status);
+    } else {
+      statuses.delete(status);
+    }
+    await this.update(VALID_TASK_STATUSES.filter((s) => statuses.has(s)));
+  }
+
+  /**
+   * Hide done and cancelled tasks
+   */
+  public async hideCompleted(): Promise<void> {
+    await this.update(
+      VALID_TASK_STATUSES.filter(
+        (status) =>
+          this.hiddenStatuses.includes(status) ||
+          COMPLETED_STATUSES.includes(status)
+      )
+    );
+  }
+
+  /**
+   * Show tasks of every status again
+   */
+  public async showAllStatuses(): Promise<void> {
+    await this.update([]);
+  }
+
+  private async update(hiddenStatuses: TaskStatus[]): Promise<void> {
+    this.hiddenStatuses = hiddenStatuses;
+    await this.context.workspaceState.update(
+      HIDDEN_STATUSES_KEY,
+      hiddenStatuses
+    );
+    this.apply();
+  }
+
+  private apply(): void {
+    this.taskTreeProvider.setHiddenStatuses(this.hiddenStatuses);
+    for (const status of VALID_TASK_STATUSES) {
+      vscode.commands.executeCommand(
+        "setContext",
+        `taskMaster.statusHidden.${status}`,
+        this.hiddenStatuses.includes(status)
+      );
+    }
+    vscode.commands.executeCommand(
+      "setContext",
+      "taskMaster.anyStatusHidden",
+      this.hiddenStatuses.length > 0
+    );
+  }
+
+  /**
+   * Register the status visibility commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskTreeProvider: TaskTreeProvider
+  ): StatusFilterCommands {
+    const statusFilterCommands = new StatusFilterCommands(
+      context,
+      taskTreeProvider
+    );
+
+    context.subscriptions.push(
+      ...VALID_TASK_STATUSES.flatMap((status) => [
+        vscode.commands.registerCommand(`taskMaster.hideStatus.${status}`, () =>
+          statusFilterCommands.setStatusHidden(status, true)
+        ),
+        vscode.commands.registerCommand(`taskMaster.showStatus.${status}`, () =>
+          statusFilterCommands.setStatusHidden(status, false)
+        ),
+      ]),
+      vscode.commands.registerCommand("taskMaster.hideCompleted", () =>
+        statusFilterCommands.hideCompleted()
+      ),
+      vscode.commands.registerCommand("taskMaster.showAllStatuses", () =>
+        statusFilterCommands.showAllStatuses()
+      )
+    );
+
+    return statusFilterCommands;
+  }
+}
@@ -1,6 +1,37 @@
 import * as vscode from "vscode";
+import { TagOverviewItem } from "../providers/tagOverviewProvider";
+import { TaskTreeItem } from "../providers/taskTreeProvider";
 import { TaskManagerService } from "../services/taskManagerService";
 import { TagInfo } from "../types";
+import { isValidTagName } from "../utils/cliCommandBuilder";
+import {
+  planTagTransfer,
+  TagTransferMode,
+  TagTransferPlan,
+  TransferredDependency,
+} from "../utils/tagTransfer";
+
+/**
+ * The CLI refuses to rename or delete the default tag
+ */
+const DEFAULT_TAG = "master";
+
+const RENAME_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("edit"),
+  tooltip: "Rename Tag",
+};
+const DESCRIBE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("note"),
+  tooltip: "Edit Description",
+};
+const DELETE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("trash"),
+  tooltip: "Delete Tag",
+};
+
+interface TagPickItem extends vscode.QuickPickItem {
+  tagName?: string;
+}
 
 /**
  * Commands for tag management and tag switching functionality
@@ -10,54 +41,92 @@ export class TagCommands {
 
   /**
    * Show tag selector dropdown and switch to selected tag
+   * Each tag offers rename, describe and delete buttons, and the list ends
+   * with an entry for creating a tag
    */
   public async selectTag(): Promise<void> {
     try {
       // Get all available tags
       const tagInfos: TagInfo[] = await this.taskManagerService.getAllTags();
 
-      if (tagInfos.length === 0) {
-        vscode.window.showWarningMessage("No tags available");
-        return;
-      }
-
       // Get current tag for pre-selection
       const currentTag = this.taskManagerService.getCurrentTag();
 
       // Create quick pick items
-      const tagItems = tagInfos.map((tagInfo) => ({
-        label: tagInfo.name,
+      const tagItems: TagPickItem[] = tagInfos.map((tagInfo) => ({
+        label: `${tagInfo.name === currentTag ? "$(check)" : "$(tag)"} ${
+          tagInfo.name
+        }`,
         description: `${tagInfo.taskCount} tasks`,
         detail: tagInfo.description || `Tasks in ${tagInfo.name} tag`,
         tagName: tagInfo.name,
-        picked: tagInfo.name === currentTag,
+        buttons:
+          tagInfo.name === DEFAULT_TAG
+            ? [DESCRIBE_BUTTON]
+            : [RENAME_BUTTON, DESCRIBE_BUTTON, DELETE_BUTTON],
       }));
+      const createItem: TagPickItem = { label: "$(add) Create New Tag..." };
+
+      const choice = await new Promise<
+        { item: TagPickItem; button?: vscode.QuickInputButton } | undefined
+      >((resolve) => {
+        const quickPick = vscode.window.createQuickPick<TagPickItem>();
+        quickPick.title = "Switch Tag Context";
+        quickPick.placeholder = `Select a tag (current: ${currentTag})`;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = [
+          ...tagItems,
+          { label: "", kind: vscode.QuickPickItemKind.Separator },
+          createItem,
+        ];
+        quickPick.activeItems = tagItems.filter(
+          (item) => item.tagName === currentTag
+        );
 
-      // Show tag selector dropdown
-      const selectedTag = await vscode.window.showQuickPick(tagItems, {
-        placeHolder: `Select a tag (current: ${currentTag})`,
-        title: "Switch Tag Context",
-        matchOnDescription: true,
-        matchOnDetail: true,
-        canPickMany: false,
+        quickPick.onDidAccept(() => {
+          const [item] = quickPick.selectedItems;
+          resolve(item ? { item } : undefined);
+          quickPick.hide();
+        });
+        quickPick.onDidTriggerItemButton(({ item, button }) => {
+          resolve({ item, button });
+          quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+          resolve(undefined);
+          quickPick.dispose();
+        });
+        quickPick.show();
       });
 
-      if (selectedTag && selectedTag.tagName !== currentTag) {
-        // Switch to selected tag
+      if (!choice) {
+        return;
+      }
+      const { item, button } = choice;
+
+      if (item === createItem) {
+        await this.createTag();
+      } else if (!item.tagName) {
+        return;
+      } else if (button === RENAME_BUTTON) {
+        await this.renameTag(item.tagName);
+      } else if (button === DESCRIBE_BUTTON) {
+        await this.editTagDescription(item.tagName);
+      } else if (button === DELETE_BUTTON) {
+        await this.deleteTag(item.tagName);
+      } else if (item.tagName !== currentTag) {
+        // Switch to selected tag; the tag change event announces it
         const success = await this.taskManagerService.setCurrentTag(
-          selectedTag.tagName
+          item.tagName
         );
 
-        if (success) {
-          vscode.window.showInformationMessage(
-            `Switched to tag: ${selectedTag.tagName} (${selectedTag.description})`
-          );
-        } else {
+        if (!success) {
           vscode.window.showErrorMessage(
-            `Failed to switch to tag: ${selectedTag.tagName}`
+            `Failed to switch to tag: ${item.tagName}`
           );
         }
-      } else if (selectedTag && selectedTag.tagName === currentTag) {
+      } else {
         vscode.window.showInformationMessage(
           `Already using tag: ${currentTag}`
         );
@@ -68,6 +137,346 @@ export class TagCommands {
     }
   }
 
+  /**
+   * Create a tag, either empty or as a copy of another tag
+   */
+  public async createTag(): Promise<void> {
+    try {
+      const tagInfos = await this.taskManagerService.getAllTags();
+      const currentTag = this.taskManagerService.getCurrentTag();
+
+      const name = await vscode.window.showInputBox({
+        title: "Create Tag",
+        prompt: "Name of the new tag",
+        placeHolder: "e.g. feature-login",
+        ignoreFocusOut: true,
+        validateInput: (value) => validateNewTagName(value, tagInfos),
+      });
+      if (!name) {
+        return;
+      }
+
+      const source = await vscode.window.showQuickPick(
+        [
+          { label: "$(file) Empty tag", copyFrom: undefined },
+          ...tagInfos.map((tagInfo) => ({
+            label: `$(copy) Copy from ${tagInfo.name}`,
+            description: `${tagInfo.taskCount} tasks${
+              tagInfo.name === currentTag ? " (current)" : ""
+            }`,
+            copyFrom: tagInfo.name,
+          })),
+        ],
+        {
+          title: `Create Tag: ${name.trim()}`,
+          placeHolder: "Start the tag empty or copy the tasks of another tag",
+          ignoreFocusOut: true,
+        }
+      );
+      if (!source) {
+        return;
+      }
+
+      const description = await vscode.window.showInputBox({
+        title: `Create Tag: ${name.trim()}`,
+        prompt: "Description (optional)",
+        ignoreFocusOut: true,
+      });
+      if (description === undefined) {
+        return;
+      }
+
+      const tagName = name.trim();
+      const success = await this.taskManagerService.addTag(tagName, {
+        copyFrom: source.copyFrom,
+        description: description.trim() || undefined,
+      });
+      if (!success) {
+        vscode.window.showErrorMessage(`Failed to create tag: ${tagName}`);
+        return;
+      }
+
+      const action = await vscode.window.showInformationMessage(
+        `Created tag: ${tagName}`,
+        "Switch to Tag"
+      );
+      if (action === "Switch to Tag") {
+        await this.quickSwitchTag(tagName);
+      }
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      vscode.window.showErrorMessage(`Failed to create tag: ${error}`);
+    }
+  }
+
+  /**
+   * Rename a tag, picking it first when no name is given
+   */
+  public async renameTag(tagName?: string): Promise<void> {
+    try {
+      const tagInfos = await this.taskManagerService.getAllTags();
+      const tag = await this.resolveTag(
+        tagInfos,
+        tagName,
+        "Select a tag to rename",
+        true
+      );
+      if (!tag) {
+        return;
+      }
+
+      const newName = await vscode.window.showInputBox({
+        title: `Rename Tag: ${tag.name}`,
+        prompt: "New name of the tag",
+        value: tag.name,
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value.trim() === tag.name
+            ? null
+            : validateNewTagName(value, tagInfos),
+      });
+      if (!newName || newName.trim() === tag.name) {
+        return;
+      }
+
+      const success = await this.taskManagerService.renameTag(
+        tag.name,
+        newName.trim()
+      );
+      if (success) {
+        vscode.window.showInformationMessage(
+          `Renamed tag ${tag.name} to ${newName.trim()}`
+        );
+      } else {
+        vscode.window.showErrorMessage(`Failed to rename tag: ${tag.name}`);
+      }
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      vscode.window.showErrorMessage(`Failed to rename tag: ${error}`);
+    }
+  }
+
+  /**
+   * Delete a tag after confirming how many tasks go with it
+   */
+  public async deleteTag(tagName?: string): Promise<void> {
+    try {
+      const tagInfos = await this.taskManagerService.getAllTags();
+      const tag = await this.resolveTag(
+        tagInfos,
+        tagName,
+        "Select a tag to delete",
+        true
+      );
+      if (!tag) {
+        return;
+      }
+
+      const isCurrent = tag.name === this.taskManagerService.getCurrentTag();
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete tag "${tag.name}" and its ${tag.taskCount} ${
+          tag.taskCount === 1 ? "task" : "tasks"
+        }?`,
+        {
+          modal: true,
+          detail: isCurrent
+            ? `Task Master will switch to ${DEFAULT_TAG}.`
+            : undefined,
+        },
+        "Delete"
+      );
+      if (confirm !== "Delete") {
+        return;
+      }
+
+      const success = await this.taskManagerService.deleteTag(tag.name);
+      if (success) {
+        vscode.window.showInformationMessage(`Deleted tag: ${tag.name}`);
+      } else {
+        vscode.window.showErrorMessage(`Failed to delete tag: ${tag.name}`);
+      }
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      vscode.window.showErrorMessage(`Failed to delete tag: ${error}`);
+    }
+  }
+
+  /**
+   * Edit the description of a tag; an empty description clears it
+   */
+  public async editTagDescription(tagName?: string): Promise<void> {
+    try {
+      const tagInfos = await this.taskManagerService.getAllTags();
+      const tag = await this.resolveTag(
+        tagInfos,
+        tagName,
+        "Select a tag to describe",
+        false
+      );
+      if (!tag) {
+        return;
+      }
+
+      const description = await vscode.window.showInputBox({
+        title: `Describe Tag: ${tag.name}`,
+        prompt: "Description of the tag (leave empty to clear)",
+        value: tag.description || "",
+        ignoreFocusOut: true,
+      });
+      if (description === undefined) {
+        return;
+      }
+
+      const success = await this.taskManagerService.setTagDescription(
+        tag.name,
+        description
+      );
+      if (!success) {
+        vscode.window.showErrorMessage(
+          `Failed to update the description of tag: ${tag.name}`
+        );
+      }
+    } catch (error) {
+      console.error("Error describing tag:", error);
+      vscode.window.showErrorMessage(`Failed to describe tag: ${error}`);
+    }
+  }
+
+  /**
+   * Move or copy tasks of the current tag into another tag
+   * Works on the tree selection, or asks for the tasks when invoked without
+   * one, and confirms the renumbering and dependency changes before applying
+   */
+  public async transferTasks(
+    mode: TagTransferMode,
+    item?: TaskTreeItem,
+    selection?: TaskTreeItem[]
+  ): Promise<void> {
+    const verb = mode === "move" ? "Move" : "Copy";
+    try {
+      const currentTag = this.taskManagerService.getCurrentTag();
+      const sourceTasks = this.taskManagerService.getTasks();
+
+      let taskIds = (selection?.length ? selection : item ? [item] : [])
+        .filter((treeItem) => treeItem.task && !treeItem.isSubtask)
+        .map((treeItem) => treeItem.task!.id);
+      if (taskIds.length === 0) {
+        const picked = await vscode.window.showQuickPick(
+          sourceTasks.map((task) => ({
+            label: `${task.id}: ${task.title}`,
+            description: task.status,
+            id: task.id,
+          })),
+          { placeHolder: `Select tasks to ${mode}`, canPickMany: true }
+        );
+        if (!picked || picked.length === 0) {
+          return;
+        }
+        taskIds = picked.map((pickedItem) => pickedItem.id);
+      }
+
+      const tagInfos = (await this.taskManagerService.getAllTags()).filter(
+        (tagInfo) => tagInfo.name !== currentTag
+      );
+      if (tagInfos.length === 0) {
+        vscode.window.showInformationMessage(
+          "No other tags available. Create a tag first."
+        );
+        return;
+      }
+      const destination = await vscode.window.showQuickPick(
+        tagInfos.map((tagInfo) => ({
+          label: tagInfo.name,
+          description: `${tagInfo.taskCount} tasks`,
+          detail: tagInfo.description,
+        })),
+        {
+          placeHolder: `${verb} ${taskIds.length} ${
+            taskIds.length === 1 ? "task" : "tasks"
+          } from ${currentTag} to...`,
+        }
+      );
+      if (!destination) {
+        return;
+      }
+
+      const plan = planTagTransfer(
+        sourceTasks,
+        await this.taskManagerService.getTasksByTag(destination.label),
+        taskIds,
+        mode
+      );
+      const confirm = await vscode.window.showWarningMessage(
+        `${verb} ${plan.tasks.length} ${
+          plan.tasks.length === 1 ? "task" : "tasks"
+        } from ${currentTag} to ${destination.label}?`,
+        { modal: true, detail: describeTransferPlan(plan) },
+        verb
+      );
+      if (confirm !== verb) {
+        return;
+      }
+
+      await this.taskManagerService.transferTasks(
+        taskIds,
+        destination.label,
+        mode
+      );
+      vscode.window.showInformationMessage(
+        `${mode === "move" ? "Moved" : "Copied"} ${plan.renumbered
+          .map(({ from, to }) => `${from} → ${to}`)
+          .join(", ")} to ${destination.label}`
+      );
+    } catch (error) {
+      console.error(`Error transferring tasks (${mode}):`, error);
+      vscode.window.showErrorMessage(
+        `Failed to ${mode} tasks to another tag: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Find a tag by name, or let the user pick one
+   */
+  private async resolveTag(
+    tagInfos: TagInfo[],
+    tagName: string | undefined,
+    placeHolder: string,
+    excludeDefault: boolean
+  ): Promise<TagInfo | undefined> {
+    if (tagName) {
+      const tag = tagInfos.find((tagInfo) => tagInfo.name === tagName);
+      if (!tag) {
+        vscode.window.showWarningMessage(`Tag not found: ${tagName}`);
+      } else if (excludeDefault && tag.name === DEFAULT_TAG) {
+        vscode.window.showWarningMessage(
+          `The ${DEFAULT_TAG} tag cannot be renamed or deleted`
+        );
+        return undefined;
+      }
+      return tag;
+    }
+
+    const candidates = tagInfos.filter(
+      (tagInfo) => !excludeDefault || tagInfo.name !== DEFAULT_TAG
+    );
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage("No tags available");
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      candidates.map((tagInfo) => ({
+        label: tagInfo.name,
+        description: `${tagInfo.taskCount} tasks`,
+        detail: tagInfo.description,
+        tagInfo,
+      })),
+      { placeHolder }
+    );
+    return selected?.tagInfo;
+  }
+
   /**
    * Show current tag information
    */
@@ -100,11 +509,10 @@ export class TagCommands {
     }
 
     try {
+      // The tag change event announces a successful switch
       const success = await this.taskManagerService.setCurrentTag(tagName);
 
-      if (success) {
-        vscode.window.showInformationMessage(`Switched to tag: ${tagName}`);
-      } else {
+      if (!success) {
         vscode.window.showErrorMessage(`Failed to switch to tag: ${tagName}`);
       }
     } catch (error) {
@@ -153,13 +561,106 @@ export class TagCommands {
       (tagName?: string) => tagCommands.quickSwitchTag(tagName)
     );
 
+    // Switch from the All Tags overview
+    const switchToTagDisposable = vscode.commands.registerCommand(
+      "taskMaster.switchToTag",
+      (item?: TagOverviewItem) => tagCommands.quickSwitchTag(item?.tagInfo.name)
+    );
+
+    // Register tag management commands
+    const managementDisposables = [
+      vscode.commands.registerCommand("taskMaster.createTag", () =>
+        tagCommands.createTag()
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.renameTag",
+        (tagName?: string) => tagCommands.renameTag(tagName)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.deleteTag",
+        (tagName?: string) => tagCommands.deleteTag(tagName)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.editTagDescription",
+        (tagName?: string) => tagCommands.editTagDescription(tagName)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.moveToTag",
+        (item?: TaskTreeItem, selection?: TaskTreeItem[]) =>
+          tagCommands.transferTasks("move", item, selection)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.copyToTag",
+        (item?: TaskTreeItem, selection?: TaskTreeItem[]) =>
+          tagCommands.transferTasks("copy", item, selection)
+      ),
+    ];
+
     // Add disposables to context
     context.subscriptions.push(
       selectTagDisposable,
       showTagInfoDisposable,
-      quickSwitchDisposable
+      quickSwitchDisposable,
+      switchToTagDisposable,
+      ...managementDisposables
     );
 
     return tagCommands;
   }
 }
+
+/**
+ * Validate the name of a new tag against the CLI rules and existing tags
+ */
+function validateNewTagName(value: string, tagInfos: TagInfo[]): string | null {
+  const name = value.trim();
+  if (name === "") {
+    return "Enter a tag name";
+  }
+  if (!isValidTagName(name)) {
+    return "Use letters, numbers, hyphens and underscores only";
+  }
+  if (tagInfos.some((tagInfo) => tagInfo.name === name)) {
+    return `Tag "${name}" already exists`;
+  }
+  return null;
+}
+
+/**
+ * Summarize the renumbering and dependency changes of a tag transfer
+ */
+function describeTransferPlan(plan: TagTransferPlan): string {
+  const formatReferences = (references: TransferredDependency[]) =>
+    references
+      .map(
+        ({ taskId, dependency, to }) =>
+          `  ${taskId} → ${dependency}${to ? ` (now ${to})` : ""}`
+      )
+      .join("\n");
+
+  const sections = [
+    `Renumbered:\n${plan.renumbered
+      .map(({ from, to, title }) => `  ${from} → ${to}: ${title}`)
+      .join("\n")}`,
+  ];
+  if (plan.rewritten.length > 0) {
+    sections.push(
+      `Dependencies rewritten:\n${formatReferences(plan.rewritten)}`
+    );
+  }
+  if (plan.dropped.length > 0) {
+    sections.push(
+      `Dependencies dropped (not transferred):\n${formatReferences(
+        plan.dropped
+      )}`
+    );
+  }
+  if (plan.detached.length > 0) {
+    sections.push(
+      `Dependencies removed from tasks staying behind:\n${formatReferences(
+        plan.detached
+      )}`
+    );
+  }
+  return sections.join("\n\n");
+}
@@ -1,10 +1,16 @@
 import * as vscode from "vscode";
+import { CLIJobCancelledError } from "../services/cliJobRunner";
 import { CLIService } from "../services/cliService";
+import { TasksRepository } from "../services/tasksRepository";
 import {
-  parseTaskCreationOutput,
-  parseTaskDeletionOutput,
-} from "../utils/outputParser";
-import { findDependents } from "../utils/taskUtils";
+  buildAddTaskCommand,
+  buildAnalyzeComplexityCommand,
+  buildExpandAllCommand,
+  buildExpandCommand,
+  buildUpdateTaskCommand,
+} from "../utils/cliCommandBuilder";
+import { findTaskDependents } from "../utils/dependencyAnalyzer";
+import { parseTaskCreationOutput } from "../utils/outputParser";
 
 /**
  * Command handlers for basic task operations
@@ -33,10 +39,10 @@ export async function addTask(
   // Prompt for priority (optional)
   const priority = await vscode.window.showQuickPick(
     [
-      { label: "Skip (use default)", value: "" },
-      { label: "High", value: "high" },
-      { label: "Medium", value: "medium" },
-      { label: "Low", value: "low" },
+      { label: "Skip (use default)", value: undefined },
+      { label: "High", value: "high" as const },
+      { label: "Medium", value: "medium" as const },
+      { label: "Low", value: "low" as const },
     ],
     {
       placeHolder: "Select task priority (optional)",
@@ -63,36 +69,16 @@ export async function addTask(
     return;
   }
 
-  // Build CLI args for add-task
-  const args = ["add-task", `--prompt="${prompt}"`];
-
-  if (priority.value) {
-    args.push(`--priority=${priority.value}`);
-  }
-
-  if (depsInput && depsInput.trim() !== "") {
-    // Parse and validate dependency IDs to ensure they are numbers
-    const depIds = depsInput
-      .replace(/\s+/g, "")
-      .split(",")
-      .map((id) => {
-        const num = parseInt(id.trim());
-        if (isNaN(num) || num <= 0) {
-          throw new Error(`Invalid dependency ID: ${id}`);
-        }
-        return num;
-      });
-
-    // Pass as comma-separated numbers (not strings)
-    args.push(`--dependencies=${depIds.join(",")}`);
-  }
-
   try {
+    // The builder validates the dependency IDs and keeps the prompt intact
+    const command = buildAddTaskCommand({
+      prompt,
+      priority: priority.value,
+      dependencies: depsInput.split(",").filter((id) => id.trim() !== ""),
+    });
+
     // Execute the CLI command
-    const output = await cliService.executeCommand("add-task", {
-      extraArgs: args.slice(1),
-      format: "text",
-    } as any);
+    const output = await cliService.runCommand(command, { format: "text" });
 
     // Refresh tasks
     await onRefreshTasks();
@@ -118,12 +104,109 @@ export async function addTask(
   }
 }
 
+/**
+ * Run a step per item, one after the other, in a cancellable progress
+ * notification that advances as each step completes
+ * Stops at the first failing step and rejects with its error
+ */
+async function runInSequence<T>(
+  title: string,
+  items: T[],
+  describe: (item: T) => string,
+  step: (item: T, token: vscode.CancellationToken) => Promise<void>
+): Promise<void> {
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const [index, item] of items.entries()) {
+        progress.report({
+          message: `${describe(item)} (${index + 1}/${items.length})`,
+        });
+        await step(item, token);
+        progress.report({ increment: 100 / items.length });
+      }
+    }
+  );
+}
+
+/**
+ * Create tasks from prompts using the CLI (AI-powered), one after the other,
+ * recording the source location each one was created from
+ * Returns the IDs of the created tasks
+ */
+export async function addTasksFromPrompts(
+  requests: { prompt: string; filePath?: string }[],
+  cliService: CLIService,
+  tasksRepository: TasksRepository,
+  tag: string,
+  onRefreshTasks: () => Promise<void>
+): Promise<number[]> {
+  const created: number[] = [];
+  // Prompts whose CLI output named no created task
+  const unparsed: string[] = [];
+  try {
+    await runInSequence(
+      `Creating ${requests.length} tasks with AI`,
+      requests,
+      (request) => request.filePath ?? "Prompt",
+      async (request, token) => {
+        const output = await cliService.runCommand(
+          buildAddTaskCommand({ prompt: request.prompt }),
+          { format: "text" },
+          token
+        );
+        const { taskId } = parseTaskCreationOutput(`${output ?? ""}`);
+        if (taskId === undefined) {
+          unparsed.push(request.filePath ?? `"${request.prompt}"`);
+          return;
+        }
+        created.push(taskId);
+        if (request.filePath) {
+          await tasksRepository.updateTask(tag, taskId, {
+            filePath: request.filePath,
+          });
+        }
+      }
+    );
+
+    const summary =
+      created.length > 0
+        ? `Created tasks ${created.join(", ")}`
+        : "The CLI did not report any created task";
+    if (unparsed.length > 0) {
+      vscode.window.showWarningMessage(
+        `${summary}. No task ID found in the CLI output for ` +
+          `${unparsed.length} of ${requests.length} prompts: ` +
+          unparsed.join(", ")
+      );
+    } else {
+      vscode.window.showInformationMessage(summary);
+    }
+  } catch (error) {
+    const done =
+      created.length > 0 ? ` (created: ${created.join(", ")})` : "";
+    if (error instanceof CLIJobCancelledError) {
+      vscode.window.showInformationMessage(`Task creation cancelled${done}`);
+    } else {
+      vscode.window.showErrorMessage(`Failed to create tasks${done}: ${error}`);
+    }
+  } finally {
+    await onRefreshTasks();
+  }
+  return created;
+}
+
 /**
  * Delete a task by ID, handling dependencies and confirmation
  */
 export async function deleteTask(
   taskId: number | undefined,
-  cliService: CLIService,
+  tasksRepository: TasksRepository,
+  tag: string,
   onRefreshTasks: () => Promise<void>
 ): Promise<void> {
   if (!taskId) {
@@ -131,17 +214,14 @@ export async function deleteTask(
     return;
   }
   try {
-    // Validate dependencies first
-    const validationResult = await cliService.executeCommand(
-      "validate-dependencies",
-      { format: "text" } as any
-    );
-    const dependents = findDependents(taskId, validationResult);
+    // Its own subtasks are deleted along with the task
+    const tasks = await tasksRepository.getTasks(tag);
+    const dependents = findTaskDependents(tasks, taskId);
     if (dependents.length > 0) {
       const confirm = await vscode.window.showWarningMessage(
-        `Task ${taskId} has dependents: ${dependents.join(
-          ", "
-        )}. Remove anyway? This will fix dependencies and delete the task.`,
+        `Task ${taskId} has dependents: ${dependents.join(", ")}. ` +
+          "Remove anyway? Their dependencies on it and its subtasks will " +
+          "be removed.",
         { modal: true },
         "Yes",
         "No"
@@ -150,10 +230,6 @@ export async function deleteTask(
         vscode.window.showInformationMessage("Task deletion cancelled");
         return;
       }
-      // Fix dependencies before deletion
-      await cliService.executeCommand("fix-dependencies", {
-        format: "text",
-      } as any);
     } else {
       const confirm = await vscode.window.showWarningMessage(
         `Are you sure you want to permanently delete task ${taskId}?`,
@@ -166,28 +242,10 @@ export async function deleteTask(
         return;
       }
     }
-    // Remove the task
-    const output = await cliService.executeCommand("remove-task", {
-      extraArgs: [`--id=${taskId}`, "-y"],
-      format: "text",
-    } as any);
+    // Remove the task, dropping the dependencies on it and its subtasks
+    await tasksRepository.removeTask(tag, taskId);
     await onRefreshTasks();
-
-    // Parse the CLI output for clean user messages
-    if (output && output.toString().trim()) {
-      const resultText = output.toString().trim();
-      const parsed = parseTaskDeletionOutput(resultText);
-
-      if (parsed.success) {
-        vscode.window.showInformationMessage(parsed.message);
-      } else {
-        vscode.window.showWarningMessage(parsed.message);
-      }
-    } else {
-      vscode.window.showInformationMessage(
-        `Task ${taskId} deleted successfully`
-      );
-    }
+    vscode.window.showInformationMessage(`Task ${taskId} deleted successfully`);
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to delete task: ${error}`);
   }
@@ -197,28 +255,15 @@ export async function deleteTask(
  * List all tasks using the CLI
  */
 export async function listTasks(cliService: CLIService): Promise<string> {
-  const output = await cliService.executeCommand("list", {
-    format: "text",
-  } as any);
-  return output as any as string;
+  return cliService.executeCommand("list", { format: "text" });
 }
 
 /**
- * Show task details in a VS Code editor tab using the CLI
- */
-/**
- * Expand a task into subtasks using the CLI
+ * Ask for the options of a CLI expansion; undefined when cancelled
  */
-export async function expandTask(
-  taskId: number | undefined,
-  cliService: CLIService,
-  onRefreshTasks: () => Promise<void>
-): Promise<void> {
-  if (!taskId) {
-    vscode.window.showWarningMessage("No task ID provided for expansion");
-    return;
-  }
-
+async function promptExpandOptions(): Promise<
+  { num?: number; prompt: string; research: boolean } | undefined
+> {
   // Prompt for number of subtasks (optional)
   const numSubtasks = await vscode.window.showInputBox({
     prompt: "Number of subtasks to generate (optional, default: 5)",
@@ -236,7 +281,7 @@ export async function expandTask(
   });
   if (numSubtasks === undefined) {
     vscode.window.showInformationMessage("Task expansion cancelled");
-    return;
+    return undefined;
   }
 
   // Prompt for additional context (optional)
@@ -247,7 +292,7 @@ export async function expandTask(
   });
   if (context === undefined) {
     vscode.window.showInformationMessage("Task expansion cancelled");
-    return;
+    return undefined;
   }
 
   // Prompt for research mode (optional)
@@ -263,36 +308,62 @@ export async function expandTask(
   );
   if (useResearch === undefined) {
     vscode.window.showInformationMessage("Task expansion cancelled");
-    return;
+    return undefined;
   }
 
-  try {
-    // Build CLI args for expand
-    const args = [`--id=${taskId}`];
+  return {
+    num: numSubtasks.trim() !== "" ? parseInt(numSubtasks, 10) : undefined,
+    prompt: context,
+    research: useResearch.value,
+  };
+}
 
-    if (numSubtasks && numSubtasks.trim() !== "") {
-      args.push(`--num=${numSubtasks.trim()}`);
-    }
+/**
+ * Show task details in a VS Code editor tab using the CLI
+ */
+/**
+ * Expand a task into subtasks using the CLI
+ */
+export async function expandTask(
+  taskId: number | undefined,
+  cliService: CLIService,
+  onRefreshTasks: () => Promise<void>
+): Promise<void> {
+  if (!taskId) {
+    vscode.window.showWarningMessage("No task ID provided for expansion");
+    return;
+  }
 
-    if (context && context.trim() !== "") {
-      args.push(`--prompt="${context.trim()}"`);
-    }
+  const options = await promptExpandOptions();
+  if (!options) {
+    return;
+  }
 
-    if (useResearch.value) {
-      args.push("--research");
-    }
+  try {
+    const command = buildExpandCommand({ id: taskId, ...options });
 
-    // Execute the CLI command
-    vscode.window.showInformationMessage(`Expanding task ${taskId}...`);
-    const output = await cliService.executeCommand("expand", {
-      extraArgs: args,
-      format: "text",
-    } as any);
+    // Execute the CLI command; cancelling the notification kills it
+    const output = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Expanding task ${taskId}...`,
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const result = await cliService.runCommand(
+          command,
+          { format: "text" },
+          token
+        );
 
-    // run the task-master list command to fix the tasks.json file
-    await cliService.executeCommand("list", {
-      format: "text",
-    } as any);
+        // run the task-master list command to fix the tasks.json file
+        await cliService.executeCommand("list", {
+          format: "text",
+          kind: "mutate",
+        });
+        return result;
+      }
+    );
 
     // Refresh tasks
     await onRefreshTasks();
@@ -309,10 +380,71 @@ export async function expandTask(
       );
     }
   } catch (error) {
+    if (error instanceof CLIJobCancelledError) {
+      vscode.window.showInformationMessage("Task expansion cancelled");
+      return;
+    }
     vscode.window.showErrorMessage(`Failed to expand task: ${error}`);
   }
 }
 
+/**
+ * Expand several tasks into subtasks using the CLI, one after the other
+ * with the same options, under a single progress notification
+ */
+export async function expandTasks(
+  taskIds: number[],
+  cliService: CLIService,
+  onRefreshTasks: () => Promise<void>
+): Promise<void> {
+  if (taskIds.length === 0) {
+    vscode.window.showWarningMessage("No task IDs provided for expansion");
+    return;
+  }
+
+  const options = await promptExpandOptions();
+  if (!options) {
+    return;
+  }
+
+  const expanded: number[] = [];
+  try {
+    await runInSequence(
+      `Expanding ${taskIds.length} tasks`,
+      taskIds,
+      (taskId) => `Task ${taskId}`,
+      async (taskId, token) => {
+        await cliService.runCommand(
+          buildExpandCommand({ id: taskId, ...options }),
+          { format: "text" },
+          token
+        );
+        expanded.push(taskId);
+      }
+    );
+
+    // run the task-master list command to fix the tasks.json file
+    await cliService.executeCommand("list", {
+      format: "text",
+      kind: "mutate",
+    });
+
+    vscode.window.showInformationMessage(
+      `Expanded tasks ${expanded.join(", ")}`
+    );
+  } catch (error) {
+    const done =
+      expanded.length > 0 ? ` (expanded: ${expanded.join(", ")})` : "";
+    if (error instanceof CLIJobCancelledError) {
+      vscode.window.showInformationMessage(`Task expansion cancelled${done}`);
+    } else {
+      vscode.window.showErrorMessage(`Failed to expand tasks${done}: ${error}`);
+    }
+  } finally {
+    await onRefreshTasks();
+  }
+}
+
 /**
  * Expand all pending tasks into subtasks using the CLI
  */
@@ -365,29 +497,36 @@ export async function expandAllTasks(
   }
 
   try {
-    // Build CLI args for expand --all
-    const args = ["--all"];
-
-    if (useForce.value) {
-      args.push("--force");
-    }
-
-    if (useResearch.value) {
-      args.push("--research");
-    }
+    const command = buildExpandAllCommand({
+      force: useForce.value,
+      research: useResearch.value,
+    });
 
-    // Execute the CLI command
-    vscode.window.showInformationMessage("Expanding all pending tasks...");
-    const output = await cliService.executeCommand("expand", {
-      extraArgs: args,
-      format: "text",
-      timeout: 300000, // 5 minute timeout for potentially long operation
-    } as any);
+    // Execute the CLI command; cancelling the notification kills it
+    const output = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Expanding all pending tasks...",
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const result = await cliService.runCommand(
+          command,
+          {
+            format: "text",
+            timeout: 300000, // 5 minute timeout for potentially long operation
+          },
+          token
+        );
 
-    // run the task-master list command to fix the tasks.json file
-    await cliService.executeCommand("list", {
-      format: "text",
-    } as any);
+        // run the task-master list command to fix the tasks.json file
+        await cliService.executeCommand("list", {
+          format: "text",
+          kind: "mutate",
+        });
+        return result;
+      }
+    );
 
     // Refresh tasks
     await onRefreshTasks();
@@ -404,37 +543,14 @@ export async function expandAllTasks(
       );
     }
   } catch (error) {
+    if (error instanceof CLIJobCancelledError) {
+      vscode.window.showInformationMessage("Expand all tasks cancelled");
+      return;
+    }
     vscode.window.showErrorMessage(`Failed to expand all tasks: ${error}`);
   }
 }
 
-export async function showTaskDetails(
-  taskId: number | undefined,
-  cliService: CLIService
-): Promise<void> {
-  if (!taskId) {
-    vscode.window.showWarningMessage("No task ID provided for details");
-    return;
-  }
-  try {
-    // Call the CLI to get task details as plain text
-    const result = await cliService.executeCommand("show", {
-      extraArgs: ["--id=" + taskId],
-      format: "text",
-    } as any);
-    // result is the raw text output
-    const details = result as any as string;
-    // Open in a new text document
-    const doc = await vscode.workspace.openTextDocument({
-      content: details,
-      language: "markdown",
-    });
-    await vscode.window.showTextDocument(doc, { preview: false });
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to show task details: ${error}`);
-  }
-}
-
 /**
  * Update an existing task by prompting the user for update context
  */
@@ -465,10 +581,8 @@ export async function updateTask(
 
   try {
     // Execute the CLI update command
-    const output = await cliService.executeCommand("update-task", {
-      extraArgs: [`--id=${taskId}`, `--prompt="${prompt}"`],
-      format: "text",
-    } as any);
+    const command = buildUpdateTaskCommand({ id: taskId, prompt });
+    const output = await cliService.runCommand(command, { format: "text" });
 
     // Refresh tasks
     await onRefreshTasks();
@@ -604,24 +718,24 @@ export async function analyzeComplexity(
         title: useResearch.value
           ? "Analyzing task complexity with research..."
           : "Analyzing task complexity...",
-        cancellable: false,
+        cancellable: true,
       },
-      async (progress) => {
+      async (progress, token) => {
         progress.report({
           message: useResearch.value
             ? "Running enhanced complexity analysis with AI research..."
             : "Running complexity analysis...",
         });
 
-        // Build command arguments conditionally
-        const extraArgs = useResearch.value ? ["--research"] : [];
-
         // Execute the analyze-complexity CLI command
-        const output = await cliService.executeCommand("analyze-complexity", {
-          extraArgs,
-          format: "text",
-          timeout: useResearch.value ? 300000 : 180000, // 5 minutes for research, 3 minutes for standard
-        } as any);
+        const output = await cliService.runCommand(
+          buildAnalyzeComplexityCommand({ research: useResearch.value }),
+          {
+            format: "text",
+            timeout: useResearch.value ? 300000 : 180000, // 5 minutes for research, 3 minutes for standard
+          },
+          token
+        );
 
         progress.report({ message: "Processing results..." });
 
@@ -647,6 +761,10 @@ export async function analyzeComplexity(
       await showResearchResources();
     }
   } catch (error) {
+    if (error instanceof CLIJobCancelledError) {
+      vscode.window.showInformationMessage("Complexity analysis cancelled");
+      return;
+    }
     vscode.window.showErrorMessage(`Failed to analyze complexity: ${error}`);
   }
 }
@@ -661,7 +779,7 @@ export async function showComplexityReport(
     // Call the CLI to get the complexity report
     const reportOutput = await cliService.executeCommand("complexity-report", {
       format: "text",
-    } as any);
+    });
 
     if (!reportOutput) {
       vscode.window.showWarningMessage(
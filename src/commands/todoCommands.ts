@@ -0,0 +1,267 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  TodoFileTreeItem,
+  TodoTreeItem,
+  TodoTreeProvider,
+} from "../providers/todoTreeProvider";
+import { getGitApi } from "../services/gitApi";
+import { TaskManagerService } from "../services/taskManagerService";
+import {
+  findTodoComments,
+  formatTodoLocation,
+  TodoComment,
+  todoTaskTitle,
+} from "../utils/todoScanner";
+
+/** Files larger than this are not scanned */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+type TodoSelection = TodoFileTreeItem | TodoTreeItem;
+
+/**
+ * Scanning the active project for TODO/FIXME/HACK comments and turning
+ * them into tasks that remember where they came from
+ */
+export class TodoCommands {
+  constructor(
+    private readonly taskManagerService: TaskManagerService,
+    private readonly todoTreeProvider: TodoTreeProvider
+  ) {}
+
+  /**
+   * Scan the active project and show the results in the review view
+   * Skips files matched by files.exclude or .gitignore, node_modules and
+   * binary or very large files
+   */
+  public async scanTodos(): Promise<void> {
+    const source = this.taskManagerService.getActiveTaskSource();
+    if (!source) {
+      vscode.window.showWarningMessage("No Task Master project is open");
+      return;
+    }
+
+    try {
+      const todos = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Scanning for TODO comments",
+          cancellable: true,
+        },
+        (progress, token) => this.scan(source.projectRoot, progress, token)
+      );
+      if (!todos) {
+        return;
+      }
+
+      this.todoTreeProvider.setTodos(source.projectRoot, todos);
+      await vscode.commands.executeCommand("taskMaster.todoView.focus");
+      const tracked = this.todoTreeProvider
+        .getItems()
+        .filter((item) => item.task).length;
+      vscode.window.showInformationMessage(
+        `Found ${todos.length} TODO comments` +
+          (tracked > 0 ? `, ${tracked} of them already have tasks` : "")
+      );
+    } catch (error) {
+      console.error("Error scanning for TODO comments:", error);
+      vscode.window.showErrorMessage(
+        `Failed to scan for TODO comments: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Create tasks from the selected TODOs that have none yet, using the
+   * comment text as title
+   */
+  public async createTasks(
+    item?: TodoSelection,
+    selection?: TodoSelection[]
+  ): Promise<void> {
+    const todos = selectedTodos(item, selection);
+    if (todos.length === 0) {
+      vscode.window.showInformationMessage(
+        "The selected TODO comments already have tasks"
+      );
+      return;
+    }
+
+    let title: string | undefined;
+    if (todos.length === 1) {
+      title = await vscode.window.showInputBox({
+        prompt: `Title of the task for ${formatTodoLocation(todos[0])}`,
+        value: todoTaskTitle(todos[0]),
+        validateInput: (value) =>
+          value.trim() ? undefined : "Title cannot be empty",
+      });
+      if (!title) {
+        return;
+      }
+    }
+
+    try {
+      const added = await this.taskManagerService.addTasks(
+        todos.map((todo) => ({
+          title: title ?? todoTaskTitle(todo),
+          description: `${todo.kind} comment in ${formatTodoLocation(todo)}`,
+          details: todo.text,
+          filePath: formatTodoLocation(todo),
+        }))
+      );
+      vscode.window.showInformationMessage(
+        `Created tasks ${added.map((task) => task.id).join(", ")}`
+      );
+    } catch (error) {
+      console.error("Error creating tasks from TODO comments:", error);
+      vscode.window.showErrorMessage(
+        `Failed to create tasks from TODO comments: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Create tasks from the selected TODOs that have none yet with the CLI
+   * (AI-powered), passing each comment and its location as the prompt
+   */
+  public async createTasksWithAi(
+    item?: TodoSelection,
+    selection?: TodoSelection[]
+  ): Promise<void> {
+    const todos = selectedTodos(item, selection);
+    if (todos.length === 0) {
+      vscode.window.showInformationMessage(
+        "The selected TODO comments already have tasks"
+      );
+      return;
+    }
+
+    // The CLI reports its own progress and errors
+    await this.taskManagerService.addTasksFromPrompts(
+      todos.map((todo) => ({
+        prompt:
+          `Create a task for this ${todo.kind} comment in ` +
+          `${formatTodoLocation(todo)}: ${todo.text || "(no text)"}`,
+        filePath: formatTodoLocation(todo),
+      }))
+    );
+  }
+
+  /**
+   * Find the TODO comments of the files under a project root
+   * Returns undefined when cancelled
+   */
+  private async scan(
+    projectRoot: string,
+    progress: vscode.Progress<{ message?: string }>,
+    token: vscode.CancellationToken
+  ): Promise<TodoComment[] | undefined> {
+    const rootUri = vscode.Uri.file(projectRoot);
+    const filesExclude = vscode.workspace
+      .getConfiguration("files", rootUri)
+      .get<Record<string, unknown>>("exclude", {});
+    const excludes = [
+      "**/node_modules/**",
+      ...Object.keys(filesExclude).filter(
+        (glob) => filesExclude[glob] === true
+      ),
+    ];
+
+    let uris = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(rootUri, "**/*"),
+      `{${excludes.join(",")}}`,
+      undefined,
+      token
+    );
+
+    // Drop what .gitignore excludes when the project is a git repository
+    const repository = (await getGitApi())?.getRepository(rootUri);
+    if (repository) {
+      const ignored = new Set<string>();
+      for (let i = 0; i < uris.length; i += 500) {
+        const chunk = uris.slice(i, i + 500).map((uri) => uri.fsPath);
+        (await repository.checkIgnore(chunk)).forEach((fsPath) =>
+          ignored.add(fsPath)
+        );
+      }
+      uris = uris.filter((uri) => !ignored.has(uri.fsPath));
+    }
+
+    const todos: TodoComment[] = [];
+    for (const [index, uri] of uris.entries()) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      if (index % 100 === 0) {
+        progress.report({ message: `${index}/${uris.length} files` });
+      }
+
+      try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > MAX_FILE_SIZE) {
+          continue;
+        }
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        if (bytes.subarray(0, 8000).includes(0)) {
+          continue;
+        }
+        const filePath = path
+          .relative(projectRoot, uri.fsPath)
+          .split(path.sep)
+          .join("/");
+        todos.push(
+          ...findTodoComments(Buffer.from(bytes).toString("utf-8"), filePath)
+        );
+      } catch (error) {
+        console.warn(`Skipping ${uri.fsPath} while scanning TODOs:`, error);
+      }
+    }
+    return todos.sort(
+      (a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line
+    );
+  }
+
+  /**
+   * Register the TODO scanning commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskManagerService: TaskManagerService,
+    todoTreeProvider: TodoTreeProvider
+  ): void {
+    const todoCommands = new TodoCommands(taskManagerService, todoTreeProvider);
+    const register = (
+      command: string,
+      handler: (item?: TodoSelection, selection?: TodoSelection[]) => unknown
+    ) => vscode.commands.registerCommand(command, handler);
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand("taskMaster.scanTodos", () =>
+        todoCommands.scanTodos()
+      ),
+      register("taskMaster.createTasksFromTodos", (item, selection) =>
+        todoCommands.createTasks(item, selection)
+      ),
+      register("taskMaster.createTasksFromTodosWithAi", (item, selection) =>
+        todoCommands.createTasksWithAi(item, selection)
+      )
+    );
+  }
+}
+
+/**
+ * TODOs without a task among the selected comments and files, or the
+ * clicked item when nothing else is selected
+ */
+function selectedTodos(
+  item?: TodoSelection,
+  selection?: TodoSelection[]
+): TodoComment[] {
+  const items = (selection?.length ? selection : item ? [item] : []).flatMap(
+    (selected) =>
+      selected instanceof TodoFileTreeItem ? selected.todos : [selected]
+  );
+  return [...new Set(items)]
+    .filter((todoItem) => !todoItem.task)
+    .map((todoItem) => todoItem.todo);
+}
@@ -0,0 +1,250 @@
+import * as vscode from "vscode";
+import { TaskDetailPanel } from "../providers/taskDetailPanel";
+import { TaskInfoTreeItem, TaskTreeItem } from "../providers/taskTreeProvider";
+import { ConfigService } from "../services/configService";
+import { getGitApi, GitRepository } from "../services/gitApi";
+import { TaskManagerService } from "../services/taskManagerService";
+import { TaskStatus } from "../types";
+import { formatTaskBranchName } from "../utils/branchTagMapping";
+import { prefillCommitMessage } from "../utils/commitMessage";
+import { explainNextTask } from "../utils/nextTaskResolver";
+import { findTaskOrSubtask } from "../utils/taskUtils";
+
+type WorkflowTarget = TaskTreeItem | TaskInfoTreeItem | string | number;
+
+/**
+ * Start Working / Finish Working flow for tasks and subtasks
+ * Starting marks the task in progress, moves to its git branch (which keeps
+ * the task's tag) and opens its details; finishing marks it done or in
+ * review and offers to start the next task. Commit messages can be
+ * prefilled with a reference to the task being worked on
+ */
+export class WorkflowCommands {
+  constructor(private readonly taskManagerService: TaskManagerService) {}
+
+  /**
+   * Start working on a task or subtask, by default the next task
+   */
+  public async startTask(target?: WorkflowTarget): Promise<void> {
+    const id =
+      targetId(target) ??
+      this.taskManagerService.getNextTaskCandidates()[0]?.id;
+    const tag = this.taskManagerService.getCurrentTag();
+    const tasks = this.taskManagerService.getTasks();
+    const task = id && findTaskOrSubtask(tasks, id);
+    if (!id || !task) {
+      vscode.window.showErrorMessage("No task selected to start");
+      return;
+    }
+
+    try {
+      if (task.status !== "in-progress") {
+        await this.taskManagerService.updateTaskFields(
+          id,
+          { status: "in-progress" },
+          tag
+        );
+      }
+
+      await this.checkoutTaskBranch(id, task.title, tag);
+
+      TaskDetailPanel.show(this.taskManagerService, id, tag);
+    } catch (error) {
+      console.error(`Error starting task ${id}:`, error);
+      vscode.window.showErrorMessage(`Failed to start task ${id}: ${error}`);
+    }
+  }
+
+  /**
+   * Finish working on a task or subtask, by default the current task, and
+   * suggest what to do next
+   */
+  public async finishTask(target?: WorkflowTarget): Promise<void> {
+    const currentTask = this.taskManagerService.getCurrentTask();
+    const id =
+      targetId(target) ?? (currentTask ? `${currentTask.id}` : undefined);
+    if (!id || !findTaskOrSubtask(this.taskManagerService.getTasks(), id)) {
+      vscode.window.showErrorMessage("No task selected to finish");
+      return;
+    }
+
+    const status = (await vscode.window.showQuickPick(["done", "review"], {
+      placeHolder: `Finish task ${id} as...`,
+    })) as TaskStatus | undefined;
+    if (!status) {
+      return;
+    }
+
+    try {
+      await this.taskManagerService.updateTaskFields(id, { status });
+    } catch (error) {
+      console.error(`Error finishing task ${id}:`, error);
+      vscode.window.showErrorMessage(`Failed to finish task ${id}: ${error}`);
+      return;
+    }
+
+    const candidates = this.taskManagerService.getNextTaskCandidates();
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage(
+        `Task ${id} set to ${status}. No other task is ready to start.`
+      );
+      return;
+    }
+
+    const [next] = candidates;
+    const title = next.subtask?.title ?? next.task.title;
+    const choice = await vscode.window.showInformationMessage(
+      `Task ${id} set to ${status}. Next: ${title} (ID: ${
+        next.id
+      }). Why: ${explainNextTask(candidates)}`,
+      "Start",
+      "Show Details"
+    );
+    if (choice === "Start") {
+      await this.startTask(next.id);
+    } else if (choice === "Show Details") {
+      TaskDetailPanel.show(this.taskManagerService, next.id);
+    }
+  }
+
+  /**
+   * Prefill the Source Control commit message with "[TM-12] <title>" for
+   * the current task
+   */
+  public async prefillCommitMessage(): Promise<void> {
+    const task = this.taskManagerService.getCurrentTask();
+    if (!task) {
+      vscode.window.showInformationMessage("No task is in progress");
+      return;
+    }
+
+    const repository = await this.getRepository();
+    if (!repository) {
+      vscode.window.showWarningMessage("No git repository found");
+      return;
+    }
+
+    repository.inputBox.value = prefillCommitMessage(
+      repository.inputBox.value,
+      task.id,
+      task.title
+    );
+    await vscode.commands.executeCommand("workbench.view.scm");
+  }
+
+  /**
+   * Create or check out the branch of a task, as configured
+   */
+  private async checkoutTaskBranch(
+    id: string,
+    title: string,
+    tag: string
+  ): Promise<void> {
+    const config = ConfigService.getStartTaskConfig();
+    if (config.branch === "never") {
+      return;
+    }
+
+    const repository = await this.getRepository();
+    if (!repository) {
+      if (config.branch === "always") {
+        vscode.window.showWarningMessage(
+          "No git repository found; starting the task without a branch"
+        );
+      }
+      return;
+    }
+
+    const branch = formatTaskBranchName(config.branchTemplate, {
+      id,
+      title,
+      tag,
+    });
+    if (!branch || repository.state.HEAD?.name === branch) {
+      return;
+    }
+
+    const exists = await repository.getBranch(branch).then(
+      () => true,
+      () => false
+    );
+    if (config.branch === "ask") {
+      const action = exists ? "Check Out" : "Create Branch";
+      const choice = await vscode.window.showInformationMessage(
+        `${exists ? "Check out" : "Create"} branch "${branch}" for task ${id}?`,
+        action,
+        "Not Now",
+        "Never Ask"
+      );
+      if (choice === "Never Ask") {
+        await ConfigService.updateStartTaskConfig("branch", "never");
+        return;
+      }
+      if (choice !== action) {
+        return;
+      }
+    }
+
+    try {
+      if (exists) {
+        await repository.checkout(branch);
+      } else {
+        await repository.createBranch(branch, true);
+      }
+    } catch (error) {
+      console.error(`Error checking out branch ${branch}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to check out branch ${branch}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * The git repository of the active project
+   */
+  private async getRepository(): Promise<GitRepository | undefined> {
+    const source = this.taskManagerService.getActiveTaskSource();
+    if (!source) {
+      return undefined;
+    }
+    const rootUri = vscode.Uri.file(source.projectRoot);
+    return (await getGitApi())?.getRepository(rootUri) ?? undefined;
+  }
+
+  /**
+   * Register the workflow commands
+   */
+  public static registerCommands(
+    context: vscode.ExtensionContext,
+    taskManagerService: TaskManagerService
+  ): void {
+    const workflowCommands = new WorkflowCommands(taskManagerService);
+
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        "taskMaster.startTask",
+        (target?: WorkflowTarget) => workflowCommands.startTask(target)
+      ),
+      vscode.commands.registerCommand(
+        "taskMaster.finishTask",
+        (target?: WorkflowTarget) => workflowCommands.finishTask(target)
+      ),
+      vscode.commands.registerCommand("taskMaster.prefillCommitMessage", () =>
+        workflowCommands.prefillCommitMessage()
+      )
+    );
+  }
+}
+
+/**
+ * Full ID ("5" or "5.2") of a tree node, info node or plain ID
+ */
+function targetId(target?: WorkflowTarget): string | undefined {
+  if (target instanceof TaskTreeItem) {
+    return target.getFullId();
+  }
+  if (target instanceof TaskInfoTreeItem) {
+    return target.taskInfo ? `${target.taskInfo.id}` : undefined;
+  }
+  return target === undefined ? undefined : `${target}`;
+}
@@ -1,19 +1,52 @@
 import * as vscode from "vscode";
+import { BulkCommands } from "./commands/bulkCommands";
+import { GroupingCommands } from "./commands/groupingCommands";
+import {
+  redoLastChange,
+  showRecentChanges,
+  undoLastChange,
+} from "./commands/historyCommands";
+import { showRunningJobs } from "./commands/jobCommands";
+import { ReferenceCommands } from "./commands/referenceCommands";
+import { SearchCommands } from "./commands/searchCommands";
+import { StatusFilterCommands } from "./commands/statusFilterCommands";
 import { TagCommands } from "./commands/tagCommands";
+import { TodoCommands } from "./commands/todoCommands";
+import { WorkflowCommands } from "./commands/workflowCommands";
+import { DependencyGraphPanel } from "./providers/dependencyGraphPanel";
+import { DependencyIssuesProvider } from "./providers/dependencyIssuesProvider";
+import { KanbanBoardPanel } from "./providers/kanbanBoardPanel";
+import { TagOverviewProvider } from "./providers/tagOverviewProvider";
+import { TaskDragAndDropController } from "./providers/taskDragAndDropController";
+import { TaskReferenceProvider } from "./providers/taskReferenceProvider";
+import { TaskDetailPanel } from "./providers/taskDetailPanel";
 import { TaskTreeItem, TaskTreeProvider } from "./providers/taskTreeProvider";
+import { TodoTreeProvider } from "./providers/todoTreeProvider";
+import { BranchTagService } from "./services/branchTagService";
+import { CLIJobRunner } from "./services/cliJobRunner";
+import { CLIJobsService } from "./services/cliJobsService";
+import { CommitMessageService } from "./services/commitMessageService";
 import { SecurityService } from "./services/securityService";
 import { StatusBarService } from "./services/statusBarService";
 import { TaskManagerService } from "./services/taskManagerService";
+import { TasksDiagnosticsService } from "./services/tasksDiagnosticsService";
+import { WorkspaceContextService } from "./services/workspaceContextService";
 import { initializeLogging, log } from "./utils/logger";
+import { explainNextTask } from "./utils/nextTaskResolver";
 
 let taskManagerService: TaskManagerService;
 let taskTreeProvider: TaskTreeProvider;
 let securityService: SecurityService;
 let statusBarService: StatusBarService;
+let tasksDiagnosticsService: TasksDiagnosticsService;
+let workspaceContextService: WorkspaceContextService;
+let cliJobsService: CLIJobsService;
 let tagCommands: TagCommands;
+let branchTagService: BranchTagService | undefined;
 
 /**
  * Helper function to extract task ID from different invocation sources
+ * Tree items of inactive workspace folders give none
  */
 function extractTaskId(
   taskIdOrTreeItem?: number | TaskTreeItem,
@@ -21,7 +54,7 @@ function extractTaskId(
 ): number | undefined {
   if (typeof taskIdOrTreeItem === "number") {
     return taskIdOrTreeItem;
-  } else if (taskIdOrTreeItem && "task" in taskIdOrTreeItem) {
+  } else if (taskIdOrTreeItem instanceof TaskTreeItem) {
     return Number(taskIdOrTreeItem.task?.id);
   } else if (taskId) {
     return taskId;
@@ -76,8 +109,13 @@ async function validateCLIVersion(
   context: vscode.ExtensionContext
 ): Promise<void> {
   try {
+    // Discover the workspace folders holding Task Master projects
+    workspaceContextService = new WorkspaceContextService(
+      context.workspaceState
+    );
+
     // Initialize Task Manager Service to access CLI service
-    taskManagerService = new TaskManagerService();
+    taskManagerService = new TaskManagerService(workspaceContextService);
 
     // Check CLI version
     const versionCheck = await taskManagerService.checkCLIVersion();
@@ -161,8 +199,51 @@ async function initializeExtensionServices(
   // Initialize Status Bar Service
   statusBarService = new StatusBarService(taskManagerService, context);
 
+  // Initialize CLI job output channel and running jobs indicator
+  cliJobsService = new CLIJobsService(CLIJobRunner.getInstance());
+
+  // Initialize tasks.json diagnostics (Problems panel + quick fixes)
+  tasksDiagnosticsService = new TasksDiagnosticsService(
+    taskManagerService,
+    context
+  );
+
   // Initialize Task Tree Provider
   taskTreeProvider = new TaskTreeProvider();
+  updateTaskSources();
+
+  // Initialize dependency issues view (re-analyzes on every task change)
+  const dependencyIssuesProvider = new DependencyIssuesProvider(
+    taskManagerService
+  );
+  context.subscriptions.push(
+    dependencyIssuesProvider,
+    vscode.window.createTreeView("taskMaster.dependencyIssues", {
+      treeDataProvider: dependencyIssuesProvider,
+    })
+  );
+
+  // Initialize the review view of scanned TODO comments
+  const todoTreeProvider = new TodoTreeProvider(taskManagerService);
+  context.subscriptions.push(
+    todoTreeProvider,
+    vscode.window.createTreeView("taskMaster.todoView", {
+      treeDataProvider: todoTreeProvider,
+      canSelectMany: true,
+    })
+  );
+
+  // Link, explain and act on task references in source code
+  context.subscriptions.push(new TaskReferenceProvider(taskManagerService));
+
+  // Initialize the cross-tag overview
+  const tagOverviewProvider = new TagOverviewProvider(taskManagerService);
+  context.subscriptions.push(
+    tagOverviewProvider,
+    vscode.window.createTreeView("taskMaster.tagOverview", {
+      treeDataProvider: tagOverviewProvider,
+    })
+  );
 
   // Initialize Tag Commands
   tagCommands = TagCommands.registerCommands(context, taskManagerService);
@@ -171,11 +252,24 @@ async function initializeExtensionServices(
   const treeView = vscode.window.createTreeView("taskMaster.taskView", {
     treeDataProvider: taskTreeProvider,
     showCollapseAll: true,
-    canSelectMany: false,
+    canSelectMany: true,
+    dragAndDropController: new TaskDragAndDropController(taskManagerService),
   });
 
   // Register all commands
   registerCommands(context, treeView);
+  SearchCommands.registerCommands(
+    context,
+    taskManagerService,
+    taskTreeProvider,
+    treeView
+  );
+  GroupingCommands.registerCommands(context, taskTreeProvider);
+  StatusFilterCommands.registerCommands(context, taskTreeProvider);
+  BulkCommands.registerCommands(context, taskManagerService);
+  WorkflowCommands.registerCommands(context, taskManagerService);
+  ReferenceCommands.registerCommands(context, taskManagerService);
+  TodoCommands.registerCommands(context, taskManagerService, todoTreeProvider);
 
   // Set up event handlers
   setupEventHandlers(context, treeView);
@@ -203,14 +297,38 @@ function registerCommands(
 
     vscode.commands.registerCommand("taskMaster.showNextTask", async () => {
       try {
-        const nextTask = await taskManagerService.getNextTask();
-        if (nextTask) {
-          log("nextTask", nextTask);
-          vscode.window.showInformationMessage(
-            `Next task: ${nextTask.title} (ID: ${nextTask.id})`
-          );
-        } else {
+        const candidates = taskManagerService.getNextTaskCandidates();
+        if (candidates.length === 0) {
           vscode.window.showInformationMessage("No next task available");
+          return;
+        }
+
+        const [next] = candidates;
+        log("nextTask", next.id);
+        const title = next.subtask?.title ?? next.task.title;
+        const choice = await vscode.window.showInformationMessage(
+          `Next task: ${title} (ID: ${next.id}). Why: ${explainNextTask(
+            candidates
+          )}`,
+          "Show Details",
+          "Show Ranking"
+        );
+        if (choice === "Show Details") {
+          TaskDetailPanel.show(taskManagerService, next.id);
+        } else if (choice === "Show Ranking") {
+          const picked = await vscode.window.showQuickPick(
+            candidates.map((candidate, index) => ({
+              label: `${index + 1}. ${candidate.id}: ${
+                candidate.subtask?.title ?? candidate.task.title
+              }`,
+              detail: candidate.reasons.join(", "),
+              taskId: candidate.id,
+            })),
+            { placeHolder: "Ready tasks, best first", matchOnDetail: true }
+          );
+          if (picked) {
+            TaskDetailPanel.show(taskManagerService, picked.taskId);
+          }
         }
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to get next task: ${error}`);
@@ -241,6 +359,70 @@ function registerCommands(
       }
     }),
 
+    vscode.commands.registerCommand(
+      "taskMaster.showTaskDetails",
+      async (taskIdOrTreeItem?: number | TaskTreeItem, taskId?: number) => {
+        const subtask =
+          taskIdOrTreeItem instanceof TaskTreeItem
+            ? taskIdOrTreeItem.subtask
+            : undefined;
+        const actualTaskId = subtask
+          ? `${subtask.parentId}.${subtask.id}`
+          : extractTaskId(taskIdOrTreeItem, taskId);
+
+        if (actualTaskId) {
+          TaskDetailPanel.show(taskManagerService, actualTaskId);
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          taskManagerService.getTasks().map((task) => ({
+            label: `${task.id}: ${task.title}`,
+            description: task.status,
+            taskId: task.id,
+          })),
+          { placeHolder: "Select a task to show" }
+        );
+        if (selected) {
+          TaskDetailPanel.show(taskManagerService, selected.taskId);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand("taskMaster.showKanbanBoard", () => {
+      KanbanBoardPanel.show(taskManagerService, context);
+    }),
+
+    vscode.commands.registerCommand(
+      "taskMaster.switchTaskSource",
+      async (sourceId?: string, taskId?: number) => {
+        if (!sourceId) {
+          const active = taskManagerService.getActiveTaskSource();
+          const selected = await vscode.window.showQuickPick(
+            taskManagerService.getTaskSources().map((source) => ({
+              label: source.name,
+              description: source.id === active?.id ? "active" : undefined,
+              detail: source.projectRoot,
+              sourceId: source.id,
+            })),
+            { placeHolder: "Select the Task Master project to work on" }
+          );
+          sourceId = selected?.sourceId;
+        }
+        if (sourceId) {
+          await taskManagerService.setActiveTaskSource(sourceId);
+        }
+        // Tasks of another folder open once it is the active one
+        if (sourceId && taskId !== undefined) {
+          TaskDetailPanel.show(taskManagerService, taskId);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand("taskMaster.showDependencyGraph", () => {
+      DependencyGraphPanel.show(taskManagerService);
+    }),
+
     vscode.commands.registerCommand(
       "taskMaster.showInTerminal",
       async (taskIdOrTreeItem?: number | TaskTreeItem, taskId?: number) => {
@@ -378,17 +560,53 @@ function registerCommands(
     vscode.commands.registerCommand(
       "taskMaster.validateDependencies",
       async () => {
-        // TODO: Implement validate dependencies flow (CLI call, show result)
         await taskManagerService.validateDependencies();
       }
     ),
 
     // Fix Dependencies
     vscode.commands.registerCommand("taskMaster.fixDependencies", async () => {
-      // TODO: Implement fix dependencies flow (CLI call, show result, refresh tree)
       await taskManagerService.fixDependencies();
     }),
 
+    // Undo / Redo task changes
+    vscode.commands.registerCommand("taskMaster.undo", async () => {
+      await undoLastChange(taskManagerService);
+    }),
+
+    vscode.commands.registerCommand("taskMaster.redo", async () => {
+      await redoLastChange(taskManagerService);
+    }),
+
+    vscode.commands.registerCommand(
+      "taskMaster.showRecentChanges",
+      async () => {
+        await showRecentChanges(taskManagerService);
+      }
+    ),
+
+    // CLI jobs
+    vscode.commands.registerCommand("taskMaster.showRunningJobs", async () => {
+      await showRunningJobs(CLIJobRunner.getInstance(), cliJobsService);
+    }),
+
+    vscode.commands.registerCommand("taskMaster.showCliOutput", () => {
+      cliJobsService.showOutput();
+    }),
+
+    // Validate tasks.json
+    vscode.commands.registerCommand(
+      "taskMaster.validateTasksFile",
+      async () => {
+        const problemCount = await tasksDiagnosticsService.validate();
+        if (problemCount === 0) {
+          vscode.window.showInformationMessage("tasks.json has no problems");
+        } else {
+          tasksDiagnosticsService.showProblems();
+        }
+      }
+    ),
+
     // Change Task Status
     vscode.commands.registerCommand(
       "taskMaster.changeStatus",
@@ -591,6 +809,163 @@ function registerCommands(
       }
     ),
 
+    // Add Subtask
+    vscode.commands.registerCommand(
+      "taskMaster.addSubtask",
+      async (taskIdOrTreeItem?: number | TaskTreeItem) => {
+        const parentId = extractTaskId(taskIdOrTreeItem);
+
+        if (!parentId) {
+          vscode.window.showWarningMessage("No task selected");
+          return;
+        }
+
+        const title = await vscode.window.showInputBox({
+          prompt: `Title of the new subtask of task ${parentId}`,
+          ignoreFocusOut: true,
+          validateInput: (value) =>
+            value.trim() === "" ? "Title cannot be empty" : null,
+        });
+        if (title === undefined) {
+          vscode.window.showInformationMessage("Add subtask cancelled");
+          return;
+        }
+
+        const description = await vscode.window.showInputBox({
+          prompt: "Description (optional)",
+          ignoreFocusOut: true,
+        });
+        if (description === undefined) {
+          vscode.window.showInformationMessage("Add subtask cancelled");
+          return;
+        }
+
+        const details = await vscode.window.showInputBox({
+          prompt: "Implementation details (optional)",
+          ignoreFocusOut: true,
+        });
+        if (details === undefined) {
+          vscode.window.showInformationMessage("Add subtask cancelled");
+          return;
+        }
+
+        const candidates = taskManagerService
+          .getTasks()
+          .flatMap((task) => [
+            ...(Number(task.id) === parentId
+              ? []
+              : [{ label: `${task.id}`, description: task.title }]),
+            ...(task.subtasks || []).map((subtask) => ({
+              label: `${task.id}.${subtask.id}`,
+              description: subtask.title,
+            })),
+          ]);
+        const dependencies = await vscode.window.showQuickPick(candidates, {
+          placeHolder: "Dependencies of the new subtask (optional)",
+          canPickMany: true,
+          matchOnDescription: true,
+          ignoreFocusOut: true,
+        });
+        if (dependencies === undefined) {
+          vscode.window.showInformationMessage("Add subtask cancelled");
+          return;
+        }
+
+        try {
+          const subtask = await taskManagerService.addSubtask(parentId, {
+            title,
+            description,
+            details,
+            dependencies: dependencies.map((dependency) => dependency.label),
+          });
+          vscode.window.showInformationMessage(
+            `Subtask ${parentId}.${subtask.id} added`
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to add subtask to task ${parentId}: ${error}`
+          );
+        }
+      }
+    ),
+
+    // Promote Subtask
+    vscode.commands.registerCommand(
+      "taskMaster.promoteSubtask",
+      async (taskTreeItem?: TaskTreeItem) => {
+        const subtaskId = extractSubtaskId(taskTreeItem);
+
+        if (!subtaskId) {
+          vscode.window.showWarningMessage("No subtask selected");
+          return;
+        }
+
+        try {
+          const taskId = await taskManagerService.promoteSubtask(subtaskId);
+          vscode.window.showInformationMessage(
+            `Subtask ${subtaskId} is now task ${taskId}`
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to promote subtask ${subtaskId}: ${error}`
+          );
+        }
+      }
+    ),
+
+    // Demote Task
+    vscode.commands.registerCommand(
+      "taskMaster.demoteTask",
+      async (taskIdOrTreeItem?: number | TaskTreeItem) => {
+        const taskId = extractTaskId(taskIdOrTreeItem);
+        const task = taskManagerService
+          .getTasks()
+          .find((candidate) => Number(candidate.id) === taskId);
+
+        if (!taskId || !task) {
+          vscode.window.showWarningMessage("No task selected");
+          return;
+        }
+        if (task.subtasks && task.subtasks.length > 0) {
+          vscode.window.showWarningMessage(
+            `Task ${taskId} has subtasks; promote or remove them first`
+          );
+          return;
+        }
+
+        const parent = await vscode.window.showQuickPick(
+          taskManagerService
+            .getTasks()
+            .filter((candidate) => Number(candidate.id) !== taskId)
+            .map((candidate) => ({
+              label: `${candidate.id}`,
+              description: candidate.title,
+            })),
+          {
+            placeHolder: `Make task ${taskId} a subtask of...`,
+            matchOnDescription: true,
+          }
+        );
+        if (!parent) {
+          return;
+        }
+
+        try {
+          const subtaskId = await taskManagerService.demoteTask(
+            taskId,
+            parent.label
+          );
+          vscode.window.showInformationMessage(
+            `Task ${taskId} is now subtask ${subtaskId}`
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to demote task ${taskId}: ${error}`
+          );
+        }
+      }
+    ),
+
     // Parse PRD from File
     vscode.commands.registerCommand(
       "taskMaster.parsePRDFromFile",
@@ -663,6 +1038,13 @@ function registerCommands(
   // Initialize Task Manager Service and start polling
   taskManagerService.initialize().then(() => {
     console.log("Task Manager Service initialized");
+
+    // Follow the checked out git branch with the current tag
+    branchTagService = new BranchTagService(taskManagerService);
+    context.subscriptions.push(branchTagService);
+
+    // Complete task references in commit messages and close referenced tasks
+    context.subscriptions.push(new CommitMessageService(taskManagerService));
   });
 
   console.log("Task Master extension activated successfully");
@@ -675,19 +1057,31 @@ function setupEventHandlers(
   context: vscode.ExtensionContext,
   treeView: vscode.TreeView<any>
 ) {
+  // Show the active tag in the tree header
+  const updateTreeHeader = () => {
+    treeView.description = `Tag: ${taskManagerService.getCurrentTag()}`;
+  };
+  updateTreeHeader();
+
   // Handle task updates
   taskManagerService.on("tasksUpdated", async (tasks) => {
     taskTreeProvider.updateTasks(tasks);
+    updateTreeHeader();
 
     // Also update current and next task information
     const currentTask = taskManagerService.getCurrentTask();
     const nextTask = await taskManagerService.getNextTask();
-    taskTreeProvider.updateCurrentAndNextTasks(currentTask, nextTask);
+    taskTreeProvider.updateCurrentAndNextTasks(
+      currentTask,
+      nextTask,
+      explainNextTask(taskManagerService.getNextTaskCandidates())
+    );
   });
 
   // Handle tag changes - refresh everything
   taskManagerService.on("currentTagChanged", async ({ oldTag, newTag }) => {
     console.log(`Tag changed from ${oldTag} to ${newTag}`);
+    updateTreeHeader();
 
     // Refresh tree view to show tasks for new tag
     taskTreeProvider.refresh();
@@ -695,7 +1089,11 @@ function setupEventHandlers(
     // Update current and next task information after tag change
     const currentTask = taskManagerService.getCurrentTask();
     const nextTask = await taskManagerService.getNextTask();
-    taskTreeProvider.updateCurrentAndNextTasks(currentTask, nextTask);
+    taskTreeProvider.updateCurrentAndNextTasks(
+      currentTask,
+      nextTask,
+      explainNextTask(taskManagerService.getNextTaskCandidates())
+    );
 
     // Update status bar
     statusBarService.refresh();
@@ -704,6 +1102,33 @@ function setupEventHandlers(
     vscode.window.showInformationMessage(`Switched to tag: ${newTag}`);
   });
 
+  // Regroup the tree when workspace folders, the active project or the
+  // tasks of another project change
+  taskManagerService.on("taskSourcesChanged", updateTaskSources);
+  taskManagerService.on("taskSourceChanged", updateTaskSources);
+  taskManagerService.on("taskSourceTasksChanged", updateTaskSources);
+
+  // Keep undo/redo enablement in sync with the operation journal
+  taskManagerService.on("historyChanged", () => {
+    const { undo, redo } = taskManagerService.getUndoRedoState();
+    vscode.commands.executeCommand("setContext", "taskMaster.canUndo", !!undo);
+    vscode.commands.executeCommand("setContext", "taskMaster.canRedo", !!redo);
+  });
+
+  // Handle tasks.json refresh failures - keep the last good tree and point
+  // the user at the problems instead
+  taskManagerService.on("refreshError", async (error) => {
+    const problemCount = await tasksDiagnosticsService.validate();
+    const message = error instanceof Error ? error.message : `${error}`;
+    const selection = await vscode.window.showErrorMessage(
+      `Task Master could not load tasks.json: ${message}`,
+      ...(problemCount > 0 ? ["Show Problems"] : [])
+    );
+    if (selection === "Show Problems") {
+      tasksDiagnosticsService.showProblems();
+    }
+  });
+
   // Handle tag errors
   taskManagerService.on("tagError", (error) => {
     console.error("Tag error:", error);
@@ -726,17 +1151,47 @@ function setupEventHandlers(
   });
 }
 
+/**
+ * Show the Task Master projects of a multi-root workspace in the tree
+ */
+function updateTaskSources(): void {
+  const sources = taskManagerService.getTaskSources();
+  vscode.commands.executeCommand(
+    "setContext",
+    "taskMaster.multiRoot",
+    sources.length > 1
+  );
+  taskTreeProvider.updateTaskSources(
+    sources,
+    taskManagerService.getActiveTaskSource()?.id,
+    (source) => taskManagerService.getTaskSourceTasks(source)
+  );
+}
+
 /**
  * This method is called when your extension is deactivated
  */
 export function deactivate() {
   console.log("Task Master extension is now deactivated");
+  TaskDetailPanel.disposeAll();
+  KanbanBoardPanel.dispose();
+  DependencyGraphPanel.dispose();
   if (taskManagerService) {
     taskManagerService.dispose();
   }
   if (statusBarService) {
     statusBarService.dispose();
   }
+  if (tasksDiagnosticsService) {
+    tasksDiagnosticsService.dispose();
+  }
+  if (workspaceContextService) {
+    workspaceContextService.dispose();
+  }
+  CLIJobRunner.getInstance().cancelAll();
+  if (cliJobsService) {
+    cliJobsService.dispose();
+  }
   if (securityService) {
     securityService.dispose();
   }
@@ -0,0 +1,455 @@
+import * as vscode from "vscode";
+import { TaskManagerService } from "../services/taskManagerService";
+import {
+  buildDependencyGraph,
+  computeLayers,
+  findCriticalPath,
+  findCycles,
+} from "../utils/dependencyGraph";
+import { getNonce, getWebviewCsp } from "../utils/webviewUtils";
+import { TaskDetailPanel } from "./taskDetailPanel";
+
+/**
+ * Positioned node sent to the graph webview
+ */
+interface GraphViewNode {
+  id: string;
+  title: string;
+  status: string;
+  layer: number;
+  row: number;
+  missing: boolean;
+  inCycle: boolean;
+  critical: boolean;
+  hasDangling: boolean;
+}
+
+/**
+ * Edge sent to the graph webview ("from" depends on "to")
+ */
+interface GraphViewEdge {
+  from: string;
+  to: string;
+  inCycle: boolean;
+  critical: boolean;
+  dangling: boolean;
+}
+
+/**
+ * Messages posted by the graph webview
+ */
+type GraphMessage =
+  | { type: "ready" }
+  | { type: "openTask"; id: string }
+  | { type: "addDependency"; from: string; to: string }
+  | { type: "removeDependency"; from: string; to: string };
+
+/**
+ * Webview rendering the dependency DAG of the current tag
+ */
+export class DependencyGraphPanel {
+  public static readonly VIEW_TYPE = "taskMaster.dependencyGraph";
+  private static current: DependencyGraphPanel | undefined;
+
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Show the graph, reusing the open one
+   */
+  public static show(taskManagerService: TaskManagerService): void {
+    if (DependencyGraphPanel.current) {
+      DependencyGraphPanel.current.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      DependencyGraphPanel.VIEW_TYPE,
+      "Dependency Graph",
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    DependencyGraphPanel.current = new DependencyGraphPanel(
+      panel,
+      taskManagerService
+    );
+  }
+
+  /**
+   * Close the graph if it is open
+   */
+  public static dispose(): void {
+    DependencyGraphPanel.current?.panel.dispose();
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly taskManagerService: TaskManagerService
+  ) {
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message: GraphMessage) => this.handleMessage(message),
+      null,
+      this.disposables
+    );
+
+    const onChange = () => this.postState();
+    this.taskManagerService.on("tasksUpdated", onChange);
+    this.taskManagerService.on("currentTagChanged", onChange);
+    this.disposables.push({
+      dispose: () => {
+        this.taskManagerService.off("tasksUpdated", onChange);
+        this.taskManagerService.off("currentTagChanged", onChange);
+      },
+    });
+  }
+
+  private async handleMessage(message: GraphMessage): Promise<void> {
+    try {
+      switch (message.type) {
+        case "ready":
+          break;
+        case "openTask":
+          TaskDetailPanel.show(this.taskManagerService, message.id);
+          return;
+        case "addDependency":
+          await this.taskManagerService.addTaskDependency(
+            message.from,
+            message.to
+          );
+          break;
+        case "removeDependency": {
+          const choice = await vscode.window.showWarningMessage(
+            `Remove dependency ${message.from} → ${message.to}?`,
+            { modal: true },
+            "Remove"
+          );
+          if (choice !== "Remove") {
+            return;
+          }
+          await this.taskManagerService.removeTaskDependency(
+            message.from,
+            message.to
+          );
+          break;
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update dependency: ${error}`);
+    }
+    this.postState();
+  }
+
+  private postState(): void {
+    const tag = this.taskManagerService.getCurrentTag();
+    const graph = buildDependencyGraph(this.taskManagerService.getTasks());
+    const layers = computeLayers(graph);
+    const cycles = findCycles(graph);
+    const criticalPath = findCriticalPath(graph);
+
+    const cycleOf = new Map<string, number>();
+    cycles.forEach((cycle, index) =>
+      cycle.forEach((id) => cycleOf.set(id, index))
+    );
+    const critical = new Set(criticalPath);
+    const criticalEdges = new Set(
+      criticalPath.slice(1).map((id, index) => `${id}->${criticalPath[index]}`)
+    );
+    const danglingFrom = new Set(graph.dangling.map((ref) => ref.from));
+
+    const rows = new Map<number, number>();
+    const place = (layer: number) => {
+      const row = rows.get(layer) || 0;
+      rows.set(layer, row + 1);
+      return row;
+    };
+
+    const nodes: GraphViewNode[] = graph.nodes.map((node) => {
+      const layer = layers.get(node.id) || 0;
+      return {
+        id: node.id,
+        title: node.title,
+        status: node.status,
+        layer,
+        row: place(layer),
+        missing: false,
+        inCycle: cycleOf.has(node.id),
+        critical: critical.has(node.id),
+        hasDangling: danglingFrom.has(node.id),
+      };
+    });
+
+    // Missing targets are drawn as ghost nodes left of their dependents
+    for (const ref of graph.dangling) {
+      if (nodes.some((node) => node.id === ref.dependency)) {
+        continue;
+      }
+      const layer = Math.max(0, (layers.get(ref.from) || 0) - 1);
+      nodes.push({
+        id: ref.dependency,
+        title: "Missing",
+        status: "missing",
+        layer,
+        row: place(layer),
+        missing: true,
+        inCycle: false,
+        critical: false,
+        hasDangling: false,
+      });
+    }
+
+    const edges: GraphViewEdge[] = [
+      ...graph.edges.map((edge) => ({
+        ...edge,
+        inCycle:
+          cycleOf.has(edge.from) &&
+          cycleOf.get(edge.from) === cycleOf.get(edge.to),
+        critical: criticalEdges.has(`${edge.from}->${edge.to}`),
+        dangling: false,
+      })),
+      ...graph.dangling.map((ref) => ({
+        from: ref.from,
+        to: ref.dependency,
+        inCycle: false,
+        critical: false,
+        dangling: true,
+      })),
+    ];
+
+    this.panel.title = `Dependency Graph: ${tag}`;
+    this.panel.webview.postMessage({
+      type: "state",
+      state: {
+        tag,
+        nodes,
+        edges,
+        cycleCount: cycles.length,
+        danglingCount: graph.dangling.length,
+        criticalPath,
+      },
+    });
+  }
+
+  private dispose(): void {
+    DependencyGraphPanel.current = undefined;
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private getHtml(): string {
+    const nonce = getNonce();
+    const csp = getWebviewCsp(this.panel.webview.cspSource, nonce);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Dependency Graph</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 12px 12px; }
+    header { display: flex; align-items: center; gap: 12px; flex-wrap: wrap; }
+    header h1 { font-size: 1.2em; }
+    .summary { color: var(--vscode-descriptionForeground); flex: 1; }
+    .summary .problem { color: var(--vscode-errorForeground); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button.active { outline: 2px solid var(--vscode-focusBorder); }
+    svg { display: block; }
+    .node rect { stroke: var(--vscode-panel-border); stroke-width: 1; rx: 6; cursor: pointer; }
+    .node text { fill: var(--vscode-editor-foreground); font-size: 12px; pointer-events: none; }
+    .node .node-id { font-weight: 600; }
+    .node.pending rect { fill: var(--vscode-editor-background); }
+    .node.in-progress rect { fill: color-mix(in srgb, var(--vscode-charts-blue) 35%, transparent); }
+    .node.review rect { fill: color-mix(in srgb, var(--vscode-charts-purple) 35%, transparent); }
+    .node.done rect { fill: color-mix(in srgb, var(--vscode-charts-green) 35%, transparent); }
+    .node.blocked rect { fill: color-mix(in srgb, var(--vscode-charts-red) 35%, transparent); }
+    .node.deferred rect { fill: color-mix(in srgb, var(--vscode-charts-yellow) 30%, transparent); }
+    .node.cancelled rect { fill: var(--vscode-editor-background); opacity: 0.5; }
+    .node.missing rect { fill: none; stroke-dasharray: 4 3; stroke: var(--vscode-errorForeground); }
+    .node.critical rect { stroke: var(--vscode-charts-orange); stroke-width: 3; }
+    .node.cycle rect { stroke: var(--vscode-errorForeground); stroke-width: 3; }
+    .node.selected rect { stroke: var(--vscode-focusBorder); stroke-width: 3; }
+    .node .warning { fill: var(--vscode-errorForeground); font-weight: 700; }
+    .edge { fill: none; stroke: var(--vscode-descriptionForeground); stroke-width: 1.5; cursor: pointer; }
+    .edge:hover { stroke-width: 4; }
+    .edge.critical { stroke: var(--vscode-charts-orange); stroke-width: 3; }
+    .edge.cycle { stroke: var(--vscode-errorForeground); stroke-width: 2.5; }
+    .edge.dangling { stroke: var(--vscode-errorForeground); stroke-dasharray: 4 3; }
+    .legend { color: var(--vscode-descriptionForeground); font-size: 0.9em; margin: 6px 0; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1 id="heading">Dependency Graph</h1>
+    <span id="summary" class="summary"></span>
+    <button id="link">Add dependency</button>
+  </header>
+  <p id="legend" class="legend">Click a node to open it. Click an edge to remove that dependency.</p>
+  <svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const svg = document.getElementById("graph");
+    const linkButton = document.getElementById("link");
+    const legend = document.getElementById("legend");
+    const NS = "http://www.w3.org/2000/svg";
+    const NODE_WIDTH = 190, NODE_HEIGHT = 40, COLUMN_GAP = 80, ROW_GAP = 16, MARGIN = 20;
+    const DEFAULT_LEGEND = legend.textContent;
+    let linkMode = false;
+    let linkSource;
+
+    function setLinkMode(enabled) {
+      linkMode = enabled;
+      linkSource = undefined;
+      linkButton.classList.toggle("active", enabled);
+      legend.textContent = enabled
+        ? "Click the task that should wait, then the task it depends on. Press Escape to cancel."
+        : DEFAULT_LEGEND;
+      svg.querySelectorAll(".node.selected").forEach((node) => node.classList.remove("selected"));
+    }
+
+    linkButton.addEventListener("click", () => setLinkMode(!linkMode));
+    document.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") {
+        setLinkMode(false);
+      }
+    });
+
+    function svgEl(tag, attrs, text) {
+      const node = document.createElementNS(NS, tag);
+      Object.entries(attrs || {}).forEach(([key, value]) => node.setAttribute(key, value));
+      if (text !== undefined) {
+        node.textContent = text;
+      }
+      return node;
+    }
+
+    function position(node) {
+      return {
+        x: MARGIN + node.layer * (NODE_WIDTH + COLUMN_GAP),
+        y: MARGIN + node.row * (NODE_HEIGHT + ROW_GAP),
+      };
+    }
+
+    function truncate(text, max) {
+      return text.length > max ? text.slice(0, max - 1) + "…" : text;
+    }
+
+    function onNodeClick(node, group) {
+      if (node.missing) {
+        return;
+      }
+      if (!linkMode) {
+        vscode.postMessage({ type: "openTask", id: node.id });
+        return;
+      }
+      if (!linkSource) {
+        linkSource = node.id;
+        group.classList.add("selected");
+        legend.textContent = "Now click the task that " + node.id + " depends on.";
+        return;
+      }
+      if (linkSource !== node.id) {
+        vscode.postMessage({ type: "addDependency", from: linkSource, to: node.id });
+      }
+      setLinkMode(false);
+    }
+
+    function render(state) {
+      document.getElementById("heading").textContent = "Dependency Graph: " + state.tag;
+      const summary = document.getElementById("summary");
+      summary.replaceChildren();
+      summary.append(state.nodes.filter((node) => !node.missing).length + " nodes, " + state.edges.length + " dependencies");
+      if (state.criticalPath.length > 1) {
+        summary.append(" · critical path: " + state.criticalPath.join(" → "));
+      }
+      [[state.cycleCount, " cycle"], [state.danglingCount, " missing reference"]].forEach(([count, label]) => {
+        if (count) {
+          const problem = document.createElement("span");
+          problem.className = "problem";
+          problem.textContent = " · " + count + label + (count === 1 ? "" : "s");
+          summary.append(problem);
+        }
+      });
+
+      const byId = new Map(state.nodes.map((node) => [node.id, node]));
+      const width = Math.max(...state.nodes.map((node) => position(node).x), 0) + NODE_WIDTH + MARGIN;
+      const height = Math.max(...state.nodes.map((node) => position(node).y), 0) + NODE_HEIGHT + MARGIN;
+      svg.setAttribute("width", width);
+      svg.setAttribute("height", height);
+      svg.replaceChildren();
+
+      const defs = svgEl("defs");
+      const marker = svgEl("marker", { id: "arrow", viewBox: "0 0 10 10", refX: "10", refY: "5", markerWidth: "8", markerHeight: "8", orient: "auto-start-reverse" });
+      marker.append(svgEl("path", { d: "M 0 0 L 10 5 L 0 10 z", fill: "currentColor" }));
+      defs.append(marker);
+      svg.append(defs);
+
+      // Edges point from the prerequisite to the task that waits on it
+      state.edges.forEach((edge) => {
+        const source = byId.get(edge.to);
+        const target = byId.get(edge.from);
+        if (!source || !target) {
+          return;
+        }
+        const a = position(source);
+        const b = position(target);
+        let d;
+        if (source.layer < target.layer) {
+          const x1 = a.x + NODE_WIDTH, y1 = a.y + NODE_HEIGHT / 2;
+          const x2 = b.x, y2 = b.y + NODE_HEIGHT / 2;
+          const bend = (x2 - x1) / 2;
+          d = "M " + x1 + " " + y1 + " C " + (x1 + bend) + " " + y1 + ", " + (x2 - bend) + " " + y2 + ", " + x2 + " " + y2;
+        } else {
+          // Same layer (cycles) or backwards: loop around the right side
+          const x1 = a.x + NODE_WIDTH, y1 = a.y + NODE_HEIGHT / 2;
+          const x2 = b.x + NODE_WIDTH, y2 = b.y + NODE_HEIGHT / 2;
+          const out = x1 + 40 + Math.abs(y2 - y1) / 4;
+          d = "M " + x1 + " " + y1 + " C " + out + " " + y1 + ", " + out + " " + y2 + ", " + x2 + " " + (y2 + (y1 === y2 ? 6 : 0));
+        }
+        const classes = ["edge"];
+        if (edge.critical) classes.push("critical");
+        if (edge.inCycle) classes.push("cycle");
+        if (edge.dangling) classes.push("dangling");
+        const path = svgEl("path", { d, class: classes.join(" "), "marker-end": "url(#arrow)" });
+        path.append(svgEl("title", {}, edge.from + " depends on " + edge.to + (edge.inCycle ? " (cycle)" : "") + (edge.dangling ? " (missing)" : "")));
+        path.addEventListener("click", () =>
+          vscode.postMessage({ type: "removeDependency", from: edge.from, to: edge.to })
+        );
+        svg.append(path);
+      });
+
+      state.nodes.forEach((node) => {
+        const { x, y } = position(node);
+        const classes = ["node", node.status];
+        if (node.critical) classes.push("critical");
+        if (node.inCycle) classes.push("cycle");
+        const group = svgEl("g", { class: classes.join(" "), transform: "translate(" + x + "," + y + ")" });
+        group.append(svgEl("rect", { width: NODE_WIDTH, height: NODE_HEIGHT }));
+        group.append(svgEl("text", { x: 8, y: 16, class: "node-id" }, node.id + (node.missing ? "" : " · " + node.status)));
+        group.append(svgEl("text", { x: 8, y: 32 }, truncate(node.title, 28)));
+        if (node.hasDangling || node.inCycle) {
+          group.append(svgEl("text", { x: NODE_WIDTH - 16, y: 16, class: "warning" }, "!"));
+        }
+        const tooltip = [node.id + ": " + node.title];
+        if (node.inCycle) tooltip.push("Part of a dependency cycle");
+        if (node.hasDangling) tooltip.push("Depends on a missing task");
+        if (node.critical) tooltip.push("On the critical path");
+        group.append(svgEl("title", {}, tooltip.join("\\n")));
+        group.addEventListener("click", () => onNodeClick(node, group));
+        svg.append(group);
+      });
+    }
+
+    window.addEventListener("message", (event) => {
+      if (event.data.type === "state") {
+        render(event.data.state);
+      }
+    });
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+  }
+}
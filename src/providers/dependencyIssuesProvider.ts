@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { TaskManagerService } from "../services/taskManagerService";
+import {
+  analyzeDependencies,
+  DependencyIssue,
+  DependencyIssueKind,
+} from "../utils/dependencyAnalyzer";
+
+const KIND_LABELS: Record<DependencyIssueKind, string> = {
+  "self-dependency": "Self-dependencies",
+  "missing-target": "Missing targets",
+  cycle: "Circular dependencies",
+  "cross-parent": "Cross-parent subtask references",
+};
+
+/**
+ * Group of dependency issues of the same kind
+ */
+export class DependencyIssueGroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly kind: DependencyIssueKind,
+    public readonly issues: DependencyIssue[]
+  ) {
+    super(KIND_LABELS[kind], vscode.TreeItemCollapsibleState.Expanded);
+    this.description = `${issues.length}`;
+    this.contextValue = "dependencyIssueGroup";
+  }
+}
+
+/**
+ * Single dependency issue; selecting it opens the dependent task
+ */
+export class DependencyIssueItem extends vscode.TreeItem {
+  constructor(public readonly issue: DependencyIssue) {
+    super(issue.message, vscode.TreeItemCollapsibleState.None);
+    this.description = issue.taskId;
+    this.tooltip = issue.cycle
+      ? `${issue.message}\nBreaking it: remove ${issue.taskId} → ${issue.dependency}`
+      : issue.message;
+    this.iconPath = new vscode.ThemeIcon(
+      issue.severity === "error" ? "error" : "warning"
+    );
+    this.contextValue = `dependencyIssue-${issue.kind}`;
+    this.command = {
+      command: "taskMaster.showTaskDetails",
+      title: "Show Task Details",
+      arguments: [Number(issue.taskId.split(".")[0])],
+    };
+  }
+}
+
+type DependencyIssuesTreeItem = DependencyIssueGroupItem | DependencyIssueItem;
+
+/**
+ * Tree data provider listing the dependency issues of the current tag
+ * Re-analyzes whenever the tasks change
+ */
+export class DependencyIssuesProvider
+  implements
+    vscode.TreeDataProvider<DependencyIssuesTreeItem>,
+    vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    DependencyIssuesTreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private issues: DependencyIssue[] = [];
+  private readonly onTasksUpdated = () => this.refresh();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    this.taskManagerService.on("tasksUpdated", this.onTasksUpdated);
+    this.refresh();
+  }
+
+  /**
+   * Re-run the analysis over the cached tasks
+   */
+  public refresh(): void {
+    this.issues = analyzeDependencies(this.taskManagerService.getTasks());
+    vscode.commands.executeCommand(
+      "setContext",
+      "taskMaster.hasDependencyErrors",
+      this.issues.some((issue) => issue.severity === "error")
+    );
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the issues found by the last analysis
+   */
+  public getIssues(): DependencyIssue[] {
+    return this.issues;
+  }
+
+  getTreeItem(element: DependencyIssuesTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(
+    element?: DependencyIssuesTreeItem
+  ): Thenable<DependencyIssuesTreeItem[]> {
+    if (element instanceof DependencyIssueGroupItem) {
+      return Promise.resolve(
+        element.issues.map((issue) => new DependencyIssueItem(issue))
+      );
+    }
+    if (element) {
+      return Promise.resolve([]);
+    }
+
+    const kinds = Object.keys(KIND_LABELS) as DependencyIssueKind[];
+    return Promise.resolve(
+      kinds
+        .map(
+          (kind) =>
+            new DependencyIssueGroupItem(
+              kind,
+              this.issues.filter((issue) => issue.kind === kind)
+            )
+        )
+        .filter((group) => group.issues.length > 0)
+    );
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("tasksUpdated", this.onTasksUpdated);
+    this._onDidChangeTreeData.dispose();
+  }
+}
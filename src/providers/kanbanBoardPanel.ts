@@ -0,0 +1,385 @@
+import * as vscode from "vscode";
+import { VALID_TASK_STATUSES } from "../services/tasksRepository";
+import { TaskManagerService } from "../services/taskManagerService";
+import { Task, TaskStatus } from "../types";
+import { resolveDependencyId } from "../utils/taskIdUtils";
+import { getNonce, getWebviewCsp } from "../utils/webviewUtils";
+import { TaskDetailPanel } from "./taskDetailPanel";
+
+/**
+ * How subtasks are shown on the board
+ */
+type KanbanSubtaskMode = "nested" | "swimlanes";
+
+/**
+ * Card data sent to the board webview
+ */
+interface KanbanCard {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority?: string;
+  complexity?: number;
+  dependencies: string[];
+  unmetDependencies: string[];
+  parentId?: string;
+  subtasks: KanbanCard[];
+}
+
+/**
+ * Messages posted by the board webview
+ */
+type KanbanMessage =
+  | { type: "ready" }
+  | { type: "setStatus"; id: string; status: TaskStatus }
+  | { type: "setMode"; mode: KanbanSubtaskMode }
+  | { type: "openTask"; id: string };
+
+const COLUMNS: TaskStatus[] = [
+  "pending",
+  "in-progress",
+  "review",
+  "blocked",
+  "deferred",
+  "done",
+  "cancelled",
+];
+
+/**
+ * Webview board with one column per task status for the current tag
+ */
+export class KanbanBoardPanel {
+  public static readonly VIEW_TYPE = "taskMaster.kanbanBoard";
+  private static readonly MODE_KEY = "taskMaster.kanbanSubtaskMode";
+  private static current: KanbanBoardPanel | undefined;
+
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Show the board, reusing the open one
+   */
+  public static show(
+    taskManagerService: TaskManagerService,
+    context: vscode.ExtensionContext
+  ): void {
+    if (KanbanBoardPanel.current) {
+      KanbanBoardPanel.current.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      KanbanBoardPanel.VIEW_TYPE,
+      "Task Board",
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    KanbanBoardPanel.current = new KanbanBoardPanel(
+      panel,
+      taskManagerService,
+      context
+    );
+  }
+
+  /**
+   * Close the board if it is open
+   */
+  public static dispose(): void {
+    KanbanBoardPanel.current?.panel.dispose();
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly taskManagerService: TaskManagerService,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message: KanbanMessage) => this.handleMessage(message),
+      null,
+      this.disposables
+    );
+
+    // Follow task reloads and tag switches live
+    const onChange = () => this.postState();
+    this.taskManagerService.on("tasksUpdated", onChange);
+    this.taskManagerService.on("currentTagChanged", onChange);
+    this.disposables.push({
+      dispose: () => {
+        this.taskManagerService.off("tasksUpdated", onChange);
+        this.taskManagerService.off("currentTagChanged", onChange);
+      },
+    });
+  }
+
+  private async handleMessage(message: KanbanMessage): Promise<void> {
+    switch (message.type) {
+      case "ready":
+        break;
+      case "setStatus":
+        if (!VALID_TASK_STATUSES.includes(message.status)) {
+          return;
+        }
+        try {
+          await this.taskManagerService.updateTaskFields(message.id, {
+            status: message.status,
+          });
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to change status of ${message.id}: ${error}`
+          );
+        }
+        break;
+      case "setMode":
+        await this.context.workspaceState.update(
+          KanbanBoardPanel.MODE_KEY,
+          message.mode
+        );
+        break;
+      case "openTask":
+        TaskDetailPanel.show(this.taskManagerService, message.id);
+        return;
+    }
+    // Always re-send the state so a rejected drop snaps back
+    this.postState();
+  }
+
+  private postState(): void {
+    const tag = this.taskManagerService.getCurrentTag();
+    this.panel.title = `Task Board: ${tag}`;
+    this.panel.webview.postMessage({
+      type: "state",
+      state: {
+        tag,
+        columns: COLUMNS,
+        mode: this.context.workspaceState.get<KanbanSubtaskMode>(
+          KanbanBoardPanel.MODE_KEY,
+          "nested"
+        ),
+        cards: this.buildCards(this.taskManagerService.getTasks()),
+      },
+    });
+  }
+
+  private buildCards(tasks: Task[]): KanbanCard[] {
+    const statusById = new Map<string, TaskStatus>();
+    for (const task of tasks) {
+      statusById.set(String(task.id), task.status);
+      for (const subtask of task.subtasks || []) {
+        statusById.set(`${task.id}.${subtask.id}`, subtask.status);
+      }
+    }
+
+    const dependencyInfo = (
+      dependencies: (string | number)[] | undefined,
+      parent?: Task
+    ) => {
+      const ids = (dependencies || []).map((dep) =>
+        resolveDependencyId(dep, parent)
+      );
+      return {
+        dependencies: ids,
+        unmetDependencies: ids.filter((id) => statusById.get(id) !== "done"),
+      };
+    };
+
+    return tasks.map((task) => ({
+      id: String(task.id),
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      complexity: task.complexityScore,
+      ...dependencyInfo(task.dependencies),
+      subtasks: (task.subtasks || []).map((subtask) => ({
+        id: `${task.id}.${subtask.id}`,
+        title: subtask.title,
+        status: subtask.status,
+        parentId: String(task.id),
+        ...dependencyInfo(subtask.dependencies, task),
+        subtasks: [],
+      })),
+    }));
+  }
+
+  private dispose(): void {
+    KanbanBoardPanel.current = undefined;
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private getHtml(): string {
+    const nonce = getNonce();
+    const csp = getWebviewCsp(this.panel.webview.cspSource, nonce);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Task Board</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 12px 12px; }
+    header { display: flex; align-items: center; gap: 12px; }
+    header h1 { font-size: 1.2em; flex: 1; }
+    .board { display: grid; grid-template-columns: 160px repeat(var(--columns), minmax(180px, 1fr)); gap: 8px; }
+    .board.nested { grid-template-columns: repeat(var(--columns), minmax(180px, 1fr)); }
+    .column-title { font-weight: 600; text-transform: uppercase; font-size: 0.85em; color: var(--vscode-descriptionForeground); padding: 4px; }
+    .lane-title { font-weight: 600; padding: 8px 4px; border-top: 1px solid var(--vscode-panel-border); }
+    .cell { min-height: 60px; padding: 4px; border-radius: 4px; background: var(--vscode-sideBar-background); }
+    .cell.drop-target { outline: 2px dashed var(--vscode-focusBorder); }
+    .card { background: var(--vscode-editor-background); border: 1px solid var(--vscode-panel-border); border-left: 3px solid var(--priority-color, transparent); border-radius: 4px; padding: 6px 8px; margin-bottom: 6px; cursor: grab; }
+    .card.high { --priority-color: var(--vscode-charts-red); }
+    .card.medium { --priority-color: var(--vscode-charts-yellow); }
+    .card.low { --priority-color: var(--vscode-charts-green); }
+    .card .title { cursor: pointer; }
+    .card .id { color: var(--vscode-descriptionForeground); margin-right: 4px; }
+    .badges { display: flex; gap: 4px; flex-wrap: wrap; margin-top: 4px; }
+    .badge { font-size: 0.8em; padding: 0 6px; border-radius: 8px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .badge.blocked { background: var(--vscode-inputValidation-errorBackground); }
+    .nested-subtasks { margin-top: 6px; padding-left: 8px; border-left: 1px solid var(--vscode-panel-border); }
+    .nested-subtasks .card { margin-bottom: 4px; padding: 3px 6px; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1 id="heading">Task Board</h1>
+    <label>Subtasks
+      <select id="mode">
+        <option value="nested">Nested in cards</option>
+        <option value="swimlanes">Swimlane per task</option>
+      </select>
+    </label>
+  </header>
+  <div id="board" class="board"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const board = document.getElementById("board");
+    const modeSelect = document.getElementById("mode");
+    let state;
+
+    modeSelect.addEventListener("change", () => {
+      state.mode = modeSelect.value;
+      vscode.postMessage({ type: "setMode", mode: modeSelect.value });
+      render();
+    });
+
+    function el(tag, props, children) {
+      const node = document.createElement(tag);
+      Object.assign(node, props || {});
+      (children || []).forEach((child) =>
+        node.append(typeof child === "string" ? document.createTextNode(child) : child)
+      );
+      return node;
+    }
+
+    function card(item, withSubtasks) {
+      const badges = [];
+      if (item.priority) {
+        badges.push(el("span", { className: "badge", textContent: item.priority }));
+      }
+      if (item.complexity) {
+        badges.push(el("span", { className: "badge", textContent: "complexity " + item.complexity, title: "Complexity score" }));
+      }
+      if (item.dependencies.length) {
+        const blocked = item.unmetDependencies.length > 0;
+        badges.push(el("span", {
+          className: "badge" + (blocked ? " blocked" : ""),
+          textContent: (blocked ? "waiting on " : "deps ") + (blocked ? item.unmetDependencies : item.dependencies).join(", "),
+          title: "Depends on " + item.dependencies.join(", "),
+        }));
+      }
+
+      if (withSubtasks && item.subtasks.length) {
+        const done = item.subtasks.filter((subtask) => subtask.status === "done").length;
+        badges.push(el("span", { className: "badge", textContent: done + "/" + item.subtasks.length + " subtasks" }));
+      }
+
+      const title = el("span", { className: "title" }, [el("span", { className: "id", textContent: item.id }), item.title]);
+      title.addEventListener("click", () => vscode.postMessage({ type: "openTask", id: item.id }));
+
+      const node = el("div", { className: "card " + (item.priority || ""), draggable: true }, [title, el("div", { className: "badges" }, badges)]);
+      node.addEventListener("dragstart", (event) => {
+        event.stopPropagation();
+        event.dataTransfer.setData("text/plain", item.id);
+        event.dataTransfer.effectAllowed = "move";
+      });
+
+      if (withSubtasks && item.subtasks.length) {
+        node.append(el("div", { className: "nested-subtasks" }, item.subtasks.map((subtask) => {
+          const child = card(subtask, false);
+          child.prepend(el("span", { className: "id", textContent: subtask.status }));
+          return child;
+        })));
+      }
+      return node;
+    }
+
+    function cell(status, items, withSubtasks) {
+      const node = el("div", { className: "cell" }, items.map((item) => card(item, withSubtasks)));
+      node.addEventListener("dragover", (event) => {
+        event.preventDefault();
+        node.classList.add("drop-target");
+      });
+      node.addEventListener("dragleave", () => node.classList.remove("drop-target"));
+      node.addEventListener("drop", (event) => {
+        event.preventDefault();
+        node.classList.remove("drop-target");
+        const id = event.dataTransfer.getData("text/plain");
+        if (id) {
+          vscode.postMessage({ type: "setStatus", id, status });
+        }
+      });
+      return node;
+    }
+
+    function render() {
+      const { columns, cards, mode, tag } = state;
+      document.getElementById("heading").textContent = "Task Board: " + tag;
+      modeSelect.value = mode;
+      board.className = "board" + (mode === "nested" ? " nested" : "");
+      board.style.setProperty("--columns", columns.length);
+      board.replaceChildren();
+
+      if (mode === "swimlanes") {
+        board.append(el("div"));
+      }
+      columns.forEach((status) => board.append(el("div", { className: "column-title", textContent: status })));
+
+      if (mode === "nested") {
+        columns.forEach((status) =>
+          board.append(cell(status, cards.filter((item) => item.status === status), true))
+        );
+        return;
+      }
+
+      // Swimlanes: tasks without subtasks share the first lane,
+      // every task with subtasks gets its own lane
+      const standalone = cards.filter((item) => !item.subtasks.length);
+      const lanes = [{ title: "Tasks", items: standalone }].concat(
+        cards.filter((item) => item.subtasks.length).map((item) => ({
+          title: item.id + " " + item.title,
+          items: [item].concat(item.subtasks),
+        }))
+      );
+      lanes.forEach((lane) => {
+        board.append(el("div", { className: "lane-title", textContent: lane.title }));
+        columns.forEach((status) =>
+          board.append(cell(status, lane.items.filter((item) => item.status === status), false))
+        );
+      });
+    }
+
+    window.addEventListener("message", (event) => {
+      if (event.data.type === "state") {
+        state = event.data.state;
+        render();
+      }
+    });
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+  }
+}
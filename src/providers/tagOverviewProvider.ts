@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import { TaskManagerService } from "../services/taskManagerService";
+import { TagInfo } from "../types";
+import { TaskTreeItem } from "./taskTreeProvider";
+
+/**
+ * Tag with its completion stats; expands into the tag's tasks
+ */
+export class TagOverviewItem extends vscode.TreeItem {
+  constructor(
+    public readonly tagInfo: TagInfo,
+    public readonly isCurrent: boolean
+  ) {
+    super(tagInfo.name, vscode.TreeItemCollapsibleState.Collapsed);
+    // Distinct IDs so VS Code keeps the expansion state across refreshes
+    this.id = `tagOverview:${tagInfo.name}`;
+    this.description = this.getDescription();
+    this.tooltip = this.getTooltip();
+    this.iconPath = new vscode.ThemeIcon(
+      "tag",
+      isCurrent ? new vscode.ThemeColor("charts.blue") : undefined
+    );
+    this.contextValue = isCurrent ? "tagOverview-current" : "tagOverview";
+  }
+
+  private getDescription(): string {
+    const stats = this.tagInfo.stats;
+    const progress = stats
+      ? `${stats.completed}/${stats.total} done (${Math.round(
+          stats.completionPercentage
+        )}%)`
+      : `${this.tagInfo.taskCount} tasks`;
+    return this.isCurrent ? `${progress} • current` : progress;
+  }
+
+  private getTooltip(): string {
+    const { name, description, stats } = this.tagInfo;
+    const lines = [description ? `${name}: ${description}` : name];
+    if (stats) {
+      lines.push(
+        `Tasks: ${stats.total} (${Math.round(
+          stats.completionPercentage
+        )}% done)`,
+        `Done: ${stats.completed} • In progress: ${stats.inProgress} • ` +
+          `Review: ${stats.review} • Pending: ${stats.pending}`,
+        `Blocked: ${stats.blocked} • Deferred: ${stats.deferred} • ` +
+          `Cancelled: ${stats.cancelled}`,
+        `Subtasks: ${stats.subtasks.completed}/${stats.subtasks.total} done`
+      );
+    }
+    return lines.join("\n");
+  }
+}
+
+type TagOverviewElement = TagOverviewItem | TaskTreeItem;
+
+/**
+ * Tree data provider listing every tag of tasks.json with its progress
+ * Tasks are shown read-only and without switching the current tag
+ */
+export class TagOverviewProvider
+  implements vscode.TreeDataProvider<TagOverviewElement>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    TagOverviewElement | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly onChange = () => this.refresh();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    // Any refresh re-reads tasks.json, which covers edits to other tags too
+    this.taskManagerService.on("tasksUpdated", this.onChange);
+    this.taskManagerService.on("currentTagChanged", this.onChange);
+  }
+
+  public refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: TagOverviewElement): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(
+    element?: TagOverviewElement
+  ): Promise<TagOverviewElement[]> {
+    if (!element) {
+      const currentTag = this.taskManagerService.getCurrentTag();
+      const tagInfos = await this.taskManagerService.getAllTags();
+      return tagInfos.map(
+        (tagInfo) => new TagOverviewItem(tagInfo, tagInfo.name === currentTag)
+      );
+    }
+
+    if (element instanceof TagOverviewItem) {
+      const tasks = await this.taskManagerService.getTasksByTag(
+        element.tagInfo.name
+      );
+      return tasks.map(
+        (task) =>
+          new TaskTreeItem(
+            task,
+            null,
+            task.subtasks && task.subtasks.length > 0
+              ? vscode.TreeItemCollapsibleState.Collapsed
+              : vscode.TreeItemCollapsibleState.None,
+            false,
+            tasks
+          )
+      );
+    }
+
+    const task = element.task;
+    if (!task?.subtasks) {
+      return [];
+    }
+    return task.subtasks.map(
+      (subtask) =>
+        new TaskTreeItem(
+          null,
+          { ...subtask, parentId: Number(task.id) },
+          vscode.TreeItemCollapsibleState.None,
+          true,
+          element.allTasks
+        )
+    );
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("tasksUpdated", this.onChange);
+    this.taskManagerService.off("currentTagChanged", this.onChange);
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,610 @@
+import * as vscode from "vscode";
+import {
+  TaskFieldUpdate,
+  TasksRepository,
+} from "../services/tasksRepository";
+import { TaskManagerService } from "../services/taskManagerService";
+import { TaskSource } from "../services/workspaceContextService";
+import {
+  Subtask,
+  Task,
+  TaskComplexityAnalysis,
+  TaskStatus,
+} from "../types";
+import {
+  formatTaskId,
+  parseTaskId,
+  resolveDependencyId,
+} from "../utils/taskIdUtils";
+import { findTaskOrSubtask } from "../utils/taskUtils";
+import { escapeHtml, getNonce, getWebviewCsp } from "../utils/webviewUtils";
+
+/**
+ * Data sent to the task detail webview
+ */
+interface TaskDetailState {
+  tag: string;
+  sourceName: string;
+  taskId: string;
+  /** Only tasks of the active project are edited */
+  editable: boolean;
+  /** The task, or the parent of the subtask the panel shows */
+  task: Task | null;
+  subtask: Subtask | null;
+  dependencies: { id: string; title: string; status: string }[];
+  /** Full IDs ("5" or "5.2") of the dependencies of each subtask */
+  subtaskDependencies: Record<string, string[]>;
+  complexity: TaskComplexityAnalysis | null;
+}
+
+/**
+ * Messages posted by the task detail webview
+ */
+type TaskDetailMessage =
+  | { type: "ready" }
+  | { type: "updateField"; field: keyof TaskFieldUpdate; value: string }
+  | {
+      type: "updateSubtask";
+      subtaskId: string | number;
+      field: keyof TaskFieldUpdate;
+      value: string;
+    }
+  | { type: "toggleSubtask"; subtaskId: string | number; done: boolean }
+  | { type: "setDependencies"; subtaskId?: string | number; value: string }
+  | { type: "openTask"; id: string }
+  | { type: "switchSource" };
+
+const EDITABLE_FIELDS: (keyof TaskFieldUpdate)[] = [
+  "title",
+  "description",
+  "details",
+  "testStrategy",
+  "priority",
+  "status",
+];
+
+const SUBTASK_EDITABLE_FIELDS: (keyof TaskFieldUpdate)[] = [
+  "title",
+  "description",
+  "details",
+  "status",
+];
+
+/**
+ * Webview editor for a single task or subtask of one tag of one project,
+ * kept in sync with its tasks.json
+ */
+export class TaskDetailPanel {
+  public static readonly VIEW_TYPE = "taskMaster.taskDetail";
+  /** Open panels by tasks file, tag and task ID */
+  private static panels = new Map<string, TaskDetailPanel>();
+
+  private disposables: vscode.Disposable[] = [];
+  /** Status of each subtask before it was checked off, by subtask ID */
+  private statusesBeforeDone = new Map<string, TaskStatus>();
+
+  /**
+   * Show the detail panel for a task ("5") or subtask ("5.2") of a tag,
+   * by default of the current tag of the active project, reusing an open
+   * one
+   */
+  public static show(
+    taskManagerService: TaskManagerService,
+    taskId: string | number,
+    tag: string = taskManagerService.getCurrentTag(),
+    source: TaskSource | undefined = taskManagerService.getActiveTaskSource()
+  ): void {
+    const parsed = parseTaskId(taskId);
+    if (!parsed || !source) {
+      return;
+    }
+
+    const id = formatTaskId(parsed);
+    const key = [
+      new TasksRepository(source.taskMasterRoot).getTasksFilePath(),
+      tag,
+      id,
+    ].join("\n");
+    const existing = TaskDetailPanel.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      TaskDetailPanel.VIEW_TYPE,
+      `Task ${id}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    TaskDetailPanel.panels.set(
+      key,
+      new TaskDetailPanel(panel, taskManagerService, key, source, tag, id)
+    );
+  }
+
+  /**
+   * Close every open task detail panel
+   */
+  public static disposeAll(): void {
+    for (const panel of [...TaskDetailPanel.panels.values()]) {
+      panel.panel.dispose();
+    }
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly taskManagerService: TaskManagerService,
+    private readonly key: string,
+    private source: TaskSource,
+    private readonly tag: string,
+    private readonly taskId: string
+  ) {
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (message: TaskDetailMessage) => this.handleMessage(message),
+      null,
+      this.disposables
+    );
+
+    // Re-render whenever the tasks file is reloaded (file watcher, edits,
+    // tag or folder switch); the panel closes once its tag or folder is gone
+    const onTasksChanged = () => this.postState();
+    const events = [
+      "tasksUpdated",
+      "taskSourceTasksChanged",
+      "taskSourcesChanged",
+      "taskSourceChanged",
+    ];
+    events.forEach((event) =>
+      this.taskManagerService.on(event, onTasksChanged)
+    );
+    this.disposables.push({
+      dispose: () =>
+        events.forEach((event) =>
+          this.taskManagerService.off(event, onTasksChanged)
+        ),
+    });
+  }
+
+  private async handleMessage(message: TaskDetailMessage): Promise<void> {
+    const isSubtask = parseTaskId(this.taskId)?.subtaskId !== undefined;
+    const fields = isSubtask ? SUBTASK_EDITABLE_FIELDS : EDITABLE_FIELDS;
+    try {
+      switch (message.type) {
+        case "ready":
+          break;
+        case "updateField":
+          if (fields.includes(message.field)) {
+            this.requireEditable();
+            await this.taskManagerService.updateTaskFields(
+              this.taskId,
+              { [message.field]: message.value },
+              this.tag
+            );
+          }
+          break;
+        case "updateSubtask":
+          if (SUBTASK_EDITABLE_FIELDS.includes(message.field)) {
+            this.requireEditable();
+            await this.taskManagerService.updateTaskFields(
+              `${this.taskId}.${message.subtaskId}`,
+              { [message.field]: message.value },
+              this.tag
+            );
+          }
+          break;
+        case "toggleSubtask":
+          this.requireEditable();
+          await this.toggleSubtask(String(message.subtaskId), message.done);
+          break;
+        case "setDependencies":
+          this.requireEditable();
+          await this.taskManagerService.setTaskDependencies(
+            message.subtaskId !== undefined
+              ? `${this.taskId}.${message.subtaskId}`
+              : this.taskId,
+            message.value
+              .split(",")
+              .map((dep) => dep.trim())
+              .filter((dep) => dep !== ""),
+            this.tag
+          );
+          break;
+        case "openTask":
+          TaskDetailPanel.show(
+            this.taskManagerService,
+            message.id,
+            this.tag,
+            this.source
+          );
+          return;
+        case "switchSource":
+          await this.taskManagerService.setActiveTaskSource(this.source.id);
+          break;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update task: ${error}`);
+    }
+    // Always send the saved state back so rejected edits are reverted
+    await this.postState();
+  }
+
+  /**
+   * Edits go through the active project's repository and history, so the
+   * tasks of another folder are only shown
+   */
+  private isEditable(): boolean {
+    return (
+      this.taskManagerService.getActiveTaskSource()?.taskMasterRoot ===
+      this.source.taskMasterRoot
+    );
+  }
+
+  private requireEditable(): void {
+    if (!this.isEditable()) {
+      throw new Error(
+        `${this.source.name} is not the active project; switch to it to edit its tasks`
+      );
+    }
+  }
+
+  /**
+   * Read the tasks of the panel's tag from its project's file
+   * Returns undefined once the folder or the tag no longer exists
+   */
+  private async loadTasks(): Promise<Task[] | undefined> {
+    const source = this.taskManagerService
+      .getTaskSources()
+      .find(
+        (candidate) => candidate.taskMasterRoot === this.source.taskMasterRoot
+      );
+    if (!source) {
+      return undefined;
+    }
+    this.source = source;
+    return this.taskManagerService.getTaskSourceTagTasks(source, this.tag);
+  }
+
+  /**
+   * Check a subtask off, or give an unchecked one back the status it had
+   * before it was checked here (pending when unknown)
+   */
+  private async toggleSubtask(subtaskId: string, done: boolean): Promise<void> {
+    const subtask = findTaskOrSubtask(
+      (await this.loadTasks()) || [],
+      `${this.taskId}.${subtaskId}`
+    );
+    if (!subtask) {
+      return;
+    }
+
+    let status: TaskStatus = "done";
+    if (done) {
+      if (subtask.status !== "done") {
+        this.statusesBeforeDone.set(subtaskId, subtask.status);
+      }
+    } else {
+      status = this.statusesBeforeDone.get(subtaskId) ?? "pending";
+      this.statusesBeforeDone.delete(subtaskId);
+    }
+    await this.taskManagerService.updateTaskFields(
+      `${this.taskId}.${subtaskId}`,
+      { status },
+      this.tag
+    );
+  }
+
+  private async postState(): Promise<void> {
+    let state: TaskDetailState | undefined;
+    try {
+      state = await this.getState();
+    } catch (error) {
+      // Keep showing the last state while the file can't be read
+      console.warn(`Failed to read task ${this.taskId}:`, error);
+      return;
+    }
+    if (!state) {
+      this.panel.dispose();
+      return;
+    }
+
+    const node = state.subtask || state.task;
+    this.panel.title = node
+      ? `Task ${this.taskId}: ${node.title}`
+      : `Task ${this.taskId}`;
+    await this.panel.webview.postMessage({ type: "state", state });
+  }
+
+  private async getState(): Promise<TaskDetailState | undefined> {
+    const tasks = await this.loadTasks();
+    if (!tasks) {
+      return undefined;
+    }
+
+    const parsed = parseTaskId(this.taskId)!;
+    const task =
+      tasks.find((candidate) => Number(candidate.id) === parsed.taskId) ||
+      null;
+    const subtask =
+      parsed.subtaskId !== undefined
+        ? task?.subtasks?.find(
+            (candidate) => Number(candidate.id) === parsed.subtaskId
+          ) || null
+        : null;
+    const node = parsed.subtaskId !== undefined ? subtask : task;
+
+    const dependencies = (node?.dependencies || []).map((dep) => {
+      const id = resolveDependencyId(dep, subtask ? task! : undefined);
+      const target = findTaskOrSubtask(tasks, id);
+      return {
+        id,
+        title: target?.title || "(missing)",
+        status: target?.status || "",
+      };
+    });
+
+    const subtaskDependencies: Record<string, string[]> = {};
+    (task?.subtasks || []).forEach((candidate) => {
+      subtaskDependencies[candidate.id] = (candidate.dependencies || []).map(
+        (dep) => resolveDependencyId(dep, task!)
+      );
+    });
+
+    // The complexity report belongs to the current tag of the active project
+    let complexity: TaskComplexityAnalysis | null = null;
+    if (
+      task &&
+      !subtask &&
+      this.isEditable() &&
+      this.tag === this.taskManagerService.getCurrentTag()
+    ) {
+      const report = await this.taskManagerService.getComplexityReport();
+      complexity =
+        report?.complexityAnalysis.find(
+          (analysis) => String(analysis.taskId) === this.taskId
+        ) || null;
+    }
+
+    return {
+      tag: this.tag,
+      sourceName: this.source.name,
+      taskId: this.taskId,
+      editable: this.isEditable(),
+      task,
+      subtask,
+      dependencies,
+      subtaskDependencies,
+      complexity,
+    };
+  }
+
+  private dispose(): void {
+    TaskDetailPanel.panels.delete(this.key);
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private getHtml(): string {
+    const nonce = getNonce();
+    const csp = getWebviewCsp(this.panel.webview.cspSource, nonce);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Task ${escapeHtml(this.taskId)}</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    h1 { display: flex; gap: 8px; align-items: baseline; }
+    h1 .id { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    h2 { font-size: 1.05em; margin: 20px 0 6px; text-transform: uppercase; color: var(--vscode-descriptionForeground); }
+    input, textarea, select {
+      width: 100%; box-sizing: border-box; font: inherit;
+      color: var(--vscode-input-foreground); background: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent); padding: 4px 6px;
+    }
+    textarea { min-height: 4em; resize: vertical; }
+    h1 input { font-size: 1.2em; font-weight: 600; }
+    .row { display: flex; gap: 16px; }
+    .row label { flex: 1; }
+    .links a { margin-right: 12px; cursor: pointer; }
+    .subtask { display: flex; gap: 8px; align-items: center; margin: 4px 0; }
+    .subtask input[type=checkbox] { width: auto; }
+    .subtask a { min-width: 3em; cursor: pointer; }
+    .subtask select { width: auto; }
+    details { margin: 0 0 8px 28px; }
+    details > * { margin-top: 4px; }
+    .notice { padding: 6px 8px; background: var(--vscode-inputValidation-warningBackground); }
+    .meta a { cursor: pointer; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .score { font-size: 1.4em; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <div id="root"><p class="muted">Loading…</p></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const root = document.getElementById("root");
+    const STATUSES = ["pending", "in-progress", "review", "done", "blocked", "deferred", "cancelled"];
+    const PRIORITIES = ["high", "medium", "low"];
+
+    function el(tag, props, children) {
+      const node = document.createElement(tag);
+      Object.assign(node, props || {});
+      (children || []).forEach((child) =>
+        node.append(typeof child === "string" ? document.createTextNode(child) : child)
+      );
+      return node;
+    }
+
+    function textInput(name, value, multiline, onChange) {
+      const input = el(multiline ? "textarea" : "input", { value: value || "" });
+      input.dataset.field = name;
+      input.addEventListener("change", () => onChange(input.value));
+      return input;
+    }
+
+    function field(name, value, multiline) {
+      return textInput(name, value, multiline, (text) =>
+        vscode.postMessage({ type: "updateField", field: name, value: text })
+      );
+    }
+
+    function dependenciesInput(name, ids, subtaskId) {
+      const input = textInput(name, ids.join(", "), false, (text) =>
+        vscode.postMessage({ type: "setDependencies", subtaskId, value: text })
+      );
+      input.placeholder = "Comma-separated task IDs, e.g. 1, 3.2";
+      return input;
+    }
+
+    function openLink(id, text) {
+      const link = el("a", { textContent: text, title: "Open task " + id });
+      link.addEventListener("click", () => vscode.postMessage({ type: "openTask", id }));
+      return link;
+    }
+
+    function select(name, options, value, onChange) {
+      const node = el("select", {}, options.map((option) => el("option", { value: option, textContent: option })));
+      node.value = value;
+      node.dataset.field = name;
+      node.addEventListener("change", () => onChange(node.value));
+      return node;
+    }
+
+    function section(title, children) {
+      return el("section", {}, [el("h2", { textContent: title })].concat(children));
+    }
+
+    function render(state) {
+      // Don't clobber a field the user is currently editing
+      const focused = document.activeElement && document.activeElement.dataset
+        ? document.activeElement.dataset.field
+        : undefined;
+      if (focused && root.querySelector("[data-field='" + focused + "']") === document.activeElement) {
+        pending = state;
+        return;
+      }
+
+      const task = state.task;
+      const node = state.subtask || (state.taskId.includes(".") ? null : task);
+      // Keep expanded subtask editors open across re-renders
+      const expanded = new Set(
+        [...root.querySelectorAll("details[open]")].map((details) => details.dataset.subtask)
+      );
+      root.replaceChildren();
+      if (!node) {
+        root.append(el("p", { className: "muted", textContent: "Task " + state.taskId + " does not exist in tag \\"" + state.tag + "\\"." }));
+        return;
+      }
+
+      root.append(el("h1", {}, [el("span", { className: "id", textContent: "#" + state.taskId }), field("title", node.title)]));
+
+      const meta = el("p", { className: "muted meta" }, ["Tag " + state.tag + " · " + state.sourceName]);
+      if (state.subtask) {
+        meta.append(" · subtask of ", openLink(String(task.id), "#" + task.id + " " + task.title));
+      }
+      root.append(meta);
+      if (!state.editable) {
+        const switchButton = el("button", { textContent: "Switch to " + state.sourceName });
+        switchButton.addEventListener("click", () => vscode.postMessage({ type: "switchSource" }));
+        root.append(el("p", { className: "notice" }, [state.sourceName + " is not the active project, so its tasks are read-only. ", switchButton]));
+      }
+
+      const controls = [el("label", {}, ["Status ", select("status", STATUSES, node.status, (value) =>
+        vscode.postMessage({ type: "updateField", field: "status", value }))])];
+      if (!state.subtask) {
+        controls.push(el("label", {}, ["Priority ", select("priority", PRIORITIES, task.priority, (value) =>
+          vscode.postMessage({ type: "updateField", field: "priority", value }))]));
+      }
+      root.append(el("div", { className: "row" }, controls));
+
+      root.append(section("Description", [field("description", node.description, true)]));
+      root.append(section("Details", [field("details", node.details, true)]));
+      if (!state.subtask) {
+        root.append(section("Test Strategy", [field("testStrategy", task.testStrategy, true)]));
+      }
+
+      const links = el("div", { className: "links" }, state.dependencies.length
+        ? state.dependencies.map((dep) =>
+            openLink(dep.id, dep.id + " " + dep.title + (dep.status ? " (" + dep.status + ")" : "")))
+        : [el("span", { className: "muted", textContent: "No dependencies" })]);
+      root.append(section("Dependencies", [links, dependenciesInput("dependencies", state.dependencies.map((dep) => dep.id), undefined)]));
+
+      if (!state.subtask) {
+        renderSubtasks(state, expanded);
+      }
+      if (!state.editable) {
+        root.querySelectorAll("input, textarea, select").forEach((control) => {
+          control.disabled = true;
+        });
+      }
+    }
+
+    function renderSubtasks(state, expanded) {
+      const task = state.task;
+      const subtasks = (task.subtasks || []).map((subtask) => {
+        const id = task.id + "." + subtask.id;
+        const checkbox = el("input", { type: "checkbox", checked: subtask.status === "done" });
+        checkbox.addEventListener("change", () => vscode.postMessage({
+          type: "toggleSubtask", subtaskId: subtask.id, done: checkbox.checked,
+        }));
+        const update = (name) => (value) => vscode.postMessage({
+          type: "updateSubtask", subtaskId: subtask.id, field: name, value,
+        });
+        const prefix = "subtask-" + subtask.id + "-";
+        const details = el("details", { open: expanded.has(String(subtask.id)) }, [
+          el("summary", { textContent: "Description, details and dependencies" }),
+          textInput(prefix + "description", subtask.description, true, update("description")),
+          textInput(prefix + "details", subtask.details, true, update("details")),
+          dependenciesInput(prefix + "dependencies", state.subtaskDependencies[subtask.id] || [], subtask.id),
+        ]);
+        details.dataset.subtask = String(subtask.id);
+        return el("div", {}, [
+          el("div", { className: "subtask" }, [
+            checkbox,
+            openLink(id, id),
+            textInput(prefix + "title", subtask.title, false, update("title")),
+            select(prefix + "status", STATUSES, subtask.status, update("status")),
+          ]),
+          details,
+        ]);
+      });
+      root.append(section("Subtasks", subtasks.length ? subtasks : [el("p", { className: "muted", textContent: "No subtasks" })]));
+
+      const complexity = state.complexity;
+      root.append(section("Complexity", complexity
+        ? [
+            el("p", {}, [el("span", { className: "score", textContent: complexity.complexityScore + "/10" }),
+              " · " + complexity.recommendedSubtasks + " recommended subtasks"]),
+            el("p", { textContent: complexity.reasoning }),
+            el("p", { className: "muted", textContent: complexity.expansionPrompt }),
+          ]
+        : [el("p", { className: "muted", textContent: "No complexity analysis for this task" })]));
+    }
+
+    let pending;
+    document.addEventListener("focusout", () => {
+      if (pending) {
+        const state = pending;
+        pending = undefined;
+        setTimeout(() => render(state), 0);
+      }
+    });
+
+    window.addEventListener("message", (event) => {
+      if (event.data.type === "state") {
+        render(event.data.state);
+      }
+    });
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import { TaskManagerService } from "../services/taskManagerService";
+import { planTaskDrop } from "../utils/taskDrop";
+import { TaskTreeElement, TaskTreeItem } from "./taskTreeProvider";
+
+const TASK_MIME_TYPE = "application/vnd.code.tree.taskmaster.taskview";
+
+/**
+ * Drag-and-drop within the task tree
+ * Tasks dropped onto a task become its dependents or its subtasks (the user
+ * picks which), subtasks move to the parent or position they are dropped
+ * on, and subtasks dropped onto empty space become standalone tasks
+ */
+export class TaskDragAndDropController
+  implements vscode.TreeDragAndDropController<TaskTreeElement>
+{
+  public readonly dragMimeTypes = [TASK_MIME_TYPE];
+  public readonly dropMimeTypes = [TASK_MIME_TYPE];
+
+  constructor(private readonly taskManagerService: TaskManagerService) {}
+
+  public handleDrag(
+    source: readonly TaskTreeElement[],
+    dataTransfer: vscode.DataTransfer
+  ): void {
+    const ids = source.flatMap((element) =>
+      element instanceof TaskTreeItem ? element.getFullId() ?? [] : []
+    );
+    if (ids.length > 0) {
+      dataTransfer.set(TASK_MIME_TYPE, new vscode.DataTransferItem(ids));
+    }
+  }
+
+  public async handleDrop(
+    target: TaskTreeElement | undefined,
+    dataTransfer: vscode.DataTransfer,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const ids: string[] | undefined = dataTransfer.get(TASK_MIME_TYPE)?.value;
+    if (!ids || ids.length === 0) {
+      return;
+    }
+    // Groups and info rows are not drop targets
+    if (target !== undefined && !(target instanceof TaskTreeItem)) {
+      return;
+    }
+
+    const options = planTaskDrop(
+      this.taskManagerService.getTasks(),
+      ids,
+      target?.getFullId()
+    );
+    if (options.length === 0) {
+      return;
+    }
+
+    let option = options[0];
+    if (options.length > 1) {
+      const picked = await vscode.window.showQuickPick(options, {
+        placeHolder: "What should dropping here do?",
+      });
+      if (!picked || token.isCancellationRequested) {
+        return;
+      }
+      option = picked;
+    }
+
+    try {
+      const { action } = option;
+      if (action.kind === "dependency") {
+        await this.taskManagerService.addTasksDependency(
+          action.ids,
+          action.dependsOn
+        );
+      } else {
+        await this.taskManagerService.moveTasks(action.moves);
+      }
+    } catch (error) {
+      console.error("Error applying task drop:", error);
+      vscode.window.showErrorMessage(`${option.label} failed: ${error}`);
+    }
+  }
+}
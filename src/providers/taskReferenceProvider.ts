@@ -0,0 +1,207 @@
+import * as vscode from "vscode";
+import { ConfigService } from "../services/configService";
+import { TaskManagerService } from "../services/taskManagerService";
+import { Subtask, Task } from "../types";
+import { parseTaskId, resolveDependencyId } from "../utils/taskIdUtils";
+import {
+  compileTaskReferencePattern,
+  DEFAULT_TASK_REFERENCE_PATTERN,
+  findTaskReferences,
+  TaskReference,
+} from "../utils/taskReferences";
+import { findTaskById, findTaskOrSubtask } from "../utils/taskUtils";
+
+const STATUS_COMMAND = "taskMaster.setReferencedTaskStatus";
+
+/**
+ * Makes task references in source code ("// TM-42", "// task 42.3")
+ * clickable, explains them on hover and offers status changes as CodeLens
+ * Only references to tasks of the current tag are decorated
+ */
+export class TaskReferenceProvider
+  implements
+    vscode.DocumentLinkProvider,
+    vscode.HoverProvider,
+    vscode.CodeLensProvider,
+    vscode.Disposable
+{
+  private disposables: vscode.Disposable[] = [];
+  private pattern = this.compilePattern();
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private readonly onTasksUpdated = () => this._onDidChangeCodeLenses.fire();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    const selector: vscode.DocumentSelector = { scheme: "file" };
+    this.taskManagerService.on("tasksUpdated", this.onTasksUpdated);
+    this.disposables.push(
+      this._onDidChangeCodeLenses,
+      vscode.languages.registerDocumentLinkProvider(selector, this),
+      vscode.languages.registerHoverProvider(selector, this),
+      vscode.languages.registerCodeLensProvider(selector, this),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("taskMaster.codeReferences")) {
+          this.pattern = this.compilePattern();
+          this._onDidChangeCodeLenses.fire();
+        }
+      })
+    );
+  }
+
+  public provideDocumentLinks(
+    document: vscode.TextDocument
+  ): vscode.DocumentLink[] {
+    return this.findReferences(document).map(({ range, node, id }) => {
+      const taskId = parseTaskId(id)!.taskId;
+      const link = new vscode.DocumentLink(
+        range,
+        commandUri("taskMaster.showTaskDetails", [taskId])
+      );
+      link.tooltip = `Open task ${taskId}: ${node.title}`;
+      return link;
+    });
+  }
+
+  public provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Hover | undefined {
+    const reference = this.findReferences(document).find(({ range }) =>
+      range.contains(position)
+    );
+    if (!reference) {
+      return undefined;
+    }
+
+    const { id, node, range } = reference;
+    const tasks = this.taskManagerService.getTasks();
+    const parsed = parseTaskId(id)!;
+    const parent = findTaskById(tasks, parsed.taskId)!;
+    const isSubtask = parsed.subtaskId !== undefined;
+
+    const dependencies = (node.dependencies || []).map((dependency) => {
+      const dependencyId = resolveDependencyId(
+        dependency,
+        isSubtask ? parent : undefined
+      );
+      const target = findTaskOrSubtask(tasks, dependencyId);
+      return `${dependencyId} (${target ? target.status : "missing"})`;
+    });
+
+    const markdown = new vscode.MarkdownString(undefined, true);
+    markdown.isTrusted = {
+      enabledCommands: ["taskMaster.showTaskDetails", STATUS_COMMAND],
+    };
+    markdown.appendMarkdown(`**${id}: `);
+    markdown.appendText(node.title);
+    markdown.appendMarkdown("**\n\n");
+    if (isSubtask) {
+      markdown.appendMarkdown(`Subtask of ${parent.id}: `);
+      markdown.appendText(parent.title);
+      markdown.appendMarkdown("\n\n");
+    }
+    markdown.appendMarkdown(
+      `Status: ${node.status} · Priority: ${parent.priority}` +
+        (isSubtask ? " (parent)" : "") +
+        "\n\n"
+    );
+    markdown.appendMarkdown(
+      `Dependencies: ${dependencies.join(", ") || "none"}\n\n`
+    );
+    markdown.appendMarkdown(
+      [
+        `[Open Task](${commandUri("taskMaster.showTaskDetails", [
+          parsed.taskId,
+        ])})`,
+        `[Mark Done](${commandUri(STATUS_COMMAND, [id, "done"])})`,
+        `[Set In Progress](${commandUri(STATUS_COMMAND, [id, "in-progress"])})`,
+      ].join(" · ")
+    );
+    return new vscode.Hover(markdown, range);
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!ConfigService.getCodeReferenceConfig().codeLens) {
+      return [];
+    }
+
+    return this.findReferences(document).flatMap(({ id, node, range }) => {
+      const lenses: vscode.CodeLens[] = [];
+      if (node.status !== "done") {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: `$(check) Mark ${id} done`,
+            command: STATUS_COMMAND,
+            arguments: [id, "done"],
+          })
+        );
+      }
+      if (node.status !== "done" && node.status !== "in-progress") {
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title: `$(play) Set ${id} in progress`,
+            command: STATUS_COMMAND,
+            arguments: [id, "in-progress"],
+          })
+        );
+      }
+      return lenses;
+    });
+  }
+
+  /**
+   * References in a document to tasks and subtasks that exist
+   */
+  private findReferences(
+    document: vscode.TextDocument
+  ): (TaskReference & { range: vscode.Range; node: Task | Subtask })[] {
+    if (!this.pattern || !ConfigService.getCodeReferenceConfig().enabled) {
+      return [];
+    }
+
+    const tasks = this.taskManagerService.getTasks();
+    return findTaskReferences(
+      document.getText(),
+      this.pattern,
+      document.languageId
+    ).flatMap((reference) => {
+      const node = findTaskOrSubtask(tasks, reference.id);
+      if (!node) {
+        return [];
+      }
+      const range = new vscode.Range(
+        document.positionAt(reference.index),
+        document.positionAt(reference.index + reference.length)
+      );
+      return [{ ...reference, range, node }];
+    });
+  }
+
+  /**
+   * Compile the configured pattern, falling back to the default one
+   */
+  private compilePattern(): RegExp | undefined {
+    const { pattern } = ConfigService.getCodeReferenceConfig();
+    const compiled = compileTaskReferencePattern(pattern);
+    if (!compiled) {
+      vscode.window.showWarningMessage(
+        `Invalid task reference pattern "${pattern}": it must be a regular expression with a capture group for the task ID. Using the default pattern.`
+      );
+      return compileTaskReferencePattern(DEFAULT_TASK_REFERENCE_PATTERN);
+    }
+    return compiled;
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("tasksUpdated", this.onTasksUpdated);
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+}
+
+function commandUri(command: string, args: unknown[]): vscode.Uri {
+  return vscode.Uri.parse(
+    `command:${command}?${encodeURIComponent(JSON.stringify(args))}`
+  );
+}
@@ -1,5 +1,59 @@
 import * as vscode from "vscode";
-import { Subtask, Task } from "../types";
+import { TaskSource } from "../services/workspaceContextService";
+import { Subtask, Task, TaskStatus } from "../types";
+import {
+  applyStatusVisibility,
+  StatusVisibilityResult,
+} from "../utils/statusVisibility";
+import {
+  groupTasks,
+  sortTasks,
+  TaskGroup,
+  TaskGroupMode,
+  TaskSortMode,
+} from "../utils/taskGrouping";
+import { TaskSearchMatch } from "../utils/taskSearch";
+
+/**
+ * Icon of a task or subtask status
+ */
+function getStatusIcon(status: string): vscode.ThemeIcon {
+  switch (status) {
+    case "done":
+      return new vscode.ThemeIcon(
+        "check",
+        new vscode.ThemeColor("charts.green")
+      );
+    case "in-progress":
+      return new vscode.ThemeIcon(
+        "sync",
+        new vscode.ThemeColor("charts.blue")
+      );
+    case "blocked":
+      return new vscode.ThemeIcon(
+        "error",
+        new vscode.ThemeColor("charts.red")
+      );
+    case "review":
+      return new vscode.ThemeIcon(
+        "eye",
+        new vscode.ThemeColor("charts.orange")
+      );
+    case "deferred":
+      return new vscode.ThemeIcon(
+        "clock",
+        new vscode.ThemeColor("charts.yellow")
+      );
+    case "cancelled":
+      return new vscode.ThemeIcon("x", new vscode.ThemeColor("charts.red"));
+    case "pending":
+    default:
+      return new vscode.ThemeIcon(
+        "circle-outline",
+        new vscode.ThemeColor("charts.foreground")
+      );
+  }
+}
 
 /**
  * Tree item representing a task or subtask in the tree view
@@ -10,7 +64,7 @@ export class TaskTreeItem extends vscode.TreeItem {
     public readonly subtask: Subtask | null,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly isSubtask: boolean = false,
-    private readonly allTasks: Task[] = []
+    public readonly allTasks: Task[] = []
   ) {
     const label = task?.title || subtask?.title || "Unknown";
     super(label, collapsibleState);
@@ -22,6 +76,19 @@ export class TaskTreeItem extends vscode.TreeItem {
     // this.command = this.getCommand();
   }
 
+  /**
+   * Full ID of the task ("5") or subtask ("5.2") shown by this item
+   */
+  public getFullId(): string | undefined {
+    if (this.task) {
+      return `${this.task.id}`;
+    }
+    if (this.subtask) {
+      return `${this.subtask.parentId}.${this.subtask.id}`;
+    }
+    return undefined;
+  }
+
   /**
    * Get the tooltip text for the tree item
    */
@@ -117,43 +184,7 @@ export class TaskTreeItem extends vscode.TreeItem {
    * Get the icon path based on task status
    */
   private getIconPath(): vscode.ThemeIcon {
-    const status = this.task?.status || this.subtask?.status || "";
-
-    switch (status) {
-      case "done":
-        return new vscode.ThemeIcon(
-          "check",
-          new vscode.ThemeColor("charts.green")
-        );
-      case "in-progress":
-        return new vscode.ThemeIcon(
-          "sync",
-          new vscode.ThemeColor("charts.blue")
-        );
-      case "blocked":
-        return new vscode.ThemeIcon(
-          "error",
-          new vscode.ThemeColor("charts.red")
-        );
-      case "review":
-        return new vscode.ThemeIcon(
-          "eye",
-          new vscode.ThemeColor("charts.orange")
-        );
-      case "deferred":
-        return new vscode.ThemeIcon(
-          "clock",
-          new vscode.ThemeColor("charts.yellow")
-        );
-      case "cancelled":
-        return new vscode.ThemeIcon("x", new vscode.ThemeColor("charts.red"));
-      case "pending":
-      default:
-        return new vscode.ThemeIcon(
-          "circle-outline",
-          new vscode.ThemeColor("charts.foreground")
-        );
-    }
+    return getStatusIcon(this.task?.status || this.subtask?.status || "");
   }
 
   /**
@@ -183,6 +214,8 @@ export class TaskInfoTreeItem extends vscode.TreeItem {
       id: number | string;
       title: string;
       status: string;
+      /** Why this task was picked */
+      reason?: string;
     },
     label?: string
   ) {
@@ -199,6 +232,9 @@ export class TaskInfoTreeItem extends vscode.TreeItem {
       this.tooltip = `${type === "current" ? "Current" : "Next"} task: ${
         taskInfo.title
       } (Status: ${taskInfo.status})`;
+      if (taskInfo.reason) {
+        this.tooltip += `\nWhy: ${taskInfo.reason}`;
+      }
       this.iconPath =
         type === "current"
           ? new vscode.ThemeIcon("target", new vscode.ThemeColor("charts.blue"))
@@ -221,24 +257,148 @@ export class TaskInfoTreeItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Tree item representing a workspace folder with a Task Master project
+ * Shown at the root when the workspace holds several projects; each one
+ * expands into its tasks, and clicking another one switches to it
+ */
+export class TaskSourceTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly source: TaskSource,
+    public readonly isActive: boolean
+  ) {
+    super(
+      source.name,
+      isActive
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    // Distinct IDs so VS Code re-applies the collapsible state on switch
+    this.id = `taskSource:${source.id}:${isActive ? "active" : "inactive"}`;
+    this.tooltip = source.projectRoot;
+    this.description = isActive ? "active" : undefined;
+    this.iconPath = new vscode.ThemeIcon(isActive ? "repo" : "folder");
+    this.contextValue = isActive ? "taskSource-active" : "taskSource";
+    if (!isActive) {
+      this.command = {
+        command: "taskMaster.switchTaskSource",
+        title: "Switch Task Master Project",
+        arguments: [source.id],
+      };
+    }
+  }
+}
+
+/**
+ * Read-only task or subtask of a workspace folder other than the active
+ * one; clicking it switches to that folder before opening the task, so
+ * nothing acts on it against the wrong project
+ */
+export class SourceTaskTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly source: TaskSource,
+    public readonly task: Task,
+    public readonly subtask?: Subtask
+  ) {
+    const node = subtask ?? task;
+    super(
+      node.title,
+      !subtask && task.subtasks && task.subtasks.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    const fullId = subtask ? `${task.id}.${subtask.id}` : `${task.id}`;
+    this.id = `sourceTask:${source.id}:${fullId}`;
+    this.description = `[${subtask ? subtask.id : task.id}] ${node.status}`;
+    this.tooltip = `${source.name} · Task ${fullId}: ${node.title}`;
+    this.iconPath = getStatusIcon(node.status);
+    this.contextValue = "sourceTask";
+    this.command = {
+      command: "taskMaster.switchTaskSource",
+      title: "Switch Task Master Project",
+      arguments: [source.id, Number(task.id)],
+    };
+  }
+}
+
+/**
+ * Tree item grouping tasks by status, priority, complexity or readiness
+ */
+export class TaskGroupTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly group: TaskGroup,
+    public readonly mode: TaskGroupMode
+  ) {
+    super(group.label, vscode.TreeItemCollapsibleState.Expanded);
+    // Per-mode IDs so each grouping keeps its own expansion state
+    this.id = `taskGroup:${mode}:${group.key}`;
+    this.description = `${group.tasks.length}`;
+    this.iconPath = new vscode.ThemeIcon("folder");
+    this.contextValue = `taskGroup-${mode}`;
+  }
+}
+
+/**
+ * Summary of the tasks and subtasks hidden by status; shows them on click
+ */
+export class HiddenTasksTreeItem extends vscode.TreeItem {
+  constructor(
+    hiddenTasks: number,
+    hiddenSubtasks: number,
+    hiddenStatuses: TaskStatus[]
+  ) {
+    super(
+      `${hiddenTasks + hiddenSubtasks} hidden`,
+      vscode.TreeItemCollapsibleState.None
+    );
+    this.description = hiddenStatuses.join(", ");
+    this.tooltip =
+      `${hiddenTasks} ${hiddenTasks === 1 ? "task" : "tasks"} and ` +
+      `${hiddenSubtasks} ${hiddenSubtasks === 1 ? "subtask" : "subtasks"} ` +
+      `hidden by status. Click to show all statuses.`;
+    this.iconPath = new vscode.ThemeIcon("eye-closed");
+    this.contextValue = "hiddenTasks";
+    this.command = {
+      command: "taskMaster.showAllStatuses",
+      title: "Show All Statuses",
+    };
+  }
+}
+
+export type TaskTreeElement =
+  | TaskTreeItem
+  | TaskInfoTreeItem
+  | TaskSourceTreeItem
+  | SourceTaskTreeItem
+  | TaskGroupTreeItem
+  | HiddenTasksTreeItem;
+
 /**
  * Tree data provider for Task Master tasks
  */
 export class TaskTreeProvider
-  implements vscode.TreeDataProvider<TaskTreeItem | TaskInfoTreeItem>
+  implements vscode.TreeDataProvider<TaskTreeElement>
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
-    TaskTreeItem | TaskInfoTreeItem | undefined | null | void
-  > = new vscode.EventEmitter<
-    TaskTreeItem | TaskInfoTreeItem | undefined | null | void
-  >();
+    TaskTreeElement | undefined | null | void
+  > = new vscode.EventEmitter<TaskTreeElement | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<
-    TaskTreeItem | TaskInfoTreeItem | undefined | null | void
+    TaskTreeElement | undefined | null | void
   > = this._onDidChangeTreeData.event;
 
   private tasks: Task[] = [];
   private currentTask: Task | null = null;
   private nextTask: Task | null = null;
+  private nextTaskReason: string | undefined;
+  private sources: TaskSource[] = [];
+  private activeSourceId: string | undefined;
+  private loadSourceTasks:
+    | ((source: TaskSource) => Promise<Task[]>)
+    | undefined;
+  private searchMatches: Map<number, TaskSearchMatch> | undefined;
+  private groupMode: TaskGroupMode = "none";
+  private sortMode: TaskSortMode = "id";
+  private hiddenStatuses: TaskStatus[] = [];
 
   /**
    * Update the tasks and refresh the tree view
@@ -253,29 +413,102 @@ export class TaskTreeProvider
    */
   public updateCurrentAndNextTasks(
     currentTask: Task | null,
-    nextTask: Task | null
+    nextTask: Task | null,
+    nextTaskReason?: string
   ): void {
     this.currentTask = currentTask;
     this.nextTask = nextTask;
+    this.nextTaskReason = nextTaskReason;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Update the workspace folders holding Task Master projects
+   * With more than one, the tree is grouped by folder; loadTasks reads the
+   * tasks shown under the folders other than the active one
+   */
+  public updateTaskSources(
+    sources: TaskSource[],
+    activeSourceId: string | undefined,
+    loadTasks?: (source: TaskSource) => Promise<Task[]>
+  ): void {
+    this.sources = sources;
+    this.activeSourceId = activeSourceId;
+    this.loadSourceTasks = loadTasks;
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Show only the tasks matching a search, highlighting the matched text
+   * Pass undefined to show all tasks again
+   */
+  public setSearchResults(matches: TaskSearchMatch[] | undefined): void {
+    this.searchMatches =
+      matches && new Map(matches.map((match) => [match.taskId, match]));
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Set how tasks are grouped and ordered
+   */
+  public setGrouping(groupMode: TaskGroupMode, sortMode: TaskSortMode): void {
+    this.groupMode = groupMode;
+    this.sortMode = sortMode;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Hide tasks and subtasks of the given statuses
+   */
+  public setHiddenStatuses(statuses: TaskStatus[]): void {
+    this.hiddenStatuses = statuses;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the tree item of a task or subtask, e.g. to reveal it
+   */
+  public getTaskItem(
+    taskId: number,
+    subtaskId?: number
+  ): TaskTreeItem | undefined {
+    const task = this.getStatusVisibility().tasks.find(
+      (candidate) => Number(candidate.id) === taskId
+    );
+    if (!task || subtaskId === undefined) {
+      return task && this.createTaskItem(task);
+    }
+    const subtask = task.subtasks?.find(
+      (candidate) => Number(candidate.id) === subtaskId
+    );
+    return subtask && this.createSubtaskItem(task, subtask);
+  }
+
   /**
    * Get tree item representation
    */
-  getTreeItem(element: TaskTreeItem | TaskInfoTreeItem): vscode.TreeItem {
+  getTreeItem(element: TaskTreeElement): vscode.TreeItem {
     return element;
   }
 
   /**
    * Get children of a tree item
    */
-  getChildren(
-    element?: TaskTreeItem | TaskInfoTreeItem
-  ): Thenable<(TaskTreeItem | TaskInfoTreeItem)[]> {
-    if (!element) {
+  getChildren(element?: TaskTreeElement): Thenable<TaskTreeElement[]> {
+    if (!element && this.sources.length > 1) {
+      // Multi-root - group by workspace folder
+      return Promise.resolve(this.getSourceTreeItems());
+    } else if (
+      !element ||
+      (element instanceof TaskSourceTreeItem && element.isActive)
+    ) {
+      // While searching, only the matching tasks are listed
+      if (this.searchMatches) {
+        return Promise.resolve(this.getTaskTreeItems());
+      }
+
       // Root level - return task info items followed by tasks
-      const items: (TaskTreeItem | TaskInfoTreeItem)[] = [];
+      const items: TaskTreeElement[] = [];
 
       // Add current task info
       if (this.currentTask) {
@@ -297,6 +530,7 @@ export class TaskTreeProvider
             id: this.nextTask.id,
             title: this.nextTask.title,
             status: this.nextTask.status,
+            reason: this.nextTaskReason,
           })
         );
       } else {
@@ -312,6 +546,21 @@ export class TaskTreeProvider
       items.push(...this.getTaskTreeItems());
 
       return Promise.resolve(items);
+    } else if (element instanceof TaskSourceTreeItem) {
+      return this.getSourceTaskItems(element.source);
+    } else if (element instanceof SourceTaskTreeItem) {
+      return Promise.resolve(
+        element.subtask
+          ? []
+          : (element.task.subtasks || []).map(
+              (subtask) =>
+                new SourceTaskTreeItem(element.source, element.task, subtask)
+            )
+      );
+    } else if (element instanceof TaskGroupTreeItem) {
+      return Promise.resolve(
+        element.group.tasks.map((task) => this.createTaskItem(task))
+      );
     } else if (
       element instanceof TaskTreeItem &&
       element.task &&
@@ -327,21 +576,107 @@ export class TaskTreeProvider
   }
 
   /**
-   * Get tree items for tasks
+   * Get tree items for the workspace folders holding projects
+   */
+  private getSourceTreeItems(): TaskSourceTreeItem[] {
+    return this.sources.map(
+      (source) =>
+        new TaskSourceTreeItem(source, source.id === this.activeSourceId)
+    );
+  }
+
+  /**
+   * Get tree items for the tasks of a folder other than the active one,
+   * hiding the same statuses as for the active folder
    */
-  private getTaskTreeItems(): TaskTreeItem[] {
+  private async getSourceTaskItems(
+    source: TaskSource
+  ): Promise<SourceTaskTreeItem[]> {
+    try {
+      const tasks = (await this.loadSourceTasks?.(source)) ?? [];
+      return applyStatusVisibility(tasks, this.hiddenStatuses).tasks.map(
+        (task) => new SourceTaskTreeItem(source, task)
+      );
+    } catch (error) {
+      console.error(`Failed to read the tasks of ${source.name}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get tree items for tasks, or for their groups when grouping
+   */
+  private getTaskTreeItems(): TaskTreeElement[] {
     if (!this.tasks || this.tasks.length === 0) {
       return [];
     }
 
-    return this.tasks.map((task) => {
-      const hasSubtasks = task.subtasks && task.subtasks.length > 0;
-      const collapsibleState = hasSubtasks
-        ? vscode.TreeItemCollapsibleState.Collapsed
-        : vscode.TreeItemCollapsibleState.None;
+    const mode = this.groupMode;
+    const items: TaskTreeElement[] =
+      mode !== "none"
+        ? this.getTaskGroups().map(
+            (group) => new TaskGroupTreeItem(group, mode)
+          )
+        : this.getVisibleTasks().map((task) => this.createTaskItem(task));
+
+    const { hiddenTasks, hiddenSubtasks } = this.getStatusVisibility();
+    if (hiddenTasks + hiddenSubtasks > 0) {
+      items.push(
+        new HiddenTasksTreeItem(
+          hiddenTasks,
+          hiddenSubtasks,
+          this.hiddenStatuses
+        )
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Get the tasks to show, filtered by status and search and sorted
+   */
+  private getVisibleTasks(): Task[] {
+    const matches = this.searchMatches;
+    const tasks = this.getStatusVisibility().tasks.filter(
+      (task) => !matches || matches.has(Number(task.id))
+    );
+    return sortTasks(tasks, this.sortMode, this.tasks);
+  }
+
+  private getStatusVisibility(): StatusVisibilityResult {
+    return applyStatusVisibility(this.tasks, this.hiddenStatuses);
+  }
+
+  private getTaskGroups(): TaskGroup[] {
+    return this.groupMode === "none"
+      ? []
+      : groupTasks(this.getVisibleTasks(), this.groupMode, this.tasks);
+  }
 
-      return new TaskTreeItem(task, null, collapsibleState, false, this.tasks);
-    });
+  /**
+   * Create the tree item of a task, with a stable ID for revealing it
+   */
+  private createTaskItem(task: Task): TaskTreeItem {
+    const match = this.searchMatches?.get(Number(task.id));
+    const hasSubtasks = task.subtasks && task.subtasks.length > 0;
+    const collapsibleState = !hasSubtasks
+      ? vscode.TreeItemCollapsibleState.None
+      : match && match.subtasks.size > 0
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : vscode.TreeItemCollapsibleState.Collapsed;
+
+    const item = new TaskTreeItem(
+      task,
+      null,
+      collapsibleState,
+      false,
+      this.tasks
+    );
+    item.id = `task:${task.id}`;
+    if (match) {
+      item.label = { label: task.title, highlights: match.titleHighlights };
+    }
+    return item;
   }
 
   /**
@@ -352,21 +687,36 @@ export class TaskTreeProvider
       return [];
     }
 
-    return task.subtasks.map((subtask) => {
-      // Ensure parentId is set correctly
-      const subtaskWithParentId = {
-        ...subtask,
-        parentId: Number(task.id),
-      };
+    return task.subtasks.map((subtask) =>
+      this.createSubtaskItem(task, subtask)
+    );
+  }
 
-      return new TaskTreeItem(
-        null,
-        subtaskWithParentId,
-        vscode.TreeItemCollapsibleState.None,
-        true,
-        this.tasks
-      );
-    });
+  /**
+   * Create the tree item of a subtask, with a stable ID for revealing it
+   */
+  private createSubtaskItem(task: Task, subtask: Subtask): TaskTreeItem {
+    // Ensure parentId is set correctly
+    const subtaskWithParentId = {
+      ...subtask,
+      parentId: Number(task.id),
+    };
+
+    const item = new TaskTreeItem(
+      null,
+      subtaskWithParentId,
+      vscode.TreeItemCollapsibleState.None,
+      true,
+      this.tasks
+    );
+    item.id = `task:${task.id}.${subtask.id}`;
+    const highlights = this.searchMatches
+      ?.get(Number(task.id))
+      ?.subtasks.get(Number(subtask.id));
+    if (highlights) {
+      item.label = { label: subtask.title, highlights };
+    }
+    return item;
   }
 
   /**
@@ -379,32 +729,46 @@ export class TaskTreeProvider
   /**
    * Get parent of a tree item (required for tree view)
    */
-  getParent(
-    element: TaskTreeItem | TaskInfoTreeItem
-  ): vscode.ProviderResult<TaskTreeItem | TaskInfoTreeItem> {
-    // TaskInfoTreeItem instances have no parents (they are at root level)
-    if (element instanceof TaskInfoTreeItem) {
+  getParent(element: TaskTreeElement): vscode.ProviderResult<TaskTreeElement> {
+    if (element instanceof TaskSourceTreeItem) {
       return null;
     }
+    if (element instanceof SourceTaskTreeItem) {
+      return element.subtask
+        ? new SourceTaskTreeItem(element.source, element.task)
+        : new TaskSourceTreeItem(element.source, false);
+    }
+
+    // Top-level items sit under the active folder when grouped
+    const activeSource =
+      this.sources.length > 1
+        ? this.getSourceTreeItems().find((item) => item.isActive) ?? null
+        : null;
+
+    if (
+      element instanceof TaskInfoTreeItem ||
+      element instanceof TaskGroupTreeItem ||
+      element instanceof HiddenTasksTreeItem
+    ) {
+      return activeSource;
+    }
 
     // For subtasks, find the parent task
     if (element.isSubtask && element.subtask) {
-      const parentTask = this.tasks.find((task) =>
-        task.subtasks?.some((subtask) => subtask.id === element.subtask?.id)
+      const parentId = element.subtask.parentId;
+      const parentTask = this.tasks.find(
+        (task) => Number(task.id) === Number(parentId)
       );
 
       if (parentTask) {
-        return new TaskTreeItem(
-          parentTask,
-          null,
-          vscode.TreeItemCollapsibleState.Expanded,
-          false,
-          this.tasks
-        );
+        return this.createTaskItem(parentTask);
       }
     }
 
-    // Tasks don't have parents (they are root level)
-    return null;
+    // Tasks sit in their group when grouping, otherwise at the top level
+    const group = this.getTaskGroups().find((candidate) =>
+      candidate.tasks.some((task) => task.id === element.task?.id)
+    );
+    return group ? new TaskGroupTreeItem(group, this.groupMode) : activeSource;
   }
 }
@@ -0,0 +1,156 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { TaskManagerService } from "../services/taskManagerService";
+import { Task } from "../types";
+import {
+  formatTodoLocation,
+  matchTodosToTasks,
+  TodoComment,
+  TodoKind,
+} from "../utils/todoScanner";
+
+const KIND_ICONS: Record<TodoKind, string> = {
+  TODO: "checklist",
+  FIXME: "bug",
+  HACK: "tools",
+};
+
+/**
+ * File containing TODO comments
+ */
+export class TodoFileTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly filePath: string,
+    public readonly todos: TodoTreeItem[]
+  ) {
+    super(filePath, vscode.TreeItemCollapsibleState.Expanded);
+    const tracked = todos.filter((todo) => todo.task).length;
+    this.description = `${todos.length}`;
+    if (tracked > 0) {
+      this.description += ` (${tracked} with tasks)`;
+    }
+    this.iconPath = vscode.ThemeIcon.File;
+    this.resourceUri = todos[0]?.uri;
+    this.contextValue = "todoFile";
+  }
+}
+
+/**
+ * Single TODO comment; selecting it opens the comment, a check mark shows
+ * it already has a task
+ */
+export class TodoTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly todo: TodoComment,
+    public readonly uri: vscode.Uri,
+    public readonly task?: Task
+  ) {
+    super(
+      `${todo.kind}: ${todo.text || "(no text)"}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+    this.description = task
+      ? `line ${todo.line} → task ${task.id}`
+      : `line ${todo.line}`;
+    this.tooltip = `${formatTodoLocation(todo)}\n${
+      task ? `Task ${task.id}: ${task.title} (${task.status})` : "No task yet"
+    }`;
+    this.iconPath = task
+      ? new vscode.ThemeIcon("pass", new vscode.ThemeColor("charts.green"))
+      : new vscode.ThemeIcon(KIND_ICONS[todo.kind]);
+    this.contextValue = task ? "todo-tracked" : "todo";
+    const position = new vscode.Position(todo.line - 1, 0);
+    this.command = {
+      command: "vscode.open",
+      title: "Open Comment",
+      arguments: [uri, { selection: new vscode.Range(position, position) }],
+    };
+  }
+}
+
+type TodoTreeElement = TodoFileTreeItem | TodoTreeItem;
+
+/**
+ * Tree data provider reviewing the TODO comments of the last scan, grouped
+ * by file. Re-matches them with tasks whenever the tasks change
+ */
+export class TodoTreeProvider
+  implements vscode.TreeDataProvider<TodoTreeElement>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    TodoTreeElement | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private projectRoot: string | undefined;
+  private todos: TodoComment[] = [];
+  private files: TodoFileTreeItem[] = [];
+  private readonly onTasksUpdated = () => this.refresh();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    this.taskManagerService.on("tasksUpdated", this.onTasksUpdated);
+  }
+
+  /**
+   * Show the results of a scan of a project
+   */
+  public setTodos(projectRoot: string, todos: TodoComment[]): void {
+    this.projectRoot = projectRoot;
+    this.todos = todos;
+    vscode.commands.executeCommand(
+      "setContext",
+      "taskMaster.todosScanned",
+      true
+    );
+    this.refresh();
+  }
+
+  /**
+   * Match the scanned TODOs with the current tasks again
+   */
+  public refresh(): void {
+    const projectRoot = this.projectRoot;
+    if (!projectRoot) {
+      return;
+    }
+
+    const matches = matchTodosToTasks(
+      this.todos,
+      this.taskManagerService.getTasks()
+    );
+    const byFile = new Map<string, TodoTreeItem[]>();
+    for (const todo of this.todos) {
+      const uri = vscode.Uri.file(path.join(projectRoot, todo.filePath));
+      const items = byFile.get(todo.filePath) || [];
+      items.push(new TodoTreeItem(todo, uri, matches.get(todo)));
+      byFile.set(todo.filePath, items);
+    }
+    this.files = [...byFile].map(
+      ([filePath, items]) => new TodoFileTreeItem(filePath, items)
+    );
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the TODOs of the last scan and the tasks they have
+   */
+  public getItems(): TodoTreeItem[] {
+    return this.files.flatMap((file) => file.todos);
+  }
+
+  getTreeItem(element: TodoTreeElement): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TodoTreeElement): Thenable<TodoTreeElement[]> {
+    if (element instanceof TodoFileTreeItem) {
+      return Promise.resolve(element.todos);
+    }
+    return Promise.resolve(element ? [] : this.files);
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("tasksUpdated", this.onTasksUpdated);
+    this._onDidChangeTreeData.dispose();
+  }
+}
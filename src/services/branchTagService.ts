@@ -0,0 +1,211 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  isTaskBranchName,
+  mapBranchToTag,
+  parseGitHead,
+} from "../utils/branchTagMapping";
+import { ConfigService } from "./configService";
+import { getGitApi } from "./gitApi";
+import { TaskManagerService } from "./taskManagerService";
+
+/**
+ * Service keeping the current tag in step with the checked out git branch
+ * Follows HEAD through the built-in git extension, or by watching .git/HEAD
+ * when the extension is unavailable; on checkout it switches to the tag the
+ * branch maps to, or offers to create it from the current tag. Task branches
+ * made by Start Working keep the current tag
+ */
+export class BranchTagService implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private headWatchers: vscode.Disposable[] = [];
+  private branch: string | undefined;
+  private watchGeneration = 0;
+
+  private readonly onTaskSourceChanged = () => this.watchHead();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    this.taskManagerService.on("taskSourceChanged", this.onTaskSourceChanged);
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("taskMaster.branchTags.enabled")) {
+          this.watchHead();
+        }
+      })
+    );
+    this.watchHead();
+  }
+
+  /**
+   * (Re)start following HEAD of the active project
+   * The branch checked out at this point is taken as-is; only later
+   * checkouts switch tags
+   */
+  private async watchHead(): Promise<void> {
+    this.disposeHeadWatchers();
+    this.branch = undefined;
+    const generation = ++this.watchGeneration;
+
+    const source = this.taskManagerService.getActiveTaskSource();
+    if (!source || !ConfigService.getBranchTagConfig().enabled) {
+      return;
+    }
+
+    const rootUri = vscode.Uri.file(source.projectRoot);
+    const gitApi = await getGitApi();
+    if (generation !== this.watchGeneration) {
+      return;
+    }
+    const repository = gitApi?.getRepository(rootUri);
+    if (repository) {
+      this.branch = repository.state.HEAD?.name;
+      this.headWatchers.push(
+        repository.state.onDidChange(() =>
+          this.onHeadChanged(repository.state.HEAD?.name)
+        )
+      );
+      return;
+    }
+
+    // The git extension may open the repository later; read HEAD until then
+    if (gitApi) {
+      this.headWatchers.push(
+        gitApi.onDidOpenRepository(() => {
+          if (gitApi.getRepository(rootUri)) {
+            this.watchHead();
+          }
+        })
+      );
+    }
+
+    const headPath = this.getHeadPath(source.projectRoot);
+    if (!headPath) {
+      return;
+    }
+    this.branch = this.readHeadBranch(headPath);
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(headPath), "HEAD")
+    );
+    const onChange = () => this.onHeadChanged(this.readHeadBranch(headPath));
+    watcher.onDidChange(onChange);
+    watcher.onDidCreate(onChange);
+    this.headWatchers.push(watcher);
+  }
+
+  /**
+   * Locate the HEAD file, following the "gitdir:" pointer of worktrees
+   */
+  private getHeadPath(projectRoot: string): string | undefined {
+    const gitPath = path.join(projectRoot, ".git");
+    try {
+      if (fs.statSync(gitPath).isDirectory()) {
+        return path.join(gitPath, "HEAD");
+      }
+
+      const pointer = fs
+        .readFileSync(gitPath, "utf-8")
+        .match(/^gitdir:\s*(.+)$/m);
+      return pointer
+        ? path.join(path.resolve(projectRoot, pointer[1].trim()), "HEAD")
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private readHeadBranch(headPath: string): string | undefined {
+    try {
+      return parseGitHead(fs.readFileSync(headPath, "utf-8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async onHeadChanged(branch: string | undefined): Promise<void> {
+    if (branch === this.branch) {
+      return;
+    }
+    this.branch = branch;
+
+    // A detached HEAD keeps the current tag
+    if (branch) {
+      await this.syncTag(branch);
+    }
+  }
+
+  /**
+   * Switch to the tag of a freshly checked out branch, unless it is the
+   * branch of a task that is worked on in its own tag
+   */
+  private async syncTag(branch: string): Promise<void> {
+    try {
+      const { branchTemplate } = ConfigService.getStartTaskConfig();
+      if (isTaskBranchName(branchTemplate, branch)) {
+        return;
+      }
+
+      const config = ConfigService.getBranchTagConfig();
+      const tag = mapBranchToTag(branch, config.rules);
+      if (!tag || tag === this.taskManagerService.getCurrentTag()) {
+        return;
+      }
+
+      const tagInfos = await this.taskManagerService.getAllTags();
+      if (tagInfos.some((tagInfo) => tagInfo.name === tag)) {
+        await this.taskManagerService.setCurrentTag(tag);
+        return;
+      }
+
+      if (config.createMissing === "never") {
+        return;
+      }
+      if (config.createMissing === "ask") {
+        const choice = await vscode.window.showInformationMessage(
+          `Branch "${branch}" has no Task Master tag. Create tag "${tag}" from the current tag?`,
+          "Create Tag",
+          "Never Ask"
+        );
+        if (choice === "Never Ask") {
+          await ConfigService.updateBranchTagConfig("createMissing", "never");
+          return;
+        }
+        // Skip if the user moved on to another branch meanwhile
+        if (choice !== "Create Tag" || this.branch !== branch) {
+          return;
+        }
+      }
+
+      const created = await this.taskManagerService.addTag(tag, {
+        copyFromCurrent: true,
+        description: `Tasks for branch ${branch}`,
+      });
+      if (created) {
+        await this.taskManagerService.setCurrentTag(tag);
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to create tag ${tag} for branch ${branch}`
+        );
+      }
+    } catch (error) {
+      console.error(`Error switching tag for branch ${branch}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to switch tag for branch ${branch}: ${error}`
+      );
+    }
+  }
+
+  private disposeHeadWatchers(): void {
+    this.headWatchers.forEach((disposable) => disposable.dispose());
+    this.headWatchers = [];
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("taskSourceChanged", this.onTaskSourceChanged);
+    this.watchGeneration++;
+    this.disposeHeadWatchers();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+}
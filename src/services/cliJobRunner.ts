@@ -0,0 +1,411 @@
+import { AsyncResource } from "async_hooks";
+import { ChildProcess, spawn } from "child_process";
+import { EventEmitter } from "events";
+import * as path from "path";
+
+/**
+ * Queued, cancellable execution of Task Master CLI processes
+ * Kept free of VS Code dependencies so it can be unit tested against a
+ * fake CLI; vscode.CancellationToken satisfies CancellationSignal
+ */
+
+/**
+ * Minimal cancellation token shape (compatible with vscode.CancellationToken)
+ */
+export interface CancellationSignal {
+  isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * "mutate" jobs run one at a time in submission order, taking turns with
+ * in-process writes (see runExclusive); "read" jobs start immediately and
+ * may run alongside anything else
+ */
+export type CLIJobKind = "read" | "mutate";
+
+export type CLIJobState =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Process to run through the job runner
+ */
+export interface CLIJobRequest {
+  executable: string;
+  args: string[];
+  cwd: string;
+  kind: CLIJobKind;
+  /** Milliseconds before the process is killed (default 5 minutes) */
+  timeout?: number;
+  token?: CancellationSignal;
+}
+
+/**
+ * Snapshot of a queued or running job
+ */
+export interface CLIJob {
+  id: number;
+  label: string;
+  args: string[];
+  cwd: string;
+  kind: CLIJobKind;
+  state: CLIJobState;
+  queuedAt: number;
+  startedAt?: number;
+}
+
+/**
+ * Chunk of process output, emitted as "output"
+ */
+export interface CLIJobOutput {
+  job: CLIJob;
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+/**
+ * Notified under the mutation lock right before and after every mutate job
+ * and exclusive write, in the async context of the code that queued it
+ */
+export interface MutationObserver {
+  beforeMutation(): Promise<void>;
+  afterMutation(): Promise<void>;
+}
+
+/**
+ * Raised when a job is cancelled before or while running
+ */
+export class CLIJobCancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} was cancelled`);
+    this.name = "CLIJobCancelledError";
+  }
+}
+
+const DEFAULT_TIMEOUT = 300000;
+
+interface PendingJob {
+  job: CLIJob;
+  request: CLIJobRequest;
+  resolve: (output: string) => void;
+  reject: (error: Error) => void;
+  /** Async context of the caller, for the mutation observer */
+  scope: AsyncResource;
+  child?: ChildProcess;
+  cancelled?: boolean;
+  completing?: boolean;
+  cancelListener?: { dispose(): void };
+}
+
+/**
+ * Runs CLI processes, serializing mutations and streaming their output
+ * Emits "jobsChanged" whenever the queue changes, "jobStarted",
+ * "jobFinished" (job) and "output" (CLIJobOutput)
+ */
+export class CLIJobRunner extends EventEmitter {
+  private static instance: CLIJobRunner | undefined;
+
+  private pending: PendingJob[] = [];
+  private nextId = 1;
+  private mutationRunning = false;
+  /** Mutations waiting for the lock; each returns false if it gave up */
+  private mutationWaiters: (() => boolean)[] = [];
+  private mutationObserver: MutationObserver | undefined;
+
+  /**
+   * Shared runner so every CLIService queues mutations together
+   */
+  public static getInstance(): CLIJobRunner {
+    if (!CLIJobRunner.instance) {
+      CLIJobRunner.instance = new CLIJobRunner();
+    }
+    return CLIJobRunner.instance;
+  }
+
+  /**
+   * Queue a process and resolve with its stdout once it exits successfully
+   * Rejects with CLIJobCancelledError when cancelled through the token or
+   * cancel()
+   */
+  public run(request: CLIJobRequest): Promise<string> {
+    const job: CLIJob = {
+      id: this.nextId++,
+      label: [path.basename(request.executable), ...request.args].join(" "),
+      args: request.args,
+      cwd: request.cwd,
+      kind: request.kind,
+      state: "queued",
+      queuedAt: Date.now(),
+    };
+
+    return new Promise<string>((resolve, reject) => {
+      const entry: PendingJob = {
+        job,
+        request,
+        resolve,
+        reject,
+        scope: new AsyncResource("CLIJob"),
+      };
+      if (request.token?.isCancellationRequested) {
+        reject(new CLIJobCancelledError(job.label));
+        return;
+      }
+      entry.cancelListener = request.token?.onCancellationRequested(() =>
+        this.cancel(job.id)
+      );
+
+      this.pending.push(entry);
+      this.emit("jobsChanged", this.getJobs());
+      if (request.kind === "read") {
+        this.start(entry);
+      } else {
+        this.mutationWaiters.push(() => {
+          if (entry.job.state !== "queued") {
+            return false;
+          }
+          this.start(entry);
+          return true;
+        });
+        this.nextMutation();
+      }
+    });
+  }
+
+  /**
+   * Run an in-process write of the project files (such as a TasksRepository
+   * mutation) under the mutation lock, so it never overlaps a mutate job
+   * that could write back data read before it
+   */
+  public async runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.mutationWaiters.push(() => {
+        resolve();
+        return true;
+      });
+      this.nextMutation();
+    });
+
+    try {
+      await this.notify("beforeMutation");
+      return await operation();
+    } finally {
+      await this.notify("afterMutation");
+      this.mutationRunning = false;
+      this.nextMutation();
+    }
+  }
+
+  /**
+   * Set the observer notified around every mutation, e.g. to snapshot the
+   * files it changes
+   */
+  public setMutationObserver(observer: MutationObserver | undefined): void {
+    this.mutationObserver = observer;
+  }
+
+  /**
+   * Cancel a queued job or kill a running one
+   * Returns false if the job is no longer known
+   */
+  public cancel(jobId: number): boolean {
+    const entry = this.pending.find((candidate) => candidate.job.id === jobId);
+    if (!entry || entry.cancelled) {
+      return false;
+    }
+
+    entry.cancelled = true;
+    if (entry.child) {
+      entry.child.kill("SIGTERM");
+    } else {
+      const error = new CLIJobCancelledError(entry.job.label);
+      this.finish(entry, "cancelled", error);
+    }
+    return true;
+  }
+
+  /**
+   * Cancel every queued and running job
+   */
+  public cancelAll(): void {
+    [...this.pending].forEach((entry) => this.cancel(entry.job.id));
+  }
+
+  /**
+   * Get the queued and running jobs, oldest first
+   */
+  public getJobs(): CLIJob[] {
+    return this.pending.map((entry) => ({ ...entry.job }));
+  }
+
+  /**
+   * Hand the mutation lock to the next waiting mutation, if it is free
+   */
+  private nextMutation(): void {
+    while (!this.mutationRunning && this.mutationWaiters.length > 0) {
+      this.mutationRunning = this.mutationWaiters.shift()!();
+    }
+  }
+
+  private start(entry: PendingJob): void {
+    const { job, request } = entry;
+    job.state = "running";
+    job.startedAt = Date.now();
+    this.emit("jobStarted", { ...job });
+    this.emit("jobsChanged", this.getJobs());
+
+    if (request.kind === "read") {
+      this.spawnProcess(entry);
+      return;
+    }
+    this.notify("beforeMutation", entry).then(() => {
+      // Cancelled while the observer ran
+      if (!entry.cancelled) {
+        this.spawnProcess(entry);
+      }
+    });
+  }
+
+  private spawnProcess(entry: PendingJob): void {
+    const { job, request } = entry;
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timeout = request.timeout ?? DEFAULT_TIMEOUT;
+
+    const child = spawn(request.executable, request.args, {
+      cwd: request.cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    entry.child = child;
+
+    const timeoutHandle = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGTERM");
+    }, timeout);
+
+    child.stdout?.on("data", (data: Buffer) => {
+      stdout += data.toString();
+      this.emitOutput(job, "stdout", data.toString());
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      stderr += data.toString();
+      this.emitOutput(job, "stderr", data.toString());
+    });
+
+    child.on("close", (code: number | null) => {
+      clearTimeout(timeoutHandle);
+      if (entry.cancelled) {
+        this.complete(entry, "cancelled", new CLIJobCancelledError(job.label));
+      } else if (timedOut) {
+        this.complete(
+          entry,
+          "failed",
+          new Error(`Command timed out after ${timeout}ms`)
+        );
+      } else if (code === 0) {
+        this.complete(entry, "succeeded", undefined, stdout);
+      } else {
+        // Include both stderr and stdout in error message for better debugging
+        const errorOutput =
+          stderr.trim() || stdout.trim() || "No error output";
+        this.complete(
+          entry,
+          "failed",
+          new Error(`CLI command failed with code ${code}: ${errorOutput}`)
+        );
+      }
+    });
+
+    child.on("error", (error: Error) => {
+      clearTimeout(timeoutHandle);
+      this.complete(
+        entry,
+        "failed",
+        new Error(`Failed to spawn CLI process: ${error.message}`)
+      );
+    });
+  }
+
+  private emitOutput(
+    job: CLIJob,
+    stream: CLIJobOutput["stream"],
+    text: string
+  ): void {
+    const output: CLIJobOutput = { job: { ...job }, stream, text };
+    this.emit("output", output);
+  }
+
+  /**
+   * Finish a job whose process exited, letting the mutation observer look
+   * at the files before the lock is released
+   */
+  private async complete(
+    entry: PendingJob,
+    state: CLIJobState,
+    error?: Error,
+    output?: string
+  ): Promise<void> {
+    if (entry.completing) {
+      return;
+    }
+    entry.completing = true;
+    if (entry.request.kind === "mutate") {
+      await this.notify("afterMutation", entry);
+    }
+    this.finish(entry, state, error, output);
+  }
+
+  /**
+   * Call a mutation observer hook, in the async context of a job's caller
+   * when given one; failures are logged and don't affect the mutation
+   */
+  private async notify(
+    hook: keyof MutationObserver,
+    entry?: PendingJob
+  ): Promise<void> {
+    const observer = this.mutationObserver;
+    if (!observer) {
+      return;
+    }
+    try {
+      await (entry
+        ? entry.scope.runInAsyncScope(() => observer[hook]())
+        : observer[hook]());
+    } catch (error) {
+      console.error(`Mutation observer ${hook} failed:`, error);
+    }
+  }
+
+  private finish(
+    entry: PendingJob,
+    state: CLIJobState,
+    error?: Error,
+    output: string = ""
+  ): void {
+    const index = this.pending.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    this.pending.splice(index, 1);
+
+    const wasRunning = entry.job.state === "running";
+    entry.job.state = state;
+    entry.cancelListener?.dispose();
+    if (wasRunning && entry.request.kind === "mutate") {
+      this.mutationRunning = false;
+    }
+
+    this.emit("jobFinished", { ...entry.job });
+    this.emit("jobsChanged", this.getJobs());
+    if (error) {
+      entry.reject(error);
+    } else {
+      entry.resolve(output);
+    }
+    this.nextMutation();
+  }
+}
@@ -0,0 +1,77 @@
+import * as vscode from "vscode";
+import { CLIJob, CLIJobOutput, CLIJobRunner } from "./cliJobRunner";
+
+/**
+ * Service surfacing CLI jobs in VS Code
+ * Streams every job's output into the "Task Master CLI" output channel and
+ * shows a status bar item while jobs are queued or running
+ */
+export class CLIJobsService implements vscode.Disposable {
+  private outputChannel: vscode.OutputChannel;
+  private statusBarItem: vscode.StatusBarItem;
+
+  private readonly onOutput = ({ text }: CLIJobOutput) =>
+    this.outputChannel.append(text);
+  private readonly onJobStarted = (job: CLIJob) =>
+    this.outputChannel.appendLine(`\n> ${job.label}  (${job.cwd})`);
+  private readonly onJobFinished = (job: CLIJob) =>
+    this.outputChannel.appendLine(`[${job.state}] ${job.label}`);
+  private readonly onJobsChanged = (jobs: CLIJob[]) =>
+    this.updateStatusBar(jobs);
+
+  constructor(private readonly jobRunner: CLIJobRunner) {
+    this.outputChannel = vscode.window.createOutputChannel("Task Master CLI");
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this.statusBarItem.command = "taskMaster.showRunningJobs";
+
+    this.jobRunner.on("output", this.onOutput);
+    this.jobRunner.on("jobStarted", this.onJobStarted);
+    this.jobRunner.on("jobFinished", this.onJobFinished);
+    this.jobRunner.on("jobsChanged", this.onJobsChanged);
+    this.updateStatusBar(this.jobRunner.getJobs());
+  }
+
+  /**
+   * Reveal the CLI output channel
+   */
+  public showOutput(): void {
+    this.outputChannel.show(true);
+  }
+
+  private updateStatusBar(jobs: CLIJob[]): void {
+    if (jobs.length === 0) {
+      this.statusBarItem.hide();
+      vscode.commands.executeCommand(
+        "setContext",
+        "taskMaster.hasRunningJobs",
+        false
+      );
+      return;
+    }
+
+    const running = jobs.filter((job) => job.state === "running").length;
+    const queued = jobs.length - running;
+    this.statusBarItem.text = `$(sync~spin) Task Master: ${running} running${
+      queued > 0 ? `, ${queued} queued` : ""
+    }`;
+    this.statusBarItem.tooltip = jobs.map((job) => job.label).join("\n");
+    this.statusBarItem.show();
+    vscode.commands.executeCommand(
+      "setContext",
+      "taskMaster.hasRunningJobs",
+      true
+    );
+  }
+
+  public dispose(): void {
+    this.jobRunner.off("output", this.onOutput);
+    this.jobRunner.off("jobStarted", this.onJobStarted);
+    this.jobRunner.off("jobFinished", this.onJobFinished);
+    this.jobRunner.off("jobsChanged", this.onJobsChanged);
+    this.statusBarItem.dispose();
+    this.outputChannel.dispose();
+  }
+}
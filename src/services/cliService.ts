@@ -1,8 +1,6 @@
-import { spawn } from "child_process";
 import { EventEmitter } from "events";
 import * as fs from "fs";
 import * as path from "path";
-import * as vscode from "vscode";
 import {
   CLIExecutionOptions,
   Task,
@@ -11,7 +9,21 @@ import {
   TasksFileStructure,
   TaskStats,
 } from "../types";
-import { log } from "../utils/logger";
+import { buildParsePrdCommand, CLICommand } from "../utils/cliCommandBuilder";
+import { CancellationSignal, CLIJobRunner } from "./cliJobRunner";
+
+/**
+ * CLI commands that only read project data and may run alongside others
+ */
+const READ_ONLY_COMMANDS = [
+  "--version",
+  "list",
+  "show",
+  "next",
+  "tags",
+  "complexity-report",
+  "validate-dependencies",
+];
 
 /**
  * Service for interacting with Task Master CLI
@@ -21,9 +33,13 @@ import { log } from "../utils/logger";
 export class CLIService extends EventEmitter {
   private config: TaskMasterConfig;
   private lastRefreshTime: number = 0;
-  private isExecuting: boolean = false;
+  private activeRefreshes: number = 0;
 
-  constructor(config: TaskMasterConfig) {
+  constructor(
+    config: TaskMasterConfig,
+    private getWorkingDirectory: () => string = () => process.cwd(),
+    private jobRunner: CLIJobRunner = CLIJobRunner.getInstance()
+  ) {
     super();
     this.config = config;
   }
@@ -42,13 +58,8 @@ export class CLIService extends EventEmitter {
   public async refreshTasks(
     options: CLIExecutionOptions = {}
   ): Promise<TaskMasterResponse | string | null> {
-    if (this.isExecuting) {
-      console.log("CLI execution already in progress, skipping...");
-      return null;
-    }
-
     try {
-      this.isExecuting = true;
+      this.activeRefreshes++;
       this.emit("refreshStarted");
 
       // For list operations, read the JSON file directly
@@ -75,7 +86,7 @@ export class CLIService extends EventEmitter {
       this.emit("refreshError", error);
       return null;
     } finally {
-      this.isExecuting = false;
+      this.activeRefreshes--;
     }
   }
 
@@ -87,14 +98,8 @@ export class CLIService extends EventEmitter {
     options: CLIExecutionOptions = {}
   ): Promise<TaskMasterResponse | null> {
     try {
-      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!workspaceRoot) {
-        console.log("No workspace root found, cannot read tasks file");
-        return null;
-      }
-
       const tasksFilePath = path.join(
-        workspaceRoot,
+        this.getWorkingDirectory(),
         ".taskmaster",
         "tasks",
         "tasks.json"
@@ -274,65 +279,44 @@ export class CLIService extends EventEmitter {
   }
 
   /**
-   * Execute a specific Task Master CLI command
-   * For data retrieval operations, consider using readTasksFromFile instead
+   * Execute a specific Task Master CLI command through the shared job runner
+   * Mutating commands are queued behind each other; read-only ones run in
+   * parallel unless options.kind says otherwise, e.g. for a list run to
+   * rewrite tasks.json. For data retrieval operations, consider using
+   * readTasksFromFile instead
    */
   public async executeCommand(
     command: string,
-    options: CLIExecutionOptions = {}
+    options: CLIExecutionOptions = {},
+    token?: CancellationSignal
   ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const args = this.buildCommandArgs(command, options);
-      const childProcess = spawn(this.config.cliPath, args, {
-        cwd: vscode.workspace.rootPath || process.cwd(),
-        stdio: ["ignore", "pipe", "pipe"],
-      });
-
-      let stdout = "";
-      let stderr = "";
-      const timeout = options.timeout || 300000; // 5 minute default timeout
-
-      // Set up timeout
-      const timeoutHandle = setTimeout(() => {
-        childProcess.kill("SIGTERM");
-        reject(new Error(`Command timed out after ${timeout}ms`));
-      }, timeout);
-
-      // Handle stdout data streaming
-      childProcess.stdout?.on("data", (data: Buffer) => {
-        stdout += data.toString();
-        this.emit("outputReceived", data.toString());
-      });
-
-      // Handle stderr
-      childProcess.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      // Handle process completion
-      childProcess.on("close", (code: number | null) => {
-        clearTimeout(timeoutHandle);
-
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          // Include both stderr and stdout in error message for better debugging
-          const errorOutput =
-            stderr.trim() || stdout.trim() || "No error output";
-          reject(
-            new Error(`CLI command failed with code ${code}: ${errorOutput}`)
-          );
-        }
-      });
-
-      // Handle process errors
-      childProcess.on("error", (error: Error) => {
-        clearTimeout(timeoutHandle);
-        reject(new Error(`Failed to spawn CLI process: ${error.message}`));
-      });
+    return this.jobRunner.run({
+      executable: this.config.cliPath,
+      args: this.buildCommandArgs(command, options),
+      cwd: this.getWorkingDirectory(),
+      kind:
+        options.kind ??
+        (READ_ONLY_COMMANDS.includes(command) ? "read" : "mutate"),
+      timeout: options.timeout,
+      token,
     });
   }
 
+  /**
+   * Execute a command produced by one of the cliCommandBuilder builders
+   */
+  public async runCommand(
+    cliCommand: CLICommand,
+    options: Omit<CLIExecutionOptions, "extraArgs"> = {},
+    token?: CancellationSignal
+  ): Promise<string> {
+    return this.executeCommand(
+      cliCommand.command,
+      { ...options, extraArgs: cliCommand.args },
+      token
+    );
+  }
+
   /**
    * Build command line arguments based on options
    */
@@ -440,10 +424,10 @@ export class CLIService extends EventEmitter {
   }
 
   /**
-   * Check if currently executing a command
+   * Check if a task refresh is in progress
    */
   public isRefreshing(): boolean {
-    return this.isExecuting;
+    return this.activeRefreshes > 0;
   }
 
   /**
@@ -453,147 +437,24 @@ export class CLIService extends EventEmitter {
     this.removeAllListeners();
   }
 
-  /**
-   * Get next task data directly from CLI (bypasses file reading)
-   * This is specifically for the "next" command which needs CLI logic
-   */
-  public async getNextTaskFromCLI(): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const args = ["next"];
-      const childProcess = spawn(this.config.cliPath, args, {
-        cwd: vscode.workspace.rootPath || process.cwd(),
-        stdio: ["ignore", "pipe", "pipe"],
-      });
-
-      let stdout = "";
-      let stderr = "";
-      const timeout = 30000; // 30 second timeout for next command
-
-      // Set up timeout
-      const timeoutHandle = setTimeout(() => {
-        childProcess.kill("SIGTERM");
-        reject(new Error(`Next command timed out after ${timeout}ms`));
-      }, timeout);
-
-      // Handle stdout data streaming
-      childProcess.stdout?.on("data", (data: Buffer) => {
-        stdout += data.toString();
-        this.emit("outputReceived", data.toString());
-      });
-
-      // Handle stderr
-      childProcess.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      // Handle process completion
-      childProcess.on("close", (code: number | null) => {
-        clearTimeout(timeoutHandle);
-
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          // Include both stderr and stdout in error message for better debugging
-          const errorOutput =
-            stderr.trim() || stdout.trim() || "No error output";
-          reject(
-            new Error(`Next command failed with code ${code}: ${errorOutput}`)
-          );
-        }
-      });
-
-      // Handle process errors
-      childProcess.on("error", (error: Error) => {
-        clearTimeout(timeoutHandle);
-        reject(new Error(`Failed to spawn next CLI process: ${error.message}`));
-      });
-    });
-  }
-
   /**
    * Execute parse-prd command with specified file and options
    */
-  public async executeParsePRD(options: {
-    filePath: string;
-    numTasks?: number;
-    force?: boolean;
-    research?: boolean;
-  }): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const args = ["parse-prd"];
-
-      // Add the input file path
-      args.push("--input", options.filePath);
-
-      // Add number of tasks if specified
-      if (options.numTasks) {
-        args.push("--num-tasks", options.numTasks.toString());
-      }
-
-      // Add force flag if specified
-      if (options.force) {
-        args.push("--force");
-      }
-
-      // Add research flag if specified
-      if (options.research) {
-        args.push("--research");
-      }
-
-      args.push("--append");
-
-      const childProcess = spawn(this.config.cliPath, args, {
-        cwd: vscode.workspace.rootPath || process.cwd(),
-        stdio: ["ignore", "pipe", "pipe"],
-      });
-
-      let stdout = "";
-      let stderr = "";
-      const timeout = 300000; // 5 minute timeout for parse-prd
-
-      // Set up timeout
-      const timeoutHandle = setTimeout(() => {
-        childProcess.kill("SIGTERM");
-        reject(new Error(`Parse-PRD command timed out after ${timeout}ms`));
-      }, timeout);
-
-      // Handle stdout data streaming
-      childProcess.stdout?.on("data", (data: Buffer) => {
-        stdout += data.toString();
-        this.emit("outputReceived", data.toString());
-      });
-
-      // Handle stderr
-      childProcess.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      // Handle process completion
-      childProcess.on("close", (code: number | null) => {
-        clearTimeout(timeoutHandle);
-
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          // Include both stderr and stdout in error message for better debugging
-          const errorOutput =
-            stderr.trim() || stdout.trim() || "No error output";
-          log("errorOutput", errorOutput);
-          reject(
-            new Error(
-              `Parse-PRD command failed with code ${code}: ${errorOutput}`
-            )
-          );
-        }
-      });
-
-      // Handle process errors
-      childProcess.on("error", (error: Error) => {
-        clearTimeout(timeoutHandle);
-        reject(
-          new Error(`Failed to spawn parse-prd CLI process: ${error.message}`)
-        );
-      });
+  public async executeParsePRD(
+    options: {
+      filePath: string;
+      numTasks?: number;
+      force?: boolean;
+      research?: boolean;
+    },
+    token?: CancellationSignal
+  ): Promise<string> {
+    const command = buildParsePrdCommand({
+      input: options.filePath,
+      numTasks: options.numTasks,
+      force: options.force,
+      research: options.research,
     });
+    return this.runCommand(command, {}, token);
   }
 }
@@ -0,0 +1,201 @@
+import * as vscode from "vscode";
+import {
+  formatTaskReference,
+  parseClosedTaskReferences,
+} from "../utils/commitMessage";
+import { findTaskOrSubtask } from "../utils/taskUtils";
+import { ConfigService } from "./configService";
+import { getGitApi, GitRepository } from "./gitApi";
+import { TaskManagerService } from "./taskManagerService";
+
+/**
+ * Service connecting git commit messages with tasks
+ * Completes task references ("#" lists open tasks) in the Source Control
+ * input box and, when enabled, marks tasks done once a commit saying
+ * "closes TM-12" lands on the checked out branch
+ */
+export class CommitMessageService
+  implements vscode.CompletionItemProvider, vscode.Disposable
+{
+  /** How far back to look for the commits of a single HEAD change */
+  private static readonly MAX_NEW_COMMITS = 50;
+
+  private disposables: vscode.Disposable[] = [];
+  private repositoryWatchers: vscode.Disposable[] = [];
+  private head: { branch?: string; commit?: string } = {};
+  private watchGeneration = 0;
+
+  private readonly onTaskSourceChanged = () => this.watchRepository();
+
+  constructor(private readonly taskManagerService: TaskManagerService) {
+    this.taskManagerService.on("taskSourceChanged", this.onTaskSourceChanged);
+    this.disposables.push(
+      vscode.languages.registerCompletionItemProvider(
+        { language: "scminput" },
+        this,
+        "#"
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("taskMaster.commits.closeTasks")) {
+          this.watchRepository();
+        }
+      })
+    );
+    this.watchRepository();
+  }
+
+  /**
+   * Offer open tasks and subtasks after a "#", in-progress ones first,
+   * inserting their reference ("TM-12")
+   */
+  public provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] | undefined {
+    const linePrefix = document
+      .lineAt(position)
+      .text.slice(0, position.character);
+    const match = linePrefix.match(/#[\w.-]*$/);
+    if (!match) {
+      return undefined;
+    }
+    const range = new vscode.Range(
+      position.translate(0, -match[0].length),
+      position
+    );
+
+    const statusOrder = ["in-progress", "pending", "review", "blocked"];
+    return this.taskManagerService
+      .getTasks()
+      .flatMap((task) => [
+        { id: `${task.id}`, node: task },
+        ...(task.subtasks || []).map((subtask) => ({
+          id: `${task.id}.${subtask.id}`,
+          node: subtask,
+        })),
+      ])
+      .filter(({ node }) => statusOrder.includes(node.status))
+      .map(({ id, node }, index) => {
+        const reference = formatTaskReference(id);
+        const item = new vscode.CompletionItem(
+          { label: reference, description: node.title },
+          vscode.CompletionItemKind.Reference
+        );
+        item.detail = node.status;
+        item.insertText = reference;
+        item.filterText = `#${id} ${node.title}`;
+        item.range = range;
+        const rank = statusOrder.indexOf(node.status);
+        item.sortText = `${rank}-${String(index).padStart(6, "0")}`;
+        return item;
+      });
+  }
+
+  /**
+   * (Re)start watching the repository of the active project for commits
+   */
+  private async watchRepository(): Promise<void> {
+    this.disposeRepositoryWatchers();
+    this.head = {};
+    const generation = ++this.watchGeneration;
+
+    const source = this.taskManagerService.getActiveTaskSource();
+    if (!source || !ConfigService.getCommitConfig().closeTasks) {
+      return;
+    }
+
+    const rootUri = vscode.Uri.file(source.projectRoot);
+    const gitApi = await getGitApi();
+    if (!gitApi || generation !== this.watchGeneration) {
+      return;
+    }
+    const repository = gitApi.getRepository(rootUri);
+    if (!repository) {
+      // The git extension may open the repository later
+      this.repositoryWatchers.push(
+        gitApi.onDidOpenRepository(() => {
+          if (gitApi.getRepository(rootUri)) {
+            this.watchRepository();
+          }
+        })
+      );
+      return;
+    }
+
+    this.head = {
+      branch: repository.state.HEAD?.name,
+      commit: repository.state.HEAD?.commit,
+    };
+    this.repositoryWatchers.push(
+      repository.state.onDidChange(() => this.onRepositoryChanged(repository))
+    );
+  }
+
+  /**
+   * Look for closing references in the commits that moved the branch
+   * forward. Checkouts, resets and amends are ignored: only commits on top
+   * of the last seen HEAD of the same branch count
+   */
+  private async onRepositoryChanged(repository: GitRepository): Promise<void> {
+    const previous = this.head;
+    const branch = repository.state.HEAD?.name;
+    const commit = repository.state.HEAD?.commit;
+    if (commit === previous.commit && branch === previous.branch) {
+      return;
+    }
+    this.head = { branch, commit };
+    if (!branch || branch !== previous.branch || !previous.commit) {
+      return;
+    }
+
+    try {
+      const commits = await repository.log({
+        maxEntries: CommitMessageService.MAX_NEW_COMMITS,
+      });
+      const seen = commits.findIndex(({ hash }) => hash === previous.commit);
+      if (seen <= 0) {
+        return;
+      }
+
+      const tasks = this.taskManagerService.getTasks();
+      const ids = [
+        ...new Set(
+          commits
+            .slice(0, seen)
+            .reverse()
+            .flatMap(({ message }) => parseClosedTaskReferences(message))
+        ),
+      ].filter((id) => {
+        const node = findTaskOrSubtask(tasks, id);
+        return node && node.status !== "done";
+      });
+      if (ids.length === 0) {
+        return;
+      }
+
+      await this.taskManagerService.updateTasksFields(ids, { status: "done" });
+      vscode.window.showInformationMessage(
+        `Marked ${ids.map(formatTaskReference).join(", ")} done, closed by ` +
+          `a commit on ${branch}`
+      );
+    } catch (error) {
+      console.error("Error closing tasks referenced by commits:", error);
+      vscode.window.showErrorMessage(
+        `Failed to close tasks referenced by commits: ${error}`
+      );
+    }
+  }
+
+  private disposeRepositoryWatchers(): void {
+    this.repositoryWatchers.forEach((disposable) => disposable.dispose());
+    this.repositoryWatchers = [];
+  }
+
+  public dispose(): void {
+    this.taskManagerService.off("taskSourceChanged", this.onTaskSourceChanged);
+    this.watchGeneration++;
+    this.disposeRepositoryWatchers();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+}
@@ -1,5 +1,15 @@
+import * as fs from "fs";
+import * as path from "path";
 import * as vscode from "vscode";
-import { TaskMasterConfig } from "../types";
+import {
+  BranchTagConfig,
+  CodeReferenceConfig,
+  CommitConfig,
+  StartTaskConfig,
+  TaskMasterConfig,
+} from "../types";
+import { DEFAULT_BRANCH_TAG_RULES } from "../utils/branchTagMapping";
+import { DEFAULT_TASK_REFERENCE_PATTERN } from "../utils/taskReferences";
 
 /**
  * Service for managing Task Master extension configuration
@@ -19,6 +29,95 @@ export class ConfigService {
     };
   }
 
+  /**
+   * Get the settings for switching tags with the git branch
+   */
+  public static getBranchTagConfig(): BranchTagConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.branchTags`
+    );
+
+    return {
+      enabled: config.get<boolean>("enabled", true),
+      rules: config.get<BranchTagConfig["rules"]>(
+        "rules",
+        DEFAULT_BRANCH_TAG_RULES
+      ),
+      createMissing: config.get<BranchTagConfig["createMissing"]>(
+        "createMissing",
+        "ask"
+      ),
+    };
+  }
+
+  /**
+   * Update a branch tag setting for the workspace
+   */
+  public static async updateBranchTagConfig<K extends keyof BranchTagConfig>(
+    key: K,
+    value: BranchTagConfig[K]
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.branchTags`
+    );
+    await config.update(key, value, vscode.ConfigurationTarget.Workspace);
+  }
+
+  /**
+   * Get the settings for starting work on a task
+   */
+  public static getStartTaskConfig(): StartTaskConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.startTask`
+    );
+
+    return {
+      branch: config.get<StartTaskConfig["branch"]>("branch", "ask"),
+      branchTemplate: config.get<string>("branchTemplate", "task/{id}-{slug}"),
+    };
+  }
+
+  /**
+   * Update a start task setting for the workspace
+   */
+  public static async updateStartTaskConfig<K extends keyof StartTaskConfig>(
+    key: K,
+    value: StartTaskConfig[K]
+  ): Promise<void> {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.startTask`
+    );
+    await config.update(key, value, vscode.ConfigurationTarget.Workspace);
+  }
+
+  /**
+   * Get the settings for linking commits with tasks
+   */
+  public static getCommitConfig(): CommitConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.commits`
+    );
+
+    return {
+      closeTasks: config.get<boolean>("closeTasks", false),
+    };
+  }
+
+  /**
+   * Get the settings for task references in source code
+   */
+  public static getCodeReferenceConfig(): CodeReferenceConfig {
+    const config = vscode.workspace.getConfiguration(
+      `${this.CONFIG_SECTION}.codeReferences`
+    );
+
+    return {
+      enabled: config.get<boolean>("enabled", true),
+      pattern: config.get<string>("pattern", DEFAULT_TASK_REFERENCE_PATTERN),
+      codeLens: config.get<boolean>("codeLens", true),
+    };
+  }
+
   /**
    * Update a specific configuration value
    */
@@ -71,14 +170,18 @@ export class ConfigService {
 
   /**
    * Get workspace-specific CLI path (check node_modules first)
+   * Looks in every workspace folder and prefers the first local install
    */
   public static getWorkspaceCliPath(): string {
-    const workspaceRoot = vscode.workspace.rootPath;
-    if (workspaceRoot) {
-      const localCliPath = `${workspaceRoot}/node_modules/.bin/task-master`;
-      return localCliPath;
-    }
-    return "task-master";
+    const localCliPaths = (vscode.workspace.workspaceFolders || []).map(
+      (folder) =>
+        path.join(folder.uri.fsPath, "node_modules", ".bin", "task-master")
+    );
+    return (
+      localCliPaths.find((cliPath) => fs.existsSync(cliPath)) ??
+      localCliPaths[0] ??
+      "task-master"
+    );
   }
 
   /**
@@ -4,32 +4,56 @@ import { setupFileWatchers } from "../utils/fileUtils";
 
 /**
  * Service for managing file system watchers for tasks and complexity files
+ * Every Task Master project of the workspace is watched, not only the
+ * active one, so the tree never shows stale tasks of another folder
  */
 export class FileWatcherService extends EventEmitter {
-  private tasksFileWatcher?: vscode.FileSystemWatcher;
-  private complexityFileWatcher?: vscode.FileSystemWatcher;
+  private projectWatchers = new Map<string, vscode.FileSystemWatcher[]>();
 
   /**
-   * Setup file system watchers for tasks and complexity files
+   * Watch the tasks and complexity files of the given projects, keeping
+   * the watchers of projects already watched and disposing of the rest
    */
-  public async setupFileWatchers(
-    onTasksChanged: () => Promise<void>
+  public async watchProjects(
+    projectRoots: string[],
+    onTasksChanged: (projectRoot: string) => Promise<void>
   ): Promise<void> {
-    const watchers = await setupFileWatchers(this, onTasksChanged);
-    this.tasksFileWatcher = watchers.tasksFileWatcher;
-    this.complexityFileWatcher = watchers.complexityFileWatcher;
+    for (const projectRoot of this.projectWatchers.keys()) {
+      if (!projectRoots.includes(projectRoot)) {
+        this.disposeWatchers(projectRoot);
+      }
+    }
+
+    for (const projectRoot of projectRoots) {
+      if (this.projectWatchers.has(projectRoot)) {
+        continue;
+      }
+      const watchers = await setupFileWatchers(this, projectRoot, () =>
+        onTasksChanged(projectRoot)
+      );
+      this.projectWatchers.set(
+        projectRoot,
+        [watchers.tasksFileWatcher, watchers.complexityFileWatcher].filter(
+          (watcher): watcher is vscode.FileSystemWatcher => !!watcher
+        )
+      );
+    }
   }
 
   /**
    * Dispose of all file watchers
    */
   public dispose(): void {
-    if (this.tasksFileWatcher) {
-      this.tasksFileWatcher.dispose();
-    }
-    if (this.complexityFileWatcher) {
-      this.complexityFileWatcher.dispose();
-    }
+    [...this.projectWatchers.keys()].forEach((projectRoot) =>
+      this.disposeWatchers(projectRoot)
+    );
     this.removeAllListeners();
   }
+
+  private disposeWatchers(projectRoot: string): void {
+    this.projectWatchers.get(projectRoot)?.forEach((watcher) => {
+      watcher.dispose();
+    });
+    this.projectWatchers.delete(projectRoot);
+  }
 }
@@ -0,0 +1,54 @@
+import * as vscode from "vscode";
+
+/**
+ * The parts of the built-in git extension API used by the extension
+ */
+export interface GitRepository {
+  rootUri: vscode.Uri;
+  state: {
+    HEAD?: { name?: string; commit?: string };
+    onDidChange: vscode.Event<void>;
+  };
+  /** The commit message box of the Source Control view */
+  inputBox: { value: string };
+  /** Commits reachable from HEAD, newest first */
+  log(options?: {
+    maxEntries?: number;
+  }): Promise<{ hash: string; message: string }[]>;
+  /** Resolves to the branch, rejects when there is no such branch */
+  getBranch(name: string): Promise<{ name?: string }>;
+  createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+  checkout(treeish: string): Promise<void>;
+  /** The subset of the given paths ignored by .gitignore */
+  checkIgnore(paths: string[]): Promise<Set<string>>;
+}
+
+export interface GitAPI {
+  getRepository(uri: vscode.Uri): GitRepository | null;
+  onDidOpenRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+/**
+ * Get the API of the built-in git extension, activating it if needed
+ * Returns undefined when git support is disabled or unavailable
+ */
+export async function getGitApi(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension) {
+    return undefined;
+  }
+
+  try {
+    const exports = extension.isActive
+      ? extension.exports
+      : await extension.activate();
+    return exports.getAPI(1);
+  } catch (error) {
+    console.warn("Git extension API unavailable:", error);
+    return undefined;
+  }
+}
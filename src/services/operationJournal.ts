@@ -0,0 +1,342 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import { TagTasksData } from "../types";
+import { MutationObserver } from "./cliJobRunner";
+import { TasksRepository, isTagEntry } from "./tasksRepository";
+
+/**
+ * Contents of one tag before and after a recorded mutation
+ */
+export interface TagChange {
+  tag: string;
+  before: TagTasksData | undefined;
+  after: TagTasksData | undefined;
+}
+
+/**
+ * A recorded mutation, with the contents of every tag it changed
+ */
+export interface JournalEntry {
+  id: number;
+  label: string;
+  /** Tag the operation was started on */
+  tag: string;
+  timestamp: number;
+  changes: TagChange[];
+}
+
+/**
+ * Raised when undo/redo would overwrite changes made after the recorded one
+ */
+export class JournalConflictError extends Error {}
+
+/**
+ * Operation being recorded: the contents of its tags before its first write
+ * and after its last one
+ */
+interface Recording {
+  tags: string[];
+  before: Map<string, TagTasksData | undefined>;
+  after: Map<string, TagTasksData | undefined>;
+  unreadable: boolean;
+}
+
+/**
+ * Journal of task mutations supporting undo and redo
+ * As the mutation observer of the CLI job runner it snapshots the affected
+ * tags around each write under the mutation lock, so it works the same for
+ * CLI commands and in-process repository writes, and writes of other
+ * operations running meanwhile never end up in the wrong entry
+ */
+export class OperationJournal
+  extends EventEmitter
+  implements MutationObserver
+{
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+  private nextId = 1;
+  /** The operation being recorded in the current call chain */
+  private recording = new AsyncLocalStorage<Recording>();
+
+  constructor(
+    private tasksRepository: TasksRepository,
+    private maxEntries: number = 50
+  ) {
+    super();
+  }
+
+  /**
+   * Run an operation and record the change its writes made to a tag (if any)
+   * Operations spanning several tags pass all of them, the first being the
+   * one shown in the history; operations started from within another one's
+   * call chain are folded into it
+   */
+  public async record<T>(
+    label: string,
+    tags: string | string[],
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (this.recording.getStore()) {
+      return operation();
+    }
+
+    const recording: Recording = {
+      tags: Array.isArray(tags) ? tags : [tags],
+      before: new Map(),
+      after: new Map(),
+      unreadable: false,
+    };
+    try {
+      return await this.recording.run(recording, operation);
+    } finally {
+      this.addEntry(label, recording);
+    }
+  }
+
+  /**
+   * Snapshot the tags of the operation recorded in the calling chain before
+   * its first write
+   */
+  public async beforeMutation(): Promise<void> {
+    const recording = this.recording.getStore();
+    if (!recording || recording.unreadable) {
+      return;
+    }
+
+    try {
+      for (const tag of recording.tags) {
+        if (!recording.before.has(tag)) {
+          recording.before.set(tag, await this.snapshot(tag));
+        }
+      }
+    } catch (error) {
+      // An unreadable file can't be restored; leave the operation unrecorded
+      console.error("Failed to snapshot tasks before operation:", error);
+      recording.unreadable = true;
+    }
+  }
+
+  /**
+   * Snapshot the tags of the operation recorded in the calling chain after
+   * one of its writes
+   */
+  public async afterMutation(): Promise<void> {
+    const recording = this.recording.getStore();
+    if (!recording || recording.unreadable) {
+      return;
+    }
+
+    for (const tag of recording.tags) {
+      recording.after.set(
+        tag,
+        await this.snapshot(tag).catch(() => undefined)
+      );
+    }
+  }
+
+  /**
+   * Undo the most recent change
+   * Unless forced, refuses when the tag was modified after that change
+   */
+  public async undo(
+    force: boolean = false
+  ): Promise<JournalEntry | undefined> {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    await this.restore(entry, "before", force);
+    this.undoStack.pop();
+    this.redoStack.push(entry);
+    this.emit("changed");
+    return entry;
+  }
+
+  /**
+   * Redo the most recently undone change
+   */
+  public async redo(
+    force: boolean = false
+  ): Promise<JournalEntry | undefined> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    await this.restore(entry, "after", force);
+    this.redoStack.pop();
+    this.undoStack.push(entry);
+    this.emit("changed");
+    return entry;
+  }
+
+  /**
+   * Undo changes until (and including) the given entry
+   */
+  public async undoTo(
+    entryId: number,
+    force: boolean = false
+  ): Promise<JournalEntry[]> {
+    if (!this.undoStack.some((entry) => entry.id === entryId)) {
+      throw new Error(`Change ${entryId} is not in the undo history`);
+    }
+
+    const undone: JournalEntry[] = [];
+    for (;;) {
+      const entry = await this.undo(force);
+      if (!entry) {
+        break;
+      }
+      undone.push(entry);
+      if (entry.id === entryId) {
+        break;
+      }
+    }
+    return undone;
+  }
+
+  /**
+   * Get the undo history, most recent change first
+   */
+  public getHistory(): JournalEntry[] {
+    return [...this.undoStack].reverse();
+  }
+
+  /**
+   * Get the next change that would be undone
+   */
+  public peekUndo(): JournalEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  /**
+   * Get the next change that would be redone
+   */
+  public peekRedo(): JournalEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Check whether there is a change to undo
+   */
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check whether there is a change to redo
+   */
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Forget all recorded changes
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emit("changed");
+  }
+
+  /**
+   * Push the change a finished recording made onto the undo stack
+   */
+  private addEntry(label: string, recording: Recording): void {
+    if (recording.unreadable) {
+      return;
+    }
+
+    const changes: TagChange[] = [];
+    for (const tag of recording.tags) {
+      if (!recording.before.has(tag) || !recording.after.has(tag)) {
+        continue;
+      }
+      const before = recording.before.get(tag);
+      const after = recording.after.get(tag);
+      if (!sameTasks(before, after)) {
+        changes.push({ tag, before, after });
+      }
+    }
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.undoStack.push({
+      id: this.nextId++,
+      label,
+      tag: recording.tags[0],
+      timestamp: Date.now(),
+      changes,
+    });
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.emit("changed");
+  }
+
+  /**
+   * Write the "before" or "after" snapshots of an entry back, after checking
+   * every tag still matches the opposite state
+   */
+  private async restore(
+    entry: JournalEntry,
+    target: "before" | "after",
+    force: boolean
+  ): Promise<void> {
+    const expected = target === "before" ? "after" : "before";
+    // Checked on the data being written, so nothing can slip in between
+    await this.tasksRepository.mutate((data) => {
+      for (const change of entry.changes) {
+        const current = data[change.tag];
+        const unchanged = sameTasks(
+          isTagEntry(current) ? current : undefined,
+          change[expected]
+        );
+        if (!force && !unchanged) {
+          throw new JournalConflictError(
+            `Tag "${change.tag}" was modified after "${entry.label}"; restoring it would discard those changes`
+          );
+        }
+      }
+
+      for (const change of entry.changes) {
+        const tagData = clone(change[target]);
+        if (tagData) {
+          data[change.tag] = tagData;
+        } else {
+          delete data[change.tag];
+        }
+      }
+    });
+  }
+
+  private async snapshot(tag: string): Promise<TagTasksData | undefined> {
+    if (!this.tasksRepository.exists()) {
+      return undefined;
+    }
+    const data = await this.tasksRepository.read();
+    const tagData = data[tag];
+    return isTagEntry(tagData) ? clone(tagData) : undefined;
+  }
+}
+
+/**
+ * Compare the tasks and descriptions of two snapshots, ignoring metadata
+ * timestamps
+ */
+function sameTasks(
+  a: TagTasksData | undefined,
+  b: TagTasksData | undefined
+): boolean {
+  return (
+    JSON.stringify([a?.tasks, a?.metadata?.description]) ===
+    JSON.stringify([b?.tasks, b?.metadata?.description])
+  );
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
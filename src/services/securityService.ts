@@ -116,33 +116,6 @@ export class SecurityService {
     }
   }
 
-  /**
-   * Validate command arguments to prevent injection attacks
-   */
-  public validateCommandArgs(args: string[]): {
-    isValid: boolean;
-    reason?: string;
-  } {
-    const dangerousPatterns = [
-      /[;&|`$()]/, // Shell injection
-      /\.\./, // Directory traversal
-      /^-/, // Prevent option injection (should be handled by caller)
-    ];
-
-    for (const arg of args) {
-      for (const pattern of dangerousPatterns) {
-        if (pattern.test(arg)) {
-          return {
-            isValid: false,
-            reason: `Argument contains potentially dangerous characters: ${arg}`,
-          };
-        }
-      }
-    }
-
-    return { isValid: true };
-  }
-
   /**
    * Get security context for the current workspace
    */
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { Task } from "../types";
+import { explainNextTask } from "../utils/nextTaskResolver";
 import { TaskManagerService } from "./taskManagerService";
 
 /**
@@ -118,7 +119,10 @@ export class StatusBarService {
       if (nextTask) {
         const taskText = `$(checklist) Next: ${nextTask.title} (#${nextTask.id})`;
         this.statusBarItem.text = taskText;
-        this.statusBarItem.tooltip = `Next Task: ${nextTask.title}\nID: ${nextTask.id}\nStatus: ${nextTask.status}\nPriority: ${nextTask.priority}\n\nClick to cycle views`;
+        const reason = explainNextTask(
+          this.taskManagerService.getNextTaskCandidates()
+        );
+        this.statusBarItem.tooltip = `Next Task: ${nextTask.title}\nID: ${nextTask.id}\nStatus: ${nextTask.status}\nPriority: ${nextTask.priority}\nWhy: ${reason}\n\nClick to cycle views`;
         this.statusBarItem.backgroundColor = undefined;
       } else {
         this.statusBarItem.text = `$(check) All tasks complete!`;
@@ -1,38 +1,41 @@
 import { EventEmitter } from "events";
 import * as fs from "fs";
 import * as path from "path";
-import * as vscode from "vscode";
-import { TagInfo, TagServiceResponse, Task, TaskMasterConfig } from "../types";
+import {
+  AddTagOptions,
+  TagInfo,
+  TagServiceResponse,
+  Task,
+  TaskMasterConfig,
+} from "../types";
+import {
+  buildAddTagCommand,
+  buildDeleteTagCommand,
+  buildRenameTagCommand,
+  buildUseTagCommand,
+} from "../utils/cliCommandBuilder";
+import { calculateStats } from "../utils/taskUtils";
 import { CLIService } from "./cliService";
 import { ConfigService } from "./configService";
+import { TasksRepository } from "./tasksRepository";
 
 /**
  * Service for managing tag operations
- * Reads tag data from tasks.json and config.json files
- * Uses CLI commands only for operations: add-tag, use-tag, delete-tag
+ * Reads tag data from tasks.json (via TasksRepository) and the current tag
+ * from state.json/config.json
+ * Uses CLI commands only for operations: add-tag, use-tag, rename-tag,
+ * delete-tag; descriptions are edited in-process
  */
 export class TagService extends EventEmitter {
   private cliService: CLIService;
   private currentTag: string = "master";
-  private taskMasterRoot: string;
 
-  constructor() {
+  constructor(private tasksRepository: TasksRepository) {
     super();
     const config = ConfigService.getConfig();
-    this.cliService = new CLIService(config);
-    this.taskMasterRoot = this.findTaskMasterRoot();
-  }
-
-  /**
-   * Find the .taskmaster directory in the workspace
-   */
-  private findTaskMasterRoot(): string {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceFolder) {
-      throw new Error("No workspace folder found");
-    }
-    const taskMasterPath = path.join(workspaceFolder, ".taskmaster");
-    return taskMasterPath;
+    this.cliService = new CLIService(config, () =>
+      tasksRepository.getProjectRoot()
+    );
   }
 
   /**
@@ -40,23 +43,19 @@ export class TagService extends EventEmitter {
    */
   public async getAllTags(): Promise<TagInfo[]> {
     try {
-      // Read tasks.json file directly
-      const tasksJsonPath = path.join(
-        this.taskMasterRoot,
-        "tasks",
-        "tasks.json"
-      );
-
-      if (!fs.existsSync(tasksJsonPath)) {
-        console.warn(`Tasks file not found: ${tasksJsonPath}`);
+      if (!this.tasksRepository.exists()) {
+        console.warn(
+          `Tasks file not found: ${this.tasksRepository.getTasksFilePath()}`
+        );
         return [];
       }
 
-      const tasksContent = fs.readFileSync(tasksJsonPath, "utf-8");
-      const tasksData = JSON.parse(tasksContent);
+      const tasksData = await this.tasksRepository.read();
 
-      // Get current tag from config.json
-      const currentTag = await this.getCurrentTagFromConfig();
+      // Get current tag from state.json / config.json
+      const currentTag = await readCurrentTag(
+        this.tasksRepository.getTaskMasterRoot()
+      );
       this.currentTag = currentTag;
 
       // Extract tags from top-level keys
@@ -73,7 +72,8 @@ export class TagService extends EventEmitter {
           const tagInfo: TagInfo = {
             name: tagName,
             taskCount: tasks.length,
-            description: metadata.description || `Tasks in ${tagName} tag`,
+            description: metadata.description,
+            stats: calculateStats(tasks),
             metadata: {
               lastModified:
                 metadata.updated ||
@@ -94,47 +94,19 @@ export class TagService extends EventEmitter {
     }
   }
 
-  /**
-   * Get current tag from config.json
-   */
-  private async getCurrentTagFromConfig(): Promise<string> {
-    try {
-      const configPath = path.join(this.taskMasterRoot, "config.json");
-
-      if (!fs.existsSync(configPath)) {
-        console.warn(`Config file not found: ${configPath}`);
-        return "master";
-      }
-
-      const configContent = fs.readFileSync(configPath, "utf-8");
-      const configData = JSON.parse(configContent);
-
-      return configData.global?.defaultTag || "master";
-    } catch (error) {
-      console.error("Error reading current tag from config:", error);
-      return "master";
-    }
-  }
-
   /**
    * Get tasks for a specific tag by parsing tasks.json
    */
   public async getTasksByTag(tagId: string): Promise<Task[]> {
     try {
-      // Read tasks.json file directly
-      const tasksJsonPath = path.join(
-        this.taskMasterRoot,
-        "tasks",
-        "tasks.json"
-      );
-
-      if (!fs.existsSync(tasksJsonPath)) {
-        console.warn(`Tasks file not found: ${tasksJsonPath}`);
+      if (!this.tasksRepository.exists()) {
+        console.warn(
+          `Tasks file not found: ${this.tasksRepository.getTasksFilePath()}`
+        );
         return [];
       }
 
-      const tasksContent = fs.readFileSync(tasksJsonPath, "utf-8");
-      const tasksData = JSON.parse(tasksContent);
+      const tasksData = await this.tasksRepository.read();
 
       // Extract tasks for the specific tag
       const tagData = tasksData[tagId];
@@ -174,10 +146,10 @@ export class TagService extends EventEmitter {
   public async setCurrentTag(tagId: string): Promise<boolean> {
     try {
       // Execute 'use-tag <tagName>' CLI command
-      const result = await this.cliService.executeCommand("use-tag", {
-        extraArgs: [tagId],
-        format: "text",
-      });
+      const result = await this.cliService.runCommand(
+        buildUseTagCommand(tagId),
+        { format: "text" }
+      );
 
       if (typeof result !== "string") {
         throw new Error("Expected text response from use-tag command");
@@ -193,7 +165,7 @@ export class TagService extends EventEmitter {
         const oldTag = this.currentTag;
         this.currentTag = tagId;
 
-        this.emit("tagChanged", { oldTag, newTag: tagId });
+        this.emit("currentTagChanged", { oldTag, newTag: tagId });
         return true;
       } else {
         console.error(
@@ -214,31 +186,13 @@ export class TagService extends EventEmitter {
    */
   public async addTag(
     tagName: string,
-    options?: {
-      copyFromCurrent?: boolean;
-      copyFrom?: string;
-      description?: string;
-    }
+    options?: AddTagOptions
   ): Promise<boolean> {
     try {
-      const args = [tagName];
-
-      if (options?.copyFromCurrent) {
-        args.push("--copy-from-current");
-      }
-
-      if (options?.copyFrom) {
-        args.push(`--copy-from=${options.copyFrom}`);
-      }
-
-      if (options?.description) {
-        args.push(`-d="${options.description}"`);
-      }
-
-      const result = await this.cliService.executeCommand("add-tag", {
-        extraArgs: args,
-        format: "text",
-      });
+      const result = await this.cliService.runCommand(
+        buildAddTagCommand(tagName, options),
+        { format: "text" }
+      );
 
       if (typeof result !== "string") {
         throw new Error("Expected text response from add-tag command");
@@ -272,16 +226,10 @@ export class TagService extends EventEmitter {
     force: boolean = false
   ): Promise<boolean> {
     try {
-      const args = [tagName];
-
-      if (force) {
-        args.push("--yes");
-      }
-
-      const result = await this.cliService.executeCommand("delete-tag", {
-        extraArgs: args,
-        format: "text",
-      });
+      const result = await this.cliService.runCommand(
+        buildDeleteTagCommand(tagName, force),
+        { format: "text" }
+      );
 
       if (typeof result !== "string") {
         throw new Error("Expected text response from delete-tag command");
@@ -313,6 +261,71 @@ export class TagService extends EventEmitter {
     }
   }
 
+  /**
+   * Rename a tag using CLI 'rename-tag' command
+   */
+  public async renameTag(oldName: string, newName: string): Promise<boolean> {
+    try {
+      const result = await this.cliService.runCommand(
+        buildRenameTagCommand(oldName, newName),
+        { format: "text" }
+      );
+
+      const isSuccess =
+        result.toLowerCase().includes("renamed") ||
+        result.toLowerCase().includes(newName.toLowerCase());
+
+      if (isSuccess) {
+        if (oldName === this.currentTag) {
+          this.currentTag = newName;
+        }
+
+        this.emit("tagRenamed", { oldName, newName });
+        return true;
+      } else {
+        console.error(`Failed to rename tag ${oldName}. CLI response:`, result);
+        return false;
+      }
+    } catch (error) {
+      console.error(`Error renaming tag ${oldName}:`, error);
+      this.emit("tagError", error);
+      return false;
+    }
+  }
+
+  /**
+   * Set or clear the description of a tag, written directly to tasks.json
+   */
+  public async setTagDescription(
+    tagName: string,
+    description: string
+  ): Promise<boolean> {
+    try {
+      await this.tasksRepository.mutate((data) => {
+        const tagData = data[tagName];
+        if (!tagData || typeof tagData !== "object" || !("tasks" in tagData)) {
+          throw new Error(`Tag "${tagName}" not found in tasks.json`);
+        }
+
+        const metadata = {
+          ...tagData.metadata,
+          updated: new Date().toISOString(),
+        };
+        if (description.trim()) {
+          metadata.description = description.trim();
+        } else {
+          delete metadata.description;
+        }
+        tagData.metadata = metadata;
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error describing tag ${tagName}:`, error);
+      this.emit("tagError", error);
+      return false;
+    }
+  }
+
   /**
    * Get the current tag name
    */
@@ -324,6 +337,37 @@ export class TagService extends EventEmitter {
    * Update configuration (called when CLI config changes)
    */
   public updateConfig(config: TaskMasterConfig): void {
-    this.cliService = new CLIService(config);
+    this.cliService.updateConfig(config);
+  }
+}
+
+/**
+ * Get the current tag of a project: the CLI records `use-tag` in state.json,
+ * and config.json holds the default used before any tag was selected
+ */
+export async function readCurrentTag(taskMasterRoot: string): Promise<string> {
+  try {
+    const statePath = path.join(taskMasterRoot, "state.json");
+    if (fs.existsSync(statePath)) {
+      const state = JSON.parse(fs.readFileSync(statePath, "utf-8"));
+      if (typeof state.currentTag === "string" && state.currentTag) {
+        return state.currentTag;
+      }
+    }
+
+    const configPath = path.join(taskMasterRoot, "config.json");
+
+    if (!fs.existsSync(configPath)) {
+      console.warn(`Config file not found: ${configPath}`);
+      return "master";
+    }
+
+    const configContent = fs.readFileSync(configPath, "utf-8");
+    const configData = JSON.parse(configContent);
+
+    return configData.global?.defaultTag || "master";
+  } catch (error) {
+    console.error("Error reading current tag from config:", error);
+    return "master";
   }
 }
@@ -1,7 +1,6 @@
 import { EventEmitter } from "events";
-import fs from "fs";
-import * as vscode from "vscode";
 import {
+  AddTagOptions,
   TagInfo,
   TagServiceResponse,
   Task,
@@ -17,6 +16,7 @@ import {
   readComplexityReport,
 } from "../utils/taskUtils";
 import { TagService } from "./tagService";
+import { TasksRepository } from "./tasksRepository";
 
 /**
  * Service for managing task caching and file reading operations
@@ -27,9 +27,9 @@ export class TaskCacheService extends EventEmitter {
   private cachedResponse: TaskMasterResponse | null = null;
   private tagService: TagService;
 
-  constructor() {
+  constructor(private tasksRepository: TasksRepository) {
     super();
-    this.tagService = new TagService();
+    this.tagService = new TagService(tasksRepository);
     this.setupTagServiceEventHandlers();
   }
 
@@ -57,9 +57,10 @@ export class TaskCacheService extends EventEmitter {
    */
   public async refreshTasksFromFile(): Promise<TaskMasterResponse | null> {
     try {
-      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!workspaceRoot) {
-        throw new Error("No workspace open");
+      // Parse tasks.json up front so a broken file surfaces as a refresh
+      // error instead of silently emptying the tree
+      if (this.tasksRepository.exists()) {
+        await this.tasksRepository.read();
       }
 
       // Use TagService to get current tag info (uses CLI)
@@ -74,9 +75,9 @@ export class TaskCacheService extends EventEmitter {
 
       // Fix subtask IDs and check if changes were made
       const subtaskFixResult = fixSubtaskIds(fixedTasks);
-      let finalTasks = subtaskFixResult.tasks;
+      const finalTasks = subtaskFixResult.tasks;
 
-      // If subtask IDs were fixed, we need to trigger a file update via CLI
+      // If subtask IDs were fixed, write the corrected tasks back to the file
       if (subtaskFixResult.hasChanges) {
         log(
           `Fixed subtask IDs in tasks: ${subtaskFixResult.changedTasks.join(
@@ -84,24 +85,15 @@ export class TaskCacheService extends EventEmitter {
           )}. File will be updated.`
         );
 
-        const currentTag = this.tagService.getCurrentTag();
-        const currentTasksFilePath = `${workspaceRoot}/.taskmaster/tasks/tasks.json`;
-        log(`Current tasks file path: ${currentTasksFilePath}`);
-        const currentTasksFileContent = fs.readFileSync(
-          currentTasksFilePath,
-          "utf8"
-        );
-        const currentTasksFileData = JSON.parse(currentTasksFileContent);
-        currentTasksFileData[currentTag].tasks = finalTasks;
-        fs.writeFileSync(
-          currentTasksFilePath,
-          JSON.stringify(currentTasksFileData, null, 2)
-        );
-        finalTasks = subtaskFixResult.tasks;
+        // Not an undoable change of its own: undoing it would only get it
+        // fixed again on the next refresh
+        await this.tasksRepository.writeTasks(currentTag, finalTasks);
       }
 
       // Read complexity report and merge scores into tasks
-      const complexityReport = await readComplexityReport(workspaceRoot);
+      const complexityReport = await readComplexityReport(
+        this.tasksRepository.getProjectRoot()
+      );
       const tasksWithComplexity = mergeComplexityScores(
         finalTasks,
         complexityReport
@@ -163,6 +155,40 @@ export class TaskCacheService extends EventEmitter {
     return await this.tagService.setCurrentTag(tagId);
   }
 
+  /**
+   * Create a tag, optionally copying the tasks of another tag
+   */
+  public async addTag(
+    tagName: string,
+    options?: AddTagOptions
+  ): Promise<boolean> {
+    return await this.tagService.addTag(tagName, options);
+  }
+
+  /**
+   * Rename a tag
+   */
+  public async renameTag(oldName: string, newName: string): Promise<boolean> {
+    return await this.tagService.renameTag(oldName, newName);
+  }
+
+  /**
+   * Delete a tag and its tasks
+   */
+  public async deleteTag(tagName: string): Promise<boolean> {
+    return await this.tagService.deleteTag(tagName, true);
+  }
+
+  /**
+   * Set or clear the description of a tag
+   */
+  public async setTagDescription(
+    tagName: string,
+    description: string
+  ): Promise<boolean> {
+    return await this.tagService.setTagDescription(tagName, description);
+  }
+
   /**
    * Get current tag name
    */
@@ -198,20 +224,6 @@ export class TaskCacheService extends EventEmitter {
     return this.cachedTasks.find((task) => task.id === id);
   }
 
-  /**
-   * Get next actionable task (fallback implementation)
-   */
-  public getNextTask(): Task | null {
-    return (
-      this.cachedTasks.find(
-        (task) =>
-          task.status === "pending" &&
-          task.dependencies &&
-          task.dependencies.length === 0
-      ) || null
-    );
-  }
-
   /**
    * Clear cached data including tag cache
    */
@@ -1,6 +1,7 @@
 import { EventEmitter } from "events";
 import * as vscode from "vscode";
 import {
+  AddTagOptions,
   Subtask,
   TagInfo,
   TagServiceResponse,
@@ -12,17 +13,30 @@ import {
   TaskStatus,
 } from "../types";
 import { log } from "../utils/logger";
-import { parseNextTaskOutput } from "../utils/outputParser";
+import { NextTaskCandidate, rankNextTasks } from "../utils/nextTaskResolver";
+import { TagTransferMode, TagTransferPlan } from "../utils/tagTransfer";
+import { TaskMove } from "../utils/taskDrop";
 import {
   setCurrentSelectedTag,
   taskFilterManager,
 } from "../utils/taskFilterUtils";
+import { CLIJobCancelledError, CLIJobRunner } from "./cliJobRunner";
 import { CLIManagementService } from "./cliManagementService";
 import { CLIService } from "./cliService";
 import { ConfigService } from "./configService";
 import { FileWatcherService } from "./fileWatcherService";
+import { JournalEntry, OperationJournal } from "./operationJournal";
+import { readCurrentTag } from "./tagService";
 import { TaskCacheService } from "./taskCacheService";
 import { TaskOperationsService } from "./taskOperationsService";
+import {
+  isTagEntry,
+  NewSubtask,
+  NewTask,
+  TaskFieldUpdate,
+  TasksRepository,
+} from "./tasksRepository";
+import { TaskSource, WorkspaceContextService } from "./workspaceContextService";
 
 /**
  * Main service for managing Task Master integration
@@ -35,21 +49,48 @@ export class TaskManagerService extends EventEmitter {
   private taskOperationsService: TaskOperationsService;
   private cliManagementService: CLIManagementService;
   private fileWatcherService: FileWatcherService;
+  private tasksRepository: TasksRepository;
+  private operationJournal: OperationJournal;
   private configChangeListener?: vscode.Disposable;
   private isInitialized: boolean = false;
+  private sourceSwitch: Promise<void> = Promise.resolve();
 
-  constructor() {
+  constructor(private workspaceContext: WorkspaceContextService) {
     super();
     const config = ConfigService.getConfig();
-    this.cliService = new CLIService(config);
+    this.cliService = new CLIService(config, () =>
+      this.tasksRepository.getProjectRoot()
+    );
     this.configService = ConfigService;
-    this.taskCacheService = new TaskCacheService();
-    this.taskOperationsService = new TaskOperationsService(this.cliService);
+    // Writes wait for running CLI mutations, which rewrite the whole file
+    this.tasksRepository = new TasksRepository(
+      this.requireActiveSource().taskMasterRoot,
+      CLIJobRunner.getInstance()
+    );
+    this.operationJournal = new OperationJournal(this.tasksRepository);
+    CLIJobRunner.getInstance().setMutationObserver(this.operationJournal);
+    this.taskCacheService = new TaskCacheService(this.tasksRepository);
+    this.taskOperationsService = new TaskOperationsService(
+      this.cliService,
+      this.tasksRepository,
+      () => this.getCurrentTag()
+    );
     this.cliManagementService = new CLIManagementService();
     this.fileWatcherService = new FileWatcherService();
     this.setupEventHandlers();
   }
 
+  /**
+   * Get the workspace folder whose .taskmaster directory is in use
+   */
+  private requireActiveSource(): TaskSource {
+    const source = this.workspaceContext.getActiveSource();
+    if (!source) {
+      throw new Error("No workspace folder found");
+    }
+    return source;
+  }
+
   /**
    * Initialize the service and start polling if configured
    */
@@ -77,9 +118,7 @@ export class TaskManagerService extends EventEmitter {
       );
 
       // Setup file watchers for tasks and complexity files
-      await this.fileWatcherService.setupFileWatchers(async () => {
-        await this.refreshTasks();
-      });
+      await this.watchTaskSources();
 
       // Auto-load current tag on startup
       await this.loadCurrentTagOnStartup();
@@ -126,10 +165,6 @@ export class TaskManagerService extends EventEmitter {
    * Setup event handlers for CLI service and other services
    */
   private setupEventHandlers(): void {
-    this.cliService.on("outputReceived", (output: string) => {
-      this.emit("cliOutput", output);
-    });
-
     this.taskCacheService.on("tasksUpdated", (tasks: Task[]) => {
       this.emit("tasksUpdated", tasks);
     });
@@ -138,6 +173,21 @@ export class TaskManagerService extends EventEmitter {
       this.emit("refreshError", error);
     });
 
+    this.operationJournal.on("changed", () => {
+      this.emit("historyChanged");
+    });
+
+    this.workspaceContext.on("activeSourceChanged", (source: TaskSource) => {
+      this.sourceSwitch = this.switchTaskSource(source);
+    });
+
+    this.workspaceContext.on("sourcesChanged", (sources: TaskSource[]) => {
+      if (this.isInitialized) {
+        this.watchTaskSources();
+      }
+      this.emit("taskSourcesChanged", sources);
+    });
+
     // Add tag-related event handlers
     this.taskCacheService.on("currentTagChanged", ({ oldTag, newTag }) => {
       // Update the filter manager when tag changes
@@ -229,10 +279,11 @@ export class TaskManagerService extends EventEmitter {
     taskId: number,
     status?: string
   ): Promise<boolean> {
-    const result = await this.taskOperationsService.executeTaskCommand(
-      command,
-      taskId,
-      status
+    const label = status
+      ? `Set task ${taskId} to ${status}`
+      : `${command} task ${taskId}`;
+    const result = await this.journaled(label, () =>
+      this.taskOperationsService.executeTaskCommand(command, taskId, status)
     );
     if (result) {
       await this.refreshTasks();
@@ -240,64 +291,30 @@ export class TaskManagerService extends EventEmitter {
     return result;
   }
 
+  /**
+   * Rank the tasks and subtasks of the current tag that can be worked on
+   * now, best first, each with the reasons for its place
+   */
+  public getNextTaskCandidates(): NextTaskCandidate[] {
+    return rankNextTasks(this.getTasks());
+  }
+
   /**
    * Get next actionable task or subtask
+   * Resolved locally from the cached tasks, without spawning the CLI
    */
   public async getNextTaskOrSubtask(): Promise<TaskOrSubtask | null> {
-    try {
-      // Use the CLI next command directly (bypass file reading)
-      const rawOutput = await this.cliService.getNextTaskFromCLI();
-      if (rawOutput) {
-        const parsed = parseNextTaskOutput(rawOutput);
-        if (parsed.id) {
-          if (parsed.isSubtask && typeof parsed.id === "string") {
-            // Find the subtask and its parent task in our cached tasks
-            const parentId = parsed.id.split(".")[0];
-            const subtaskId = parsed.id.split(".")[1];
-            const subtask = this.findSubtaskById(parseInt(parentId), subtaskId);
-
-            if (parsed.isSubtask) {
-              return {
-                type: "subtask",
-                subtask: subtask!,
-              };
-            }
-          } else {
-            // Regular task - find it in our cached tasks
-            const task = this.getTask(parsed.id as number);
-            if (task) {
-              return {
-                type: "task",
-                task,
-              };
-            }
-          }
-        }
-      }
-
-      // Fallback to cache service if CLI parsing fails
-      const fallbackTask = this.taskCacheService.getNextTask();
-      if (fallbackTask) {
-        log("fallbackTask");
-        return {
-          type: "task",
-          task: fallbackTask,
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error("Failed to get next task from CLI:", error);
-      // Fallback: use cache service
-      const fallbackTask = this.taskCacheService.getNextTask();
-      if (fallbackTask) {
-        return {
-          type: "task",
-          task: fallbackTask,
-        };
-      }
+    const [next] = this.getNextTaskCandidates();
+    if (!next) {
       return null;
     }
+    if (next.subtask) {
+      return {
+        type: "subtask",
+        subtask: { ...next.subtask, parentId: Number(next.task.id) },
+      };
+    }
+    return { type: "task", task: next.task };
   }
 
   /**
@@ -326,43 +343,6 @@ export class TaskManagerService extends EventEmitter {
     return null;
   }
 
-  /**
-   * Find a subtask by its ID (format: "parentId.subtaskId") in the cached tasks
-   */
-  /**
-   * Find a subtask by its parent task ID and subtask ID
-   * @param parentId - ID of the parent task
-   * @param subtaskId - ID of the subtask (can be just the ID or parentId.subtaskId format)
-   * @returns The matching subtask or null if not found
-   */
-  private findSubtaskById(parentId: number, subtaskId: string): Subtask | null {
-    const tasks = this.getTasks();
-
-    // Find the parent task
-    const parentTask = tasks.find((task) => task.id === parentId);
-    if (!parentTask?.subtasks) {
-      return null;
-    }
-
-    // Check both possible subtask ID formats:
-    // 1. Just the subtask ID number
-    // 2. Full format: "parentId.subtaskId"
-    const subtask = parentTask.subtasks.find(
-      (subtask) =>
-        subtask.id === parseInt(subtaskId) ||
-        subtask.id === `${parentId}.${subtaskId}`
-    );
-
-    if (subtask) {
-      return {
-        ...subtask,
-        parentId: parentId,
-      };
-    } else {
-      return null;
-    }
-  }
-
   /**
    * Get current task (first in-progress task, or fallback to first pending)
    */
@@ -427,6 +407,7 @@ export class TaskManagerService extends EventEmitter {
     }
     this.fileWatcherService.dispose();
     this.taskCacheService.clearCache();
+    CLIJobRunner.getInstance().setMutationObserver(undefined);
     this.removeAllListeners();
     this.isInitialized = false;
   }
@@ -435,39 +416,83 @@ export class TaskManagerService extends EventEmitter {
    * Add a new task by prompting the user for details and invoking the CLI (AI-powered)
    */
   public async addTask(): Promise<void> {
-    return this.taskOperationsService.addTask(async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled("Add task", () =>
+      this.taskOperationsService.addTask(async () => {
+        await this.refreshTasks();
+      })
+    );
+  }
+
+  /**
+   * Create tasks from prompts using the CLI (AI-powered), recording the
+   * source location of each. Returns the IDs of the created tasks
+   */
+  public async addTasksFromPrompts(
+    requests: { prompt: string; filePath?: string }[]
+  ): Promise<number[]> {
+    return this.journaled(`Add ${requests.length} tasks with AI`, () =>
+      this.taskOperationsService.addTasksFromPrompts(requests, async () => {
+        await this.refreshTasks();
+      })
+    );
+  }
+
+  /**
+   * Add tasks by hand in one undoable step
+   */
+  public async addTasks(fields: NewTask[]): Promise<Task[]> {
+    const added = await this.journaled(`Add ${fields.length} tasks`, () =>
+      this.tasksRepository.addTasks(this.getCurrentTag(), fields)
+    );
+    await this.refreshTasks();
+    return added;
   }
 
   /**
    * Delete a task by ID, handling dependencies and confirmation
    */
   public async deleteTask(taskId?: number): Promise<void> {
-    return this.taskOperationsService.deleteTask(taskId, async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled(`Delete task ${taskId ?? ""}`.trim(), () =>
+      this.taskOperationsService.deleteTask(taskId, async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
    * Add a dependency to a task
    */
   public async addDependency(srcId?: number, depId?: number): Promise<void> {
-    return this.taskOperationsService.addDependency(srcId, depId, async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled("Add dependency", () =>
+      this.taskOperationsService.addDependency(srcId, depId, async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
    * Remove a dependency from a task
    */
   public async removeDependency(srcId?: number, depId?: number): Promise<void> {
-    return this.taskOperationsService.removeDependency(
-      srcId,
-      depId,
-      async () => {
+    return this.journaled("Remove dependency", () =>
+      this.taskOperationsService.removeDependency(
+        srcId,
+        depId,
+        async () => {
+          await this.refreshTasks();
+        }
+      )
+    );
+  }
+
+  /**
+   * Move a task or subtask to a new ID or parent (e.g. "5" -> "7.2")
+   */
+  public async moveTask(fromId: string, toId: string): Promise<void> {
+    return this.journaled(`Move ${fromId} to ${toId}`, () =>
+      this.taskOperationsService.moveTask(fromId, toId, async () => {
         await this.refreshTasks();
-      }
+      })
     );
   }
 
@@ -482,34 +507,44 @@ export class TaskManagerService extends EventEmitter {
    * Fix dependencies for all tasks
    */
   public async fixDependencies(): Promise<void> {
-    return this.taskOperationsService.fixDependencies(async () => {
-      await this.refreshTasks();
-    });
-  }
-
-  /**
-   * Show task details in a VS Code editor tab using the CLI
-   */
-  public async showTaskDetails(taskId?: number): Promise<void> {
-    return this.taskOperationsService.showTaskDetails(taskId);
+    return this.journaled("Fix dependencies", () =>
+      this.taskOperationsService.fixDependencies(async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
    * Expand a task into subtasks using the CLI
    */
   public async expandTask(taskId?: number): Promise<void> {
-    return this.taskOperationsService.expandTask(taskId, async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled(`Expand task ${taskId ?? ""}`.trim(), () =>
+      this.taskOperationsService.expandTask(taskId, async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
    * Expand all pending tasks into subtasks using the CLI
    */
   public async expandAllTasks(): Promise<void> {
-    return this.taskOperationsService.expandAllTasks(async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled("Expand all tasks", () =>
+      this.taskOperationsService.expandAllTasks(async () => {
+        await this.refreshTasks();
+      })
+    );
+  }
+
+  /**
+   * Expand several tasks into subtasks using the CLI as one operation
+   */
+  public async expandTasks(taskIds: number[]): Promise<void> {
+    return this.journaled(`Expand tasks ${taskIds.join(", ")}`, () =>
+      this.taskOperationsService.expandTasks(taskIds, async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
@@ -547,6 +582,85 @@ export class TaskManagerService extends EventEmitter {
     return success;
   }
 
+  /**
+   * Create a tag, optionally copying the tasks of another tag
+   */
+  public async addTag(
+    tagName: string,
+    options?: AddTagOptions
+  ): Promise<boolean> {
+    return this.withTagRefresh(() =>
+      this.journaled(
+        `Create tag ${tagName}`,
+        () => this.taskCacheService.addTag(tagName, options),
+        [tagName]
+      )
+    );
+  }
+
+  /**
+   * Rename a tag; the current tag follows the rename
+   */
+  public async renameTag(oldName: string, newName: string): Promise<boolean> {
+    return this.withTagRefresh(() =>
+      this.journaled(
+        `Rename tag ${oldName} to ${newName}`,
+        () => this.taskCacheService.renameTag(oldName, newName),
+        [oldName, newName]
+      )
+    );
+  }
+
+  /**
+   * Delete a tag and its tasks; deleting the current tag switches to master
+   */
+  public async deleteTag(tagName: string): Promise<boolean> {
+    return this.withTagRefresh(() =>
+      this.journaled(
+        `Delete tag ${tagName}`,
+        () => this.taskCacheService.deleteTag(tagName),
+        [tagName]
+      )
+    );
+  }
+
+  /**
+   * Set or clear the description of a tag
+   */
+  public async setTagDescription(
+    tagName: string,
+    description: string
+  ): Promise<boolean> {
+    return this.withTagRefresh(() =>
+      this.journaled(
+        `Describe tag ${tagName}`,
+        () => this.taskCacheService.setTagDescription(tagName, description),
+        [tagName]
+      )
+    );
+  }
+
+  /**
+   * Run a tag operation, then reload and announce a change of current tag
+   */
+  private async withTagRefresh(
+    operation: () => Promise<boolean>
+  ): Promise<boolean> {
+    const oldTag = this.getCurrentTag();
+    const success = await operation();
+    if (!success) {
+      return false;
+    }
+
+    await this.refreshTasks();
+    const newTag = this.getCurrentTag();
+    if (newTag !== oldTag) {
+      setCurrentSelectedTag(newTag);
+      this.emit("currentTagChanged", { oldTag, newTag });
+    }
+    return true;
+  }
+
   /**
    * Get current active tag name
    */
@@ -554,6 +668,213 @@ export class TaskManagerService extends EventEmitter {
     return this.taskCacheService.getCurrentTag();
   }
 
+  /**
+   * Get the absolute path of the tasks.json file
+   */
+  public getTasksFilePath(): string {
+    return this.tasksRepository.getTasksFilePath();
+  }
+
+  // ===== TASK SOURCES =====
+
+  /**
+   * Get every workspace folder holding a Task Master project
+   */
+  public getTaskSources(): TaskSource[] {
+    return this.workspaceContext.getSources();
+  }
+
+  /**
+   * Get the workspace folder the tasks are read from
+   */
+  public getActiveTaskSource(): TaskSource | undefined {
+    return this.workspaceContext.getActiveSource();
+  }
+
+  /**
+   * Work on the Task Master project of another workspace folder
+   * Resolves once its tasks are loaded
+   */
+  public async setActiveTaskSource(id: string): Promise<void> {
+    await this.workspaceContext.setActiveSource(id);
+    await this.sourceSwitch;
+  }
+
+  /**
+   * Get the tasks of the current tag of a workspace folder's project
+   * Folders other than the active one are read straight from their files
+   */
+  public async getTaskSourceTasks(source: TaskSource): Promise<Task[]> {
+    if (source.id === this.getActiveTaskSource()?.id) {
+      return this.getTasks();
+    }
+    const repository = new TasksRepository(source.taskMasterRoot);
+    if (!repository.exists()) {
+      return [];
+    }
+    return repository.getTasks(await readCurrentTag(source.taskMasterRoot));
+  }
+
+  /**
+   * Get the tasks of one tag of a workspace folder's project, read from its
+   * file; undefined when the project has no tasks file or no such tag
+   */
+  public async getTaskSourceTagTasks(
+    source: TaskSource,
+    tag: string
+  ): Promise<Task[] | undefined> {
+    const repository = new TasksRepository(source.taskMasterRoot);
+    if (!repository.exists()) {
+      return undefined;
+    }
+    const tagData = (await repository.read())[tag];
+    return isTagEntry(tagData) ? tagData.tasks : undefined;
+  }
+
+  /**
+   * Watch the files of every task source: changes to the active one reload
+   * the tasks, changes to another one are announced with
+   * "taskSourceTasksChanged"
+   */
+  private async watchTaskSources(): Promise<void> {
+    await this.fileWatcherService.watchProjects(
+      this.getTaskSources().map((source) => source.projectRoot),
+      async (projectRoot) => {
+        const source = this.getTaskSources().find(
+          (candidate) => candidate.projectRoot === projectRoot
+        );
+        if (projectRoot === this.tasksRepository.getProjectRoot()) {
+          await this.refreshTasks();
+        } else if (source) {
+          this.emit("taskSourceTasksChanged", source);
+        }
+      }
+    );
+  }
+
+  /**
+   * Re-point the repository and CLI at a new project and reload
+   * History is per project, so it is cleared
+   */
+  private async switchTaskSource(source: TaskSource): Promise<void> {
+    this.tasksRepository.setTaskMasterRoot(source.taskMasterRoot);
+    this.operationJournal.clear();
+
+    const oldTag = this.getCurrentTag();
+    await this.refreshTasks();
+    const newTag = this.getCurrentTag();
+    setCurrentSelectedTag(newTag);
+    this.emit("taskSourceChanged", source);
+    if (newTag !== oldTag) {
+      this.emit("currentTagChanged", { oldTag, newTag });
+    }
+  }
+
+  // ===== UNDO / REDO =====
+
+  /**
+   * Run a mutation of the current tag (and any other tags it touches)
+   * through the operation journal
+   */
+  private journaled<T>(
+    label: string,
+    operation: () => Promise<T>,
+    otherTags: string[] = []
+  ): Promise<T> {
+    return this.operationJournal.record(
+      label,
+      [...new Set([this.getCurrentTag(), ...otherTags])],
+      operation
+    );
+  }
+
+  /**
+   * Undo the most recent task change
+   * Pass force to overwrite changes made to the tag since then
+   */
+  public async undo(
+    force: boolean = false
+  ): Promise<JournalEntry | undefined> {
+    const entry = await this.operationJournal.undo(force);
+    if (entry) {
+      await this.refreshAfterRestore([entry], "before");
+    }
+    return entry;
+  }
+
+  /**
+   * Redo the most recently undone task change
+   */
+  public async redo(
+    force: boolean = false
+  ): Promise<JournalEntry | undefined> {
+    const entry = await this.operationJournal.redo(force);
+    if (entry) {
+      await this.refreshAfterRestore([entry], "after");
+    }
+    return entry;
+  }
+
+  /**
+   * Undo every change back to (and including) the given journal entry
+   */
+  public async undoTo(
+    entryId: number,
+    force: boolean = false
+  ): Promise<JournalEntry[]> {
+    let undone: JournalEntry[] = [];
+    try {
+      undone = await this.operationJournal.undoTo(entryId, force);
+      return undone;
+    } finally {
+      await this.refreshAfterRestore(undone, "before");
+    }
+  }
+
+  /**
+   * Reload after undo or redo; when restoring removed the current tag (a
+   * tag creation or rename being undone), follow it to the tag restored in
+   * its place, or to master
+   */
+  private async refreshAfterRestore(
+    entries: JournalEntry[],
+    target: "before" | "after"
+  ): Promise<void> {
+    const tagNames = await this.tasksRepository.getTagNames();
+    if (!tagNames.includes(this.getCurrentTag())) {
+      const opposite = target === "before" ? "after" : "before";
+      const restored = entries
+        .flatMap((entry) => entry.changes)
+        .filter((change) => change[target] && !change[opposite])
+        .map((change) => change.tag)
+        .filter((tag) => tagNames.includes(tag));
+      if (await this.setCurrentTag(restored.pop() ?? "master")) {
+        return;
+      }
+    }
+    await this.refreshTasks();
+  }
+
+  /**
+   * Get recorded task changes, most recent first
+   */
+  public getChangeHistory(): JournalEntry[] {
+    return this.operationJournal.getHistory();
+  }
+
+  /**
+   * Get the changes that the next undo and redo would apply
+   */
+  public getUndoRedoState(): {
+    undo?: JournalEntry;
+    redo?: JournalEntry;
+  } {
+    return {
+      undo: this.operationJournal.peekUndo(),
+      redo: this.operationJournal.peekRedo(),
+    };
+  }
+
   /**
    * Get filtered tasks for the current tag
    * Uses client-side filtering logic for optimization
@@ -593,9 +914,11 @@ export class TaskManagerService extends EventEmitter {
    * Update an existing task by prompting the user for new details
    */
   public async updateTask(taskId?: number): Promise<void> {
-    return this.taskOperationsService.updateTask(taskId, async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled(`Update task ${taskId ?? ""}`.trim(), () =>
+      this.taskOperationsService.updateTask(taskId, async () => {
+        await this.refreshTasks();
+      })
+    );
   }
 
   /**
@@ -623,12 +946,14 @@ export class TaskManagerService extends EventEmitter {
     subtaskId: string,
     updateText: string
   ): Promise<void> {
-    return this.taskOperationsService.updateSubtask(
-      subtaskId,
-      updateText,
-      async () => {
-        await this.refreshTasks();
-      }
+    return this.journaled(`Update subtask ${subtaskId}`, () =>
+      this.taskOperationsService.updateSubtask(
+        subtaskId,
+        updateText,
+        async () => {
+          await this.refreshTasks();
+        }
+      )
     );
   }
 
@@ -639,12 +964,14 @@ export class TaskManagerService extends EventEmitter {
     subtaskId: string,
     status: string
   ): Promise<void> {
-    return this.taskOperationsService.setSubtaskStatus(
-      subtaskId,
-      status,
-      async () => {
-        await this.refreshTasks();
-      }
+    return this.journaled(`Set subtask ${subtaskId} to ${status}`, () =>
+      this.taskOperationsService.setSubtaskStatus(
+        subtaskId,
+        status,
+        async () => {
+          await this.refreshTasks();
+        }
+      )
     );
   }
 
@@ -652,9 +979,201 @@ export class TaskManagerService extends EventEmitter {
    * Remove a subtask from its parent task
    */
   public async removeSubtask(subtaskId: string): Promise<void> {
-    return this.taskOperationsService.removeSubtask(subtaskId, async () => {
-      await this.refreshTasks();
-    });
+    return this.journaled(`Remove subtask ${subtaskId}`, () =>
+      this.taskOperationsService.removeSubtask(subtaskId, async () => {
+        await this.refreshTasks();
+      })
+    );
+  }
+
+  /**
+   * Add a subtask written by hand to a task
+   */
+  public async addSubtask(
+    parentId: string | number,
+    fields: NewSubtask
+  ): Promise<Subtask> {
+    const subtask = await this.journaled(`Add subtask to ${parentId}`, () =>
+      this.tasksRepository.addSubtask(this.getCurrentTag(), parentId, fields)
+    );
+    await this.refreshTasks();
+    return subtask;
+  }
+
+  /**
+   * Turn a subtask into a top-level task, returning its new ID
+   */
+  public async promoteSubtask(subtaskId: string): Promise<number> {
+    const taskId = await this.journaled(`Promote subtask ${subtaskId}`, () =>
+      this.tasksRepository.promoteSubtask(this.getCurrentTag(), subtaskId)
+    );
+    await this.refreshTasks();
+    return taskId;
+  }
+
+  /**
+   * Turn a task into a subtask of another task, returning its new ID
+   */
+  public async demoteTask(
+    taskId: string | number,
+    parentId: string | number
+  ): Promise<string> {
+    const subtaskId = await this.journaled(
+      `Demote task ${taskId} into ${parentId}`,
+      () =>
+        this.tasksRepository.demoteTask(this.getCurrentTag(), taskId, parentId)
+    );
+    await this.refreshTasks();
+    return subtaskId;
+  }
+
+  /**
+   * Update editable fields of a task ("5") or subtask ("5.2") in place, in
+   * the current tag unless another one is given
+   */
+  public async updateTaskFields(
+    id: string | number,
+    update: TaskFieldUpdate,
+    tag: string = this.getCurrentTag()
+  ): Promise<void> {
+    const fields = Object.keys(update);
+    const label =
+      fields.length === 1 && update.status
+        ? `Set ${id} to ${update.status}`
+        : `Edit ${fields.join(", ")} of ${id}`;
+    await this.journaled(
+      label,
+      () => this.tasksRepository.updateTask(tag, id, update),
+      [tag]
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Apply the same field update to several tasks and subtasks at once
+   */
+  public async updateTasksFields(
+    ids: (string | number)[],
+    update: TaskFieldUpdate
+  ): Promise<void> {
+    const fields = Object.keys(update);
+    const label =
+      fields.length === 1 && update.status
+        ? `Set ${ids.join(", ")} to ${update.status}`
+        : `Edit ${fields.join(", ")} of ${ids.join(", ")}`;
+    await this.journaled(label, () =>
+      this.tasksRepository.updateTasks(this.getCurrentTag(), ids, update)
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Replace the dependencies of a task ("5") or subtask ("5.2"), in the
+   * current tag unless another one is given
+   */
+  public async setTaskDependencies(
+    id: string | number,
+    dependsOn: (string | number)[],
+    tag: string = this.getCurrentTag()
+  ): Promise<void> {
+    await this.journaled(
+      `Edit dependencies of ${id}`,
+      () => this.tasksRepository.setDependencies(tag, id, dependsOn),
+      [tag]
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Make a task or subtask depend on another one
+   */
+  public async addTaskDependency(
+    id: string | number,
+    dependsOn: string | number
+  ): Promise<void> {
+    await this.journaled(`Add dependency ${id} -> ${dependsOn}`, () =>
+      this.tasksRepository.addDependency(this.getCurrentTag(), id, dependsOn)
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Make several tasks or subtasks depend on a common one
+   * Returns the IDs that did not have the dependency yet
+   */
+  public async addTasksDependency(
+    ids: (string | number)[],
+    dependsOn: string | number
+  ): Promise<string[]> {
+    const added = await this.journaled(
+      `Add dependency ${ids.join(", ")} -> ${dependsOn}`,
+      () =>
+        this.tasksRepository.addDependencyToTasks(
+          this.getCurrentTag(),
+          ids,
+          dependsOn
+        )
+    );
+    await this.refreshTasks();
+    return added;
+  }
+
+  /**
+   * Apply several moves ("5" -> "7.2", "5.2" -> "5.1") as one operation
+   */
+  public async moveTasks(moves: TaskMove[]): Promise<void> {
+    const label = moves.map(({ from, to }) => `${from} to ${to}`).join(", ");
+    await this.journaled(`Move ${label}`, () =>
+      this.tasksRepository.moveTasks(this.getCurrentTag(), moves)
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Delete several tasks and subtasks at once
+   */
+  public async removeTasks(ids: (string | number)[]): Promise<void> {
+    await this.journaled(`Delete ${ids.join(", ")}`, () =>
+      this.tasksRepository.removeTasks(this.getCurrentTag(), ids)
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Remove a dependency from a task or subtask
+   */
+  public async removeTaskDependency(
+    id: string | number,
+    dependsOn: string | number
+  ): Promise<void> {
+    await this.journaled(`Remove dependency ${id} -> ${dependsOn}`, () =>
+      this.tasksRepository.removeDependency(this.getCurrentTag(), id, dependsOn)
+    );
+    await this.refreshTasks();
+  }
+
+  /**
+   * Move or copy tasks of the current tag into another tag
+   */
+  public async transferTasks(
+    taskIds: (string | number)[],
+    toTag: string,
+    mode: TagTransferMode
+  ): Promise<TagTransferPlan> {
+    const verb = mode === "move" ? "Move" : "Copy";
+    const plan = await this.journaled(
+      `${verb} ${taskIds.join(", ")} to ${toTag}`,
+      () =>
+        this.tasksRepository.transferTasks(
+          this.getCurrentTag(),
+          toTag,
+          taskIds,
+          mode
+        ),
+      [toTag]
+    );
+    await this.refreshTasks();
+    return plan;
   }
 
   /**
@@ -722,57 +1241,68 @@ export class TaskManagerService extends EventEmitter {
       }
 
       // Show progress indicator
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: "Generating tasks from PRD",
-          cancellable: false,
-        },
-        async (progress, token) => {
-          progress.report({ message: "Processing PRD file..." });
-
-          try {
-            const result = await this.cliService.executeParsePRD({
-              filePath: filePath,
-              numTasks: numTasks,
-              research: useResearch.value,
-              force: false, // Don't force overwrite, let user decide if prompted
-            });
-
-            progress.report({ message: "Tasks generated successfully!" });
-
-            // Refresh tasks to show the new ones
-            await this.refreshTasks();
-
-            // Show success message with results
-            vscode.window
-              .showInformationMessage(
-                `Successfully generated tasks from PRD file. Check the task list for new items.`,
-                "View Tasks"
-              )
-              .then((selection) => {
-                if (selection === "View Tasks") {
-                  vscode.commands.executeCommand("taskMaster.refreshTreeView");
-                }
+      await this.journaled("Parse PRD", async () =>
+        vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Generating tasks from PRD",
+            cancellable: true,
+          },
+          async (progress, token) => {
+            progress.report({ message: "Processing PRD file..." });
+
+            try {
+              const result = await this.cliService.executeParsePRD(
+                {
+                  filePath: filePath,
+                  numTasks: numTasks,
+                  research: useResearch.value,
+                  force: false, // Don't force overwrite, let user decide if prompted
+                },
+                token
+              );
+
+              progress.report({ message: "Tasks generated successfully!" });
+
+              // Refresh tasks to show the new ones
+              await this.refreshTasks();
+
+              // Show success message with results
+              vscode.window
+                .showInformationMessage(
+                  `Successfully generated tasks from PRD file. Check the task list for new items.`,
+                  "View Tasks"
+                )
+                .then((selection) => {
+                  if (selection === "View Tasks") {
+                    vscode.commands.executeCommand(
+                      "taskMaster.refreshTreeView"
+                    );
+                  }
+                });
+
+              // Log the result for debugging
+              log("parsePRD", {
+                filePath,
+                numTasks,
+                research: useResearch.value,
+                result,
               });
-
-            // Log the result for debugging
-            log("parsePRD", {
-              filePath,
-              numTasks,
-              research: useResearch.value,
-              result,
-            });
-          } catch (error) {
-            const errorMessage =
-              error instanceof Error ? error.message : "Unknown error";
-            vscode.window.showErrorMessage(
-              `Failed to generate tasks from PRD: ${errorMessage}`
-            );
-            console.error("Parse-PRD error:", error);
-            throw error;
+            } catch (error) {
+              if (error instanceof CLIJobCancelledError) {
+                vscode.window.showInformationMessage("Parse-PRD cancelled");
+                return;
+              }
+              const errorMessage =
+                error instanceof Error ? error.message : "Unknown error";
+              vscode.window.showErrorMessage(
+                `Failed to generate tasks from PRD: ${errorMessage}`
+              );
+              console.error("Parse-PRD error:", error);
+              throw error;
+            }
           }
-        }
+        )
       );
     } catch (error) {
       console.error("Failed to execute parse-prd:", error);
@@ -7,24 +7,33 @@ import {
 } from "../commands/dependencyCommands";
 import {
   addTask,
+  addTasksFromPrompts,
   analyzeComplexity,
   deleteTask,
   expandAllTasks,
   expandTask,
+  expandTasks,
   listTasks,
   showComplexityReport,
-  showTaskDetails,
   updateTask,
 } from "../commands/taskCommands";
-import { TaskComplexityReport } from "../types";
+import { TaskComplexityReport, TaskStatus } from "../types";
+import { buildUpdateSubtaskCommand } from "../utils/cliCommandBuilder";
 import { readComplexityReport } from "../utils/taskUtils";
 import { CLIService } from "./cliService";
+import { TasksRepository } from "./tasksRepository";
 
 /**
- * Service for handling task-related operations and CLI command execution
+ * Service for handling task-related operations
+ * Non-AI mutations are written in-process through the TasksRepository;
+ * AI-backed operations keep using the CLI
  */
 export class TaskOperationsService {
-  constructor(private cliService: CLIService) {}
+  constructor(
+    private cliService: CLIService,
+    private tasksRepository: TasksRepository,
+    private getCurrentTag: () => string
+  ) {}
 
   /**
    * Execute a task command (mark complete, etc.) with security validation
@@ -51,12 +60,18 @@ export class TaskOperationsService {
         );
       }
 
-      let extraArgs = ["--id=" + taskId];
+      // Status changes don't need the CLI - write the file directly
       if (command === "set-status" && status) {
-        extraArgs.push(`--status=${status}`);
+        await this.tasksRepository.setStatus(
+          this.getCurrentTag(),
+          taskId,
+          status as TaskStatus
+        );
+        return true;
       }
 
-      const output = await this.cliService.executeCommand(command, {
+      const extraArgs = ["--id=" + taskId];
+      await this.cliService.executeCommand(command, {
         format: "text",
         extraArgs,
       });
@@ -75,6 +90,23 @@ export class TaskOperationsService {
     return addTask(this.cliService, onRefresh);
   }
 
+  /**
+   * Create tasks from prompts using the CLI (AI-powered), recording the
+   * source location of each
+   */
+  public async addTasksFromPrompts(
+    requests: { prompt: string; filePath?: string }[],
+    onRefresh: () => Promise<void>
+  ): Promise<number[]> {
+    return addTasksFromPrompts(
+      requests,
+      this.cliService,
+      this.tasksRepository,
+      this.getCurrentTag(),
+      onRefresh
+    );
+  }
+
   /**
    * Delete a task by ID, handling dependencies and confirmation
    */
@@ -82,7 +114,12 @@ export class TaskOperationsService {
     taskId: number | undefined,
     onRefresh: () => Promise<void>
   ): Promise<void> {
-    return deleteTask(taskId, this.cliService, onRefresh);
+    return deleteTask(
+      taskId,
+      this.tasksRepository,
+      this.getCurrentTag(),
+      onRefresh
+    );
   }
 
   /**
@@ -93,7 +130,13 @@ export class TaskOperationsService {
     depId: number | undefined,
     onRefresh: () => Promise<void>
   ): Promise<void> {
-    return addDependency(srcId, depId, this.cliService, onRefresh);
+    return addDependency(
+      srcId,
+      depId,
+      this.tasksRepository,
+      this.getCurrentTag(),
+      onRefresh
+    );
   }
 
   /**
@@ -104,28 +147,33 @@ export class TaskOperationsService {
     depId: number | undefined,
     onRefresh: () => Promise<void>
   ): Promise<void> {
-    return removeDependency(srcId, depId, this.cliService, onRefresh);
+    return removeDependency(
+      srcId,
+      depId,
+      this.tasksRepository,
+      this.getCurrentTag(),
+      onRefresh
+    );
   }
 
   /**
    * Validate dependencies for all tasks
    */
   public async validateDependencies(): Promise<void> {
-    return validateDependencies(this.cliService);
+    return validateDependencies(
+      await this.tasksRepository.getTasks(this.getCurrentTag())
+    );
   }
 
   /**
    * Fix dependencies for all tasks
    */
   public async fixDependencies(onRefresh: () => Promise<void>): Promise<void> {
-    return fixDependencies(this.cliService, onRefresh);
-  }
-
-  /**
-   * Show task details in a VS Code editor tab using the CLI
-   */
-  public async showTaskDetails(taskId: number | undefined): Promise<void> {
-    return showTaskDetails(taskId, this.cliService);
+    return fixDependencies(
+      this.tasksRepository,
+      this.getCurrentTag(),
+      onRefresh
+    );
   }
 
   /**
@@ -138,6 +186,16 @@ export class TaskOperationsService {
     return expandTask(taskId, this.cliService, onRefresh);
   }
 
+  /**
+   * Expand several tasks into subtasks using the CLI, one after the other
+   */
+  public async expandTasks(
+    taskIds: number[],
+    onRefresh: () => Promise<void>
+  ): Promise<void> {
+    return expandTasks(taskIds, this.cliService, onRefresh);
+  }
+
   /**
    * List all tasks using the CLI
    */
@@ -156,11 +214,7 @@ export class TaskOperationsService {
    * Get complexity report
    */
   public async getComplexityReport(): Promise<TaskComplexityReport | null> {
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceRoot) {
-      return null;
-    }
-    return await readComplexityReport(workspaceRoot);
+    return await readComplexityReport(this.tasksRepository.getProjectRoot());
   }
 
   /**
@@ -189,6 +243,26 @@ export class TaskOperationsService {
     return showComplexityReport(this.cliService);
   }
 
+  /**
+   * Move a task or subtask to a new position (mirrors the CLI 'move' command)
+   */
+  public async moveTask(
+    fromId: string,
+    toId: string,
+    onRefresh: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await this.tasksRepository.moveTask(this.getCurrentTag(), fromId, toId);
+      await onRefresh();
+      vscode.window.showInformationMessage(`Moved ${fromId} to ${toId}`);
+    } catch (error) {
+      console.error(`Failed to move ${fromId} to ${toId}:`, error);
+      vscode.window.showErrorMessage(
+        `Failed to move ${fromId} to ${toId}: ${error}`
+      );
+    }
+  }
+
   // ===== SUBTASK OPERATIONS =====
 
   /**
@@ -216,12 +290,11 @@ export class TaskOperationsService {
         );
       }
 
-      const extraArgs = [`--id=${subtaskId}`, `--prompt="${updateText}"`];
-
-      await this.cliService.executeCommand("update-subtask", {
-        format: "text",
-        extraArgs,
+      const command = buildUpdateSubtaskCommand({
+        id: subtaskId,
+        prompt: updateText,
       });
+      await this.cliService.runCommand(command, { format: "text" });
 
       await onRefresh();
       vscode.window.showInformationMessage(
@@ -253,41 +326,11 @@ export class TaskOperationsService {
         throw new Error("Invalid status provided");
       }
 
-      // Check workspace trust for command execution
-      if (!vscode.workspace.isTrusted) {
-        throw new Error(
-          "Subtask status change is not allowed in untrusted workspaces"
-        );
-      }
-
-      let extraArgs = [`--id=${subtaskId}`, `--status=${status}`];
-
-      try {
-        // First attempt: try with original subtaskId
-        await this.cliService.executeCommand("set-status", {
-          format: "text",
-          extraArgs,
-        });
-      } catch (firstError) {
-        // If first attempt fails, try with parentId.subtaskId format
-        console.log(`First attempt failed for subtask ${subtaskId}, trying with parentId.subtaskId format`);
-
-        // Extract parent ID from subtaskId (assuming format like "4.1" where "4" is parent)
-        const parts = subtaskId.split('.');
-        if (parts.length >= 2) {
-          const parentId = parts[0];
-          const formattedId = `${parentId}.${subtaskId}`;
-          extraArgs = [`--id=${formattedId}`, `--status=${status}`];
-
-          await this.cliService.executeCommand("set-status", {
-            format: "text",
-            extraArgs,
-          });
-        } else {
-          // If we can't parse the subtaskId format, rethrow the original error
-          throw firstError;
-        }
-      }
+      await this.tasksRepository.setStatus(
+        this.getCurrentTag(),
+        subtaskId,
+        status as TaskStatus
+      );
 
       await onRefresh();
       vscode.window.showInformationMessage(
@@ -314,19 +357,10 @@ export class TaskOperationsService {
         throw new Error("Invalid subtask ID provided");
       }
 
-      // Check workspace trust for command execution
-      if (!vscode.workspace.isTrusted) {
-        throw new Error(
-          "Subtask removal is not allowed in untrusted workspaces"
-        );
-      }
-
-      const extraArgs = [`--id=${subtaskId}`];
-
-      await this.cliService.executeCommand("remove-subtask", {
-        format: "text",
-        extraArgs,
-      });
+      await this.tasksRepository.removeSubtask(
+        this.getCurrentTag(),
+        subtaskId
+      );
 
       await onRefresh();
       vscode.window.showInformationMessage(
@@ -0,0 +1,176 @@
+import * as vscode from "vscode";
+import {
+  TasksValidationIssue,
+  validateTasksFile,
+} from "../utils/tasksValidator";
+import { TaskManagerService } from "./taskManagerService";
+
+/**
+ * Service publishing tasks.json validation problems to the Problems panel
+ * and offering quick fixes for them
+ */
+export class TasksDiagnosticsService implements vscode.CodeActionProvider {
+  private static readonly SOURCE = "Task Master";
+  private static readonly TASKS_FILE_PATTERN =
+    "**/.taskmaster/tasks/tasks.json";
+
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private issuesByUri = new Map<string, TasksValidationIssue[]>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private taskManagerService: TaskManagerService,
+    context: vscode.ExtensionContext
+  ) {
+    this.diagnosticCollection =
+      vscode.languages.createDiagnosticCollection("taskMaster");
+
+    this.disposables.push(
+      this.diagnosticCollection,
+      vscode.languages.registerCodeActionsProvider(
+        { pattern: TasksDiagnosticsService.TASKS_FILE_PATTERN },
+        this,
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.validateIfTasksFile(event.document)
+      ),
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.validateIfTasksFile(document)
+      )
+    );
+    context.subscriptions.push(...this.disposables);
+
+    this.taskManagerService.on("tasksUpdated", () => this.validate());
+
+    this.validate();
+  }
+
+  /**
+   * Validate the workspace tasks.json file from disk (or its open editor)
+   * Returns the number of problems found
+   */
+  public async validate(): Promise<number> {
+    const uri = vscode.Uri.file(this.taskManagerService.getTasksFilePath());
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      return this.validateDocument(document);
+    } catch {
+      // No tasks.json yet - nothing to report
+      this.diagnosticCollection.delete(uri);
+      this.issuesByUri.delete(uri.toString());
+      return 0;
+    }
+  }
+
+  /**
+   * Validate a tasks.json document and publish its diagnostics
+   */
+  public validateDocument(document: vscode.TextDocument): number {
+    const issues = validateTasksFile(document.getText());
+    this.issuesByUri.set(document.uri.toString(), issues);
+    this.diagnosticCollection.set(
+      document.uri,
+      issues.map((issue) => this.toDiagnostic(document, issue))
+    );
+    return issues.length;
+  }
+
+  /**
+   * Provide quick fixes for Task Master diagnostics in tasks.json
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const issues = this.issuesByUri.get(document.uri.toString()) || [];
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== TasksDiagnosticsService.SOURCE) {
+        continue;
+      }
+
+      const issue = issues.find(
+        (candidate) =>
+          candidate.fix &&
+          candidate.code === diagnostic.code &&
+          this.toRange(document, candidate).isEqual(diagnostic.range)
+      );
+      if (!issue?.fix) {
+        continue;
+      }
+
+      const action = new vscode.CodeAction(
+        issue.fix.title,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      action.edit = new vscode.WorkspaceEdit();
+      for (const edit of issue.fix.edits) {
+        action.edit.replace(
+          document.uri,
+          new vscode.Range(
+            document.positionAt(edit.offset),
+            document.positionAt(edit.offset + edit.length)
+          ),
+          edit.newText
+        );
+      }
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Reveal the Problems panel
+   */
+  public showProblems(): void {
+    vscode.commands.executeCommand("workbench.actions.view.problems");
+  }
+
+  /**
+   * Dispose of the diagnostics and listeners
+   */
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this.issuesByUri.clear();
+  }
+
+  private validateIfTasksFile(document: vscode.TextDocument): void {
+    const filePath = document.uri.fsPath.replace(/\\/g, "/");
+    if (filePath.endsWith("/.taskmaster/tasks/tasks.json")) {
+      this.validateDocument(document);
+    }
+  }
+
+  private toDiagnostic(
+    document: vscode.TextDocument,
+    issue: TasksValidationIssue
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      this.toRange(document, issue),
+      issue.message,
+      issue.severity === "error"
+        ? vscode.DiagnosticSeverity.Error
+        : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = TasksDiagnosticsService.SOURCE;
+    diagnostic.code = issue.code;
+    return diagnostic;
+  }
+
+  private toRange(
+    document: vscode.TextDocument,
+    issue: TasksValidationIssue
+  ): vscode.Range {
+    return new vscode.Range(
+      document.positionAt(issue.offset),
+      document.positionAt(issue.offset + issue.length)
+    );
+  }
+}
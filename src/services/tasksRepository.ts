@@ -0,0 +1,1136 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Subtask,
+  TaggedTasksFile,
+  TagTasksData,
+  Task,
+  TaskPriority,
+  TaskStatus,
+} from "../types";
+import {
+  planTagTransfer,
+  TagTransferMode,
+  TagTransferPlan,
+} from "../utils/tagTransfer";
+import {
+  formatTaskId,
+  ParsedTaskId,
+  parseTaskId,
+  resolveDependencyId,
+} from "../utils/taskIdUtils";
+
+/**
+ * Statuses accepted by the Task Master CLI
+ */
+export const VALID_TASK_STATUSES: TaskStatus[] = [
+  "pending",
+  "in-progress",
+  "done",
+  "blocked",
+  "deferred",
+  "cancelled",
+  "review",
+];
+
+/**
+ * Priorities accepted by the Task Master CLI
+ */
+export const VALID_TASK_PRIORITIES: TaskPriority[] = ["high", "medium", "low"];
+
+/**
+ * Editable fields of a task or subtask
+ */
+export interface TaskFieldUpdate {
+  title?: string;
+  description?: string;
+  details?: string;
+  testStrategy?: string;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+  /** Source location the task was created from, e.g. "src/app.ts:12" */
+  filePath?: string;
+}
+
+/**
+ * Fields of a task added by hand
+ */
+export interface NewTask {
+  title: string;
+  description?: string;
+  details?: string;
+  priority?: TaskPriority;
+  filePath?: string;
+}
+
+/**
+ * Fields of a subtask added by hand
+ */
+export interface NewSubtask {
+  title: string;
+  description?: string;
+  details?: string;
+  /** Full IDs ("3" or "5.1") of the tasks and subtasks it depends on */
+  dependencies?: (string | number)[];
+}
+
+/**
+ * Lock shared with the other writers of tasks.json, such as the CLI job
+ * runner
+ */
+export interface TasksWriteLock {
+  runExclusive<T>(operation: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A task or subtask node together with its location in the tag
+ */
+interface TaskNode {
+  node: Task | Subtask;
+  parent?: Task;
+  fullId: string;
+}
+
+/**
+ * Repository owning reads and writes of .taskmaster/tasks/tasks.json
+ * Performs non-AI mutations in-process instead of spawning the CLI.
+ * Writes are serialized and atomic (temp file + rename) so the file watcher
+ * and the CLI never observe a partially written file.
+ */
+export class TasksRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private taskMasterRoot: string,
+    private writeLock?: TasksWriteLock
+  ) {}
+
+  /**
+   * Get the .taskmaster directory this repository operates on
+   */
+  public getTaskMasterRoot(): string {
+    return this.taskMasterRoot;
+  }
+
+  /**
+   * Point the repository at another .taskmaster directory
+   */
+  public setTaskMasterRoot(taskMasterRoot: string): void {
+    this.taskMasterRoot = taskMasterRoot;
+  }
+
+  /**
+   * Get the project folder containing the .taskmaster directory
+   */
+  public getProjectRoot(): string {
+    return path.dirname(this.taskMasterRoot);
+  }
+
+  /**
+   * Get the absolute path of tasks.json
+   */
+  public getTasksFilePath(): string {
+    return path.join(this.taskMasterRoot, "tasks", "tasks.json");
+  }
+
+  /**
+   * Check whether tasks.json exists
+   */
+  public exists(): boolean {
+    return fs.existsSync(this.getTasksFilePath());
+  }
+
+  /**
+   * Read and parse the whole tasks.json file
+   */
+  public async read(): Promise<TaggedTasksFile> {
+    const content = await fs.promises.readFile(this.getTasksFilePath(), "utf8");
+    return this.parse(content);
+  }
+
+  /**
+   * Parse tasks.json content, validating the tag-keyed structure
+   */
+  public parse(content: string): TaggedTasksFile {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `tasks.json is not valid JSON: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("tasks.json must contain an object keyed by tag name");
+    }
+
+    return data as TaggedTasksFile;
+  }
+
+  /**
+   * Get the names of all tags in tasks.json
+   */
+  public async getTagNames(): Promise<string[]> {
+    const data = await this.read();
+    return Object.keys(data).filter((tag) => isTagEntry(data[tag]));
+  }
+
+  /**
+   * Get the tasks of a tag, or an empty list if the tag does not exist
+   */
+  public async getTasks(tag: string): Promise<Task[]> {
+    const data = await this.read();
+    const tagData = data[tag];
+    return isTagEntry(tagData) ? tagData.tasks : [];
+  }
+
+  /**
+   * Apply a mutation to the whole file and write it atomically
+   */
+  public async mutate<T>(mutator: (data: TaggedTasksFile) => T): Promise<T> {
+    return this.enqueueWrite(async () => {
+      const data = await this.read();
+      const result = mutator(data);
+      await this.write(data);
+      return result;
+    });
+  }
+
+  /**
+   * Apply a mutation to the tasks of a single tag and write it atomically
+   * Dependency references are rewritten when tasks are renumbered or removed
+   */
+  public async mutateTag<T>(
+    tag: string,
+    mutator: (tasks: Task[], tagData: TagTasksData) => T
+  ): Promise<T> {
+    return this.mutate((data) => {
+      const tagData = data[tag];
+      if (!isTagEntry(tagData)) {
+        throw new Error(`Tag "${tag}" not found in tasks.json`);
+      }
+
+      const result = applyStructuralChange(tagData.tasks, () =>
+        mutator(tagData.tasks, tagData)
+      );
+      tagData.metadata = {
+        ...tagData.metadata,
+        updated: new Date().toISOString(),
+      };
+      return result;
+    });
+  }
+
+  /**
+   * Replace the tasks of a tag as-is, without rewriting dependencies
+   */
+  public async writeTasks(tag: string, tasks: Task[]): Promise<void> {
+    await this.mutate((data) => {
+      const tagData = data[tag];
+      if (!isTagEntry(tagData)) {
+        throw new Error(`Tag "${tag}" not found in tasks.json`);
+      }
+      tagData.tasks = tasks;
+      tagData.metadata = {
+        ...tagData.metadata,
+        updated: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Replace a whole tag entry (tasks and metadata), or delete the tag when
+   * no data is given
+   */
+  public async replaceTag(
+    tag: string,
+    tagData: TagTasksData | undefined
+  ): Promise<void> {
+    await this.mutate((data) => {
+      if (tagData) {
+        data[tag] = tagData;
+      } else {
+        delete data[tag];
+      }
+    });
+  }
+
+  /**
+   * Set the status of a task ("5") or subtask ("5.2")
+   * Like the CLI, marking a task done also marks its subtasks done
+   */
+  public async setStatus(
+    tag: string,
+    id: string | number,
+    status: TaskStatus
+  ): Promise<void> {
+    if (!VALID_TASK_STATUSES.includes(status)) {
+      throw new Error(`Invalid status: ${status}`);
+    }
+    const parsed = requireId(id);
+
+    await this.mutateTag(tag, (tasks) => {
+      const task = findTask(tasks, parsed.taskId);
+      if (parsed.subtaskId === undefined) {
+        task.status = status;
+        if (status === "done") {
+          (task.subtasks || []).forEach((subtask) => {
+            subtask.status = "done";
+          });
+        }
+      } else {
+        findSubtask(task, parsed.subtaskId).status = status;
+      }
+    });
+  }
+
+  /**
+   * Make a task or subtask depend on another task or subtask
+   * Returns false if the dependency already exists
+   */
+  public async addDependency(
+    tag: string,
+    id: string | number,
+    dependsOn: string | number
+  ): Promise<boolean> {
+    const added = await this.addDependencyToTasks(tag, [id], dependsOn);
+    return added.length > 0;
+  }
+
+  /**
+   * Make several tasks or subtasks depend on a common task or subtask in one
+   * write; nothing is written if any of them would form a cycle
+   * Returns the IDs that did not have the dependency yet
+   */
+  public async addDependencyToTasks(
+    tag: string,
+    ids: (string | number)[],
+    dependsOn: string | number
+  ): Promise<string[]> {
+    const sources = ids.map(requireId);
+    const target = requireId(dependsOn);
+    const targetId = formatTaskId(target);
+    for (const source of sources) {
+      if (formatTaskId(source) === targetId) {
+        throw new Error(`Task ${targetId} cannot depend on itself`);
+      }
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      findNode(tasks, target);
+
+      const added: string[] = [];
+      for (const source of sources) {
+        const sourceId = formatTaskId(source);
+        const sourceNode = findNode(tasks, source);
+
+        const nodes = collectNodes(tasks);
+        const existing = resolvedDependencies(
+          nodes.find((entry) => entry.fullId === sourceId)!
+        );
+        if (existing.includes(targetId)) {
+          continue;
+        }
+
+        if (dependsTransitively(nodes, targetId, sourceId)) {
+          throw new Error(
+            `Adding dependency ${sourceId} -> ${targetId} would create a circular dependency`
+          );
+        }
+
+        const owner =
+          source.subtaskId !== undefined
+            ? findTask(tasks, source.taskId)
+            : undefined;
+        sourceNode.dependencies = [
+          ...(sourceNode.dependencies || []),
+          encodeDependency(targetId, owner),
+        ] as number[];
+        added.push(sourceId);
+      }
+      return added;
+    });
+  }
+
+  /**
+   * Remove a dependency from a task or subtask
+   * Returns false if the dependency did not exist
+   */
+  public async removeDependency(
+    tag: string,
+    id: string | number,
+    dependsOn: string | number
+  ): Promise<boolean> {
+    const source = requireId(id);
+    const targetId = formatTaskId(requireId(dependsOn));
+
+    return this.mutateTag(tag, (tasks) => {
+      const sourceNode = findNode(tasks, source);
+      const parent =
+        source.subtaskId !== undefined
+          ? findTask(tasks, source.taskId)
+          : undefined;
+      const before = sourceNode.dependencies || [];
+      const after = before.filter(
+        (dep) => resolveDependencyId(dep, parent) !== targetId
+      );
+      sourceNode.dependencies = after;
+      return after.length !== before.length;
+    });
+  }
+
+  /**
+   * Replace the dependencies of a task or subtask
+   * Every target must exist and none may lead back to the source
+   */
+  public async setDependencies(
+    tag: string,
+    id: string | number,
+    dependsOn: (string | number)[]
+  ): Promise<void> {
+    const source = requireId(id);
+    const sourceId = formatTaskId(source);
+    const targetIds = [
+      ...new Set(dependsOn.map((dep) => formatTaskId(requireId(dep)))),
+    ];
+
+    await this.mutateTag(tag, (tasks) => {
+      const sourceNode = findNode(tasks, source);
+      sourceNode.dependencies = [];
+
+      const nodes = collectNodes(tasks);
+      for (const targetId of targetIds) {
+        if (targetId === sourceId) {
+          throw new Error(`Task ${sourceId} cannot depend on itself`);
+        }
+        findNode(tasks, requireId(targetId));
+        if (dependsTransitively(nodes, targetId, sourceId)) {
+          throw new Error(
+            `Adding dependency ${sourceId} -> ${targetId} would create a circular dependency`
+          );
+        }
+      }
+
+      const owner =
+        source.subtaskId !== undefined
+          ? findTask(tasks, source.taskId)
+          : undefined;
+      sourceNode.dependencies = targetIds.map((targetId) =>
+        encodeDependency(targetId, owner)
+      ) as number[];
+    });
+  }
+
+  /**
+   * Update the editable fields of a task ("5") or subtask ("5.2")
+   */
+  public async updateTask(
+    tag: string,
+    id: string | number,
+    update: TaskFieldUpdate
+  ): Promise<void> {
+    await this.updateTasks(tag, [id], update);
+  }
+
+  /**
+   * Apply the same field update to several tasks and subtasks in one write
+   */
+  public async updateTasks(
+    tag: string,
+    ids: (string | number)[],
+    update: TaskFieldUpdate
+  ): Promise<void> {
+    const parsedIds = ids.map(requireId);
+    if (update.title !== undefined && update.title.trim() === "") {
+      throw new Error("Title cannot be empty");
+    }
+    if (update.status && !VALID_TASK_STATUSES.includes(update.status)) {
+      throw new Error(`Invalid status: ${update.status}`);
+    }
+    if (update.priority && !VALID_TASK_PRIORITIES.includes(update.priority)) {
+      throw new Error(`Invalid priority: ${update.priority}`);
+    }
+
+    const fields: TaskFieldUpdate = Object.fromEntries(
+      Object.entries(update).filter(([, value]) => value !== undefined)
+    );
+
+    await this.mutateTag(tag, (tasks) => {
+      for (const parsed of parsedIds) {
+        const node = Object.assign(findNode(tasks, parsed), fields) as Task;
+        if (parsed.subtaskId === undefined && update.status === "done") {
+          (node.subtasks || []).forEach((subtask) => {
+            subtask.status = "done";
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Remove a task and its subtasks, dropping references to them
+   */
+  public async removeTask(tag: string, id: string | number): Promise<Task> {
+    const parsed = requireId(id);
+    if (parsed.subtaskId !== undefined) {
+      throw new Error(`${formatTaskId(parsed)} is a subtask, not a task`);
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      const task = findTask(tasks, parsed.taskId);
+      tasks.splice(tasks.indexOf(task), 1);
+      return task;
+    });
+  }
+
+  /**
+   * Remove several tasks and subtasks in one write, dropping references to
+   * them; subtasks of removed tasks go with their parent
+   */
+  public async removeTasks(
+    tag: string,
+    ids: (string | number)[]
+  ): Promise<void> {
+    // The same node may be given twice, e.g. "5.2" and 5.2
+    const parsedIds = [
+      ...new Map(
+        ids.map(requireId).map((parsed) => [formatTaskId(parsed), parsed])
+      ).values(),
+    ];
+    const removedTaskIds = new Set(
+      parsedIds
+        .filter((parsed) => parsed.subtaskId === undefined)
+        .map((parsed) => parsed.taskId)
+    );
+
+    await this.mutateTag(tag, (tasks) => {
+      // Resolve every node first so a missing one leaves the file untouched
+      const nodes = parsedIds
+        .filter(
+          (parsed) =>
+            parsed.subtaskId === undefined ||
+            !removedTaskIds.has(parsed.taskId)
+        )
+        .map((parsed) => ({
+          parent: findTask(tasks, parsed.taskId),
+          node: findNode(tasks, parsed),
+        }));
+
+      for (const { parent, node } of nodes) {
+        if (node === parent) {
+          tasks.splice(tasks.indexOf(parent), 1);
+        } else {
+          parent.subtasks!.splice(parent.subtasks!.indexOf(node as Subtask), 1);
+        }
+      }
+    });
+  }
+
+  /**
+   * Remove a subtask ("5.2") from its parent, dropping references to it
+   */
+  public async removeSubtask(
+    tag: string,
+    id: string | number
+  ): Promise<Subtask> {
+    const parsed = requireId(id);
+    if (parsed.subtaskId === undefined) {
+      throw new Error(`${formatTaskId(parsed)} is not a subtask ID`);
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      const task = findTask(tasks, parsed.taskId);
+      const subtask = findSubtask(task, parsed.subtaskId!);
+      task.subtasks!.splice(task.subtasks!.indexOf(subtask), 1);
+      return subtask;
+    });
+  }
+
+  /**
+   * Move a task or subtask, mirroring the CLI 'move' command:
+   * - task to a new task ID ("5" -> "25")
+   * - task into another task as a subtask ("5" -> "7.2")
+   * - subtask to another position or parent ("5.2" -> "7.3")
+   * - subtask out to a standalone task ("5.2" -> "8")
+   * When a destination subtask ID is taken, the moved item is inserted at that
+   * position and the destination's subtasks are renumbered sequentially.
+   */
+  public async moveTask(
+    tag: string,
+    from: string | number,
+    to: string | number
+  ): Promise<void> {
+    await this.moveTasks(tag, [{ from, to }]);
+  }
+
+  /**
+   * Apply several moves in one write, each one against the IDs left by the
+   * previous one; nothing is written if any of them fails
+   */
+  public async moveTasks(
+    tag: string,
+    moves: { from: string | number; to: string | number }[]
+  ): Promise<void> {
+    const parsedMoves = moves
+      .map(({ from, to }) => ({
+        source: requireId(from),
+        destination: requireId(to),
+      }))
+      .filter(
+        ({ source, destination }) =>
+          formatTaskId(source) !== formatTaskId(destination)
+      );
+    if (parsedMoves.length === 0) {
+      return;
+    }
+
+    await this.mutateTag(tag, (tasks) => {
+      for (const { source, destination } of parsedMoves) {
+        moveNode(tasks, source, destination);
+      }
+    });
+  }
+
+  /**
+   * Add pending tasks with the next free task IDs in one write
+   */
+  public async addTasks(tag: string, fields: NewTask[]): Promise<Task[]> {
+    if (fields.some((field) => field.title.trim() === "")) {
+      throw new Error("Title cannot be empty");
+    }
+    if (
+      fields.some(
+        (field) =>
+          field.priority && !VALID_TASK_PRIORITIES.includes(field.priority)
+      )
+    ) {
+      throw new Error("Invalid priority");
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      let nextId =
+        tasks.reduce((max, task) => Math.max(max, Number(task.id)), 0) + 1;
+      const added = fields.map(
+        (field): Task => ({
+          id: nextId++,
+          title: field.title.trim(),
+          description: field.description || "",
+          details: field.details || "",
+          testStrategy: "",
+          status: "pending",
+          priority: field.priority || "medium",
+          dependencies: [],
+          subtasks: [],
+          ...(field.filePath ? { filePath: field.filePath } : {}),
+        })
+      );
+      tasks.push(...added);
+      return added;
+    });
+  }
+
+  /**
+   * Add a pending subtask to a task with the next free subtask ID
+   */
+  public async addSubtask(
+    tag: string,
+    parentId: string | number,
+    fields: NewSubtask
+  ): Promise<Subtask> {
+    const parent = requireId(parentId);
+    if (parent.subtaskId !== undefined) {
+      throw new Error(`Subtasks cannot have subtasks: ${parentId}`);
+    }
+    if (fields.title.trim() === "") {
+      throw new Error("Title cannot be empty");
+    }
+    const dependencies = (fields.dependencies || []).map(requireId);
+    if (dependencies.some((dep) => formatTaskId(dep) === `${parent.taskId}`)) {
+      throw new Error(
+        `A subtask cannot depend on its parent task ${parent.taskId}`
+      );
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      const task = findTask(tasks, parent.taskId);
+      dependencies.forEach((dep) => findNode(tasks, dep));
+
+      const subtasks = task.subtasks || [];
+      task.subtasks = subtasks;
+      const subtask: Subtask = {
+        id: subtasks.reduce((max, s) => Math.max(max, Number(s.id)), 0) + 1,
+        title: fields.title.trim(),
+        description: fields.description || "",
+        details: fields.details || "",
+        status: "pending",
+        dependencies: [],
+        parentId: parent.taskId,
+      };
+      subtasks.push(subtask);
+      // Encoded once the subtask is in place, so it counts as a sibling
+      subtask.dependencies = [
+        ...new Set(
+          dependencies.map((dep) => encodeDependency(formatTaskId(dep), task))
+        ),
+      ] as number[];
+      return subtask;
+    });
+  }
+
+  /**
+   * Turn a subtask ("5.2") into a top-level task with the next free task ID
+   * Returns the new task ID
+   */
+  public async promoteSubtask(
+    tag: string,
+    id: string | number
+  ): Promise<number> {
+    const source = requireId(id);
+    if (source.subtaskId === undefined) {
+      throw new Error(`${id} is not a subtask`);
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      const taskId =
+        tasks.reduce((max, task) => Math.max(max, Number(task.id)), 0) + 1;
+      moveNode(tasks, source, { taskId });
+      return taskId;
+    });
+  }
+
+  /**
+   * Turn a task without subtasks into the last subtask of another task
+   * Returns the new subtask ID ("7.3")
+   */
+  public async demoteTask(
+    tag: string,
+    id: string | number,
+    parentId: string | number
+  ): Promise<string> {
+    const source = requireId(id);
+    const parent = requireId(parentId);
+    if (source.subtaskId !== undefined || parent.subtaskId !== undefined) {
+      throw new Error("Only tasks can be demoted into tasks");
+    }
+
+    return this.mutateTag(tag, (tasks) => {
+      const subtaskId =
+        (findTask(tasks, parent.taskId).subtasks || []).reduce(
+          (max, subtask) => Math.max(max, Number(subtask.id)),
+          0
+        ) + 1;
+      moveNode(tasks, source, { taskId: parent.taskId, subtaskId });
+      return `${parent.taskId}.${subtaskId}`;
+    });
+  }
+
+  /**
+   * Move or copy top-level tasks (with their subtasks) into another tag,
+   * writing both tags at once. Moving drops the references remaining tasks
+   * held on the moved ones; see planTagTransfer for the renumbering
+   */
+  public async transferTasks(
+    fromTag: string,
+    toTag: string,
+    taskIds: (string | number)[],
+    mode: TagTransferMode
+  ): Promise<TagTransferPlan> {
+    if (fromTag === toTag) {
+      throw new Error(`Tasks are already in tag "${toTag}"`);
+    }
+
+    return this.mutate((data) => {
+      const source = data[fromTag];
+      const destination = data[toTag];
+      if (!isTagEntry(source)) {
+        throw new Error(`Tag "${fromTag}" not found in tasks.json`);
+      }
+      if (!isTagEntry(destination)) {
+        throw new Error(`Tag "${toTag}" not found in tasks.json`);
+      }
+
+      const plan = planTagTransfer(
+        source.tasks,
+        destination.tasks,
+        taskIds,
+        mode
+      );
+      const updated = new Date().toISOString();
+      destination.tasks.push(...plan.tasks);
+      destination.metadata = { ...destination.metadata, updated };
+
+      if (mode === "move") {
+        const moved = new Set(plan.renumbered.map((entry) => entry.from));
+        const tasks = source.tasks;
+        applyStructuralChange(tasks, () => {
+          for (let index = tasks.length - 1; index >= 0; index--) {
+            if (moved.has(Number(tasks[index].id))) {
+              tasks.splice(index, 1);
+            }
+          }
+        });
+        source.metadata = { ...source.metadata, updated };
+      }
+      return plan;
+    });
+  }
+
+  /**
+   * Write the file atomically: write a temp file next to it, then rename
+   */
+  private async write(data: TaggedTasksFile): Promise<void> {
+    const filePath = this.getTasksFilePath();
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(
+      tempPath,
+      JSON.stringify(data, null, 2),
+      "utf8"
+    );
+
+    try {
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Serialize write operations so concurrent mutations don't clobber each other
+   * The write lock keeps other writers out while the file is read and written
+   */
+  private enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(() =>
+      this.writeLock ? this.writeLock.runExclusive(operation) : operation()
+    );
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Check whether a top-level tasks.json entry is a tag (has a tasks array)
+ */
+export function isTagEntry(value: unknown): value is TagTasksData {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Array.isArray((value as TagTasksData).tasks)
+  );
+}
+
+/**
+ * Parse an ID or throw a descriptive error
+ */
+function requireId(id: string | number): ParsedTaskId {
+  const parsed = parseTaskId(id);
+  if (!parsed) {
+    throw new Error(`Invalid task ID: ${id}`);
+  }
+  return parsed;
+}
+
+/**
+ * Find a task by numeric ID or throw
+ */
+function findTask(tasks: Task[], taskId: number): Task {
+  const task = tasks.find((candidate) => Number(candidate.id) === taskId);
+  if (!task) {
+    throw new Error(`Task ${taskId} not found`);
+  }
+  return task;
+}
+
+/**
+ * Find a subtask of a task by numeric ID or throw
+ */
+function findSubtask(task: Task, subtaskId: number): Subtask {
+  const subtask = (task.subtasks || []).find(
+    (candidate) => Number(candidate.id) === subtaskId
+  );
+  if (!subtask) {
+    throw new Error(`Subtask ${task.id}.${subtaskId} not found`);
+  }
+  return subtask;
+}
+
+/**
+ * Find a task or subtask node by parsed ID or throw
+ */
+function findNode(tasks: Task[], id: ParsedTaskId): Task | Subtask {
+  const task = findTask(tasks, id.taskId);
+  return id.subtaskId === undefined ? task : findSubtask(task, id.subtaskId);
+}
+
+/**
+ * Flatten a tag into task and subtask nodes with their full IDs
+ */
+function collectNodes(tasks: Task[]): TaskNode[] {
+  const nodes: TaskNode[] = [];
+  for (const task of tasks) {
+    nodes.push({ node: task, fullId: `${task.id}` });
+    for (const subtask of task.subtasks || []) {
+      nodes.push({
+        node: subtask,
+        parent: task,
+        fullId: `${task.id}.${subtask.id}`,
+      });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Resolve a node's dependencies to full IDs
+ */
+function resolvedDependencies(entry: TaskNode): string[] {
+  return (entry.node.dependencies || []).map((dep) =>
+    resolveDependencyId(dep, entry.parent)
+  );
+}
+
+/**
+ * Check whether `fromId` (transitively) depends on `targetId`
+ */
+function dependsTransitively(
+  nodes: TaskNode[],
+  fromId: string,
+  targetId: string
+): boolean {
+  const byId = new Map(nodes.map((entry) => [entry.fullId, entry]));
+  const visited = new Set<string>();
+  const stack = [fromId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === targetId) {
+      return true;
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+
+    const entry = byId.get(current);
+    if (entry) {
+      stack.push(...resolvedDependencies(entry));
+    }
+  }
+  return false;
+}
+
+/**
+ * Encode a full dependency ID the way the CLI stores it:
+ * sibling subtasks as plain subtask numbers, other subtasks as "p.s"
+ * strings and tasks as numbers
+ * A subtask cannot reference a task whose number is also the ID of one of
+ * its siblings, since the plain number would be read as that sibling
+ */
+function encodeDependency(fullId: string, owner?: Task): number | string {
+  const parsed = parseTaskId(fullId);
+  if (!parsed) {
+    return fullId;
+  }
+  if (parsed.subtaskId === undefined) {
+    const collides = (owner?.subtasks || []).some(
+      (subtask) => Number(subtask.id) === parsed.taskId
+    );
+    if (owner && collides) {
+      throw new Error(
+        `Subtasks of task ${owner.id} cannot depend on task ` +
+          `${parsed.taskId}: it would be read as their sibling ` +
+          `${owner.id}.${parsed.taskId}`
+      );
+    }
+    return parsed.taskId;
+  }
+  if (owner && parsed.taskId === Number(owner.id)) {
+    return parsed.subtaskId;
+  }
+  return fullId;
+}
+
+/**
+ * Run a structural change (renumbering, moving or removing nodes) and then
+ * rewrite every dependency so it keeps pointing at the same node.
+ * References to removed nodes, self-references and references from a
+ * subtask to its own parent are dropped; references that were already
+ * dangling are left untouched.
+ */
+function applyStructuralChange<T>(tasks: Task[], change: () => T): T {
+  const before = collectNodes(tasks);
+  const oldIds = new Map<Task | Subtask, string>();
+  const oldDeps = new Map<
+    Task | Subtask,
+    { raw: number | string; resolved: string }[]
+  >();
+  for (const entry of before) {
+    oldIds.set(entry.node, entry.fullId);
+    oldDeps.set(
+      entry.node,
+      (entry.node.dependencies || []).map((dep) => ({
+        raw: dep,
+        resolved: resolveDependencyId(dep, entry.parent),
+      }))
+    );
+  }
+
+  const result = change();
+
+  const after = collectNodes(tasks);
+  const idMap = new Map<string, string | null>();
+  before.forEach((entry) => idMap.set(entry.fullId, null));
+  after.forEach((entry) => {
+    const oldId = oldIds.get(entry.node);
+    if (oldId !== undefined) {
+      idMap.set(oldId, entry.fullId);
+    }
+  });
+
+  const structureChanged = Array.from(idMap.entries()).some(
+    ([oldId, newId]) => oldId !== newId
+  );
+  if (!structureChanged) {
+    return result;
+  }
+
+  for (const entry of after) {
+    const deps = oldDeps.get(entry.node);
+    if (!deps || !entry.node.dependencies) {
+      continue;
+    }
+
+    const ownerParentId = entry.parent ? Number(entry.parent.id) : undefined;
+    const rewritten: (number | string)[] = [];
+    for (const dep of deps) {
+      if (!idMap.has(dep.resolved)) {
+        rewritten.push(dep.raw);
+        continue;
+      }
+      const newId = idMap.get(dep.resolved);
+      const isOwnParent =
+        ownerParentId !== undefined && newId === `${ownerParentId}`;
+      if (!newId || newId === entry.fullId || isOwnParent) {
+        continue;
+      }
+      const encoded = encodeDependency(newId, entry.parent);
+      if (!rewritten.includes(encoded)) {
+        rewritten.push(encoded);
+      }
+    }
+    entry.node.dependencies = rewritten as number[];
+  }
+
+  return result;
+}
+
+/**
+ * Move a task or subtask node within a tag, see TasksRepository.moveTask
+ */
+function moveNode(
+  tasks: Task[],
+  source: ParsedTaskId,
+  destination: ParsedTaskId
+): void {
+  const node = findNode(tasks, source);
+
+  if (destination.subtaskId === undefined) {
+    if (tasks.some((task) => Number(task.id) === destination.taskId)) {
+      throw new Error(`Task ${destination.taskId} already exists`);
+    }
+
+    if (source.subtaskId === undefined) {
+      node.id = destination.taskId;
+      ((node as Task).subtasks || []).forEach((subtask) => {
+        subtask.parentId = destination.taskId;
+      });
+    } else {
+      const parent = findTask(tasks, source.taskId);
+      parent.subtasks!.splice(parent.subtasks!.indexOf(node as Subtask), 1);
+      tasks.push(subtaskToTask(node as Subtask, destination.taskId));
+    }
+    tasks.sort((a, b) => Number(a.id) - Number(b.id));
+    return;
+  }
+
+  const newParent = findTask(tasks, destination.taskId);
+  if (source.subtaskId === undefined) {
+    const task = node as Task;
+    if (task === newParent) {
+      throw new Error(`Task ${task.id} cannot become its own subtask`);
+    }
+    if (task.subtasks && task.subtasks.length > 0) {
+      throw new Error(
+        `Task ${task.id} has subtasks and cannot be converted into a subtask`
+      );
+    }
+    tasks.splice(tasks.indexOf(task), 1);
+    insertSubtask(
+      newParent,
+      taskToSubtask(task, destination.taskId),
+      destination.subtaskId
+    );
+  } else {
+    const oldParent = findTask(tasks, source.taskId);
+    oldParent.subtasks!.splice(
+      oldParent.subtasks!.indexOf(node as Subtask),
+      1
+    );
+    insertSubtask(newParent, node as Subtask, destination.subtaskId);
+  }
+}
+
+/**
+ * Insert a subtask into a parent at the requested ID; if the ID is taken,
+ * insert at that position and renumber the parent's subtasks sequentially
+ */
+function insertSubtask(parent: Task, subtask: Subtask, subtaskId: number) {
+  const subtasks = parent.subtasks || [];
+  parent.subtasks = subtasks;
+  subtask.parentId = Number(parent.id);
+
+  const taken = subtasks.some(
+    (candidate) => Number(candidate.id) === subtaskId
+  );
+  if (!taken) {
+    subtask.id = subtaskId;
+    subtasks.push(subtask);
+    subtasks.sort((a, b) => Number(a.id) - Number(b.id));
+    return;
+  }
+
+  subtasks.splice(Math.min(subtaskId - 1, subtasks.length), 0, subtask);
+  subtasks.forEach((candidate, index) => {
+    candidate.id = index + 1;
+  });
+}
+
+/**
+ * Convert a task object in place into a subtask
+ */
+function taskToSubtask(task: Task, parentId: number): Subtask {
+  const fields: Partial<Task> = task;
+  delete fields.subtasks;
+  delete fields.priority;
+  delete fields.complexityScore;
+  return Object.assign(task, { parentId });
+}
+
+/**
+ * Convert a subtask object in place into a top-level task
+ */
+function subtaskToTask(subtask: Subtask, taskId: number): Task {
+  const fields: Partial<Subtask> = subtask;
+  delete fields.parentId;
+  return Object.assign(subtask, {
+    id: taskId,
+    description: subtask.description || "",
+    priority: "medium" as TaskPriority,
+    subtasks: [] as Subtask[],
+  });
+}
@@ -0,0 +1,155 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/**
+ * Workspace folder holding a Task Master project
+ */
+export interface TaskSource {
+  /** Stable key (the folder URI) */
+  id: string;
+  name: string;
+  folder: vscode.WorkspaceFolder;
+  /** Folder path the CLI runs in */
+  projectRoot: string;
+  /** Path of the .taskmaster directory */
+  taskMasterRoot: string;
+}
+
+/**
+ * Service discovering the workspace folders that contain a .taskmaster
+ * directory and tracking which one the extension works on
+ * Emits "sourcesChanged" when folders are added or removed and
+ * "activeSourceChanged" when the active folder changes
+ */
+export class WorkspaceContextService extends EventEmitter {
+  private static readonly ACTIVE_SOURCE_KEY = "taskMaster.activeTaskSource";
+
+  private sources: TaskSource[] = [];
+  private activeSource: TaskSource | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly workspaceState?: vscode.Memento) {
+    super();
+    this.discover();
+
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.rediscover())
+    );
+
+    // A folder becomes a task source once `task-master init` creates files
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      "**/.taskmaster/tasks/tasks.json",
+      false,
+      true,
+      true
+    );
+    watcher.onDidCreate(() => this.rediscover());
+    this.disposables.push(watcher);
+  }
+
+  /**
+   * Get all task sources, in workspace folder order
+   */
+  public getSources(): TaskSource[] {
+    return this.sources;
+  }
+
+  /**
+   * Get the task source the extension currently works on
+   */
+  public getActiveSource(): TaskSource | undefined {
+    return this.activeSource;
+  }
+
+  /**
+   * Whether more than one folder holds a Task Master project
+   */
+  public isMultiRoot(): boolean {
+    return this.sources.length > 1;
+  }
+
+  /**
+   * Switch to another task source by its ID
+   */
+  public async setActiveSource(id: string): Promise<void> {
+    const source = this.sources.find((candidate) => candidate.id === id);
+    if (!source) {
+      throw new Error(`No Task Master project found for ${id}`);
+    }
+    if (source === this.activeSource) {
+      return;
+    }
+
+    this.activeSource = source;
+    await this.workspaceState?.update(
+      WorkspaceContextService.ACTIVE_SOURCE_KEY,
+      source.id
+    );
+    this.emit("activeSourceChanged", source);
+  }
+
+  /**
+   * Find the task source a file belongs to
+   */
+  public getSourceForUri(uri: vscode.Uri): TaskSource | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return folder
+      ? this.sources.find((source) => source.id === folder.uri.toString())
+      : undefined;
+  }
+
+  /**
+   * Scan the workspace folders for .taskmaster directories
+   * Without any, the first folder is used so `init` and `parse-prd` still
+   * have a place to create the project
+   */
+  private discover(): void {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const toSource = (folder: vscode.WorkspaceFolder): TaskSource => ({
+      id: folder.uri.toString(),
+      name: folder.name,
+      folder,
+      projectRoot: folder.uri.fsPath,
+      taskMasterRoot: path.join(folder.uri.fsPath, ".taskmaster"),
+    });
+
+    this.sources = folders
+      .filter((folder) =>
+        fs.existsSync(path.join(folder.uri.fsPath, ".taskmaster"))
+      )
+      .map(toSource);
+    if (this.sources.length === 0 && folders.length > 0) {
+      this.sources = [toSource(folders[0])];
+    }
+
+    const preferredId =
+      this.activeSource?.id ??
+      this.workspaceState?.get<string>(
+        WorkspaceContextService.ACTIVE_SOURCE_KEY
+      );
+    this.activeSource =
+      this.sources.find((source) => source.id === preferredId) ??
+      this.sources[0];
+  }
+
+  private rediscover(): void {
+    const previous = this.activeSource;
+    const previousIds = this.sources.map((source) => source.id).join("\n");
+    this.discover();
+
+    if (this.sources.map((source) => source.id).join("\n") !== previousIds) {
+      this.emit("sourcesChanged", this.sources);
+    }
+    if (this.activeSource?.id !== previous?.id && this.activeSource) {
+      this.emit("activeSourceChanged", this.activeSource);
+    }
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this.removeAllListeners();
+  }
+}
@@ -87,58 +87,4 @@ export class TestCLIService extends EventEmitter {
       });
     });
   }
-
-  /**
-   * Get next task data directly from CLI
-   */
-  public async getNextTaskFromCLI(): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const args = ["next"];
-      const childProcess = spawn(this.config.cliPath, args, {
-        cwd: process.cwd(),
-        stdio: ["ignore", "pipe", "pipe"],
-      });
-
-      let stdout = "";
-      let stderr = "";
-      const timeout = 30000;
-
-      // Set up timeout
-      const timeoutHandle = setTimeout(() => {
-        childProcess.kill("SIGTERM");
-        reject(new Error(`Next command timed out after ${timeout}ms`));
-      }, timeout);
-
-      // Handle stdout data streaming
-      childProcess.stdout?.on("data", (data: Buffer) => {
-        stdout += data.toString();
-      });
-
-      // Handle stderr
-      childProcess.stderr?.on("data", (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      // Handle process completion
-      childProcess.on("close", (code: number | null) => {
-        clearTimeout(timeoutHandle);
-
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          const errorOutput =
-            stderr.trim() || stdout.trim() || "No error output";
-          reject(
-            new Error(`Next command failed with code ${code}: ${errorOutput}`)
-          );
-        }
-      });
-
-      // Handle process errors
-      childProcess.on("error", (error: Error) => {
-        clearTimeout(timeoutHandle);
-        reject(new Error(`Failed to spawn next CLI process: ${error.message}`));
-      });
-    });
-  }
 }
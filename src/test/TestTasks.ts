@@ -0,0 +1,54 @@
+import { Subtask, Task } from "../types";
+
+/**
+ * Task fixtures for unit tests
+ * Only IDs are required; every other field gets a neutral default
+ */
+
+/**
+ * Fields of a test task or subtask; dependencies may also be "5.2"
+ * strings, as in tasks.json files written by the CLI
+ */
+export type FixtureFields<T extends Task | Subtask> = Omit<
+  Partial<T>,
+  "dependencies"
+> & {
+  dependencies?: (number | string)[];
+};
+
+/**
+ * Build a pending, medium priority task without dependencies or subtasks
+ */
+export function makeTask(
+  id: number,
+  fields: FixtureFields<Task> = {}
+): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: "",
+    priority: "medium",
+    status: "pending",
+    subtasks: [],
+    ...fields,
+    dependencies: (fields.dependencies ?? []) as number[],
+  };
+}
+
+/**
+ * Build a pending subtask of a task
+ */
+export function makeSubtask(
+  parentId: number,
+  id: number,
+  fields: FixtureFields<Subtask> = {}
+): Subtask {
+  return {
+    id,
+    title: `Subtask ${parentId}.${id}`,
+    status: "pending",
+    parentId,
+    ...fields,
+    dependencies: (fields.dependencies ?? []) as number[],
+  };
+}
@@ -0,0 +1,84 @@
+import { strict as assert } from "assert";
+import {
+  DEFAULT_BRANCH_TAG_RULES,
+  formatTaskBranchName,
+  isTaskBranchName,
+  mapBranchToTag,
+  parseGitHead,
+  sanitizeTagName,
+} from "../utils/branchTagMapping";
+
+/**
+ * Unit tests for mapping git branches to tags
+ */
+describe("branchTagMapping", () => {
+  it("maps branches with the default rules", () => {
+    assert.equal(mapBranchToTag("main", DEFAULT_BRANCH_TAG_RULES), "master");
+    assert.equal(mapBranchToTag("develop", DEFAULT_BRANCH_TAG_RULES), "master");
+    assert.equal(
+      mapBranchToTag("feature/login-form", DEFAULT_BRANCH_TAG_RULES),
+      "login-form"
+    );
+    assert.equal(
+      mapBranchToTag("user/fix/issue #12", DEFAULT_BRANCH_TAG_RULES),
+      "fix-issue-12"
+    );
+    // Task branches keep the current tag
+    assert.equal(
+      mapBranchToTag("task/12-setup-repo", DEFAULT_BRANCH_TAG_RULES),
+      undefined
+    );
+  });
+
+  it("uses the first matching rule and skips invalid ones", () => {
+    const rules = [
+      { branch: "(", tag: "broken" },
+      { branch: "^release/", tag: "" },
+      { branch: "^JIRA-(\\d+)", tag: "ticket-$1" },
+    ];
+
+    assert.equal(mapBranchToTag("JIRA-42-fix-login", rules), "ticket-42");
+    assert.equal(mapBranchToTag("release/1.2", rules), undefined);
+    assert.equal(mapBranchToTag("main", rules), undefined);
+  });
+
+  it("sanitizes tag names", () => {
+    assert.equal(sanitizeTagName("--a b/c.d--"), "a-b-c-d");
+    assert.equal(sanitizeTagName("///"), "");
+  });
+
+  it("reads the branch from .git/HEAD", () => {
+    assert.equal(parseGitHead("ref: refs/heads/feature/x\n"), "feature/x");
+    assert.equal(
+      parseGitHead("3f1c2a9e4b5d6c7e8f9a0b1c2d3e4f5a6b7c8d9e\n"),
+      undefined
+    );
+  });
+
+  it("names task branches from a template", () => {
+    const task = { id: "12", title: "Setup Repo (CI & lint)", tag: "master" };
+
+    assert.equal(
+      formatTaskBranchName("task/{id}-{slug}", task),
+      "task/12-setup-repo-ci-lint"
+    );
+    assert.equal(
+      formatTaskBranchName("{tag}/{id}", { ...task, id: "12.3" }),
+      "master/12.3"
+    );
+    assert.equal(
+      formatTaskBranchName("/wip: {id}..x~1.lock/", task),
+      "wip-12.x-1"
+    );
+  });
+
+  it("recognizes task branches named from a template", () => {
+    assert.ok(isTaskBranchName("task/{id}-{slug}", "task/12-setup-repo"));
+    assert.ok(isTaskBranchName("task/{id}-{slug}", "task/12.3-fix-ci"));
+    assert.ok(isTaskBranchName("{tag}/{id}", "feature-x/12"));
+    assert.ok(!isTaskBranchName("task/{id}-{slug}", "task/login-form"));
+    assert.ok(!isTaskBranchName("{tag}/{id}", "feature/login"));
+    // Template text is matched literally
+    assert.ok(!isTaskBranchName("t.sk/{id}", "task/12"));
+  });
+});
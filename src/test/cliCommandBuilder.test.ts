@@ -0,0 +1,124 @@
+import { strict as assert } from "assert";
+import * as os from "os";
+import { CLIJobRunner } from "../services/cliJobRunner";
+import { TaskStatus } from "../types";
+import {
+  buildAddTagCommand,
+  buildAddTaskCommand,
+  buildExpandCommand,
+  buildRenameTagCommand,
+  buildSetStatusCommand,
+  buildUpdateSubtaskCommand,
+  buildUpdateTaskCommand,
+  buildUseTagCommand,
+  CLIArgumentError,
+  CLICommand,
+} from "../utils/cliCommandBuilder";
+
+/**
+ * Unit tests for the typed CLI command builders
+ */
+describe("cliCommandBuilder", () => {
+  const awkwardPrompt = `Say "hello" and 'bye'\nthen run $(rm -rf /); echo \`id\` --force`;
+
+  // Fake CLI echoing the argv it receives, the way task-master would see it
+  const echoArgv = (command: CLICommand) =>
+    new CLIJobRunner().run({
+      executable: process.execPath,
+      args: [
+        "-e",
+        "process.stdout.write(JSON.stringify(process.argv.slice(1)))",
+        "--",
+        command.command,
+        ...command.args,
+      ],
+      cwd: os.tmpdir(),
+      kind: "mutate",
+    });
+
+  it("passes prompts through the CLI argv unchanged", async () => {
+    const command = buildUpdateTaskCommand({ id: 4, prompt: awkwardPrompt });
+    const argv = JSON.parse(await echoArgv(command));
+
+    assert.deepEqual(argv, [
+      "update-task",
+      "--id=4",
+      `--prompt=${awkwardPrompt}`,
+    ]);
+  });
+
+  it("builds add-task arguments and validates enums and IDs", async () => {
+    const command = buildAddTaskCommand({
+      prompt: awkwardPrompt,
+      priority: "high",
+      dependencies: [" 1", 3],
+      research: true,
+    });
+    assert.deepEqual(JSON.parse(await echoArgv(command)), [
+      "add-task",
+      `--prompt=${awkwardPrompt}`,
+      "--priority=high",
+      "--dependencies=1,3",
+      "--research",
+    ]);
+
+    assert.throws(
+      () => buildAddTaskCommand({ prompt: "x", dependencies: ["1;2"] }),
+      CLIArgumentError
+    );
+    assert.throws(
+      () => buildAddTaskCommand({ prompt: "x", priority: "urgent" as any }),
+      /Invalid priority/
+    );
+    assert.throws(() => buildAddTaskCommand({ prompt: "  " }), /empty/);
+  });
+
+  it("distinguishes task and subtask IDs", () => {
+    assert.deepEqual(
+      buildUpdateSubtaskCommand({ id: "5.2", prompt: "notes" }).args,
+      ["--id=5.2", "--prompt=notes"]
+    );
+    assert.throws(
+      () => buildUpdateSubtaskCommand({ id: 5, prompt: "notes" }),
+      /Invalid subtask ID/
+    );
+    assert.throws(
+      () => buildUpdateTaskCommand({ id: "5.2", prompt: "notes" }),
+      /Expected a task ID/
+    );
+    assert.deepEqual(
+      buildSetStatusCommand({ ids: [3, "4.1"], status: "done" }).args,
+      ["--id=3,4.1", "--status=done"]
+    );
+    assert.throws(
+      () =>
+        buildSetStatusCommand({ ids: [3], status: "finished" as TaskStatus }),
+      /Invalid status/
+    );
+  });
+
+  it("omits empty optional values and bounds the subtask count", () => {
+    assert.deepEqual(buildExpandCommand({ id: 2, num: 3, prompt: " " }).args, [
+      "--id=2",
+      "--num=3",
+    ]);
+    assert.throws(() => buildExpandCommand({ id: 2, num: 0 }), /positive/);
+    assert.throws(() => buildExpandCommand({ id: 2, num: 51 }), /exceed 50/);
+  });
+
+  it("rejects tag names that could be read as options", () => {
+    assert.deepEqual(
+      buildAddTagCommand("feature-x", {
+        copyFrom: "master",
+        description: 'The "x" feature',
+      }).args,
+      ["feature-x", "--copy-from=master", '--description=The "x" feature']
+    );
+    assert.deepEqual(buildRenameTagCommand("feature-x", "feature_y").args, [
+      "feature-x",
+      "feature_y",
+    ]);
+    assert.throws(() => buildUseTagCommand("--yes"), /Invalid tag name/);
+    assert.throws(() => buildUseTagCommand("a b"), /Invalid tag name/);
+  });
+});
@@ -0,0 +1,123 @@
+import { strict as assert } from "assert";
+import * as os from "os";
+import {
+  CancellationSignal,
+  CLIJobCancelledError,
+  CLIJobOutput,
+  CLIJobRunner,
+} from "../services/cliJobRunner";
+
+/**
+ * Unit tests for the CLI job runner, using node as a fake CLI
+ */
+describe("CLIJobRunner", () => {
+  const fakeCli = (script: string, kind: "read" | "mutate" = "mutate") => ({
+    executable: process.execPath,
+    args: ["-e", script],
+    cwd: os.tmpdir(),
+    kind,
+  });
+
+  const cancellationSource = () => {
+    const listeners: (() => void)[] = [];
+    const token: CancellationSignal = {
+      isCancellationRequested: false,
+      onCancellationRequested: (listener) => {
+        listeners.push(listener);
+        return {
+          dispose: () => listeners.splice(listeners.indexOf(listener), 1),
+        };
+      },
+    };
+    const cancel = () => {
+      token.isCancellationRequested = true;
+      listeners.forEach((listener) => listener());
+    };
+    return { token, cancel };
+  };
+
+  it("resolves with stdout and streams output", async () => {
+    const runner = new CLIJobRunner();
+    const chunks: CLIJobOutput[] = [];
+    runner.on("output", (output: CLIJobOutput) => chunks.push(output));
+
+    const output = await runner.run(
+      fakeCli("process.stdout.write('a \"quoted\" arg'); console.error('warn')")
+    );
+
+    assert.equal(output, 'a "quoted" arg');
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.stream).sort(),
+      ["stderr", "stdout"]
+    );
+    assert.deepEqual(runner.getJobs(), []);
+  });
+
+  it("rejects with the error output on a non-zero exit", async () => {
+    const runner = new CLIJobRunner();
+    await assert.rejects(
+      runner.run(fakeCli("console.error('boom'); process.exit(3)")),
+      /failed with code 3: boom/
+    );
+  });
+
+  it("runs mutations one at a time and reads in parallel", async () => {
+    const runner = new CLIJobRunner();
+    const slow = "setTimeout(() => {}, 300)";
+
+    const first = runner.run(fakeCli(slow));
+    const second = runner.run(fakeCli(slow));
+    const read = runner.run(fakeCli(slow, "read"));
+
+    assert.deepEqual(
+      runner.getJobs().map((job) => job.state),
+      ["running", "queued", "running"]
+    );
+    await Promise.all([first, second, read]);
+  });
+
+  it("takes turns between mutations and in-process writes", async () => {
+    const runner = new CLIJobRunner();
+    const order: string[] = [];
+
+    const job = runner
+      .run(fakeCli("setTimeout(() => {}, 200)"))
+      .then(() => order.push("first job"));
+    const write = runner.runExclusive(async () => {
+      order.push("write");
+    });
+    const next = runner
+      .run(fakeCli("process.exit(0)"))
+      .then(() => order.push("second job"));
+
+    await Promise.all([job, write, next]);
+    assert.deepEqual(order, ["first job", "write", "second job"]);
+  });
+
+  it("kills running jobs and drops queued ones when cancelled", async () => {
+    const runner = new CLIJobRunner();
+    const { token, cancel } = cancellationSource();
+
+    const running = runner.run({
+      ...fakeCli("setTimeout(() => {}, 10000)"),
+      token,
+    });
+    const queued = runner.run(fakeCli("process.stdout.write('never')"));
+    const queuedId = runner.getJobs()[1].id;
+
+    assert.equal(runner.cancel(queuedId), true);
+    await assert.rejects(queued, CLIJobCancelledError);
+
+    cancel();
+    await assert.rejects(running, CLIJobCancelledError);
+    assert.deepEqual(runner.getJobs(), []);
+  });
+
+  it("kills jobs that exceed their timeout", async () => {
+    const runner = new CLIJobRunner();
+    await assert.rejects(
+      runner.run({ ...fakeCli("setTimeout(() => {}, 10000)"), timeout: 100 }),
+      /timed out after 100ms/
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { strict as assert } from "assert";
+import {
+  formatCommitSubject,
+  parseClosedTaskReferences,
+  prefillCommitMessage,
+} from "../utils/commitMessage";
+
+/**
+ * Unit tests for task references in commit messages
+ */
+describe("commitMessage", () => {
+  it("formats the commit subject for a task", () => {
+    assert.equal(formatCommitSubject(12, "Setup repo"), "[TM-12] Setup repo");
+    assert.equal(formatCommitSubject("4.2", "Add CI"), "[TM-4.2] Add CI");
+  });
+
+  it("prefills the message, keeping what was typed as the body", () => {
+    assert.equal(prefillCommitMessage("", 12, "Setup"), "[TM-12] Setup");
+    assert.equal(
+      prefillCommitMessage("  wip notes\n", 12, "Setup"),
+      "[TM-12] Setup\n\nwip notes"
+    );
+    assert.equal(
+      prefillCommitMessage("Refs TM-12. More", 12, "Setup"),
+      "Refs TM-12. More"
+    );
+    assert.equal(
+      prefillCommitMessage("Refs TM-123", 12, "Setup"),
+      "[TM-12] Setup\n\nRefs TM-123"
+    );
+    assert.equal(
+      prefillCommitMessage("Refs TM-12.1", 12, "Setup"),
+      "[TM-12] Setup\n\nRefs TM-12.1"
+    );
+  });
+
+  it("finds the tasks a commit message closes", () => {
+    assert.deepEqual(
+      parseClosedTaskReferences(
+        "[TM-3] Login form\n\nCloses TM-3, TM-4.1 and TM-5\nfixes: TM-3"
+      ),
+      ["3", "4.1", "5"]
+    );
+    assert.deepEqual(parseClosedTaskReferences("resolved tm-7"), ["7"]);
+    assert.deepEqual(
+      parseClosedTaskReferences("[TM-3] Refs TM-4; disclosed TM-5"),
+      []
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { strict as assert } from "assert";
+import {
+  analyzeDependencies,
+  applyDependencyFixes,
+  findDependents,
+  findTaskDependents,
+  planDependencyFixes,
+} from "../utils/dependencyAnalyzer";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for in-process dependency validation and repair
+ */
+describe("dependencyAnalyzer", () => {
+  it("reports self-dependencies, missing targets and cross-parent refs", () => {
+    const issues = analyzeDependencies([
+      makeTask(1, { dependencies: [1] }),
+      makeTask(2, { dependencies: [7], subtasks: [makeSubtask(2, 1)] }),
+      makeTask(3, {
+        subtasks: [makeSubtask(3, 1, { dependencies: ["2.1"] })],
+      }),
+    ]);
+
+    assert.deepEqual(
+      issues.map((issue) => [
+        issue.kind,
+        issue.severity,
+        issue.taskId,
+        issue.dependency,
+      ]),
+      [
+        ["self-dependency", "error", "1", "1"],
+        ["missing-target", "error", "2", "7"],
+        ["cross-parent", "warning", "3.1", "2.1"],
+      ]
+    );
+  });
+
+  it("reports cycles with their full path", () => {
+    const issues = analyzeDependencies([
+      makeTask(1, { dependencies: [3] }),
+      makeTask(2, { dependencies: [1] }),
+      makeTask(3, { dependencies: [2] }),
+    ]);
+
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].kind, "cycle");
+    assert.deepEqual(issues[0].cycle, ["1", "3", "2", "1"]);
+    assert.equal(issues[0].taskId, "2");
+    assert.equal(issues[0].dependency, "1");
+  });
+
+  it("plans fixes that leave no errors and applies them", () => {
+    const tasks = [
+      makeTask(1, { dependencies: [2, 9] }),
+      makeTask(2, { dependencies: [3] }),
+      makeTask(3, { dependencies: [1, 2] }),
+      makeTask(4, { dependencies: [4, 1] }),
+    ];
+    const fixes = planDependencyFixes(tasks);
+
+    // Planning works on a copy
+    assert.deepEqual(tasks[0].dependencies, [2, 9]);
+
+    const removed = applyDependencyFixes(tasks, fixes);
+    assert.equal(removed, fixes.length);
+    assert.deepEqual(
+      analyzeDependencies(tasks).filter((issue) => issue.severity === "error"),
+      []
+    );
+    assert.deepEqual(tasks[3].dependencies, [1]);
+  });
+
+  it("finds tasks and subtasks depending on an ID", () => {
+    const tasks = [
+      makeTask(1),
+      makeTask(2, {
+        dependencies: [1],
+        subtasks: [
+          makeSubtask(2, 1),
+          makeSubtask(2, 2, { dependencies: [1] }),
+        ],
+      }),
+      makeTask(3, {
+        subtasks: [makeSubtask(3, 2, { dependencies: [1] })],
+      }),
+    ];
+
+    assert.deepEqual(findDependents(tasks, 1), ["2", "3.2"]);
+    assert.deepEqual(findDependents(tasks, "2.1"), ["2.2"]);
+  });
+
+  it("finds what depends on a task or its subtasks from outside it", () => {
+    const tasks = [
+      makeTask(1, {
+        subtasks: [makeSubtask(1, 1), makeSubtask(1, 2, { dependencies: [1] })],
+      }),
+      makeTask(2, { dependencies: [1, "1.2"] }),
+      makeTask(3, { dependencies: ["1.1"] }),
+      makeTask(4),
+    ];
+
+    assert.deepEqual(findTaskDependents(tasks, 1), ["2", "3"]);
+    assert.deepEqual(findTaskDependents(tasks, 4), []);
+  });
+});
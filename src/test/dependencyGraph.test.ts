@@ -0,0 +1,75 @@
+import { strict as assert } from "assert";
+import {
+  buildDependencyGraph,
+  computeLayers,
+  findCriticalPath,
+  findCycles,
+} from "../utils/dependencyGraph";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for dependency graph analysis
+ */
+describe("dependencyGraph", () => {
+  it("resolves task and subtask edges and reports dangling references", () => {
+    const graph = buildDependencyGraph([
+      makeTask(1),
+      makeTask(2, {
+        dependencies: [1, 9],
+        subtasks: [
+          makeSubtask(2, 1),
+          makeSubtask(2, 2, { dependencies: [1, "1.4"] }),
+        ],
+      }),
+    ]);
+
+    assert.deepEqual(
+      graph.nodes.map((node) => node.id),
+      ["1", "2", "2.1", "2.2"]
+    );
+    assert.deepEqual(graph.edges, [
+      { from: "2", to: "1" },
+      { from: "2.2", to: "2.1" },
+    ]);
+    assert.deepEqual(graph.dangling, [
+      { from: "2", dependency: "9" },
+      { from: "2.2", dependency: "1.4" },
+    ]);
+  });
+
+  it("finds cycles including self-dependencies", () => {
+    const graph = buildDependencyGraph([
+      makeTask(1, { dependencies: [3] }),
+      makeTask(2, { dependencies: [1] }),
+      makeTask(3, { dependencies: [2] }),
+      makeTask(4, { dependencies: [4] }),
+      makeTask(5, { dependencies: [1] }),
+    ]);
+    assert.deepEqual(findCycles(graph), [["1", "2", "3"], ["4"]]);
+  });
+
+  it("finds the longest chain of unfinished work", () => {
+    const graph = buildDependencyGraph([
+      makeTask(1, { status: "done" }),
+      makeTask(2, { dependencies: [1] }),
+      makeTask(3, { dependencies: [2] }),
+      makeTask(4, { dependencies: [3] }),
+      makeTask(5, { dependencies: [2] }),
+    ]);
+    assert.deepEqual(findCriticalPath(graph), ["2", "3", "4"]);
+  });
+
+  it("layers nodes after their dependencies and keeps cycles together", () => {
+    const graph = buildDependencyGraph([
+      makeTask(1),
+      makeTask(2, { dependencies: [1, 3] }),
+      makeTask(3, { dependencies: [2] }),
+      makeTask(4, { dependencies: [3] }),
+    ]);
+    const layers = computeLayers(graph);
+    assert.equal(layers.get("1"), 0);
+    assert.equal(layers.get("2"), 1);
+    assert.equal(layers.get("3"), 1);
+    assert.equal(layers.get("4"), 2);
+  });
+});
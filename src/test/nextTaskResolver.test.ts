@@ -0,0 +1,83 @@
+import { strict as assert } from "assert";
+import { explainNextTask, rankNextTasks } from "../utils/nextTaskResolver";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for the local next task resolver
+ */
+describe("nextTaskResolver", () => {
+  it("only offers items whose dependencies are done", () => {
+    const tasks = [
+      makeTask(1, { status: "done" }),
+      makeTask(2, { dependencies: [1] }),
+      makeTask(3, { dependencies: [2] }),
+      makeTask(4, { dependencies: [99] }),
+      makeTask(5, { status: "deferred" }),
+    ];
+    assert.deepEqual(
+      rankNextTasks(tasks).map((candidate) => candidate.id),
+      ["4", "2"]
+    );
+  });
+
+  it("ranks by priority, complexity, dependency count and ID", () => {
+    const tasks = [
+      makeTask(1, { status: "done" }),
+      makeTask(2, { priority: "low" }),
+      makeTask(3, { complexityScore: 8 }),
+      makeTask(4, { complexityScore: 3 }),
+      makeTask(5, { dependencies: [1] }),
+      makeTask(6),
+      makeTask(7, { priority: "high", dependencies: [1] }),
+    ];
+    assert.deepEqual(
+      rankNextTasks(tasks).map((candidate) => candidate.id),
+      ["7", "4", "3", "6", "5", "2"]
+    );
+  });
+
+  it("continues subtasks of in-progress tasks first", () => {
+    const tasks = [
+      makeTask(1, { priority: "high" }),
+      makeTask(2, {
+        status: "in-progress",
+        priority: "low",
+        subtasks: [
+          makeSubtask(2, 1, { status: "done" }),
+          makeSubtask(2, 2),
+          makeSubtask(2, 3, { dependencies: [2] }),
+          makeSubtask(2, 4, {
+            title: "Started",
+            status: "in-progress",
+            dependencies: [1],
+          }),
+        ],
+      }),
+    ];
+    const ranked = rankNextTasks(tasks);
+    assert.deepEqual(
+      ranked.map((candidate) => candidate.id),
+      ["2.4", "2.2", "2", "1"]
+    );
+    assert.equal(ranked[0].subtask!.title, "Started");
+    assert.deepEqual(ranked[0].reasons, [
+      "continues in-progress task 2",
+      "already in progress",
+      "low priority",
+      "dependency 2.1 done",
+    ]);
+  });
+
+  it("explains the choice", () => {
+    const tasks = [
+      makeTask(1, { priority: "high", complexityScore: 2 }),
+      makeTask(2),
+    ];
+    assert.equal(
+      explainNextTask(rankNextTasks(tasks)),
+      "ready to start, high priority, complexity 2, no dependencies; " +
+        "ahead of 1 other ready task"
+    );
+    assert.equal(explainNextTask([]), undefined);
+  });
+});
@@ -0,0 +1,198 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CLIJobRunner } from "../services/cliJobRunner";
+import {
+  JournalConflictError,
+  OperationJournal,
+} from "../services/operationJournal";
+import { TasksRepository } from "../services/tasksRepository";
+import { TaggedTasksFile } from "../types";
+import { makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for the undo/redo operation journal
+ * The journal observes a job runner shared with the repository, like in the
+ * extension; node stands in for the CLI
+ */
+describe("OperationJournal", () => {
+  let tempDir: string;
+  let runner: CLIJobRunner;
+  let repository: TasksRepository;
+  let journal: OperationJournal;
+
+  const taskIds = async () =>
+    (await repository.getTasks("master")).map((t) => t.id);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "taskmaster-journal-"));
+    runner = new CLIJobRunner();
+    repository = new TasksRepository(path.join(tempDir, ".taskmaster"), runner);
+    journal = new OperationJournal(repository);
+    runner.setMutationObserver(journal);
+    const file: TaggedTasksFile = {
+      master: { tasks: [makeTask(1), makeTask(2), makeTask(3)], metadata: {} },
+    };
+    fs.mkdirSync(path.dirname(repository.getTasksFilePath()), {
+      recursive: true,
+    });
+    fs.writeFileSync(repository.getTasksFilePath(), JSON.stringify(file));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("undoes and redoes a recorded change", async () => {
+    await journal.record("Delete task 2", "master", () =>
+      repository.removeTask("master", 2)
+    );
+    assert.deepEqual(await taskIds(), [1, 3]);
+
+    const undone = await journal.undo();
+    assert.equal(undone?.label, "Delete task 2");
+    assert.deepEqual(await taskIds(), [1, 2, 3]);
+
+    await journal.redo();
+    assert.deepEqual(await taskIds(), [1, 3]);
+  });
+
+  // Sets the status of the first task after a delay, like a slow CLI command
+  const cliSetStatus = (delay: number) =>
+    runner.run({
+      executable: process.execPath,
+      args: [
+        "-e",
+        `setTimeout(() => {
+          const fs = require("fs");
+          const data = JSON.parse(fs.readFileSync(process.argv[1], "utf8"));
+          data.master.tasks[0].status = "done";
+          fs.writeFileSync(process.argv[1], JSON.stringify(data));
+        }, ${delay})`,
+        repository.getTasksFilePath(),
+      ],
+      cwd: tempDir,
+      kind: "mutate",
+    });
+
+  it("records changes made by CLI jobs", async () => {
+    await journal.record("CLI set-status", "master", () => cliSetStatus(0));
+
+    await journal.undo();
+    const [first] = await repository.getTasks("master");
+    assert.equal(first.status, "pending");
+  });
+
+  it("records operations running at the same time separately", async () => {
+    await Promise.all([
+      journal.record("CLI set-status", "master", () => cliSetStatus(200)),
+      journal.record("Set status of 2", "master", () =>
+        repository.setStatus("master", 2, "done")
+      ),
+    ]);
+
+    const entries = journal.getHistory();
+    assert.deepEqual(
+      entries.map((entry) => entry.label).sort(),
+      ["CLI set-status", "Set status of 2"]
+    );
+    // The in-process write waited for the CLI job instead of being lost
+    const statuses = (entry: (typeof entries)[number]) =>
+      entry.changes[0].after!.tasks.map((t) => t.status);
+    const cli = entries.find((entry) => entry.label === "CLI set-status")!;
+    const status = entries.find((entry) => entry.label !== cli.label)!;
+    assert.deepEqual(statuses(cli), ["done", "pending", "pending"]);
+    assert.deepEqual(statuses(status), ["done", "done", "pending"]);
+  });
+
+  it("ignores operations that change nothing", async () => {
+    await journal.record("Cancelled", "master", async () => undefined);
+    assert.equal(journal.canUndo(), false);
+  });
+
+  it("undoes several steps back to a selected change", async () => {
+    await journal.record("Delete 1", "master", () =>
+      repository.removeTask("master", 1)
+    );
+    const [target] = journal.getHistory();
+    await journal.record("Delete 2", "master", () =>
+      repository.removeTask("master", 2)
+    );
+    await journal.record("Delete 3", "master", () =>
+      repository.removeTask("master", 3)
+    );
+
+    const undone = await journal.undoTo(target.id);
+    assert.deepEqual(
+      undone.map((entry) => entry.label),
+      ["Delete 3", "Delete 2", "Delete 1"]
+    );
+    assert.deepEqual(await taskIds(), [1, 2, 3]);
+    assert.equal(journal.canRedo(), true);
+  });
+
+  it("refuses to overwrite later changes unless forced", async () => {
+    await journal.record("Delete 3", "master", () =>
+      repository.removeTask("master", 3)
+    );
+    await repository.setStatus("master", 1, "done");
+
+    await assert.rejects(journal.undo(), JournalConflictError);
+    await journal.undo(true);
+    assert.deepEqual(await taskIds(), [1, 2, 3]);
+  });
+
+  it("undoes a change spanning several tags at once", async () => {
+    const file = JSON.parse(
+      fs.readFileSync(repository.getTasksFilePath(), "utf8")
+    );
+    file.feature = { tasks: [makeTask(1)], metadata: {} };
+    fs.writeFileSync(repository.getTasksFilePath(), JSON.stringify(file));
+
+    await journal.record("Move 3", ["master", "feature"], () =>
+      repository.transferTasks("master", "feature", [3], "move")
+    );
+    assert.deepEqual(journal.getHistory()[0].changes.length, 2);
+
+    await journal.undo();
+    assert.deepEqual(await taskIds(), [1, 2, 3]);
+    assert.deepEqual(
+      (await repository.getTasks("feature")).map((t) => t.id),
+      [1]
+    );
+  });
+
+  it("undoes tag creation and description changes", async () => {
+    await journal.record("Create tag feature", ["master", "feature"], () =>
+      repository.replaceTag("feature", {
+        tasks: [],
+        metadata: { description: "Feature work" },
+      })
+    );
+    await journal.record("Describe tag master", "master", () =>
+      repository.mutate((data) => {
+        data.master.metadata = { description: "Main line" };
+      })
+    );
+
+    await journal.undo();
+    const { master } = await repository.read();
+    assert.equal(master.metadata?.description, undefined);
+    await journal.undo();
+    assert.deepEqual(await repository.getTagNames(), ["master"]);
+  });
+
+  it("folds nested operations into the outer change", async () => {
+    await journal.record("Outer", "master", async () => {
+      await repository.removeTask("master", 1);
+      await journal.record("Inner", "master", () =>
+        repository.removeTask("master", 2)
+      );
+    });
+    assert.deepEqual(
+      journal.getHistory().map((entry) => entry.label),
+      ["Outer"]
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { strict as assert } from "assert";
+import { applyStatusVisibility } from "../utils/statusVisibility";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for hiding tasks and subtasks by status
+ */
+describe("statusVisibility", () => {
+  const tasks = [
+    makeTask(1, {
+      status: "done",
+      subtasks: [
+        makeSubtask(1, 1, { status: "done" }),
+        makeSubtask(1, 2, { status: "done" }),
+      ],
+    }),
+    makeTask(2, {
+      subtasks: [makeSubtask(2, 1, { status: "done" }), makeSubtask(2, 2)],
+    }),
+    makeTask(3, {
+      status: "done",
+      subtasks: [
+        makeSubtask(3, 1, { status: "done" }),
+        makeSubtask(3, 2, { status: "in-progress" }),
+      ],
+    }),
+    makeTask(4, { status: "cancelled" }),
+  ];
+
+  it("hides tasks and subtasks of hidden statuses", () => {
+    const result = applyStatusVisibility(tasks, ["done", "cancelled"]);
+
+    assert.deepEqual(
+      result.tasks.map((t) => [t.id, t.subtasks!.map((s) => s.id)]),
+      [
+        [2, [2]],
+        // Kept for its in-progress subtask
+        [3, [2]],
+      ]
+    );
+    assert.equal(result.hiddenTasks, 2);
+    assert.equal(result.hiddenSubtasks, 4);
+  });
+
+  it("leaves tasks untouched when nothing is hidden", () => {
+    const result = applyStatusVisibility(tasks, []);
+    assert.equal(result.tasks, tasks);
+    assert.equal(result.hiddenTasks + result.hiddenSubtasks, 0);
+  });
+});
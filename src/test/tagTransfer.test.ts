@@ -0,0 +1,96 @@
+import { strict as assert } from "assert";
+import { Task } from "../types";
+import { planTagTransfer } from "../utils/tagTransfer";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for planning task transfers between tags
+ */
+describe("tagTransfer", () => {
+  const sourceTasks = (): Task[] => [
+    makeTask(1),
+    makeTask(2, {
+      dependencies: [1],
+      subtasks: [
+        makeSubtask(2, 1),
+        makeSubtask(2, 2, { dependencies: [1, 3] }),
+      ],
+    }),
+    makeTask(3, { dependencies: [2] }),
+    makeTask(4, { dependencies: ["2.2"] }),
+  ];
+
+  it("renumbers after the destination's highest ID in source order", () => {
+    const plan = planTagTransfer(
+      sourceTasks(),
+      [makeTask(1), makeTask(7)],
+      [3, 2],
+      "copy"
+    );
+
+    assert.deepEqual(
+      plan.renumbered.map(({ from, to }) => [from, to]),
+      [
+        [2, 8],
+        [3, 9],
+      ]
+    );
+    assert.deepEqual(
+      plan.tasks[0].subtasks!.map((subtask) => subtask.parentId),
+      [8, 8]
+    );
+    assert.deepEqual(plan.detached, []);
+  });
+
+  it("rewrites references between transferred tasks", () => {
+    const plan = planTagTransfer(
+      sourceTasks(),
+      [makeTask(1), makeTask(2)],
+      [2, 3],
+      "copy"
+    );
+    const [moved2, moved3] = plan.tasks;
+
+    assert.deepEqual(moved3.dependencies, [3]);
+    // Sibling references stay subtask numbers, task references follow
+    assert.deepEqual(moved2.subtasks![1].dependencies, [1, 4]);
+    assert.deepEqual(plan.rewritten, [
+      { taskId: "2.2", dependency: "3", to: "4" },
+      { taskId: "3", dependency: "2", to: "3" },
+    ]);
+  });
+
+  it("rejects task references that would read as a sibling", () => {
+    // Task 3 becomes task 2, which subtask 1.2 would read as itself
+    assert.throws(
+      () => planTagTransfer(sourceTasks(), [], [2, 3], "copy"),
+      /reads as its sibling 1\.2/
+    );
+  });
+
+  it("drops references to tasks left behind and reports detached ones", () => {
+    const plan = planTagTransfer(sourceTasks(), [], [2], "move");
+
+    assert.deepEqual(plan.tasks[0].dependencies, []);
+    assert.deepEqual(plan.tasks[0].subtasks![1].dependencies, [1]);
+    assert.deepEqual(plan.dropped, [
+      { taskId: "2", dependency: "1" },
+      { taskId: "2.2", dependency: "3" },
+    ]);
+    assert.deepEqual(plan.detached, [
+      { taskId: "3", dependency: "2" },
+      { taskId: "4", dependency: "2.2" },
+    ]);
+  });
+
+  it("rejects subtasks and unknown tasks", () => {
+    assert.throws(
+      () => planTagTransfer(sourceTasks(), [], ["2.1"], "move"),
+      /Only top-level tasks/
+    );
+    assert.throws(
+      () => planTagTransfer(sourceTasks(), [], [9], "copy"),
+      /Task 9 not found/
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { strict as assert } from "assert";
+import { planTaskDrop } from "../utils/taskDrop";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for drag-and-drop planning in the task tree
+ */
+describe("taskDrop", () => {
+  const tasks = [
+    makeTask(1),
+    makeTask(2, {
+      subtasks: [makeSubtask(2, 1), makeSubtask(2, 2), makeSubtask(2, 3)],
+    }),
+    makeTask(3, { subtasks: [makeSubtask(3, 1)] }),
+  ];
+
+  it("offers a dependency or a conversion for tasks on a task", () => {
+    const options = planTaskDrop(tasks, ["1"], "3");
+    assert.deepEqual(
+      options.map((option) => option.action),
+      [
+        { kind: "dependency", ids: ["1"], dependsOn: "3" },
+        { kind: "move", moves: [{ from: "1", to: "3.2" }] },
+      ]
+    );
+  });
+
+  it("moves subtasks onto another parent without asking", () => {
+    const options = planTaskDrop(tasks, ["2.1", "2.3"], "3");
+    assert.equal(options.length, 1);
+    assert.deepEqual(options[0].action, {
+      kind: "move",
+      moves: [
+        { from: "2.1", to: "3.2" },
+        { from: "2.3", to: "3.3" },
+      ],
+    });
+    assert.deepEqual(planTaskDrop(tasks, ["2.1"], "2"), []);
+  });
+
+  it("reorders a subtask dropped onto a sibling", () => {
+    const [option] = planTaskDrop(tasks, ["2.3"], "2.1");
+    assert.equal(option.label, "Move 2.3 to position 1");
+    assert.deepEqual(option.action, {
+      kind: "move",
+      moves: [{ from: "2.3", to: "2.1" }],
+    });
+    assert.deepEqual(planTaskDrop(tasks, ["2.3", "2.2"], "2.1"), []);
+  });
+
+  it("promotes subtasks dropped onto the root", () => {
+    const [option] = planTaskDrop(tasks, ["3.1", "2.2"], undefined);
+    assert.deepEqual(option.action, {
+      kind: "move",
+      moves: [
+        { from: "3.1", to: "4" },
+        { from: "2.2", to: "5" },
+      ],
+    });
+    assert.deepEqual(planTaskDrop(tasks, ["1"], undefined), []);
+  });
+
+  it("ignores drops onto the dragged task or its own subtasks", () => {
+    assert.deepEqual(planTaskDrop(tasks, ["2"], "2"), []);
+    assert.deepEqual(planTaskDrop(tasks, ["2"], "2.1"), []);
+  });
+});
@@ -0,0 +1,65 @@
+import { strict as assert } from "assert";
+import { Task } from "../types";
+import { formatTaskExport, selectTasksForExport } from "../utils/taskExport";
+
+/**
+ * Unit tests for the export of selected tasks
+ */
+describe("taskExport", () => {
+  const tasks: Task[] = [
+    {
+      id: 1,
+      title: "Setup",
+      description: "Set up the project",
+      priority: "high",
+      status: "done",
+      dependencies: [],
+    },
+    {
+      id: 2,
+      title: "Build feature",
+      description: "Build the feature",
+      details: "Use the new API",
+      priority: "medium",
+      status: "pending",
+      dependencies: [1],
+      subtasks: [
+        { id: 1, title: "Design", status: "done", parentId: 2 },
+        { id: 2, title: "Implement", status: "pending", parentId: 2 },
+      ],
+    },
+  ];
+
+  it("keeps whole tasks and narrows tasks selected by subtask", () => {
+    const selected = selectTasksForExport(tasks, ["2.2", 1]);
+    assert.deepEqual(
+      selected.map((task) => task.id),
+      [1, 2]
+    );
+    assert.deepEqual(
+      selected[1].subtasks!.map((subtask) => subtask.id),
+      [2]
+    );
+    assert.equal(tasks[1].subtasks!.length, 2);
+
+    const [whole] = selectTasksForExport(tasks, [2, "2.2"]);
+    assert.equal(whole.subtasks!.length, 2);
+    assert.throws(() => selectTasksForExport(tasks, ["x"]), /Invalid task ID/);
+  });
+
+  it("renders Markdown with fields and subtask checkboxes", () => {
+    const markdown = formatTaskExport([tasks[1]], "markdown", "master");
+    assert.match(markdown, /^# Tasks \(master\)\n/);
+    assert.match(markdown, /## 2\. Build feature\n/);
+    assert.match(markdown, /- Dependencies: 1\n/);
+    assert.match(markdown, /### Details\n\nUse the new API\n/);
+    assert.match(markdown, /- \[x\] 2\.1 Design \(done\)/);
+    assert.match(markdown, /- \[ \] 2\.2 Implement \(pending\)/);
+  });
+
+  it("renders JSON with the tag", () => {
+    const exported = JSON.parse(formatTaskExport(tasks, "json", "feature"));
+    assert.equal(exported.tag, "feature");
+    assert.deepEqual(exported.tasks, tasks);
+  });
+});
@@ -0,0 +1,75 @@
+import { strict as assert } from "assert";
+import { Task } from "../types";
+import {
+  groupTasks,
+  isBlockedByDependencies,
+  sortTasks,
+} from "../utils/taskGrouping";
+import { makeSubtask, makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for grouping and sorting the task tree
+ */
+describe("taskGrouping", () => {
+  const tasks: Task[] = [
+    makeTask(1, { status: "done", priority: "low", complexityScore: 3 }),
+    makeTask(2, { priority: "high", complexityScore: 9, dependencies: [1] }),
+    makeTask(3, {
+      status: "in-progress",
+      complexityScore: 5,
+      dependencies: [2],
+      subtasks: [makeSubtask(3, 1, { status: "done" })],
+    }),
+    makeTask(4, { priority: "high", dependencies: ["3.1"] }),
+    makeTask(5, { dependencies: [4] }),
+  ];
+
+  const ids = (list: Task[]) => list.map((t) => Number(t.id));
+  const summary = (mode: Parameters<typeof groupTasks>[1]) =>
+    groupTasks(tasks, mode).map((group) => [group.key, ids(group.tasks)]);
+
+  it("groups by status and priority in a fixed order", () => {
+    assert.deepEqual(summary("status"), [
+      ["in-progress", [3]],
+      ["pending", [2, 4, 5]],
+      ["done", [1]],
+    ]);
+    assert.deepEqual(summary("priority"), [
+      ["high", [2, 4]],
+      ["medium", [3, 5]],
+      ["low", [1]],
+    ]);
+  });
+
+  it("groups by complexity band", () => {
+    assert.deepEqual(summary("complexity"), [
+      ["high", [2]],
+      ["medium", [3]],
+      ["low", [1]],
+      ["unanalyzed", [4, 5]],
+    ]);
+  });
+
+  it("separates ready tasks from those blocked by dependencies", () => {
+    assert.deepEqual(summary("readiness"), [
+      ["ready", [2, 4]],
+      ["blocked", [3, 5]],
+      ["finished", [1]],
+    ]);
+    const unknownDependency = makeTask(6, { dependencies: [99] });
+    assert.equal(isBlockedByDependencies(unknownDependency, tasks), false);
+  });
+
+  it("sorts by priority, complexity and dependency depth", () => {
+    assert.deepEqual(ids(sortTasks(tasks, "priority")), [2, 4, 3, 5, 1]);
+    assert.deepEqual(ids(sortTasks(tasks, "complexity")), [2, 3, 1, 4, 5]);
+    assert.deepEqual(ids(sortTasks([...tasks].reverse(), "id")), [
+      1, 2, 3, 4, 5,
+    ]);
+    // Depth is measured over the whole tag even for a subset
+    assert.deepEqual(
+      ids(sortTasks([tasks[4], tasks[0], tasks[2]], "depth", tasks)),
+      [1, 3, 5]
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { strict as assert } from "assert";
+import {
+  compileTaskReferencePattern,
+  DEFAULT_TASK_REFERENCE_PATTERN,
+  findCommentRanges,
+  findTaskReferences,
+  getCommentSyntax,
+  taskReferenceSearchPattern,
+} from "../utils/taskReferences";
+
+/**
+ * Unit tests for task references in source code
+ */
+describe("taskReferences", () => {
+  it("finds references with the default pattern", () => {
+    const pattern = compileTaskReferencePattern(
+      DEFAULT_TASK_REFERENCE_PATTERN
+    )!;
+    const text = "// TM-42: see task 42.3.\n/* Task #7 */ ATM-1 tasks 9";
+
+    assert.deepEqual(findTaskReferences(text, pattern), [
+      { id: "42", index: 3, length: 5 },
+      { id: "42.3", index: 14, length: 9 },
+      { id: "7", index: 28, length: 7 },
+    ]);
+  });
+
+  it("rejects invalid patterns and patterns without a group", () => {
+    assert.equal(compileTaskReferencePattern("("), undefined);
+    assert.equal(compileTaskReferencePattern("TM-\\d+"), undefined);
+    assert.ok(compileTaskReferencePattern("JIRA-(\\d+)"));
+  });
+
+  it("skips matches whose group is not an ID", () => {
+    const pattern = compileTaskReferencePattern("@(\\w+)")!;
+    assert.deepEqual(findTaskReferences("// @12 @abc", pattern), [
+      { id: "12", index: 3, length: 3 },
+    ]);
+  });
+
+  it("only finds references in comments", () => {
+    const pattern = compileTaskReferencePattern(
+      DEFAULT_TASK_REFERENCE_PATTERN
+    )!;
+    const text = [
+      'const label = "Task 3";',
+      "/*",
+      " * Task 4",
+      " */ run(TM-5); // TM-6",
+      "<!-- TM-7 --> TM-8",
+    ].join("\n");
+
+    assert.deepEqual(
+      findTaskReferences(text, pattern).map((reference) => reference.id),
+      ["4", "6", "7"]
+    );
+  });
+
+  it("uses the comment syntax of the language", () => {
+    const ids = (text: string, languageId?: string) =>
+      findTaskReferences(
+        text,
+        compileTaskReferencePattern(DEFAULT_TASK_REFERENCE_PATTERN)!,
+        languageId
+      ).map((reference) => reference.id);
+
+    assert.deepEqual(ids("x = a--b; // TM-1 TM-2", "typescript"), ["1", "2"]);
+    assert.deepEqual(ids("x = a--b TM-1", "typescript"), []);
+    assert.deepEqual(ids("SELECT 1 -- TM-1", "sql"), ["1"]);
+    assert.deepEqual(ids("# TM-1\n// TM-2", "python"), ["1"]);
+    assert.deepEqual(ids("#include <a.h> // TM-2", "cpp"), ["2"]);
+    assert.deepEqual(ids("--[[ TM-1\nTM-2 ]] TM-3", "lua"), ["1", "2"]);
+    // Languages without an entry get the common comment styles
+    assert.deepEqual(ids("a # TM-1\nb // TM-2", "unknown"), ["1", "2"]);
+  });
+
+  it("ignores comment delimiters inside strings", () => {
+    const ids = (text: string, languageId: string) =>
+      findTaskReferences(
+        text,
+        compileTaskReferencePattern(DEFAULT_TASK_REFERENCE_PATTERN)!,
+        languageId
+      ).map((reference) => reference.id);
+
+    assert.deepEqual(ids('tag = "#" + "TM-1"  # TM-2', "python"), ["2"]);
+    assert.deepEqual(
+      ids('const glob = "src/**/*.ts";\nrun(TM-1); // TM-2', "typescript"),
+      ["2"]
+    );
+    assert.deepEqual(ids("s = 'a \\' // TM-1' // TM-2", "javascript"), ["2"]);
+    assert.deepEqual(
+      ids('"""Docs # TM-1\n"""\nx = 1  # TM-2', "python"),
+      ["2"]
+    );
+    // An unclosed quote ends with its line
+    assert.deepEqual(ids('x = "open\n// TM-1', "javascript"), ["1"]);
+    // Quotes inside comments don't start strings
+    assert.deepEqual(ids("// don't\n// TM-1", "javascript"), ["1"]);
+  });
+
+  it("finds comment ranges", () => {
+    const text = 'a /* b */ "/*" // c\nd';
+    assert.deepEqual(findCommentRanges(text, getCommentSyntax("c")), [
+      [2, 9],
+      [15, 19],
+    ]);
+  });
+
+  it("builds a search for one task from the pattern", () => {
+    assert.equal(
+      taskReferenceSearchPattern(DEFAULT_TASK_REFERENCE_PATTERN, "42.3"),
+      "\\b(?:TM-|[Tt]ask\\s+#?)42\\.3\\b"
+    );
+    assert.equal(taskReferenceSearchPattern("[(]x(?<id>\\d+)", "5"), "[(]x5");
+    assert.equal(taskReferenceSearchPattern("(?:TM-)\\d+", "5"), undefined);
+  });
+});
@@ -0,0 +1,124 @@
+import { strict as assert } from "assert";
+import { Task } from "../types";
+import { fuzzyMatch, parseSearchQuery, searchTasks } from "../utils/taskSearch";
+
+/**
+ * Unit tests for the task search query syntax and matching
+ */
+describe("taskSearch", () => {
+  const tasks: Task[] = [
+    {
+      id: 1,
+      title: "Set up authentication",
+      description: "Login with OAuth",
+      priority: "high",
+      status: "done",
+      dependencies: [],
+      complexityScore: 8,
+      subtasks: [],
+    },
+    {
+      id: 2,
+      title: "Build dashboard",
+      description: "Charts for the admin",
+      details: "Use the charting library",
+      priority: "medium",
+      status: "pending",
+      dependencies: [1],
+      complexityScore: 5,
+      subtasks: [
+        { id: 1, title: "Design widgets", status: "pending", parentId: 2 },
+        {
+          id: 2,
+          title: "Wire API",
+          details: "Needs the auth token",
+          status: "in-progress",
+          dependencies: [1],
+          parentId: 2,
+        },
+      ],
+    },
+  ];
+
+  const search = (query: string) =>
+    searchTasks(tasks, parseSearchQuery(query));
+
+  it("parses qualifiers, phrases and text terms", () => {
+    const query = parseSearchQuery(
+      'Login "admin charts" status:pending,review dep:12 complexity:>=7 tag:x other:y'
+    );
+    assert.deepEqual(query.terms, ["login", "admin charts", "other:y"]);
+    assert.deepEqual(query.statuses, ["pending", "review"]);
+    assert.deepEqual(query.dependencies, ["12"]);
+    assert.deepEqual(query.complexity, [{ operator: ">=", value: 7 }]);
+    assert.equal(query.tag, "x");
+    assert.deepEqual(parseSearchQuery("complexity:high").errors, [
+      "Invalid complexity: high",
+    ]);
+    assert.deepEqual(parseSearchQuery("tag:x,y").errors, [
+      "Only one tag can be searched at a time",
+    ]);
+  });
+
+  it("fuzzy-matches substrings and word subsequences", () => {
+    assert.deepEqual(fuzzyMatch("board", "Build dashboard"), [[10, 15]]);
+    assert.deepEqual(fuzzyMatch("athn", "Set up authentication"), [
+      [7, 8],
+      [9, 11],
+      [12, 13],
+    ]);
+    assert.equal(fuzzyMatch("xyz", "Build dashboard"), undefined);
+    // Subsequences do not span words
+    assert.equal(fuzzyMatch("bdash", "Build dashboard"), undefined);
+  });
+
+  it("matches text in details and subtasks", () => {
+    assert.deepEqual(
+      search("charting").map((match) => match.taskId),
+      [2]
+    );
+
+    const [match] = search("wire");
+    assert.equal(match.taskId, 2);
+    assert.deepEqual([...match.subtasks.entries()], [[2, [[0, 4]]]]);
+    assert.deepEqual(match.titleHighlights, []);
+
+    // Every term must be found, possibly in different places
+    assert.deepEqual(
+      search("auth token dashboard").map((m) => m.taskId),
+      [2]
+    );
+  });
+
+  it("filters by status, priority, dependency and complexity", () => {
+    const ids = (query: string) => search(query).map((match) => match.taskId);
+
+    assert.deepEqual(ids("status:done"), [1]);
+    assert.deepEqual(ids("priority:medium,high"), [1, 2]);
+    assert.deepEqual(ids("dep:1"), [2]);
+    assert.deepEqual(ids("complexity:>7"), [1]);
+    assert.deepEqual(ids("complexity:<=5 build"), [2]);
+    // The tag picks the tasks searched, it doesn't filter them
+    assert.deepEqual(ids("tag:feature-x"), [1, 2]);
+  });
+
+  it("applies qualifiers to subtasks on their own", () => {
+    const subtaskIds = (query: string) =>
+      search(query).map((match) => [match.taskId, [...match.subtasks.keys()]]);
+
+    // Task 2 is pending itself, subtask 2.2 matches through its status
+    assert.deepEqual(subtaskIds("status:in-progress"), [[2, [2]]]);
+    assert.deepEqual(subtaskIds("status:in-progress wire"), [[2, [2]]]);
+    assert.deepEqual(subtaskIds("status:in-progress design"), []);
+    // Subtask dependencies on siblings resolve to full IDs
+    assert.deepEqual(subtaskIds("dep:2.1"), [[2, [2]]]);
+    // Subtasks use the priority and complexity of their parent
+    assert.deepEqual(subtaskIds("priority:medium status:in-progress"), [
+      [2, [2]],
+    ]);
+    assert.deepEqual(subtaskIds("complexity:5 status:in-progress"), [
+      [2, [2]],
+    ]);
+    assert.deepEqual(subtaskIds("priority:high status:in-progress"), []);
+  });
+});
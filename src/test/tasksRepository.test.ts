@@ -0,0 +1,398 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TasksRepository } from "../services/tasksRepository";
+import { TaggedTasksFile } from "../types";
+
+/**
+ * Unit tests for TasksRepository
+ * Each test runs against a fresh tasks.json in a temporary directory
+ */
+describe("TasksRepository", () => {
+  let tempDir: string;
+  let repository: TasksRepository;
+
+  const sampleFile = (): TaggedTasksFile => ({
+    master: {
+      tasks: [
+        {
+          id: 1,
+          title: "Setup",
+          description: "Set up the project",
+          priority: "high",
+          status: "done",
+          dependencies: [],
+          subtasks: [],
+        },
+        {
+          id: 2,
+          title: "Build feature",
+          description: "Build the feature",
+          priority: "medium",
+          status: "pending",
+          dependencies: [1],
+          subtasks: [
+            { id: 1, title: "Design", status: "pending", parentId: 2 },
+            {
+              id: 2,
+              title: "Implement",
+              status: "pending",
+              dependencies: [1],
+              parentId: 2,
+            },
+          ],
+        },
+        {
+          id: 3,
+          title: "Release",
+          description: "Ship it",
+          priority: "low",
+          status: "pending",
+          dependencies: [2, "2.2" as any],
+          subtasks: [],
+        },
+      ],
+      metadata: { created: "2025-01-01T00:00:00.000Z" },
+    },
+  });
+
+  const readFile = (): TaggedTasksFile =>
+    JSON.parse(fs.readFileSync(repository.getTasksFilePath(), "utf8"));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "taskmaster-repo-"));
+    repository = new TasksRepository(path.join(tempDir, ".taskmaster"));
+    fs.mkdirSync(path.dirname(repository.getTasksFilePath()), {
+      recursive: true,
+    });
+    fs.writeFileSync(
+      repository.getTasksFilePath(),
+      JSON.stringify(sampleFile(), null, 2)
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("marks subtasks done when their parent is marked done", async () => {
+    await repository.setStatus("master", 2, "done");
+    const task = readFile().master.tasks[1];
+    assert.equal(task.status, "done");
+    assert.deepEqual(
+      task.subtasks!.map((subtask) => subtask.status),
+      ["done", "done"]
+    );
+    assert.ok(readFile().master.metadata!.updated);
+  });
+
+  it("sets the status of a single subtask", async () => {
+    await repository.setStatus("master", "2.1", "in-progress");
+    const task = readFile().master.tasks[1];
+    assert.equal(task.status, "pending");
+    assert.equal(task.subtasks![0].status, "in-progress");
+  });
+
+  it("rejects unknown statuses and IDs", async () => {
+    await assert.rejects(repository.setStatus("master", 2, "nope" as any));
+    await assert.rejects(repository.setStatus("master", 99, "done"));
+    await assert.rejects(repository.setStatus("master", "abc", "done"));
+  });
+
+  it("adds dependencies and refuses cycles", async () => {
+    assert.equal(await repository.addDependency("master", 3, 1), true);
+    assert.equal(await repository.addDependency("master", 3, 1), false);
+    assert.deepEqual(readFile().master.tasks[2].dependencies, [2, "2.2", 1]);
+
+    await assert.rejects(
+      repository.addDependency("master", 1, 3),
+      /circular dependency/
+    );
+  });
+
+  it("stores sibling subtask dependencies as subtask numbers", async () => {
+    await repository.removeDependency("master", "2.2", "2.1");
+    assert.deepEqual(readFile().master.tasks[1].subtasks![1].dependencies, []);
+
+    await repository.addDependency("master", "2.2", "2.1");
+    assert.deepEqual(readFile().master.tasks[1].subtasks![1].dependencies, [1]);
+  });
+
+  it("drops references to a removed subtask", async () => {
+    await repository.removeSubtask("master", "2.2");
+    const tasks = readFile().master.tasks;
+    assert.equal(tasks[1].subtasks!.length, 1);
+    assert.deepEqual(tasks[2].dependencies, [2]);
+  });
+
+  it("drops references to a removed task", async () => {
+    await repository.removeTask("master", 1);
+    const tasks = readFile().master.tasks;
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      [2, 3]
+    );
+    assert.deepEqual(tasks[0].dependencies, []);
+  });
+
+  it("renumbers references when a task moves to a new ID", async () => {
+    await repository.moveTask("master", 2, 10);
+    const tasks = readFile().master.tasks;
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      [1, 3, 10]
+    );
+    assert.deepEqual(tasks[1].dependencies, [10, "10.2"]);
+    assert.deepEqual(tasks[2].subtasks![1].dependencies, [1]);
+  });
+
+  it("promotes a subtask to a standalone task", async () => {
+    await repository.moveTask("master", "2.2", 4);
+    const tasks = readFile().master.tasks;
+    const promoted = tasks.find((task) => task.id === 4)!;
+    assert.equal(promoted.title, "Implement");
+    assert.equal(promoted.priority, "medium");
+    assert.deepEqual(promoted.dependencies, ["2.1"]);
+    assert.deepEqual(tasks[2].dependencies, [2, 4]);
+  });
+
+  it("inserts a subtask at a taken position and renumbers", async () => {
+    await repository.moveTask("master", 3, "2.1");
+    const parent = readFile().master.tasks.find((task) => task.id === 2)!;
+    assert.deepEqual(
+      parent.subtasks!.map((subtask) => [subtask.id, subtask.title]),
+      [
+        [1, "Release"],
+        [2, "Design"],
+        [3, "Implement"],
+      ]
+    );
+    // "Release" depended on its new parent and on "Implement" (now 2.3)
+    assert.deepEqual(parent.subtasks![0].dependencies, [3]);
+    assert.deepEqual(parent.subtasks![2].dependencies, [2]);
+  });
+
+  it("adds tasks with the next free IDs", async () => {
+    const added = await repository.addTasks("master", [
+      { title: " Fix login ", filePath: "src/login.ts:12" },
+      { title: "Refactor", priority: "high" },
+    ]);
+    assert.deepEqual(
+      added.map((task) => task.id),
+      [4, 5]
+    );
+    const tasks = readFile().master.tasks;
+    assert.equal(tasks[3].title, "Fix login");
+    assert.equal(tasks[3].status, "pending");
+    assert.equal(tasks[3].filePath, "src/login.ts:12");
+    assert.equal(tasks[4].priority, "high");
+    assert.equal("filePath" in tasks[4], false);
+
+    await assert.rejects(
+      repository.addTasks("master", [{ title: " " }]),
+      /Title cannot be empty/
+    );
+  });
+
+  it("adds a subtask after the existing ones", async () => {
+    const subtask = await repository.addSubtask("master", 2, {
+      title: " Test ",
+      dependencies: ["2.2"],
+    });
+    assert.equal(subtask.id, 3);
+    const added = readFile().master.tasks[1].subtasks![2];
+    assert.equal(added.title, "Test");
+    assert.equal(added.status, "pending");
+    assert.equal(added.parentId, 2);
+    assert.deepEqual(added.dependencies, [2]);
+
+    await assert.rejects(
+      repository.addSubtask("master", 2, { title: "X", dependencies: [2] }),
+      /its parent task/
+    );
+    await assert.rejects(
+      repository.addSubtask("master", 2, { title: "X", dependencies: [42] })
+    );
+  });
+
+  it("promotes and demotes with renumbered references", async () => {
+    assert.equal(await repository.promoteSubtask("master", "2.1"), 4);
+    let tasks = readFile().master.tasks;
+    assert.deepEqual(tasks[3].title, "Design");
+    // "Implement" depended on its sibling, now task 4
+    assert.deepEqual(tasks[1].subtasks![0].dependencies, [4]);
+
+    assert.equal(await repository.demoteTask("master", 4, 3), "3.1");
+    tasks = readFile().master.tasks;
+    assert.equal(tasks.length, 3);
+    assert.equal(tasks[2].subtasks![0].parentId, 3);
+    assert.deepEqual(tasks[1].subtasks![0].dependencies, ["3.1"]);
+
+    await assert.rejects(repository.demoteTask("master", 2, 1), /has subtasks/);
+    await assert.rejects(repository.promoteSubtask("master", 2));
+  });
+
+  it("refuses task references a subtask would read as a sibling", async () => {
+    await assert.rejects(
+      repository.addDependency("master", "2.2", 1),
+      /sibling 2\.1/
+    );
+
+    await repository.addSubtask("master", 1, {
+      title: "Prepare",
+      dependencies: [3],
+    });
+    assert.deepEqual(readFile().master.tasks[0].subtasks![0].dependencies, [3]);
+    // Subtask 1.3 would turn the reference to task 3 into one to itself
+    await assert.rejects(
+      repository.moveTask("master", "2.2", "1.3"),
+      /sibling 1\.3/
+    );
+    assert.equal(readFile().master.tasks[1].subtasks!.length, 2);
+  });
+
+  it("applies several moves in one write", async () => {
+    await repository.moveTasks("master", [
+      { from: "2.2", to: "3.1" },
+      { from: 1, to: "3.2" },
+    ]);
+    const tasks = readFile().master.tasks;
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      [2, 3]
+    );
+    assert.deepEqual(
+      tasks[1].subtasks!.map((subtask) => subtask.title),
+      ["Implement", "Setup"]
+    );
+    assert.deepEqual(tasks[1].dependencies, [2, "3.1"]);
+
+    await assert.rejects(
+      repository.moveTasks("master", [
+        { from: "3.1", to: "2.2" },
+        { from: 2, to: 3 },
+      ]),
+      /already exists/
+    );
+    assert.equal(readFile().master.tasks[1].subtasks!.length, 2);
+  });
+
+  it("refuses to move a task onto an existing task ID", async () => {
+    await assert.rejects(repository.moveTask("master", 2, 3), /already exists/);
+  });
+
+  it("moves tasks to another tag and detaches dependents", async () => {
+    const file = sampleFile();
+    file.feature = { tasks: [], metadata: {} };
+    fs.writeFileSync(repository.getTasksFilePath(), JSON.stringify(file));
+
+    await repository.transferTasks("master", "feature", [2], "move");
+    const data = readFile();
+    assert.deepEqual(
+      data.master.tasks.map((task) => [task.id, task.dependencies]),
+      [
+        [1, []],
+        [3, []],
+      ]
+    );
+    assert.equal(data.feature.tasks[0].id, 1);
+    assert.deepEqual(data.feature.tasks[0].dependencies, []);
+    assert.deepEqual(data.feature.tasks[0].subtasks![1].dependencies, [1]);
+  });
+
+  it("updates editable fields of tasks and subtasks", async () => {
+    await repository.updateTask("master", 2, {
+      title: "Build the feature",
+      testStrategy: "Unit tests",
+      priority: "high",
+    });
+    await repository.updateTask("master", "2.1", { status: "done" });
+    const task = readFile().master.tasks[1];
+    assert.equal(task.title, "Build the feature");
+    assert.equal(task.testStrategy, "Unit tests");
+    assert.equal(task.priority, "high");
+    assert.equal(task.subtasks![0].status, "done");
+
+    await assert.rejects(repository.updateTask("master", 2, { title: " " }));
+    await assert.rejects(
+      repository.updateTask("master", 2, { priority: "urgent" as any })
+    );
+  });
+
+  it("updates several tasks and subtasks in one write", async () => {
+    await repository.updateTasks("master", [3, "2.1"], { status: "review" });
+    const tasks = readFile().master.tasks;
+    assert.equal(tasks[2].status, "review");
+    assert.equal(tasks[1].subtasks![0].status, "review");
+    assert.equal(tasks[1].subtasks![1].status, "pending");
+
+    await assert.rejects(
+      repository.updateTasks("master", [3, 42], { status: "done" })
+    );
+    assert.equal(readFile().master.tasks[2].status, "review");
+  });
+
+  it("adds a common dependency to several tasks at once", async () => {
+    assert.deepEqual(
+      await repository.addDependencyToTasks("master", [2, 3], 1),
+      ["3"]
+    );
+    assert.deepEqual(readFile().master.tasks[2].dependencies, [2, "2.2", 1]);
+
+    await assert.rejects(
+      repository.addDependencyToTasks("master", [1, "2.1"], 2),
+      /circular dependency/
+    );
+    const [design] = readFile().master.tasks[1].subtasks!;
+    assert.equal(design.dependencies, undefined);
+  });
+
+  it("removes several tasks and subtasks in one write", async () => {
+    await repository.removeTasks("master", ["2.1", 1, "3"]);
+    const tasks = readFile().master.tasks;
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      [2]
+    );
+    assert.deepEqual(tasks[0].dependencies, []);
+    assert.deepEqual(
+      tasks[0].subtasks!.map((subtask) => subtask.id),
+      [2]
+    );
+
+    // Subtasks of a removed task need no separate removal
+    await repository.removeTasks("master", [2, "2.2"]);
+    assert.deepEqual(readFile().master.tasks, []);
+  });
+
+  it("removes a task given twice only once", async () => {
+    await repository.removeTasks("master", [1, "1", "2.1", "2.1"]);
+    const tasks = readFile().master.tasks;
+    assert.deepEqual(
+      tasks.map((task) => task.id),
+      [2, 3]
+    );
+    assert.deepEqual(
+      tasks[0].subtasks!.map((subtask) => subtask.id),
+      [2]
+    );
+  });
+
+  it("replaces dependencies and refuses cycles", async () => {
+    await repository.setDependencies("master", 3, ["2.1", 1, "1"]);
+    assert.deepEqual(readFile().master.tasks[2].dependencies, ["2.1", 1]);
+
+    await assert.rejects(
+      repository.setDependencies("master", 1, [3]),
+      /circular dependency/
+    );
+    await assert.rejects(repository.setDependencies("master", 1, [42]));
+  });
+
+  it("leaves no temporary files behind", async () => {
+    await repository.setStatus("master", 3, "review");
+    const files = fs.readdirSync(path.dirname(repository.getTasksFilePath()));
+    assert.deepEqual(files, ["tasks.json"]);
+  });
+});
@@ -0,0 +1,164 @@
+import { strict as assert } from "assert";
+import { findNodeAtPath, parseJsonTree } from "../utils/jsonLocator";
+import {
+  JsonTextEdit,
+  TasksValidationIssue,
+  validateTasksFile,
+} from "../utils/tasksValidator";
+
+/**
+ * Unit tests for tasks.json validation and quick fixes
+ */
+describe("tasksValidator", () => {
+  const task = (overrides: Record<string, any> = {}) => ({
+    id: 1,
+    title: "Task",
+    description: "Description",
+    status: "pending",
+    priority: "medium",
+    dependencies: [],
+    subtasks: [],
+    ...overrides,
+  });
+
+  const fileText = (tasks: any[]) =>
+    JSON.stringify({ master: { tasks, metadata: {} } }, null, 2);
+
+  const applyEdits = (text: string, edits: JsonTextEdit[]) =>
+    [...edits]
+      .sort((a, b) => b.offset - a.offset)
+      .reduce(
+        (result, edit) =>
+          result.slice(0, edit.offset) +
+          edit.newText +
+          result.slice(edit.offset + edit.length),
+        text
+      );
+
+  const codes = (issues: TasksValidationIssue[]) =>
+    issues.map((issue) => issue.code);
+
+  it("accepts a well-formed file", () => {
+    const text = fileText([
+      task(),
+      task({
+        id: 2,
+        dependencies: [1, "3.1"],
+      }),
+      task({
+        id: 3,
+        subtasks: [
+          { id: 1, title: "First", status: "done" },
+          { id: 2, title: "Second", status: "pending", dependencies: [1] },
+        ],
+      }),
+    ]);
+    assert.deepEqual(validateTasksFile(text), []);
+  });
+
+  it("locates JSON syntax errors", () => {
+    const text = '{\n  "master": {\n    "tasks": [\n      { "id": 1, }\n';
+    const [issue] = validateTasksFile(text);
+    assert.equal(issue.code, "invalid-json");
+    assert.equal(text[issue.offset], "}");
+  });
+
+  it("reports duplicate IDs and offers a free ID", () => {
+    const text = fileText([task(), task({ id: 2 }), task()]);
+    const issues = validateTasksFile(text);
+    assert.deepEqual(codes(issues), ["duplicate-id"]);
+
+    const fixed = JSON.parse(applyEdits(text, issues[0].fix!.edits));
+    assert.deepEqual(
+      fixed.master.tasks.map((t: any) => t.id),
+      [1, 2, 3]
+    );
+  });
+
+  it("reports unknown statuses and maps common aliases", () => {
+    const text = fileText([task({ status: "completed" })]);
+    const issues = validateTasksFile(text);
+    assert.deepEqual(codes(issues), ["unknown-status"]);
+    assert.equal(text.substr(issues[0].offset, issues[0].length), '"completed"');
+
+    const fixed = JSON.parse(applyEdits(text, issues[0].fix!.edits));
+    assert.equal(fixed.master.tasks[0].status, "done");
+  });
+
+  it("reports dangling dependencies and removes them cleanly", () => {
+    const text = fileText([task(), task({ id: 2, dependencies: [1, 7, "1.4"] })]);
+    const issues = validateTasksFile(text);
+    assert.deepEqual(codes(issues), [
+      "dangling-dependency",
+      "dangling-dependency",
+    ]);
+
+    const fixed = JSON.parse(applyEdits(text, issues[1].fix!.edits));
+    assert.deepEqual(fixed.master.tasks[1].dependencies, [1, 7]);
+    const fixedAgain = JSON.parse(applyEdits(text, issues[0].fix!.edits));
+    assert.deepEqual(fixedAgain.master.tasks[1].dependencies, [1, "1.4"]);
+  });
+
+  it("flags dotted subtask IDs and missing fields", () => {
+    const text = fileText([
+      task({
+        subtasks: [
+          { id: "1.1", title: "Dotted", status: "pending" },
+          { id: 2, status: "pending" },
+        ],
+      }),
+    ]);
+    const issues = validateTasksFile(text);
+    assert.deepEqual(codes(issues).sort(), [
+      "dotted-subtask-id",
+      "missing-field",
+    ]);
+
+    const dotted = issues.find((issue) => issue.code === "dotted-subtask-id")!;
+    const fixed = JSON.parse(applyEdits(text, dotted.fix!.edits));
+    assert.equal(fixed.master.tasks[0].subtasks[0].id, 1);
+  });
+
+  it("warns about top-level entries that are not tags", () => {
+    const issues = validateTasksFile(
+      JSON.stringify({ master: { tasks: [] }, draft: { tasks: {} }, v: 1 })
+    );
+    assert.deepEqual(codes(issues), ["invalid-structure", "invalid-structure"]);
+    assert.ok(issues.every((issue) => issue.severity === "warning"));
+  });
+
+  it("finds nodes by path with their source offsets", () => {
+    const text = fileText([task({ title: "Locate me" })]);
+    const { root } = parseJsonTree(text);
+    const node = findNodeAtPath(root!, ["master", "tasks", 0, "title"])!;
+    assert.equal(node.value, "Locate me");
+    assert.equal(text.substr(node.offset, node.length), '"Locate me"');
+  });
+
+  it("skips escaped quotes and brackets inside strings", () => {
+    const tricky = ['Say "hi" {', "}] , [", "C:\\dir\\", "\u00e9\\u"];
+    const text = fileText(
+      tricky.map((title, index) => task({ id: index + 1, title }))
+    );
+    const { root, error } = parseJsonTree(text);
+    assert.equal(error, undefined);
+    tricky.forEach((title, index) => {
+      const node = findNodeAtPath(root!, ["master", "tasks", index, "title"])!;
+      assert.equal(node.value, title);
+      assert.equal(
+        text.substr(node.offset, node.length),
+        JSON.stringify(title)
+      );
+      const idNode = findNodeAtPath(root!, ["master", "tasks", index, "id"])!;
+      assert.equal(idNode.value, index + 1);
+    });
+    assert.deepEqual(validateTasksFile(text), []);
+  });
+
+  it("locates syntax errors after strings holding brackets", () => {
+    const text = '{ "master": { "tasks": [{ "title": "a \\"}]", } ] } }';
+    const { error } = parseJsonTree(text);
+    assert.equal(text[error!.offset], "}");
+    assert.equal(error!.offset, text.indexOf(", }") + 2);
+  });
+});
@@ -0,0 +1,70 @@
+import { strict as assert } from "assert";
+import {
+  findTodoComments,
+  formatTodoLocation,
+  matchTodosToTasks,
+  todoTaskTitle,
+} from "../utils/todoScanner";
+import { makeTask } from "./TestTasks";
+
+/**
+ * Unit tests for scanning TODO comments and matching them with tasks
+ */
+describe("todoScanner", () => {
+  it("finds markers after comment starts", () => {
+    const content = [
+      "const todo = 1; // TODO: handle errors",
+      "# FIXME(alice) - flaky on CI",
+      "/* HACK works around a bug */",
+      " * TODO",
+      "<!-- TODO: fix layout -->",
+      'const s = "TODO: not a comment";',
+      "// todo lowercase is ignored",
+      "// TODOS are not markers",
+    ].join("\r\n");
+
+    assert.deepEqual(
+      findTodoComments(content, "src/a.ts").map(({ line, kind, text }) => [
+        line,
+        kind,
+        text,
+      ]),
+      [
+        [1, "TODO", "handle errors"],
+        [2, "FIXME", "flaky on CI"],
+        [3, "HACK", "works around a bug"],
+        [4, "TODO", ""],
+        [5, "TODO", "fix layout"],
+      ]
+    );
+  });
+
+  it("derives titles and locations", () => {
+    const [todo, empty] = findTodoComments(
+      `// TODO ${"x".repeat(100)}\n// FIXME`,
+      "src/lib/a.ts"
+    );
+
+    assert.equal(formatTodoLocation(empty), "src/lib/a.ts:2");
+    assert.equal(todoTaskTitle(empty), "FIXME in a.ts");
+    assert.equal(todoTaskTitle(todo), `${"x".repeat(77)}...`);
+  });
+
+  it("matches TODOs with their tasks by location or title", () => {
+    const todos = findTodoComments(
+      "// TODO: first\n\n// TODO: second\n// TODO: third",
+      "a.ts"
+    );
+    const tasks = [
+      makeTask(1, { title: "Renamed", filePath: "a.ts:1" }),
+      makeTask(2, { title: "second", filePath: "a.ts:9" }),
+      makeTask(3, { title: "third", filePath: "b.ts:4" }),
+      makeTask(4, { title: "third" }),
+    ];
+
+    const matches = matchTodosToTasks(todos, tasks);
+    assert.equal(matches.get(todos[0])?.id, 1);
+    assert.equal(matches.get(todos[1])?.id, 2);
+    assert.equal(matches.has(todos[2]), false);
+  });
+});
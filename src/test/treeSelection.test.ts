@@ -0,0 +1,38 @@
+import { strict as assert } from "assert";
+import { selectedTaskIds } from "../utils/treeSelection";
+
+/**
+ * Unit tests for the task IDs of tree selections
+ */
+describe("treeSelection", () => {
+  interface Item {
+    kind: "task" | "group" | "folder";
+    id: string;
+  }
+
+  const taskIdOf = (item: Item) => (item.kind === "task" ? item.id : undefined);
+  const task = (id: string): Item => ({ kind: "task", id });
+
+  it("keeps only the tasks of a mixed selection", () => {
+    const selection: Item[] = [
+      { kind: "group", id: "pending" },
+      task("2"),
+      { kind: "folder", id: "api" },
+      task("3.1"),
+      task("2"),
+    ];
+    assert.deepEqual(selectedTaskIds(task("9"), selection, taskIdOf), [
+      "2",
+      "3.1",
+    ]);
+  });
+
+  it("falls back to the clicked item without a selection", () => {
+    assert.deepEqual(selectedTaskIds(task("4"), [], taskIdOf), ["4"]);
+    assert.deepEqual(
+      selectedTaskIds({ kind: "group", id: "high" }, undefined, taskIdOf),
+      []
+    );
+    assert.deepEqual(selectedTaskIds(undefined, undefined, taskIdOf), []);
+  });
+});
@@ -29,6 +29,7 @@ export interface Subtask {
   id: string | number;
   title: string;
   description?: string;
+  details?: string;
   status: TaskStatus;
   dependencies?: number[];
   parentId: number;
@@ -42,6 +43,7 @@ export interface Task {
   title: string;
   description: string;
   details?: string;
+  testStrategy?: string;
   priority: TaskPriority;
   status: TaskStatus;
   dependencies?: number[];
@@ -88,6 +90,26 @@ export interface TasksFileStructure {
   };
 }
 
+/**
+ * Per-tag entry of the tag-keyed tasks.json format written by the CLI
+ */
+export interface TagTasksData {
+  tasks: Task[];
+  metadata?: {
+    created?: string;
+    updated?: string;
+    description?: string;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Tag-keyed tasks.json file structure (.taskmaster/tasks/tasks.json)
+ */
+export interface TaggedTasksFile {
+  [tagName: string]: TagTasksData;
+}
+
 /**
  * Task statistics from CLI
  */
@@ -123,6 +145,7 @@ export interface CLIExecutionOptions {
   timeout?: number;
   extraArgs?: string[];
   readFromFile?: boolean; // New option to force reading from file vs CLI
+  kind?: "read" | "mutate"; // Queue as a read or a write; defaults by command
 }
 
 /**
@@ -132,6 +155,55 @@ export interface TaskMasterConfig {
   cliPath: string;
 }
 
+/**
+ * Rule mapping branches matching a regular expression to a tag name
+ * `$1`…`$9` in the tag are replaced by the capture groups; an empty tag
+ * leaves matching branches alone
+ */
+export interface BranchTagRule {
+  branch: string;
+  tag: string;
+}
+
+/**
+ * Settings for following the git branch with the current tag
+ */
+export interface BranchTagConfig {
+  enabled: boolean;
+  rules: BranchTagRule[];
+  /** What to do when a branch maps to a tag that does not exist yet */
+  createMissing: "ask" | "always" | "never";
+}
+
+/**
+ * Settings for the Start Working / Finish Working flow
+ */
+export interface StartTaskConfig {
+  /** Whether starting a task creates or checks out its branch */
+  branch: "ask" | "always" | "never";
+  /** Branch name template with {id}, {slug} and {tag} placeholders */
+  branchTemplate: string;
+}
+
+/**
+ * Settings for linking git commits with tasks
+ */
+export interface CommitConfig {
+  /** Mark tasks done when a commit saying "closes TM-12" lands */
+  closeTasks: boolean;
+}
+
+/**
+ * Settings for task references in source code
+ */
+export interface CodeReferenceConfig {
+  enabled: boolean;
+  /** Regular expression whose first capture group is the task ID */
+  pattern: string;
+  /** Show "Mark Done" / "Set In Progress" above references */
+  codeLens: boolean;
+}
+
 /**
  * Task complexity analysis from complexity report
  */
@@ -167,6 +239,8 @@ export interface TagInfo {
   name: string;
   taskCount: number;
   description?: string;
+  /** Completion stats of the tag's tasks */
+  stats?: TaskStats;
   metadata?: {
     createdAt?: string;
     lastModified?: string;
@@ -174,6 +248,17 @@ export interface TagInfo {
   };
 }
 
+/**
+ * Options for creating a tag
+ */
+export interface AddTagOptions {
+  /** Copy the tasks of the current tag */
+  copyFromCurrent?: boolean;
+  /** Copy the tasks of the named tag */
+  copyFrom?: string;
+  description?: string;
+}
+
 /**
  * Tag service response structure
  */
@@ -0,0 +1,122 @@
+import { BranchTagRule } from "../types";
+
+/**
+ * Utility functions for mapping git branch names to Task Master tag names
+ * Rules are regular expressions whose captured groups can form the tag
+ */
+
+/**
+ * Rules used when none are configured: the default branches share the
+ * master tag, "task/" branches keep the current tag and other branches drop
+ * their "feature/"-style prefix
+ */
+export const DEFAULT_BRANCH_TAG_RULES: BranchTagRule[] = [
+  { branch: "^(main|master|develop)$", tag: "master" },
+  { branch: "^task/", tag: "" },
+  { branch: "^(?:[^/]+/)?(.+)$", tag: "$1" },
+];
+
+/**
+ * Turn arbitrary text into a valid tag name: runs of characters other than
+ * letters, digits, hyphens and underscores become a hyphen
+ */
+export function sanitizeTagName(name: string): string {
+  return name
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Find the tag for a branch using the first matching rule
+ * Returns undefined when no rule applies or the rule maps to no tag;
+ * rules with an invalid regular expression are skipped
+ */
+export function mapBranchToTag(
+  branch: string,
+  rules: BranchTagRule[]
+): string | undefined {
+  for (const rule of rules) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.branch);
+    } catch {
+      continue;
+    }
+
+    const match = branch.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const tag = rule.tag.replace(
+      /\$(\d)/g,
+      (_, group: string) => match[Number(group)] ?? ""
+    );
+    return sanitizeTagName(tag) || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Read the branch name from the contents of a .git/HEAD file
+ * Returns undefined for a detached HEAD
+ */
+export function parseGitHead(content: string): string | undefined {
+  const match = content.trim().match(/^ref:\s*refs\/heads\/(.+)$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Name a branch for working on a task from a template with {id}, {slug}
+ * (the lowercased title) and {tag} placeholders, e.g. "task/{id}-{slug}"
+ * gives "task/12-setup-repo". Characters git does not allow in branch
+ * names become hyphens
+ */
+export function formatTaskBranchName(
+  template: string,
+  task: { id: string; title: string; tag: string }
+): string {
+  const slug = task.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, "");
+  const name = template
+    .replace(/\{id\}/g, task.id)
+    .replace(/\{slug\}/g, slug)
+    .replace(/\{tag\}/g, task.tag);
+
+  return name
+    .replace(/[\s~^:?*[\\\x00-\x1f\x7f]+|@\{/g, "-")
+    .replace(/\.{2,}/g, ".")
+    .replace(/\/{2,}/g, "/")
+    .split("/")
+    .map((part) => part.replace(/^[.-]+|(\.lock)+$|[.-]+$/g, ""))
+    .filter((part) => part.length > 0)
+    .join("/");
+}
+
+/**
+ * Patterns of the values formatTaskBranchName puts in for placeholders
+ */
+const TASK_BRANCH_PLACEHOLDERS = new Map([
+  ["{id}", "\\d+(?:\\.\\d+)?"],
+  ["{slug}", "[a-z0-9-]*"],
+  ["{tag}", "[A-Za-z0-9_-]+"],
+]);
+
+/**
+ * Check whether a branch has the shape of the names formatTaskBranchName
+ * gives for a template, e.g. "task/12-setup-repo" for "task/{id}-{slug}"
+ */
+export function isTaskBranchName(template: string, branch: string): boolean {
+  const pattern = template
+    .split(/(\{(?:id|slug|tag)\})/)
+    .map(
+      (part) =>
+        TASK_BRANCH_PLACEHOLDERS.get(part) ??
+        part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${pattern}$`).test(branch);
+}
@@ -0,0 +1,325 @@
+import {
+  VALID_TASK_PRIORITIES,
+  VALID_TASK_STATUSES,
+} from "../services/tasksRepository";
+import { AddTagOptions, TaskPriority, TaskStatus } from "../types";
+import { formatTaskId, parseTaskId } from "./taskIdUtils";
+
+/**
+ * Typed builders for Task Master CLI invocations
+ * The CLI is spawned without a shell, so every value travels as a single
+ * `--option=value` argv entry exactly as typed: quotes, newlines and `$`
+ * reach the CLI untouched and a value can never be read as another option
+ */
+
+/**
+ * CLI subcommand together with its arguments
+ */
+export interface CLICommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Raised when a builder is given a value the CLI would reject or misread
+ */
+export class CLIArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CLIArgumentError";
+  }
+}
+
+const TAG_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_-]*$/;
+const MAX_SUBTASKS = 50;
+
+/**
+ * Check whether a tag name is accepted by the CLI (letters, digits,
+ * hyphens and underscores, not starting with a hyphen)
+ */
+export function isValidTagName(name: string): boolean {
+  return TAG_NAME_PATTERN.test(name);
+}
+
+function taskIdArg(id: string | number, allowSubtask: boolean): string {
+  const parsed = parseTaskId(id);
+  if (!parsed) {
+    throw new CLIArgumentError(`Invalid task ID: ${id}`);
+  }
+  if (parsed.subtaskId !== undefined && !allowSubtask) {
+    throw new CLIArgumentError(`Expected a task ID, got subtask ID ${id}`);
+  }
+  return formatTaskId(parsed);
+}
+
+function subtaskIdArg(id: string | number): string {
+  const parsed = parseTaskId(id);
+  if (!parsed || parsed.subtaskId === undefined) {
+    throw new CLIArgumentError(`Invalid subtask ID: ${id}`);
+  }
+  return formatTaskId(parsed);
+}
+
+function textArg(name: string, value: string): string {
+  const text = value.trim();
+  if (text === "") {
+    throw new CLIArgumentError(`The ${name} must not be empty`);
+  }
+  if (text.includes("\0")) {
+    throw new CLIArgumentError(`The ${name} must not contain NUL characters`);
+  }
+  return text;
+}
+
+function tagNameArg(name: string): string {
+  if (!isValidTagName(name)) {
+    throw new CLIArgumentError(
+      `Invalid tag name "${name}": use letters, numbers, hyphens and underscores`
+    );
+  }
+  return name;
+}
+
+function positiveIntArg(name: string, value: number, max?: number): string {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CLIArgumentError(`The ${name} must be a positive whole number`);
+  }
+  if (max !== undefined && value > max) {
+    throw new CLIArgumentError(`The ${name} must not exceed ${max}`);
+  }
+  return `${value}`;
+}
+
+function flag(enabled: boolean | undefined, name: string): string[] {
+  return enabled ? [name] : [];
+}
+
+/**
+ * add-task: create a task from an AI prompt
+ */
+export function buildAddTaskCommand(options: {
+  prompt: string;
+  priority?: TaskPriority;
+  dependencies?: (string | number)[];
+  research?: boolean;
+}): CLICommand {
+  const args = [`--prompt=${textArg("prompt", options.prompt)}`];
+
+  if (options.priority) {
+    if (!VALID_TASK_PRIORITIES.includes(options.priority)) {
+      throw new CLIArgumentError(`Invalid priority: ${options.priority}`);
+    }
+    args.push(`--priority=${options.priority}`);
+  }
+
+  if (options.dependencies && options.dependencies.length > 0) {
+    const ids = options.dependencies.map((id) => taskIdArg(id, false));
+    args.push(`--dependencies=${ids.join(",")}`);
+  }
+
+  args.push(...flag(options.research, "--research"));
+  return { command: "add-task", args };
+}
+
+/**
+ * update-task: rewrite a single task from an AI prompt
+ */
+export function buildUpdateTaskCommand(options: {
+  id: string | number;
+  prompt: string;
+  research?: boolean;
+}): CLICommand {
+  return {
+    command: "update-task",
+    args: [
+      `--id=${taskIdArg(options.id, false)}`,
+      `--prompt=${textArg("prompt", options.prompt)}`,
+      ...flag(options.research, "--research"),
+    ],
+  };
+}
+
+/**
+ * update-subtask: append timestamped notes to a subtask
+ */
+export function buildUpdateSubtaskCommand(options: {
+  id: string | number;
+  prompt: string;
+  research?: boolean;
+}): CLICommand {
+  return {
+    command: "update-subtask",
+    args: [
+      `--id=${subtaskIdArg(options.id)}`,
+      `--prompt=${textArg("prompt", options.prompt)}`,
+      ...flag(options.research, "--research"),
+    ],
+  };
+}
+
+/**
+ * expand: break one task into subtasks
+ * An empty or whitespace-only prompt is left out
+ */
+export function buildExpandCommand(options: {
+  id: string | number;
+  num?: number;
+  prompt?: string;
+  research?: boolean;
+  force?: boolean;
+}): CLICommand {
+  const args = [`--id=${taskIdArg(options.id, false)}`];
+
+  if (options.num !== undefined) {
+    const num = positiveIntArg("subtask count", options.num, MAX_SUBTASKS);
+    args.push(`--num=${num}`);
+  }
+
+  if (options.prompt && options.prompt.trim() !== "") {
+    args.push(`--prompt=${textArg("prompt", options.prompt)}`);
+  }
+
+  args.push(
+    ...flag(options.research, "--research"),
+    ...flag(options.force, "--force")
+  );
+  return { command: "expand", args };
+}
+
+/**
+ * expand --all: break every pending task into subtasks
+ */
+export function buildExpandAllCommand(
+  options: { research?: boolean; force?: boolean } = {}
+): CLICommand {
+  return {
+    command: "expand",
+    args: [
+      "--all",
+      ...flag(options.force, "--force"),
+      ...flag(options.research, "--research"),
+    ],
+  };
+}
+
+/**
+ * set-status: change the status of one or more tasks or subtasks
+ */
+export function buildSetStatusCommand(options: {
+  ids: (string | number)[];
+  status: TaskStatus;
+}): CLICommand {
+  if (options.ids.length === 0) {
+    throw new CLIArgumentError("At least one task ID is required");
+  }
+  if (!VALID_TASK_STATUSES.includes(options.status)) {
+    throw new CLIArgumentError(`Invalid status: ${options.status}`);
+  }
+
+  const ids = options.ids.map((id) => taskIdArg(id, true));
+  return {
+    command: "set-status",
+    args: [`--id=${ids.join(",")}`, `--status=${options.status}`],
+  };
+}
+
+/**
+ * remove-task: permanently delete a task or subtask without prompting
+ */
+export function buildRemoveTaskCommand(id: string | number): CLICommand {
+  return {
+    command: "remove-task",
+    args: [`--id=${taskIdArg(id, true)}`, "--yes"],
+  };
+}
+
+/**
+ * analyze-complexity: score every task in the current tag
+ */
+export function buildAnalyzeComplexityCommand(
+  options: { research?: boolean } = {}
+): CLICommand {
+  return {
+    command: "analyze-complexity",
+    args: flag(options.research, "--research"),
+  };
+}
+
+/**
+ * parse-prd: generate tasks from a PRD file, appending to existing ones
+ */
+export function buildParsePrdCommand(options: {
+  input: string;
+  numTasks?: number;
+  force?: boolean;
+  research?: boolean;
+}): CLICommand {
+  const args = [`--input=${textArg("input file", options.input)}`];
+
+  if (options.numTasks) {
+    args.push(`--num-tasks=${positiveIntArg("task count", options.numTasks)}`);
+  }
+
+  args.push(
+    ...flag(options.force, "--force"),
+    ...flag(options.research, "--research"),
+    "--append"
+  );
+  return { command: "parse-prd", args };
+}
+
+/**
+ * add-tag: create a tag, optionally copying tasks from another tag
+ */
+export function buildAddTagCommand(
+  name: string,
+  options: AddTagOptions = {}
+): CLICommand {
+  const args = [
+    tagNameArg(name),
+    ...flag(options.copyFromCurrent, "--copy-from-current"),
+  ];
+
+  if (options.copyFrom) {
+    args.push(`--copy-from=${tagNameArg(options.copyFrom)}`);
+  }
+
+  if (options.description && options.description.trim() !== "") {
+    args.push(`--description=${textArg("description", options.description)}`);
+  }
+
+  return { command: "add-tag", args };
+}
+
+/**
+ * use-tag: switch the current tag
+ */
+export function buildUseTagCommand(name: string): CLICommand {
+  return { command: "use-tag", args: [tagNameArg(name)] };
+}
+
+/**
+ * rename-tag: rename a tag, keeping it current if it was
+ */
+export function buildRenameTagCommand(
+  oldName: string,
+  newName: string
+): CLICommand {
+  return {
+    command: "rename-tag",
+    args: [tagNameArg(oldName), tagNameArg(newName)],
+  };
+}
+
+/**
+ * delete-tag: delete a tag and its tasks, skipping the CLI prompt if forced
+ */
+export function buildDeleteTagCommand(
+  name: string,
+  force: boolean = false
+): CLICommand {
+  return {
+    command: "delete-tag",
+    args: [tagNameArg(name), ...flag(force, "--yes")],
+  };
+}
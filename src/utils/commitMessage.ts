@@ -0,0 +1,61 @@
+/**
+ * Utility functions for task references in git commit messages
+ * Builds and reads messages such as "[TM-12] Setup repo" or "closes TM-12.3"
+ */
+
+/**
+ * Reference to a task ("12") or subtask ("12.3"), e.g. "TM-12"
+ */
+export function formatTaskReference(id: string | number): string {
+  return `TM-${id}`;
+}
+
+/**
+ * Commit subject for working on a task, e.g. "[TM-12] Setup repo"
+ */
+export function formatCommitSubject(
+  id: string | number,
+  title: string
+): string {
+  return `[${formatTaskReference(id)}] ${title}`;
+}
+
+/**
+ * Put the subject for a task in front of a commit message, keeping what was
+ * already typed as its body. Messages already referencing the task are
+ * returned unchanged
+ */
+export function prefillCommitMessage(
+  message: string,
+  id: string | number,
+  title: string
+): string {
+  const subject = formatCommitSubject(id, title);
+  if (hasTaskReference(message, id)) {
+    return message;
+  }
+  return message.trim() ? `${subject}\n\n${message.trim()}` : subject;
+}
+
+/**
+ * Full IDs of the tasks a commit message closes, in order of appearance:
+ * "closes TM-12", "fixes TM-4.2", "resolved TM-7, TM-8" and similar
+ */
+export function parseClosedTaskReferences(message: string): string[] {
+  const ids: string[] = [];
+  const closing =
+    /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\b:?\s+((?:TM-\d+(?:\.\d+)?(?:\s*,\s*|\s+and\s+)?)+)/gi;
+  for (const match of message.matchAll(closing)) {
+    for (const reference of match[1].matchAll(/TM-(\d+(?:\.\d+)?)/gi)) {
+      if (!ids.includes(reference[1])) {
+        ids.push(reference[1]);
+      }
+    }
+  }
+  return ids;
+}
+
+function hasTaskReference(message: string, id: string | number): boolean {
+  const escaped = `${id}`.replace(/\./g, "\\.");
+  return new RegExp(`\\bTM-${escaped}(?![\\d.]*\\d)`, "i").test(message);
+}
@@ -0,0 +1,261 @@
+import { Subtask, Task } from "../types";
+import {
+  buildDependencyGraph,
+  DependencyGraph,
+  findCycles,
+} from "./dependencyGraph";
+import { parseTaskId, resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions for validating and repairing the dependencies of a tag
+ * Reports self-dependencies, missing targets, cycles and cross-parent
+ * references, and plans the removals that fix them
+ */
+
+export type DependencyIssueKind =
+  | "self-dependency"
+  | "missing-target"
+  | "cycle"
+  | "cross-parent";
+
+/**
+ * Problem found in the dependency of a task or subtask
+ * taskId is the full ID of the dependent ("5" or "5.2"), dependency the
+ * full ID it points at
+ */
+export interface DependencyIssue {
+  kind: DependencyIssueKind;
+  severity: "error" | "warning";
+  taskId: string;
+  dependency: string;
+  message: string;
+  /** Full cycle, starting and ending with the same ID */
+  cycle?: string[];
+}
+
+/**
+ * Dependency removal proposed to resolve an issue
+ */
+export interface DependencyFix {
+  taskId: string;
+  dependency: string;
+  kind: DependencyIssueKind;
+  description: string;
+}
+
+const MAX_FIX_ROUNDS = 100;
+
+/**
+ * Analyze the dependencies of all tasks and subtasks
+ * Errors: self-dependencies, missing targets, cycles. Warnings: subtasks
+ * depending on a subtask of another parent
+ */
+export function analyzeDependencies(tasks: Task[]): DependencyIssue[] {
+  const graph = buildDependencyGraph(tasks);
+  const issues: DependencyIssue[] = [];
+
+  for (const edge of graph.edges) {
+    if (edge.from === edge.to) {
+      issues.push({
+        kind: "self-dependency",
+        severity: "error",
+        taskId: edge.from,
+        dependency: edge.to,
+        message: `${edge.from} depends on itself`,
+      });
+    }
+  }
+
+  for (const ref of graph.dangling) {
+    issues.push({
+      kind: "missing-target",
+      severity: "error",
+      taskId: ref.from,
+      dependency: ref.dependency,
+      message: `${ref.from} depends on ${ref.dependency}, which does not exist`,
+    });
+  }
+
+  for (const component of findCycles(graph)) {
+    if (component.length < 2) {
+      continue;
+    }
+    const cycle = findCyclePath(graph, component);
+    // The last edge closes the loop; removing it breaks this cycle
+    const closing = cycle[cycle.length - 2];
+    issues.push({
+      kind: "cycle",
+      severity: "error",
+      taskId: closing,
+      dependency: cycle[0],
+      message: `Circular dependency: ${cycle.join(" → ")}`,
+      cycle,
+    });
+  }
+
+  for (const edge of graph.edges) {
+    const from = parseTaskId(edge.from);
+    const to = parseTaskId(edge.to);
+    if (
+      from?.subtaskId !== undefined &&
+      to?.subtaskId !== undefined &&
+      from.taskId !== to.taskId
+    ) {
+      issues.push({
+        kind: "cross-parent",
+        severity: "warning",
+        taskId: edge.from,
+        dependency: edge.to,
+        message: `Subtask ${edge.from} depends on ${edge.to}, a subtask of another task`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Plan the dependency removals that resolve all errors
+ * Cycles are broken one edge at a time until none remain, so the plan may
+ * hold more removals than the first analysis reported cycles. Warnings are
+ * left alone.
+ */
+export function planDependencyFixes(tasks: Task[]): DependencyFix[] {
+  const working: Task[] = JSON.parse(JSON.stringify(tasks));
+  const fixes: DependencyFix[] = [];
+
+  for (let round = 0; round < MAX_FIX_ROUNDS; round++) {
+    const errors = analyzeDependencies(working).filter(
+      (issue) => issue.severity === "error"
+    );
+    if (errors.length === 0) {
+      break;
+    }
+
+    // Remove everything except cycles at once; cycles one at a time since
+    // breaking one may break others sharing the same edges
+    const cycle = errors.find((issue) => issue.kind === "cycle");
+    const batch = errors.filter((issue) => issue.kind !== "cycle");
+    const roundFixes = (batch.length > 0 ? batch : [cycle!]).map(toFix);
+    applyDependencyFixes(working, roundFixes);
+    fixes.push(...roundFixes);
+  }
+
+  return fixes;
+}
+
+/**
+ * Apply planned removals to the tasks in place
+ * Returns the number of dependency entries removed
+ */
+export function applyDependencyFixes(
+  tasks: Task[],
+  fixes: DependencyFix[]
+): number {
+  let removed = 0;
+  for (const fix of fixes) {
+    const parsed = parseTaskId(fix.taskId);
+    const task = parsed
+      ? tasks.find((candidate) => Number(candidate.id) === parsed.taskId)
+      : undefined;
+    if (!parsed || !task) {
+      continue;
+    }
+
+    let node: Task | Subtask | undefined = task;
+    let parent: Task | undefined;
+    if (parsed.subtaskId !== undefined) {
+      node = (task.subtasks || []).find(
+        (subtask) => Number(subtask.id) === parsed.subtaskId
+      );
+      parent = task;
+    }
+    if (!node || !node.dependencies) {
+      continue;
+    }
+
+    const before = node.dependencies.length;
+    node.dependencies = node.dependencies.filter(
+      (dep) => resolveDependencyId(dep, parent) !== fix.dependency
+    );
+    removed += before - node.dependencies.length;
+  }
+  return removed;
+}
+
+/**
+ * Full IDs of the tasks and subtasks that depend on a task or subtask
+ * A task's subtasks count as its dependents only when they reference it
+ */
+export function findDependents(tasks: Task[], id: string | number): string[] {
+  const target = String(id);
+  return buildDependencyGraph(tasks)
+    .edges.filter((edge) => edge.to === target && edge.from !== target)
+    .map((edge) => edge.from);
+}
+
+/**
+ * Full IDs of the tasks and subtasks outside a task that depend on it or
+ * on one of its subtasks, i.e. those losing a dependency when it is deleted
+ */
+export function findTaskDependents(tasks: Task[], taskId: number): string[] {
+  const inside = (id: string) =>
+    id === String(taskId) || id.startsWith(`${taskId}.`);
+  const dependents = buildDependencyGraph(tasks)
+    .edges.filter((edge) => inside(edge.to) && !inside(edge.from))
+    .map((edge) => edge.from);
+  return [...new Set(dependents)];
+}
+
+function toFix(issue: DependencyIssue): DependencyFix {
+  const descriptions: Record<DependencyIssueKind, string> = {
+    "self-dependency": `Remove self-dependency of ${issue.taskId}`,
+    "missing-target": `Remove missing dependency ${issue.dependency} from ${issue.taskId}`,
+    cycle: `Remove ${issue.taskId} → ${issue.dependency} to break ${
+      issue.cycle?.join(" → ") ?? "a cycle"
+    }`,
+    "cross-parent": `Remove ${issue.dependency} from ${issue.taskId}`,
+  };
+  return {
+    taskId: issue.taskId,
+    dependency: issue.dependency,
+    kind: issue.kind,
+    description: descriptions[issue.kind],
+  };
+}
+
+/**
+ * Shortest loop through a strongly connected component, starting at its
+ * first member and following "depends on" edges back to it
+ */
+function findCyclePath(graph: DependencyGraph, component: string[]): string[] {
+  const members = new Set(component);
+  const start = component[0];
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (
+        edge.from !== current ||
+        edge.from === edge.to ||
+        !members.has(edge.to)
+      ) {
+        continue;
+      }
+      if (edge.to === start) {
+        const path = [start];
+        for (let id = current; id !== start; id = previous.get(id)!) {
+          path.splice(1, 0, id);
+        }
+        return [...path, start];
+      }
+      if (!previous.has(edge.to)) {
+        previous.set(edge.to, current);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return [...component, start];
+}
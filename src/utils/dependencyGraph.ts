@@ -0,0 +1,276 @@
+import { Task, TaskStatus } from "../types";
+import { resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions for analyzing the dependency graph of a tag
+ * Finds cycles, the critical path and the layer of each task and subtask
+ */
+
+/**
+ * Task or subtask in the dependency graph, identified by its full ID
+ */
+export interface GraphNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  parentId?: string;
+}
+
+/**
+ * Edge meaning "from depends on to"
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Dependency pointing at a task or subtask that does not exist
+ */
+export interface DanglingReference {
+  from: string;
+  dependency: string;
+}
+
+/**
+ * Tasks and subtasks of a tag with their resolved dependency edges
+ */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  dangling: DanglingReference[];
+}
+
+const FINISHED_STATUSES: TaskStatus[] = ["done", "cancelled"];
+
+/**
+ * Build the graph of all tasks and subtasks and their dependencies
+ */
+export function buildDependencyGraph(tasks: Task[]): DependencyGraph {
+  const nodes: GraphNode[] = [];
+  for (const task of tasks) {
+    nodes.push({ id: String(task.id), title: task.title, status: task.status });
+    for (const subtask of task.subtasks || []) {
+      nodes.push({
+        id: `${task.id}.${subtask.id}`,
+        title: subtask.title,
+        status: subtask.status,
+        parentId: String(task.id),
+      });
+    }
+  }
+
+  const known = new Set(nodes.map((node) => node.id));
+  const edges: GraphEdge[] = [];
+  const dangling: DanglingReference[] = [];
+  const seen = new Set<string>();
+
+  const addDependencies = (
+    from: string,
+    dependencies: (string | number)[] | undefined,
+    parent?: Task
+  ) => {
+    for (const dep of dependencies || []) {
+      const to = resolveDependencyId(dep, parent);
+      const key = `${from}->${to}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      if (known.has(to)) {
+        edges.push({ from, to });
+      } else {
+        dangling.push({ from, dependency: to });
+      }
+    }
+  };
+
+  for (const task of tasks) {
+    addDependencies(String(task.id), task.dependencies);
+    for (const subtask of task.subtasks || []) {
+      addDependencies(`${task.id}.${subtask.id}`, subtask.dependencies, task);
+    }
+  }
+
+  return { nodes, edges, dangling };
+}
+
+/**
+ * Find dependency cycles (strongly connected components with a loop)
+ * Each cycle lists its node IDs in graph order
+ */
+export function findCycles(graph: DependencyGraph): string[][] {
+  return stronglyConnectedComponents(graph).filter(
+    (component) =>
+      component.length > 1 ||
+      graph.edges.some(
+        (edge) => edge.from === component[0] && edge.to === component[0]
+      )
+  );
+}
+
+/**
+ * Find the longest chain of unfinished work, ignoring done/cancelled nodes
+ * and nodes caught in cycles. Returned in execution order (first to do
+ * first)
+ */
+export function findCriticalPath(graph: DependencyGraph): string[] {
+  const inCycle = new Set(findCycles(graph).flat());
+  const open = new Set(
+    graph.nodes
+      .filter(
+        (node) =>
+          !FINISHED_STATUSES.includes(node.status) && !inCycle.has(node.id)
+      )
+      .map((node) => node.id)
+  );
+
+  const dependenciesOf = adjacency(
+    graph,
+    (edge) => open.has(edge.from) && open.has(edge.to)
+  );
+  const length = new Map<string, number>();
+  const previous = new Map<string, string | undefined>();
+
+  const visit = (id: string): number => {
+    const known = length.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    let best = 0;
+    let bestDependency: string | undefined;
+    for (const dependency of dependenciesOf.get(id) || []) {
+      const candidate = visit(dependency);
+      if (candidate > best) {
+        best = candidate;
+        bestDependency = dependency;
+      }
+    }
+    length.set(id, best + 1);
+    previous.set(id, bestDependency);
+    return best + 1;
+  };
+
+  let end: string | undefined;
+  for (const node of graph.nodes) {
+    if (open.has(node.id) && (!end || visit(node.id) > visit(end))) {
+      end = node.id;
+    }
+  }
+
+  const path: string[] = [];
+  for (let id = end; id !== undefined; id = previous.get(id)) {
+    path.unshift(id);
+  }
+  return path;
+}
+
+/**
+ * Assign each node a layer: 0 for nodes without dependencies, otherwise
+ * one more than its deepest dependency. Nodes in a cycle share a layer.
+ */
+export function computeLayers(graph: DependencyGraph): Map<string, number> {
+  const componentOf = new Map<string, number>();
+  stronglyConnectedComponents(graph).forEach((component, index) =>
+    component.forEach((id) => componentOf.set(id, index))
+  );
+
+  // Dependencies between different components form a DAG
+  const dependenciesOf = adjacency(
+    graph,
+    (edge) => componentOf.get(edge.from) !== componentOf.get(edge.to)
+  );
+  const componentLayer = new Map<number, number>();
+  const membersOf = new Map<number, string[]>();
+  componentOf.forEach((component, id) =>
+    membersOf.set(component, [...(membersOf.get(component) || []), id])
+  );
+
+  const visit = (component: number): number => {
+    const known = componentLayer.get(component);
+    if (known !== undefined) {
+      return known;
+    }
+    let layer = 0;
+    for (const id of membersOf.get(component) || []) {
+      for (const dependency of dependenciesOf.get(id) || []) {
+        layer = Math.max(layer, visit(componentOf.get(dependency)!) + 1);
+      }
+    }
+    componentLayer.set(component, layer);
+    return layer;
+  };
+
+  const layers = new Map<string, number>();
+  for (const node of graph.nodes) {
+    layers.set(node.id, visit(componentOf.get(node.id)!));
+  }
+  return layers;
+}
+
+/**
+ * Map each node to the nodes it depends on, keeping only selected edges
+ */
+function adjacency(
+  graph: DependencyGraph,
+  include: (edge: GraphEdge) => boolean
+): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (include(edge)) {
+      result.set(edge.from, [...(result.get(edge.from) || []), edge.to]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Tarjan's algorithm; components are returned with members in graph order
+ */
+function stronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  const dependenciesOf = adjacency(graph, () => true);
+  const order = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const connect = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dependency of dependenciesOf.get(id) || []) {
+      if (!index.has(dependency)) {
+        connect(dependency);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dependency)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(
+        component.sort((a, b) => order.get(a)! - order.get(b)!)
+      );
+    }
+  };
+
+  for (const node of graph.nodes) {
+    if (!index.has(node.id)) {
+      connect(node.id);
+    }
+  }
+  return components;
+}
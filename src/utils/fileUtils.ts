@@ -10,20 +10,16 @@ import * as vscode from "vscode";
  */
 export async function setupFileWatchers(
   eventEmitter: EventEmitter,
+  projectRoot: string,
   onRefreshTasks: () => Promise<void>
 ): Promise<{
   tasksFileWatcher?: vscode.FileSystemWatcher;
   complexityFileWatcher?: vscode.FileSystemWatcher;
 }> {
-  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (!workspaceRoot) {
-    console.warn("No workspace open, cannot setup file watchers");
-    return {};
-  }
 
   // Setup tasks file watcher
   const tasksFilePattern = new vscode.RelativePattern(
-    workspaceRoot,
+    projectRoot,
     ".taskmaster/tasks/tasks.json"
   );
 
@@ -46,7 +42,7 @@ export async function setupFileWatchers(
 
   // Setup complexity file watcher
   const complexityFilePattern = new vscode.RelativePattern(
-    workspaceRoot,
+    projectRoot,
     ".taskmaster/reports/task-complexity-report.json"
   );
 
@@ -0,0 +1,321 @@
+/**
+ * Minimal JSON parser that keeps source offsets for every value
+ * Used to map validation problems back to exact locations in tasks.json
+ */
+
+/**
+ * Node in a parsed JSON tree; property nodes have [key, value] children
+ */
+export interface JsonNode {
+  type:
+    | "object"
+    | "array"
+    | "property"
+    | "string"
+    | "number"
+    | "boolean"
+    | "null";
+  offset: number;
+  length: number;
+  value?: any;
+  children?: JsonNode[];
+  parent?: JsonNode;
+}
+
+/**
+ * Result of parsing JSON text: a tree, or the first syntax error
+ */
+export interface JsonParseResult {
+  root?: JsonNode;
+  error?: { message: string; offset: number };
+}
+
+/**
+ * Syntax error raised while scanning, carrying the failing offset
+ */
+class JsonSyntaxError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message);
+  }
+}
+
+/**
+ * Parse JSON text into a tree of nodes with offsets
+ */
+export function parseJsonTree(text: string): JsonParseResult {
+  const scanner = new JsonTreeScanner(text);
+  try {
+    return { root: scanner.parse() };
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return { error: { message: error.message, offset: error.offset } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the node at a property/index path (e.g. ["master", "tasks", 0, "id"])
+ */
+export function findNodeAtPath(
+  root: JsonNode,
+  path: (string | number)[]
+): JsonNode | undefined {
+  let current: JsonNode | undefined = root;
+  for (const segment of path) {
+    if (!current) {
+      return undefined;
+    }
+    if (current.type === "object" && typeof segment === "string") {
+      const property = getProperty(current, segment);
+      current = property?.children?.[1];
+    } else if (current.type === "array" && typeof segment === "number") {
+      current = current.children?.[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Get a property node of an object node by key
+ */
+export function getProperty(
+  objectNode: JsonNode,
+  key: string
+): JsonNode | undefined {
+  return objectNode.children?.find(
+    (property) => property.children?.[0].value === key
+  );
+}
+
+/**
+ * Convert a node back into a plain JavaScript value
+ */
+export function getNodeValue(node: JsonNode): any {
+  switch (node.type) {
+    case "object": {
+      const result: Record<string, any> = {};
+      for (const property of node.children || []) {
+        result[property.children![0].value] = getNodeValue(
+          property.children![1]
+        );
+      }
+      return result;
+    }
+    case "array":
+      return (node.children || []).map(getNodeValue);
+    case "property":
+      return getNodeValue(node.children![1]);
+    default:
+      return node.value;
+  }
+}
+
+/**
+ * Recursive-descent scanner building the node tree
+ */
+class JsonTreeScanner {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  public parse(): JsonNode {
+    const root = this.parseValue(undefined);
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.fail("Unexpected content after the end of the JSON value");
+    }
+    return root;
+  }
+
+  private parseValue(parent: JsonNode | undefined): JsonNode {
+    this.skipWhitespace();
+    const ch = this.text[this.pos];
+
+    if (ch === "{") {
+      return this.parseObject(parent);
+    }
+    if (ch === "[") {
+      return this.parseArray(parent);
+    }
+    if (ch === '"') {
+      return this.parseString(parent);
+    }
+    if (ch === "-" || (ch >= "0" && ch <= "9")) {
+      return this.parseNumber(parent);
+    }
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as [string, boolean | null][]) {
+      if (this.text.startsWith(literal, this.pos)) {
+        const node: JsonNode = {
+          type: value === null ? "null" : "boolean",
+          offset: this.pos,
+          length: literal.length,
+          value,
+          parent,
+        };
+        this.pos += literal.length;
+        return node;
+      }
+    }
+
+    if (ch === undefined) {
+      this.fail("Unexpected end of file");
+    }
+    return this.fail(`Unexpected character '${ch}'`);
+  }
+
+  private parseObject(parent: JsonNode | undefined): JsonNode {
+    const node: JsonNode = {
+      type: "object",
+      offset: this.pos,
+      length: 0,
+      children: [],
+      parent,
+    };
+    this.pos++;
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === "}") {
+      this.pos++;
+    } else {
+      for (;;) {
+        this.skipWhitespace();
+        if (this.text[this.pos] !== '"') {
+          this.fail("Expected a property name in double quotes");
+        }
+        const property: JsonNode = {
+          type: "property",
+          offset: this.pos,
+          length: 0,
+          children: [],
+          parent: node,
+        };
+        const key = this.parseString(property);
+        this.skipWhitespace();
+        if (this.text[this.pos] !== ":") {
+          this.fail("Expected ':' after property name");
+        }
+        this.pos++;
+        const value = this.parseValue(property);
+        property.children = [key, value];
+        property.length = value.offset + value.length - property.offset;
+        node.children!.push(property);
+
+        this.skipWhitespace();
+        if (this.text[this.pos] === ",") {
+          this.pos++;
+          continue;
+        }
+        if (this.text[this.pos] === "}") {
+          this.pos++;
+          break;
+        }
+        this.fail("Expected ',' or '}' after property value");
+      }
+    }
+
+    node.length = this.pos - node.offset;
+    return node;
+  }
+
+  private parseArray(parent: JsonNode | undefined): JsonNode {
+    const node: JsonNode = {
+      type: "array",
+      offset: this.pos,
+      length: 0,
+      children: [],
+      parent,
+    };
+    this.pos++;
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === "]") {
+      this.pos++;
+    } else {
+      for (;;) {
+        node.children!.push(this.parseValue(node));
+        this.skipWhitespace();
+        if (this.text[this.pos] === ",") {
+          this.pos++;
+          continue;
+        }
+        if (this.text[this.pos] === "]") {
+          this.pos++;
+          break;
+        }
+        this.fail("Expected ',' or ']' after array element");
+      }
+    }
+
+    node.length = this.pos - node.offset;
+    return node;
+  }
+
+  private parseString(parent: JsonNode | undefined): JsonNode {
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        const raw = this.text.slice(start, this.pos);
+        let value: string;
+        try {
+          value = JSON.parse(raw);
+        } catch {
+          return this.fail("Invalid escape sequence in string", start);
+        }
+        return {
+          type: "string",
+          offset: start,
+          length: raw.length,
+          value,
+          parent,
+        };
+      }
+      if (ch === "\\") {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === "\n") {
+        break;
+      }
+      this.pos++;
+    }
+    return this.fail("Unterminated string", start);
+  }
+
+  private parseNumber(parent: JsonNode | undefined): JsonNode {
+    const pattern = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      return this.fail("Invalid number");
+    }
+    const node: JsonNode = {
+      type: "number",
+      offset: this.pos,
+      length: match[0].length,
+      value: Number(match[0]),
+      parent,
+    };
+    this.pos += match[0].length;
+    return node;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private fail(message: string, offset: number = this.pos): never {
+    throw new JsonSyntaxError(message, offset);
+  }
+}
@@ -0,0 +1,178 @@
+import { Subtask, Task, TaskPriority } from "../types";
+import { resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions replacing the CLI 'next' command locally
+ * Ranks the tasks and subtasks that can be worked on now and explains the
+ * choice
+ */
+
+/**
+ * A task or subtask that can be worked on now
+ */
+export interface NextTaskCandidate {
+  /** Full ID: "5" or "5.2" */
+  id: string;
+  /** The task itself, or the parent of the subtask */
+  task: Task;
+  subtask?: Subtask;
+  /** Why it ranks where it does, most important first */
+  reasons: string[];
+}
+
+const ACTIONABLE_STATUSES = ["pending", "in-progress"];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Rank the actionable tasks and subtasks of a tag, best first
+ * Only pending and in-progress items whose dependencies are all done are
+ * candidates; dependencies that do not exist are ignored. Ordering:
+ * 1. subtasks of in-progress tasks, so started work gets finished first
+ * 2. items already in progress before pending ones
+ * 3. higher priority (subtasks take their parent's)
+ * 4. lower complexity score, unanalyzed tasks last
+ * 5. fewer dependencies, then lower ID
+ */
+export function rankNextTasks(tasks: Task[]): NextTaskCandidate[] {
+  const ranked: { candidate: NextTaskCandidate; key: number[] }[] = [];
+
+  for (const task of tasks) {
+    const priority = PRIORITY_RANK[task.priority] ?? PRIORITY_RANK.medium;
+    const complexity = task.complexityScore ?? Infinity;
+
+    if (task.status === "in-progress") {
+      for (const subtask of task.subtasks || []) {
+        const dependencies = satisfiedDependencies(subtask, tasks, task);
+        if (!ACTIONABLE_STATUSES.includes(subtask.status) || !dependencies) {
+          continue;
+        }
+        const started = subtask.status === "in-progress";
+        ranked.push({
+          candidate: {
+            id: `${task.id}.${subtask.id}`,
+            task,
+            subtask,
+            reasons: [
+              `continues in-progress task ${task.id}`,
+              ...(started ? ["already in progress"] : []),
+              `${task.priority} priority`,
+              describeDependencies(dependencies),
+            ],
+          },
+          key: [
+            0,
+            started ? 0 : 1,
+            priority,
+            complexity,
+            dependencies.length,
+            Number(task.id),
+            Number(subtask.id),
+          ],
+        });
+      }
+    }
+
+    const dependencies = satisfiedDependencies(task, tasks);
+    if (!ACTIONABLE_STATUSES.includes(task.status) || !dependencies) {
+      continue;
+    }
+    const started = task.status === "in-progress";
+    ranked.push({
+      candidate: {
+        id: `${task.id}`,
+        task,
+        reasons: [
+          started ? "already in progress" : "ready to start",
+          `${task.priority} priority`,
+          ...(task.complexityScore !== undefined
+            ? [`complexity ${task.complexityScore}`]
+            : []),
+          describeDependencies(dependencies),
+        ],
+      },
+      key: [
+        1,
+        started ? 0 : 1,
+        priority,
+        complexity,
+        dependencies.length,
+        Number(task.id),
+        0,
+      ],
+    });
+  }
+
+  return ranked
+    .sort((a, b) => compareKeys(a.key, b.key))
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Explain why the first candidate was picked, e.g. "continues in-progress
+ * task 5, high priority, no dependencies; ahead of 3 other ready tasks"
+ */
+export function explainNextTask(
+  candidates: NextTaskCandidate[]
+): string | undefined {
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  const others = candidates.length - 1;
+  const rest =
+    others === 0
+      ? "the only ready task"
+      : `ahead of ${others} other ready ${others === 1 ? "task" : "tasks"}`;
+  return `${candidates[0].reasons.join(", ")}; ${rest}`;
+}
+
+/**
+ * Full IDs of the existing dependencies of a task or subtask, or undefined
+ * when one of them is not done yet
+ */
+function satisfiedDependencies(
+  node: Task | Subtask,
+  tasks: Task[],
+  parent?: Task
+): string[] | undefined {
+  const ids: string[] = [];
+  for (const dependency of node.dependencies || []) {
+    const fullId = resolveDependencyId(dependency, parent);
+    const [taskId, subtaskId] = fullId.split(".");
+    const target = tasks.find((task) => `${task.id}` === taskId);
+    const status =
+      subtaskId === undefined
+        ? target?.status
+        : target?.subtasks?.find((s) => `${s.id}` === subtaskId)?.status;
+    if (status === undefined) {
+      continue;
+    }
+    if (status !== "done") {
+      return undefined;
+    }
+    ids.push(fullId);
+  }
+  return ids;
+}
+
+function describeDependencies(ids: string[]): string {
+  if (ids.length === 0) {
+    return "no dependencies";
+  }
+  return `${ids.length === 1 ? "dependency" : "dependencies"} ${ids.join(
+    ", "
+  )} done`;
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
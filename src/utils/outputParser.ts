@@ -31,100 +31,6 @@ export function cleanCliOutput(rawOutput: string): string {
   return cleaned;
 }
 
-/**
- * Extract key information from fix-dependencies CLI output
- */
-export function parseDependencyFixOutput(rawOutput: string): {
-  success: boolean;
-  message: string;
-  details?: string;
-} {
-  const cleaned = cleanCliOutput(rawOutput);
-
-  // Check for success indicators
-  if (
-    cleaned.includes("No dependency issues found") ||
-    cleaned.includes("All Dependencies Are Valid") ||
-    cleaned.includes("No changes needed")
-  ) {
-    return {
-      success: true,
-      message: "All dependencies are valid - no fixes needed",
-    };
-  }
-
-  // Check for fixes made
-  if (cleaned.includes("Dependencies fixed") || cleaned.includes("Fixed")) {
-    const taskMatch = cleaned.match(/Tasks checked: (\d+)/);
-    const depMatch = cleaned.match(/dependencies verified: (\d+)/);
-
-    let details = "";
-    if (taskMatch) {
-      details += `${taskMatch[1]} tasks checked`;
-    }
-    if (depMatch) {
-      details += details
-        ? `, ${depMatch[1]} dependencies verified`
-        : `${depMatch[1]} dependencies verified`;
-    }
-
-    return {
-      success: true,
-      message: "Dependencies have been fixed successfully",
-      details,
-    };
-  }
-
-  // Default case
-  return {
-    success: false,
-    message: "Dependency fix completed",
-    details: cleaned,
-  };
-}
-
-/**
- * Extract key information from validate-dependencies CLI output
- */
-export function parseDependencyValidationOutput(rawOutput: string): {
-  success: boolean;
-  message: string;
-  details?: string;
-} {
-  const cleaned = cleanCliOutput(rawOutput);
-
-  // Check for validation success
-  if (
-    cleaned.includes("No dependency issues found") ||
-    cleaned.includes("All Dependencies Are Valid")
-  ) {
-    return {
-      success: true,
-      message: "All dependencies are valid",
-    };
-  }
-
-  // Check for errors
-  if (
-    cleaned.includes("error") ||
-    cleaned.includes("invalid") ||
-    cleaned.includes("circular")
-  ) {
-    return {
-      success: false,
-      message: "Dependency validation found issues",
-      details: cleaned,
-    };
-  }
-
-  // Default case
-  return {
-    success: true,
-    message: "Dependency validation completed",
-    details: cleaned,
-  };
-}
-
 /**
  * Extract key information from task deletion CLI output
  */
@@ -196,41 +102,6 @@ export function parseTaskCreationOutput(rawOutput: string): {
   };
 }
 
-/**
- * Parse the next task command output to extract only the task ID and subtask status
- */
-export function parseNextTaskOutput(rawOutput: string): {
-  success: boolean;
-  id?: number | string; // Can be number for task or string for subtask
-  isSubtask?: boolean;
-  message?: string;
-} {
-  if (!rawOutput) {
-    return { success: false, message: "No output received" };
-  }
-
-  // Look for "Next Task: #ID - Title" pattern (handles both "123" and "123.4" format)
-  const nextTaskMatch = rawOutput.match(
-    /Next Task: #([\d.]+) -/ // Only care about the ID
-  );
-
-  if (!nextTaskMatch) {
-    return { success: false, message: "No next task found" };
-  }
-
-  const taskIdStr = nextTaskMatch[1];
-
-  // Determine if this is a subtask (contains a dot) or main task
-  const isSubtask = taskIdStr.includes(".");
-  const id = isSubtask ? taskIdStr : parseInt(taskIdStr);
-
-  return {
-    success: true,
-    id,
-    isSubtask,
-  };
-}
-
 /**
  * Extract key information from task status change CLI output
  */
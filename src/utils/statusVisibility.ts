@@ -0,0 +1,55 @@
+import { Task, TaskStatus } from "../types";
+
+/**
+ * Utility functions for hiding tasks and subtasks of selected statuses
+ * from the task tree
+ */
+
+/**
+ * Tasks left visible, with their subtasks filtered, and what was hidden
+ */
+export interface StatusVisibilityResult {
+  tasks: Task[];
+  hiddenTasks: number;
+  hiddenSubtasks: number;
+}
+
+/**
+ * Remove tasks and subtasks whose status is hidden
+ * A task of a hidden status stays visible while any of its subtasks does,
+ * so visible subtasks are never orphaned
+ */
+export function applyStatusVisibility(
+  tasks: Task[],
+  hiddenStatuses: TaskStatus[]
+): StatusVisibilityResult {
+  const result: StatusVisibilityResult = {
+    tasks: [],
+    hiddenTasks: 0,
+    hiddenSubtasks: 0,
+  };
+  if (hiddenStatuses.length === 0) {
+    result.tasks = tasks;
+    return result;
+  }
+
+  const hidden = new Set(hiddenStatuses);
+  for (const task of tasks) {
+    const subtasks = task.subtasks || [];
+    const visibleSubtasks = subtasks.filter(
+      (subtask) => !hidden.has(subtask.status)
+    );
+    result.hiddenSubtasks += subtasks.length - visibleSubtasks.length;
+
+    if (hidden.has(task.status) && visibleSubtasks.length === 0) {
+      result.hiddenTasks++;
+      continue;
+    }
+    result.tasks.push(
+      visibleSubtasks.length === subtasks.length
+        ? task
+        : { ...task, subtasks: visibleSubtasks }
+    );
+  }
+  return result;
+}
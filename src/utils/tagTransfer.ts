@@ -0,0 +1,186 @@
+import { Task } from "../types";
+import { findDependents } from "./dependencyAnalyzer";
+import { parseTaskId, resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions for planning task moves and copies between tags
+ * Renumbers the transferred tasks and rewrites the references between them
+ */
+
+export type TagTransferMode = "move" | "copy";
+
+/**
+ * Dependency reference, by full IDs in the source tag's numbering
+ */
+export interface TransferredDependency {
+  taskId: string;
+  dependency: string;
+  /** Full ID of the dependency in the destination tag, when rewritten */
+  to?: string;
+}
+
+/**
+ * What moving or copying tasks into another tag changes
+ */
+export interface TagTransferPlan {
+  mode: TagTransferMode;
+  /** The transferred tasks, renumbered for the destination tag */
+  tasks: Task[];
+  /** Source task ID → destination task ID */
+  renumbered: { from: number; to: number; title: string }[];
+  /** References between transferred tasks, following the renumbering */
+  rewritten: TransferredDependency[];
+  /** References to tasks left behind, which would dangle and are dropped */
+  dropped: TransferredDependency[];
+  /** References from remaining source tasks to moved ones (move only) */
+  detached: TransferredDependency[];
+}
+
+/**
+ * Plan moving or copying top-level tasks (with their subtasks) into another
+ * tag. Transferred tasks get the next free IDs of the destination in their
+ * original order; dependencies between them are rewritten and any other
+ * dependency of theirs is dropped
+ */
+export function planTagTransfer(
+  sourceTasks: Task[],
+  destinationTasks: Task[],
+  taskIds: (string | number)[],
+  mode: TagTransferMode
+): TagTransferPlan {
+  const selected = new Set<number>();
+  for (const id of taskIds) {
+    const parsed = parseTaskId(id);
+    if (!parsed || parsed.subtaskId !== undefined) {
+      throw new Error(`Only top-level tasks can change tags, got ${id}`);
+    }
+    if (!sourceTasks.some((task) => Number(task.id) === parsed.taskId)) {
+      throw new Error(`Task ${parsed.taskId} not found`);
+    }
+    selected.add(parsed.taskId);
+  }
+
+  const originals = sourceTasks
+    .filter((task) => selected.has(Number(task.id)))
+    .sort((a, b) => Number(a.id) - Number(b.id));
+
+  let nextId =
+    destinationTasks.reduce((max, task) => Math.max(max, Number(task.id)), 0) +
+    1;
+  const idMap = new Map<number, number>();
+  originals.forEach((task) => idMap.set(Number(task.id), nextId++));
+
+  const plan: TagTransferPlan = {
+    mode,
+    tasks: [],
+    renumbered: originals.map((task) => ({
+      from: Number(task.id),
+      to: idMap.get(Number(task.id))!,
+      title: task.title,
+    })),
+    rewritten: [],
+    dropped: [],
+    detached: [],
+  };
+
+  // Map a full source ID to its destination ID, if it is transferred too
+  const remap = (fullId: string): string | undefined => {
+    const parsed = parseTaskId(fullId);
+    const newTaskId = parsed && idMap.get(parsed.taskId);
+    if (!parsed || !newTaskId) {
+      return undefined;
+    }
+    return parsed.subtaskId === undefined
+      ? `${newTaskId}`
+      : `${newTaskId}.${parsed.subtaskId}`;
+  };
+
+  for (const original of originals) {
+    const task: Task = JSON.parse(JSON.stringify(original));
+    const newId = idMap.get(Number(original.id))!;
+    task.id = newId;
+
+    const transferDependencies = (
+      ownerId: string,
+      dependencies: (string | number)[],
+      parent?: Task
+    ): (string | number)[] =>
+      dependencies.flatMap((dep) => {
+        const fullId = resolveDependencyId(dep, parent);
+        const newFullId = remap(fullId);
+        if (newFullId === undefined) {
+          plan.dropped.push({ taskId: ownerId, dependency: fullId });
+          return [];
+        }
+        // References within the task follow it implicitly
+        const withinTask =
+          !!parent && parseTaskId(fullId)!.taskId === Number(original.id);
+        if (newFullId !== fullId && !withinTask) {
+          plan.rewritten.push({
+            taskId: ownerId,
+            dependency: fullId,
+            to: newFullId,
+          });
+        }
+
+        // Encoded like the CLI: siblings as subtask numbers, tasks as numbers
+        const parsed = parseTaskId(newFullId)!;
+        if (parsed.subtaskId === undefined) {
+          // A plain number matching a sibling would be read as that sibling
+          const collides = (parent?.subtasks || []).some(
+            (subtask) => Number(subtask.id) === parsed.taskId
+          );
+          if (collides) {
+            throw new Error(
+              `Subtask ${ownerId} would depend on task ${parsed.taskId}, ` +
+                `which reads as its sibling ${newId}.${parsed.taskId} ` +
+                `in the destination tag`
+            );
+          }
+          return [parsed.taskId];
+        }
+        return [
+          parent && parsed.taskId === newId ? parsed.subtaskId : newFullId,
+        ];
+      });
+
+    task.dependencies = transferDependencies(
+      `${original.id}`,
+      original.dependencies || []
+    ) as number[];
+
+    task.subtasks = (original.subtasks || []).map((subtask, index) => ({
+      ...task.subtasks![index],
+      parentId: newId,
+      dependencies: transferDependencies(
+        `${original.id}.${subtask.id}`,
+        subtask.dependencies || [],
+        original
+      ) as number[],
+    }));
+
+    plan.tasks.push(task);
+  }
+
+  if (mode === "move") {
+    const movedIds = new Set(originals.map((task) => `${task.id}`));
+    const isMoved = (fullId: string) => movedIds.has(fullId.split(".")[0]);
+    for (const original of originals) {
+      const nodeIds = [
+        `${original.id}`,
+        ...(original.subtasks || []).map(
+          (subtask) => `${original.id}.${subtask.id}`
+        ),
+      ];
+      for (const nodeId of nodeIds) {
+        for (const dependent of findDependents(sourceTasks, nodeId)) {
+          if (!isMoved(dependent)) {
+            plan.detached.push({ taskId: dependent, dependency: nodeId });
+          }
+        }
+      }
+    }
+  }
+
+  return plan;
+}
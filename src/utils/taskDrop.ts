@@ -0,0 +1,146 @@
+import { Task } from "../types";
+import { parseTaskId } from "./taskIdUtils";
+
+/**
+ * Utility functions for planning drag-and-drop in the task tree
+ * Works out whether a drop adds a dependency or moves the dragged items
+ */
+
+/**
+ * A move in the sense of the CLI 'move' command, by full IDs
+ */
+export interface TaskMove {
+  from: string;
+  to: string;
+}
+
+export type TaskDropAction =
+  | { kind: "dependency"; ids: string[]; dependsOn: string }
+  | { kind: "move"; moves: TaskMove[] };
+
+/**
+ * One way of applying a drop, offered to the user when there are several
+ */
+export interface TaskDropOption {
+  label: string;
+  detail: string;
+  action: TaskDropAction;
+}
+
+/**
+ * Work out what dropping tasks or subtasks ("5", "5.2") onto a target can
+ * do. The target is a task or subtask ID, or undefined for the tree root:
+ * - tasks onto a task or subtask: depend on it, or become subtasks of it
+ * - subtasks onto another task: move under it
+ * - a subtask onto a subtask: take its position, reordering or reparenting
+ * - subtasks onto the root: become standalone tasks
+ * Returns no options when the drop would not change anything
+ */
+export function planTaskDrop(
+  tasks: Task[],
+  sourceIds: string[],
+  targetId: string | undefined
+): TaskDropOption[] {
+  const target = targetId === undefined ? undefined : parseTaskId(targetId);
+  if (target === null) {
+    return [];
+  }
+  const sources = [...new Set(sourceIds)]
+    .filter((id) => id !== targetId)
+    .map((id) => ({ id, parsed: parseTaskId(id) }));
+  if (sources.length === 0 || sources.some(({ parsed }) => !parsed)) {
+    return [];
+  }
+  // A task cannot be dropped onto one of its own subtasks
+  if (sources.some(({ id }) => id === `${target?.taskId}`)) {
+    return [];
+  }
+  const ids = sources.map(({ id }) => id);
+  const names = describe(ids);
+  const subtaskCount = sources.filter(
+    ({ parsed }) => parsed!.subtaskId !== undefined
+  ).length;
+  const onlyTasks = subtaskCount === 0;
+  const onlySubtasks = subtaskCount === sources.length;
+
+  if (target === undefined) {
+    if (!onlySubtasks) {
+      return [];
+    }
+    let nextId = nextTaskId(tasks);
+    return [
+      {
+        label: `Promote ${names} to standalone tasks`,
+        detail: "Subtasks become top-level tasks with the next free IDs",
+        action: {
+          kind: "move",
+          moves: ids.map((id) => ({ from: id, to: `${nextId++}` })),
+        },
+      },
+    ];
+  }
+
+  const options: TaskDropOption[] = [];
+  if (onlyTasks) {
+    options.push({
+      label: `Make ${names} depend on ${targetId}`,
+      detail: `${targetId} has to be done before ${names}`,
+      action: { kind: "dependency", ids, dependsOn: targetId! },
+    });
+  }
+
+  if (target.subtaskId === undefined) {
+    // Append under the target task, skipping subtasks already there
+    const moving = ids.filter((id) => !id.startsWith(`${target.taskId}.`));
+    let nextId = nextSubtaskId(tasks, target.taskId);
+    if (moving.length > 0) {
+      options.push({
+        label: onlyTasks
+          ? `Convert ${names} into subtasks of ${targetId}`
+          : `Move ${describe(moving)} under ${targetId}`,
+        detail: `Appended to the subtasks of task ${targetId}`,
+        action: {
+          kind: "move",
+          moves: moving.map((id) => ({
+            from: id,
+            to: `${target.taskId}.${nextId++}`,
+          })),
+        },
+      });
+    }
+  } else if (sources.length === 1) {
+    const [{ id, parsed }] = sources;
+    let label = `Convert ${id} into subtask ${targetId}`;
+    if (parsed!.subtaskId !== undefined) {
+      label =
+        parsed!.taskId === target.taskId
+          ? `Move ${id} to position ${target.subtaskId}`
+          : `Move ${id} to ${targetId}`;
+    }
+    options.push({
+      label,
+      detail: `Subtasks of task ${target.taskId} are renumbered in order`,
+      action: { kind: "move", moves: [{ from: id, to: targetId! }] },
+    });
+  }
+
+  return options;
+}
+
+function nextTaskId(tasks: Task[]): number {
+  return tasks.reduce((max, task) => Math.max(max, Number(task.id)), 0) + 1;
+}
+
+function nextSubtaskId(tasks: Task[], taskId: number): number {
+  const parent = tasks.find((task) => Number(task.id) === taskId);
+  return (
+    (parent?.subtasks || []).reduce(
+      (max, subtask) => Math.max(max, Number(subtask.id)),
+      0
+    ) + 1
+  );
+}
+
+function describe(ids: string[]): string {
+  return ids.length === 1 ? ids[0] : `${ids.length} tasks`;
+}
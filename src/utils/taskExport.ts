@@ -0,0 +1,104 @@
+import { Task } from "../types";
+import { parseTaskId, resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions for exporting selected tasks as Markdown or JSON
+ */
+
+export type TaskExportFormat = "markdown" | "json";
+
+/**
+ * Pick the exported tasks in ID order: a selected task comes with all its
+ * subtasks, a subtask selected without its parent comes under a copy of the
+ * parent holding only the selected subtasks
+ */
+export function selectTasksForExport(
+  tasks: Task[],
+  ids: (string | number)[]
+): Task[] {
+  const wholeTasks = new Set<number>();
+  const subtaskIds = new Map<number, Set<number>>();
+  for (const id of ids) {
+    const parsed = parseTaskId(id);
+    if (!parsed) {
+      throw new Error(`Invalid task ID: ${id}`);
+    }
+    if (parsed.subtaskId === undefined) {
+      wholeTasks.add(parsed.taskId);
+    } else {
+      const selected = subtaskIds.get(parsed.taskId) || new Set<number>();
+      subtaskIds.set(parsed.taskId, selected.add(parsed.subtaskId));
+    }
+  }
+
+  return tasks
+    .filter((task) => {
+      const id = Number(task.id);
+      return wholeTasks.has(id) || subtaskIds.has(id);
+    })
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .map((task) => {
+      const selected = subtaskIds.get(Number(task.id));
+      if (wholeTasks.has(Number(task.id)) || !selected) {
+        return task;
+      }
+      return {
+        ...task,
+        subtasks: (task.subtasks || []).filter((subtask) =>
+          selected.has(Number(subtask.id))
+        ),
+      };
+    });
+}
+
+/**
+ * Render tasks in an export format
+ */
+export function formatTaskExport(
+  tasks: Task[],
+  format: TaskExportFormat,
+  tag: string
+): string {
+  if (format === "json") {
+    return JSON.stringify({ tag, tasks }, null, 2) + "\n";
+  }
+
+  const lines = [`# Tasks (${tag})`, ""];
+  for (const task of tasks) {
+    lines.push(`## ${task.id}. ${task.title}`, "");
+    lines.push(`- Status: ${task.status}`, `- Priority: ${task.priority}`);
+    const dependencies = (task.dependencies || []).map((dep) =>
+      resolveDependencyId(dep)
+    );
+    if (dependencies.length > 0) {
+      lines.push(`- Dependencies: ${dependencies.join(", ")}`);
+    }
+    if (task.complexityScore !== undefined) {
+      lines.push(`- Complexity: ${task.complexityScore}`);
+    }
+    lines.push("");
+
+    if (task.description) {
+      lines.push(task.description, "");
+    }
+    if (task.details) {
+      lines.push("### Details", "", task.details, "");
+    }
+    if (task.testStrategy) {
+      lines.push("### Test Strategy", "", task.testStrategy, "");
+    }
+
+    const subtasks = task.subtasks || [];
+    if (subtasks.length > 0) {
+      lines.push("### Subtasks", "");
+      for (const subtask of subtasks) {
+        const check = subtask.status === "done" ? "x" : " ";
+        lines.push(
+          `- [${check}] ${task.id}.${subtask.id} ${subtask.title} (${subtask.status})`
+        );
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,173 @@
+import { Task, TaskPriority, TaskStatus } from "../types";
+import { buildDependencyGraph, computeLayers } from "./dependencyGraph";
+import { resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Utility functions for grouping and sorting the tasks of the task tree
+ * Groups by status, priority, complexity or readiness
+ */
+
+export type TaskGroupMode =
+  | "none"
+  | "status"
+  | "priority"
+  | "complexity"
+  | "readiness";
+
+export type TaskSortMode = "id" | "priority" | "complexity" | "depth";
+
+/**
+ * Tasks sharing a group key, e.g. all pending tasks
+ */
+export interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+const STATUS_GROUPS: { key: TaskStatus; label: string }[] = [
+  { key: "in-progress", label: "In Progress" },
+  { key: "pending", label: "Pending" },
+  { key: "review", label: "Review" },
+  { key: "blocked", label: "Blocked" },
+  { key: "deferred", label: "Deferred" },
+  { key: "done", label: "Done" },
+  { key: "cancelled", label: "Cancelled" },
+];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+const COMPLEXITY_BANDS = [
+  { key: "high", label: "High complexity (8-10)", min: 8, max: Infinity },
+  { key: "medium", label: "Medium complexity (5-7)", min: 5, max: 8 },
+  { key: "low", label: "Low complexity (1-4)", min: -Infinity, max: 5 },
+];
+
+const FINISHED_STATUSES: TaskStatus[] = ["done", "cancelled"];
+
+/**
+ * Sort tasks, falling back to ID order between equal tasks
+ * allTasks is the whole tag, used to measure dependency depth when only a
+ * subset of it is shown
+ */
+export function sortTasks(
+  tasks: Task[],
+  mode: TaskSortMode,
+  allTasks: Task[] = tasks
+): Task[] {
+  const byId = (a: Task, b: Task) => Number(a.id) - Number(b.id);
+  let rank: (task: Task) => number;
+  switch (mode) {
+    case "priority":
+      rank = (task) => PRIORITY_RANK[task.priority] ?? PRIORITY_RANK.medium;
+      break;
+    case "complexity":
+      // Most complex first, unanalyzed tasks last
+      rank = (task) => -(task.complexityScore ?? -Infinity);
+      break;
+    case "depth": {
+      const layers = computeLayers(buildDependencyGraph(allTasks));
+      rank = (task) => layers.get(String(task.id)) ?? 0;
+      break;
+    }
+    default:
+      rank = () => 0;
+  }
+  return [...tasks].sort((a, b) => rank(a) - rank(b) || byId(a, b));
+}
+
+/**
+ * Split tasks into groups in a fixed order, leaving out empty groups
+ * allTasks is the whole tag, used to look up the status of dependencies
+ */
+export function groupTasks(
+  tasks: Task[],
+  mode: Exclude<TaskGroupMode, "none">,
+  allTasks: Task[] = tasks
+): TaskGroup[] {
+  let groups: { key: string; label: string; accepts: (t: Task) => boolean }[];
+  switch (mode) {
+    case "status":
+      groups = STATUS_GROUPS.map(({ key, label }) => ({
+        key,
+        label,
+        accepts: (task) => task.status === key,
+      }));
+      break;
+    case "priority":
+      groups = (Object.keys(PRIORITY_RANK) as TaskPriority[]).map((key) => ({
+        key,
+        label: `${key[0].toUpperCase()}${key.slice(1)} priority`,
+        accepts: (task) => task.priority === key,
+      }));
+      break;
+    case "complexity":
+      groups = [
+        ...COMPLEXITY_BANDS.map(({ key, label, min, max }) => ({
+          key,
+          label,
+          accepts: (task: Task) =>
+            task.complexityScore !== undefined &&
+            task.complexityScore >= min &&
+            task.complexityScore < max,
+        })),
+        {
+          key: "unanalyzed",
+          label: "Not analyzed",
+          accepts: (task) => task.complexityScore === undefined,
+        },
+      ];
+      break;
+    case "readiness": {
+      const blocked = (task: Task) => isBlockedByDependencies(task, allTasks);
+      const finished = (task: Task) => FINISHED_STATUSES.includes(task.status);
+      groups = [
+        {
+          key: "ready",
+          label: "Ready",
+          accepts: (task) => !finished(task) && !blocked(task),
+        },
+        {
+          key: "blocked",
+          label: "Blocked by dependencies",
+          accepts: (task) => !finished(task) && blocked(task),
+        },
+        { key: "finished", label: "Finished", accepts: finished },
+      ];
+      break;
+    }
+  }
+
+  // Tasks with an unexpected value land in an "Other" group
+  const grouped = groups.map(({ key, label, accepts }) => ({
+    key,
+    label,
+    tasks: tasks.filter(accepts),
+  }));
+  const other = tasks.filter((task) => !groups.some((g) => g.accepts(task)));
+  grouped.push({ key: "other", label: "Other", tasks: other });
+  return grouped.filter((group) => group.tasks.length > 0);
+}
+
+/**
+ * Check whether a task waits on a dependency that is not done yet
+ * Dependencies that do not exist are not counted
+ */
+export function isBlockedByDependencies(
+  task: Task,
+  allTasks: Task[]
+): boolean {
+  return (task.dependencies || []).some((dependency) => {
+    const [taskId, subtaskId] = resolveDependencyId(dependency).split(".");
+    const target = allTasks.find((candidate) => `${candidate.id}` === taskId);
+    const status =
+      subtaskId === undefined
+        ? target?.status
+        : target?.subtasks?.find((s) => String(s.id) === subtaskId)?.status;
+    return status !== undefined && status !== "done";
+  });
+}
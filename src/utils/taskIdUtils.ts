@@ -0,0 +1,79 @@
+/**
+ * Utility functions for parsing and formatting task and subtask IDs
+ * Tasks have positive integer IDs, subtasks "parentId.subtaskId" ones
+ */
+
+/**
+ * Parsed representation of a task ("5") or subtask ("5.2") ID
+ */
+export interface ParsedTaskId {
+  taskId: number;
+  subtaskId?: number;
+}
+
+/**
+ * Parse a task or subtask ID ("5", 5 or "5.2") into its numeric parts
+ * Returns null when the value is not a valid positive ID
+ */
+export function parseTaskId(id: string | number): ParsedTaskId | null {
+  const value = String(id).trim();
+  const match = value.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const taskId = parseInt(match[1], 10);
+  if (taskId <= 0) {
+    return null;
+  }
+
+  if (match[2] === undefined) {
+    return { taskId };
+  }
+
+  const subtaskId = parseInt(match[2], 10);
+  if (subtaskId <= 0) {
+    return null;
+  }
+
+  return { taskId, subtaskId };
+}
+
+/**
+ * Format a parsed ID back into its CLI representation ("5" or "5.2")
+ */
+export function formatTaskId(id: ParsedTaskId): string {
+  return id.subtaskId === undefined
+    ? `${id.taskId}`
+    : `${id.taskId}.${id.subtaskId}`;
+}
+
+/**
+ * Check whether an ID refers to a subtask ("parentId.subtaskId" format)
+ */
+export function isSubtaskId(id: string | number): boolean {
+  const parsed = parseTaskId(id);
+  return !!parsed && parsed.subtaskId !== undefined;
+}
+
+/**
+ * Resolve a dependency reference to its full ID ("5" or "5.2")
+ * Dependencies written as "parentId.subtaskId" are kept as-is; numeric
+ * subtask dependencies refer to a sibling subtask when the parent has one
+ * with that ID, and to a top-level task otherwise
+ */
+export function resolveDependencyId(
+  dependency: string | number,
+  parent?: { id: string | number; subtasks?: { id: string | number }[] }
+): string {
+  const value = String(dependency).trim();
+  if (parent && /^\d+$/.test(value)) {
+    const hasSibling = (parent.subtasks || []).some(
+      (subtask) => String(subtask.id) === value
+    );
+    if (hasSibling) {
+      return `${parent.id}.${value}`;
+    }
+  }
+  return value;
+}
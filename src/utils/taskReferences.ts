@@ -0,0 +1,285 @@
+/**
+ * Utility functions for finding task references in source code
+ * Recognizes comments such as "// TM-42" or "// task 42.3"
+ */
+
+/**
+ * Pattern used when none is configured; the first capture group is the
+ * task ("42") or subtask ("42.3") ID
+ */
+export const DEFAULT_TASK_REFERENCE_PATTERN =
+  "\\b(?:TM-|[Tt]ask\\s+#?)(\\d+(?:\\.\\d+)?)\\b";
+
+/**
+ * Comment and string delimiters of a language
+ */
+export interface CommentSyntax {
+  /** Starts of comments that run to the end of the line */
+  line: string[];
+  /** Open and close delimiters of block comments */
+  block: [string, string][];
+  /** String quotes, within which comment delimiters are plain text */
+  strings: string[];
+}
+
+const C_LIKE: CommentSyntax = {
+  line: ["//"],
+  block: [["/*", "*/"]],
+  strings: ['"', "'", "`"],
+};
+
+const HASH: CommentSyntax = {
+  line: ["#"],
+  block: [],
+  strings: ['"""', "'''", '"', "'"],
+};
+
+const DASH: CommentSyntax = {
+  line: ["--"],
+  block: [["/*", "*/"]],
+  strings: ["'", '"'],
+};
+
+/** Syntax of languages without an entry below */
+const DEFAULT_COMMENT_SYNTAX: CommentSyntax = {
+  line: ["//", "#"],
+  block: [
+    ["/*", "*/"],
+    ["<!--", "-->"],
+  ],
+  strings: ['"'],
+};
+
+/** Syntax by VS Code language ID */
+const LANGUAGE_COMMENT_SYNTAX = new Map<string, CommentSyntax>(
+  (
+    [
+      [
+        C_LIKE,
+        [
+          "c",
+          "cpp",
+          "csharp",
+          "dart",
+          "go",
+          "groovy",
+          "java",
+          "javascript",
+          "javascriptreact",
+          "jsonc",
+          "kotlin",
+          "less",
+          "objective-c",
+          "objective-cpp",
+          "scala",
+          "scss",
+          "swift",
+          "typescript",
+          "typescriptreact",
+        ],
+      ],
+      // Lifetimes and char literals would be taken for strings
+      [{ ...C_LIKE, strings: ['"'] }, ["rust"]],
+      [{ ...C_LIKE, line: [] }, ["css"]],
+      [{ ...C_LIKE, line: ["//", "#"] }, ["php"]],
+      [
+        HASH,
+        [
+          "coffeescript",
+          "dockerfile",
+          "elixir",
+          "julia",
+          "makefile",
+          "perl",
+          "python",
+          "r",
+          "ruby",
+          "shellscript",
+          "toml",
+        ],
+      ],
+      [{ ...HASH, strings: ['"'] }, ["yaml"]],
+      [{ ...HASH, block: [["<#", "#>"]] }, ["powershell"]],
+      [{ line: [";", "#"], block: [], strings: ['"'] }, ["ini"]],
+      [DASH, ["sql"]],
+      [{ ...DASH, block: [["--[[", "]]"]] }, ["lua"]],
+      [{ ...DASH, block: [["{-", "-}"]] }, ["haskell"]],
+      [{ line: ["%"], block: [], strings: [] }, ["latex", "matlab", "tex"]],
+      [{ line: ["%"], block: [], strings: ['"'] }, ["erlang"]],
+      [{ line: [";"], block: [], strings: ['"'] }, ["clojure"]],
+      [
+        { line: [], block: [["<!--", "-->"]], strings: [] },
+        ["html", "markdown", "xml"],
+      ],
+    ] as [CommentSyntax, string[]][]
+  ).flatMap(([syntax, languageIds]) =>
+    languageIds.map((languageId) => [languageId, syntax] as const)
+  )
+);
+
+/**
+ * A task reference found in a text, by offset
+ */
+export interface TaskReference {
+  /** Full ID: "42" or "42.3" */
+  id: string;
+  /** Offset and length of the whole match */
+  index: number;
+  length: number;
+}
+
+/**
+ * Compile a reference pattern for scanning
+ * Returns undefined when it is not a valid regular expression or has no
+ * capture group for the ID
+ */
+export function compileTaskReferencePattern(
+  pattern: string
+): RegExp | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, "g");
+  } catch {
+    return undefined;
+  }
+  // An alternative matching the empty string reveals the group count
+  const groups = new RegExp(`${pattern}|`).exec("")!.length - 1;
+  return groups > 0 ? regex : undefined;
+}
+
+/**
+ * Find all task references in the comments of a text, in the comment
+ * syntax of a VS Code language
+ * Matches outside comments, and matches whose ID group is not a task or
+ * subtask ID, are skipped
+ */
+export function findTaskReferences(
+  text: string,
+  pattern: RegExp,
+  languageId?: string
+): TaskReference[] {
+  const comments = findCommentRanges(text, getCommentSyntax(languageId));
+  const references: TaskReference[] = [];
+  let comment = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index!;
+    while (comment < comments.length && comments[comment][1] <= index) {
+      comment++;
+    }
+    if (
+      match[0].length === 0 ||
+      !/^\d+(\.\d+)?$/.test(match[1] ?? "") ||
+      comment === comments.length ||
+      comments[comment][0] > index
+    ) {
+      continue;
+    }
+    references.push({ id: match[1], index, length: match[0].length });
+  }
+  return references;
+}
+
+/**
+ * Comment syntax of a VS Code language, or a mix of the common comment
+ * styles for languages without one
+ */
+export function getCommentSyntax(languageId?: string): CommentSyntax {
+  return (
+    (languageId && LANGUAGE_COMMENT_SYNTAX.get(languageId)) ||
+    DEFAULT_COMMENT_SYNTAX
+  );
+}
+
+/**
+ * Find the [start, end) offsets of the comments of a text, in order
+ * Comment delimiters inside strings are skipped, as are string quotes
+ * inside comments
+ */
+export function findCommentRanges(
+  text: string,
+  syntax: CommentSyntax
+): [number, number][] {
+  const ranges: [number, number][] = [];
+  let index = 0;
+  while (index < text.length) {
+    const block = syntax.block.find(([open]) => text.startsWith(open, index));
+    const line = syntax.line.find((start) => text.startsWith(start, index));
+    const quote = syntax.strings.find((q) => text.startsWith(q, index));
+    if (block) {
+      const close = text.indexOf(block[1], index + block[0].length);
+      const end = close === -1 ? text.length : close + block[1].length;
+      ranges.push([index, end]);
+      index = end;
+    } else if (line !== undefined) {
+      const newline = text.indexOf("\n", index);
+      const end = newline === -1 ? text.length : newline;
+      ranges.push([index, end]);
+      index = end;
+    } else if (quote) {
+      index = findStringEnd(text, index + quote.length, quote);
+    } else {
+      index++;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Offset after the closing quote of a string starting before an offset;
+ * strings in single " or ' quotes end with their line when left open
+ */
+function findStringEnd(text: string, index: number, quote: string): number {
+  const multiline = quote.length > 1 || quote === "`";
+  while (index < text.length) {
+    if (text[index] === "\\") {
+      index += 2;
+    } else if (text.startsWith(quote, index)) {
+      return index + quote.length;
+    } else if (text[index] === "\n" && !multiline) {
+      return index;
+    } else {
+      index++;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Turn a reference pattern into a search for one task by putting the ID in
+ * place of the first capture group: "\b(?:TM-)(\d+)\b" becomes
+ * "\b(?:TM-)42\b". Returns undefined when there is no capture group
+ */
+export function taskReferenceSearchPattern(
+  pattern: string,
+  id: string
+): string | undefined {
+  let start = -1;
+  let depth = 0;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      const capturing =
+        pattern[i + 1] !== "?" ||
+        (pattern[i + 2] === "<" && !"=!".includes(pattern[i + 3]));
+      if (start === -1 && capturing) {
+        start = i;
+        depth = 0;
+      }
+      depth++;
+    } else if (char === ")" && start !== -1) {
+      depth--;
+      if (depth === 0) {
+        const escaped = id.replace(/\./g, "\\.");
+        return pattern.slice(0, start) + escaped + pattern.slice(i + 1);
+      }
+    }
+  }
+  return undefined;
+}
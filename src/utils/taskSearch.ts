@@ -0,0 +1,397 @@
+import { Subtask, Task, TaskStatus } from "../types";
+import { resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Fuzzy task search with a small query syntax:
+ *   free text        fuzzy-matched against the task and its subtasks
+ *   "exact phrase"   matched as a substring
+ *   status:pending   priority:high   dep:12   complexity:>7   tag:feature-x
+ * Qualifiers accept comma-separated alternatives (status:pending,review);
+ * different qualifiers and text terms must all match. tag: picks the tag
+ * whose tasks are searched, so it takes a single tag
+ */
+
+/** Half-open [start, end) character range of a match */
+export type HighlightRange = [number, number];
+
+export interface ComplexityFilter {
+  operator: ">" | ">=" | "<" | "<=" | "=";
+  value: number;
+}
+
+export interface TaskSearchQuery {
+  /** Lower-cased text terms; quoted phrases are kept whole */
+  terms: string[];
+  statuses: string[];
+  priorities: string[];
+  /** Full IDs ("12" or "12.1") the task must depend on */
+  dependencies: string[];
+  complexity: ComplexityFilter[];
+  /** Tag to search instead of the current one */
+  tag?: string;
+  /** Qualifiers that could not be understood */
+  errors: string[];
+}
+
+export interface TaskSearchMatch {
+  taskId: number;
+  /** Ranges of the task title matching a text term */
+  titleHighlights: HighlightRange[];
+  /** Subtask ID → ranges of its title, for subtasks matching a text term */
+  subtasks: Map<number, HighlightRange[]>;
+}
+
+const QUALIFIERS = ["status", "priority", "dep", "complexity", "tag"];
+const TOKEN_PATTERN = /([a-z]+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/gi;
+const COMPLEXITY_PATTERN = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse a search query into text terms and qualifiers
+ * Unknown qualifiers are searched as text
+ */
+export function parseSearchQuery(query: string): TaskSearchQuery {
+  const parsed: TaskSearchQuery = {
+    terms: [],
+    statuses: [],
+    priorities: [],
+    dependencies: [],
+    complexity: [],
+    errors: [],
+  };
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, rawKey, rawValue, phrase, word] = match;
+    const key = rawKey?.toLowerCase();
+    if (!key || !QUALIFIERS.includes(key)) {
+      const term = (phrase ?? word ?? token).trim().toLowerCase();
+      if (term) {
+        parsed.terms.push(term);
+      }
+      continue;
+    }
+
+    const values = rawValue
+      .replace(/^"|"$/g, "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value !== "");
+    if (values.length === 0) {
+      parsed.errors.push(`Missing value for ${key}:`);
+      continue;
+    }
+
+    for (const value of values) {
+      switch (key) {
+        case "status":
+          parsed.statuses.push(value.toLowerCase());
+          break;
+        case "priority":
+          parsed.priorities.push(value.toLowerCase());
+          break;
+        case "dep":
+          parsed.dependencies.push(resolveDependencyId(value));
+          break;
+        case "tag":
+          if (parsed.tag !== undefined && parsed.tag !== value) {
+            parsed.errors.push("Only one tag can be searched at a time");
+            break;
+          }
+          parsed.tag = value;
+          break;
+        case "complexity": {
+          const comparison = value.match(COMPLEXITY_PATTERN);
+          if (!comparison) {
+            parsed.errors.push(`Invalid complexity: ${value}`);
+            break;
+          }
+          parsed.complexity.push({
+            operator: (comparison[1] || "=") as ComplexityFilter["operator"],
+            value: Number(comparison[2]),
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Check whether a query has nothing to search for
+ */
+export function isEmptySearchQuery(query: TaskSearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.statuses.length === 0 &&
+    query.priorities.length === 0 &&
+    query.dependencies.length === 0 &&
+    query.complexity.length === 0 &&
+    query.tag === undefined
+  );
+}
+
+/**
+ * Fuzzy-match a lower-cased term against text
+ * The term matches as a substring anywhere, or as a subsequence of a single
+ * word starting with the same character ("impl" → "implement",
+ * "athn" → "authentication"). Returns the matched ranges, or undefined
+ */
+export function fuzzyMatch(
+  term: string,
+  text: string | undefined
+): HighlightRange[] | undefined {
+  if (!text || !term) {
+    return undefined;
+  }
+
+  const lowerText = text.toLowerCase();
+  const index = lowerText.indexOf(term);
+  if (index !== -1) {
+    return [[index, index + term.length]];
+  }
+  if (/\s/.test(term)) {
+    return undefined;
+  }
+
+  for (const word of lowerText.matchAll(/[a-z0-9]+/g)) {
+    if (word[0][0] !== term[0] || word[0].length < term.length) {
+      continue;
+    }
+    const ranges = matchSubsequence(term, word[0], word.index!);
+    if (ranges) {
+      return ranges;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Match the characters of a term in order within a word
+ */
+function matchSubsequence(
+  term: string,
+  word: string,
+  offset: number
+): HighlightRange[] | undefined {
+  const ranges: HighlightRange[] = [];
+  let position = 0;
+  for (const char of term) {
+    const found = word.indexOf(char, position);
+    if (found === -1) {
+      return undefined;
+    }
+    const start = offset + found;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === start) {
+      last[1] = start + 1;
+    } else {
+      ranges.push([start, start + 1]);
+    }
+    position = found + 1;
+  }
+  return ranges;
+}
+
+/**
+ * Find the tasks of a tag matching a query, in their original order
+ * A task matches when it satisfies the qualifiers and every text term is
+ * found in its title, description, details or test strategy, or in the text
+ * of one of its subtasks. Otherwise it is listed for the subtasks that
+ * satisfy the qualifiers and contain every term themselves; subtasks have no
+ * priority or complexity of their own and use their parent's
+ */
+export function searchTasks(
+  tasks: Task[],
+  query: TaskSearchQuery
+): TaskSearchMatch[] {
+  const matches: TaskSearchMatch[] = [];
+  for (const task of tasks) {
+    const match = matchTask(task, query) ?? matchSubtasks(task, query);
+    if (match) {
+      matches.push(match);
+    }
+  }
+  return matches;
+}
+
+function matchTask(
+  task: Task,
+  query: TaskSearchQuery
+): TaskSearchMatch | undefined {
+  const dependencies = (task.dependencies || []).map((dep) =>
+    resolveDependencyId(dep)
+  );
+  if (!matchesQualifiers(task, task.status, dependencies, query)) {
+    return undefined;
+  }
+
+  const match: TaskSearchMatch = {
+    taskId: Number(task.id),
+    titleHighlights: [],
+    subtasks: new Map(),
+  };
+  const everyTermFound = query.terms.every((term) => {
+    let found = false;
+
+    const titleRanges = fuzzyMatch(term, task.title);
+    if (titleRanges) {
+      match.titleHighlights.push(...titleRanges);
+      found = true;
+    }
+    found =
+      [task.description, task.details, task.testStrategy].some(
+        (text) => fuzzyMatch(term, text) !== undefined
+      ) || found;
+
+    for (const subtask of task.subtasks || []) {
+      const subtaskTitleRanges = matchSubtaskText(term, subtask);
+      if (subtaskTitleRanges) {
+        const subtaskId = Number(subtask.id);
+        match.subtasks.set(subtaskId, [
+          ...(match.subtasks.get(subtaskId) || []),
+          ...subtaskTitleRanges,
+        ]);
+        found = true;
+      }
+    }
+    return found;
+  });
+  if (!everyTermFound) {
+    return undefined;
+  }
+
+  match.titleHighlights = mergeRanges(match.titleHighlights);
+  for (const [subtaskId, ranges] of match.subtasks) {
+    match.subtasks.set(subtaskId, mergeRanges(ranges));
+  }
+  return match;
+}
+
+function matchSubtasks(
+  task: Task,
+  query: TaskSearchQuery
+): TaskSearchMatch | undefined {
+  // Without qualifiers, text in subtasks already counts for their parent
+  if (
+    query.statuses.length === 0 &&
+    query.priorities.length === 0 &&
+    query.dependencies.length === 0 &&
+    query.complexity.length === 0
+  ) {
+    return undefined;
+  }
+
+  const subtasks = new Map<number, HighlightRange[]>();
+  for (const subtask of task.subtasks || []) {
+    const dependencies = (subtask.dependencies || []).map((dep) =>
+      resolveDependencyId(dep, task)
+    );
+    if (!matchesQualifiers(task, subtask.status, dependencies, query)) {
+      continue;
+    }
+
+    const ranges: HighlightRange[] = [];
+    const everyTermFound = query.terms.every((term) => {
+      const titleRanges = matchSubtaskText(term, subtask);
+      ranges.push(...(titleRanges || []));
+      return titleRanges !== undefined;
+    });
+    if (everyTermFound) {
+      subtasks.set(Number(subtask.id), mergeRanges(ranges));
+    }
+  }
+
+  return subtasks.size > 0
+    ? { taskId: Number(task.id), titleHighlights: [], subtasks }
+    : undefined;
+}
+
+/**
+ * Match a term against the text of a subtask
+ * Returns the ranges of its title (possibly none), or undefined when the
+ * term is not found
+ */
+function matchSubtaskText(
+  term: string,
+  subtask: Subtask
+): HighlightRange[] | undefined {
+  const titleRanges = fuzzyMatch(term, subtask.title);
+  if (titleRanges) {
+    return titleRanges;
+  }
+  return [subtask.description, subtask.details].some(
+    (text) => fuzzyMatch(term, text) !== undefined
+  )
+    ? []
+    : undefined;
+}
+
+/**
+ * Check the qualifiers against a task, or a subtask of it given its own
+ * status and (full ID) dependencies; subtasks have no priority or
+ * complexity of their own and are matched on those of their parent
+ */
+function matchesQualifiers(
+  task: Task,
+  status: TaskStatus,
+  dependencies: string[],
+  query: TaskSearchQuery
+): boolean {
+  if (query.statuses.length > 0 && !query.statuses.includes(status)) {
+    return false;
+  }
+  if (
+    query.priorities.length > 0 &&
+    !query.priorities.includes(task.priority)
+  ) {
+    return false;
+  }
+  if (
+    query.dependencies.length > 0 &&
+    !query.dependencies.some((dep) => dependencies.includes(dep))
+  ) {
+    return false;
+  }
+  if (query.complexity.length > 0) {
+    const score = task.complexityScore;
+    if (
+      score === undefined ||
+      !query.complexity.every((filter) => compare(score, filter))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function compare(score: number, { operator, value }: ComplexityFilter) {
+  switch (operator) {
+    case ">":
+      return score > value;
+    case ">=":
+      return score >= value;
+    case "<":
+      return score < value;
+    case "<=":
+      return score <= value;
+    default:
+      return score === value;
+  }
+}
+
+/**
+ * Sort and merge overlapping ranges
+ */
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const merged: HighlightRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
@@ -1,6 +1,13 @@
 import * as vscode from "vscode";
-import { Task, TaskComplexityAnalysis, TaskComplexityReport } from "../types";
+import {
+  Subtask,
+  Task,
+  TaskComplexityAnalysis,
+  TaskComplexityReport,
+  TaskStats,
+} from "../types";
 import { log } from "../utils/logger";
+import { parseTaskId } from "./taskIdUtils";
 /**
  * Utility functions for task data manipulation and processing
  */
@@ -150,9 +157,9 @@ export function mergeComplexityScores(
 /**
  * Calculate task statistics
  */
-export function calculateStats(tasks: Task[]): any {
+export function calculateStats(tasks: Task[]): TaskStats {
   const total = tasks.length;
-  const stats = {
+  const stats: TaskStats = {
     total,
     completed: 0,
     inProgress: 0,
@@ -264,30 +271,19 @@ export function findTaskById(tasks: Task[], taskId: number): Task | null {
 }
 
 /**
- * Helper to find dependents of a task from validation result
- * Expects validationResult to have a structure with tasks and their dependencies
+ * Find a task ("5") or subtask ("5.2") by full ID
  */
-export function findDependents(
-  taskId: number,
-  validationResult: any
-): string[] {
-  // Defensive: if no data, return empty
-  if (
-    !validationResult ||
-    !validationResult.data ||
-    !Array.isArray(validationResult.data.tasks)
-  ) {
-    return [];
-  }
-  const dependents: string[] = [];
-  // For each task, check if its dependencies include the given taskId
-  for (const task of validationResult.data.tasks) {
-    if (
-      Array.isArray(task.dependencies) &&
-      task.dependencies.includes(taskId)
-    ) {
-      dependents.push(task.id.toString());
-    }
+export function findTaskOrSubtask(
+  tasks: Task[],
+  id: string | number
+): Task | Subtask | null {
+  const parsed = parseTaskId(id);
+  const task = parsed && findTaskById(tasks, parsed.taskId);
+  if (!parsed || !task || parsed.subtaskId === undefined) {
+    return task;
   }
-  return dependents;
+  return (
+    task.subtasks?.find((subtask) => Number(subtask.id) === parsed.subtaskId) ||
+    null
+  );
 }
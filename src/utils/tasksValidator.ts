@@ -0,0 +1,460 @@
+import {
+  VALID_TASK_PRIORITIES,
+  VALID_TASK_STATUSES,
+} from "../services/tasksRepository";
+import {
+  JsonNode,
+  findNodeAtPath,
+  getNodeValue,
+  getProperty,
+  parseJsonTree,
+} from "./jsonLocator";
+import { parseTaskId, resolveDependencyId } from "./taskIdUtils";
+
+/**
+ * Validation of tasks.json content with source locations
+ * Reports structural problems, invalid values and dangling dependencies,
+ * with text edits fixing them where the intent is clear
+ */
+
+export type TasksValidationCode =
+  | "invalid-json"
+  | "invalid-structure"
+  | "missing-field"
+  | "invalid-id"
+  | "duplicate-id"
+  | "dotted-subtask-id"
+  | "unknown-status"
+  | "unknown-priority"
+  | "dangling-dependency";
+
+/**
+ * Replacement of a text range, expressed in character offsets
+ */
+export interface JsonTextEdit {
+  offset: number;
+  length: number;
+  newText: string;
+}
+
+/**
+ * Quick fix attached to a validation issue
+ */
+export interface TasksValidationFix {
+  title: string;
+  edits: JsonTextEdit[];
+}
+
+/**
+ * Problem found in tasks.json
+ */
+export interface TasksValidationIssue {
+  code: TasksValidationCode;
+  severity: "error" | "warning";
+  message: string;
+  offset: number;
+  length: number;
+  fix?: TasksValidationFix;
+}
+
+const STATUS_ALIASES: Record<string, string> = {
+  todo: "pending",
+  open: "pending",
+  new: "pending",
+  "not-started": "pending",
+  inprogress: "in-progress",
+  "in progress": "in-progress",
+  in_progress: "in-progress",
+  started: "in-progress",
+  wip: "in-progress",
+  completed: "done",
+  complete: "done",
+  finished: "done",
+  closed: "done",
+  "in-review": "review",
+  canceled: "cancelled",
+  "on-hold": "deferred",
+  postponed: "deferred",
+};
+
+const PRIORITY_ALIASES: Record<string, string> = {
+  urgent: "high",
+  critical: "high",
+  normal: "medium",
+  med: "medium",
+  minor: "low",
+};
+
+const REQUIRED_TASK_FIELDS = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+];
+const REQUIRED_SUBTASK_FIELDS = ["id", "title", "status"];
+
+/**
+ * Validate the text of a tasks.json file
+ */
+export function validateTasksFile(text: string): TasksValidationIssue[] {
+  const { root, error } = parseJsonTree(text);
+  if (!root) {
+    return [
+      {
+        code: "invalid-json",
+        severity: "error",
+        message: `tasks.json is not valid JSON: ${error!.message}`,
+        offset: error!.offset,
+        length: error!.offset < text.length ? 1 : 0,
+      },
+    ];
+  }
+
+  if (root.type !== "object") {
+    return [
+      structureIssue(root, "tasks.json must contain an object keyed by tag"),
+    ];
+  }
+
+  const issues: TasksValidationIssue[] = [];
+  for (const tagProperty of root.children || []) {
+    const [tagKey, tagValue] = tagProperty.children!;
+    const tasksNode =
+      tagValue.type === "object"
+        ? findNodeAtPath(tagValue, ["tasks"])
+        : undefined;
+
+    // Like TasksRepository, entries without a tasks array are not tags
+    if (!tasksNode || tasksNode.type !== "array") {
+      issues.push({
+        ...structureIssue(
+          tagKey,
+          `"${tagKey.value}" is not a tag (no "tasks" array) and is ignored`
+        ),
+        severity: "warning",
+      });
+      continue;
+    }
+
+    validateTag(tasksNode, issues);
+  }
+  return issues;
+}
+
+/**
+ * Validate the tasks array of a single tag
+ */
+function validateTag(tasksNode: JsonNode, issues: TasksValidationIssue[]) {
+  const taskNodes = (tasksNode.children || []).filter((node) => {
+    if (node.type !== "object") {
+      issues.push(structureIssue(node, "Each task must be an object"));
+      return false;
+    }
+    return true;
+  });
+
+  // Every node ID in the tag, used to find dangling dependencies
+  const tasks = taskNodes.map(getNodeValue);
+  const knownIds = new Set<string>();
+  for (const task of tasks) {
+    knownIds.add(String(task.id));
+    for (const subtask of Array.isArray(task.subtasks) ? task.subtasks : []) {
+      knownIds.add(`${task.id}.${childId(subtask.id)}`);
+    }
+  }
+
+  const maxTaskId = Math.max(0, ...tasks.map((task) => Number(task.id) || 0));
+  validateNodes(taskNodes, "task", maxTaskId, issues, (taskNode) => {
+    const task = getNodeValue(taskNode);
+    validateDependencies(taskNode, knownIds, undefined, issues);
+
+    const subtasksNode = findNodeAtPath(taskNode, ["subtasks"]);
+    if (!subtasksNode) {
+      return;
+    }
+    if (subtasksNode.type !== "array") {
+      issues.push(structureIssue(subtasksNode, '"subtasks" must be an array'));
+      return;
+    }
+
+    const subtaskNodes = (subtasksNode.children || []).filter(
+      (node) => node.type === "object"
+    );
+    const maxSubtaskId = Math.max(
+      0,
+      ...subtaskNodes.map((node) => childId(getNodeValue(node).id) || 0)
+    );
+    validateNodes(subtaskNodes, "subtask", maxSubtaskId, issues, (node) => {
+      validateDependencies(node, knownIds, task, issues);
+    });
+  });
+}
+
+/**
+ * Check required fields, IDs, status and priority of sibling task/subtask nodes
+ */
+function validateNodes(
+  nodes: JsonNode[],
+  kind: "task" | "subtask",
+  maxId: number,
+  issues: TasksValidationIssue[],
+  validateChildren: (node: JsonNode) => void
+) {
+  const seenIds = new Set<number>();
+  let nextFreeId = maxId + 1;
+
+  for (const node of nodes) {
+    const anchor = getProperty(node, "id") || {
+      offset: node.offset,
+      length: 1,
+    };
+    const required =
+      kind === "task" ? REQUIRED_TASK_FIELDS : REQUIRED_SUBTASK_FIELDS;
+    for (const field of required) {
+      if (!getProperty(node, field)) {
+        issues.push({
+          code: "missing-field",
+          severity: "error",
+          message: `${capitalize(kind)} is missing required field "${field}"`,
+          offset: anchor.offset,
+          length: anchor.length,
+        });
+      }
+    }
+
+    const idNode = findNodeAtPath(node, ["id"]);
+    if (idNode) {
+      const id = validateId(idNode, kind, issues);
+      if (id !== undefined) {
+        if (seenIds.has(id)) {
+          issues.push({
+            code: "duplicate-id",
+            severity: "error",
+            message: `Duplicate ${kind} ID ${id}`,
+            offset: idNode.offset,
+            length: idNode.length,
+            fix: replaceFix(`Renumber to ${nextFreeId}`, idNode, nextFreeId),
+          });
+          nextFreeId++;
+        }
+        seenIds.add(id);
+      }
+    }
+
+    const statusNode = findNodeAtPath(node, ["status"]);
+    if (statusNode && !VALID_TASK_STATUSES.includes(statusNode.value)) {
+      const suggestion =
+        (typeof statusNode.value === "string" &&
+          STATUS_ALIASES[statusNode.value.toLowerCase()]) ||
+        "pending";
+      issues.push({
+        code: "unknown-status",
+        severity: "error",
+        message: `Unknown status ${JSON.stringify(
+          statusNode.value
+        )}. Expected one of: ${VALID_TASK_STATUSES.join(", ")}`,
+        offset: statusNode.offset,
+        length: statusNode.length,
+        fix: replaceFix(
+          `Change status to "${suggestion}"`,
+          statusNode,
+          suggestion
+        ),
+      });
+    }
+
+    const priorityNode = findNodeAtPath(node, ["priority"]);
+    if (
+      kind === "task" &&
+      priorityNode &&
+      !VALID_TASK_PRIORITIES.includes(priorityNode.value)
+    ) {
+      const suggestion =
+        (typeof priorityNode.value === "string" &&
+          PRIORITY_ALIASES[priorityNode.value.toLowerCase()]) ||
+        "medium";
+      issues.push({
+        code: "unknown-priority",
+        severity: "warning",
+        message: `Unknown priority ${JSON.stringify(
+          priorityNode.value
+        )}. Expected one of: ${VALID_TASK_PRIORITIES.join(", ")}`,
+        offset: priorityNode.offset,
+        length: priorityNode.length,
+        fix: replaceFix(
+          `Change priority to "${suggestion}"`,
+          priorityNode,
+          suggestion
+        ),
+      });
+    }
+
+    validateChildren(node);
+  }
+}
+
+/**
+ * Check an ID value and return its numeric (child) part when usable
+ */
+function validateId(
+  idNode: JsonNode,
+  kind: "task" | "subtask",
+  issues: TasksValidationIssue[]
+): number | undefined {
+  const parsed = parseTaskId(idNode.value);
+  const isNumber = idNode.type === "number";
+
+  if (kind === "task" && isNumber && parsed && parsed.subtaskId === undefined) {
+    return parsed.taskId;
+  }
+  if (kind === "subtask" && parsed) {
+    if (isNumber && parsed.subtaskId === undefined) {
+      return parsed.taskId;
+    }
+    if (parsed.subtaskId !== undefined) {
+      issues.push({
+        code: "dotted-subtask-id",
+        severity: "warning",
+        message: `Subtask IDs are stored relative to their parent; "${idNode.value}" should be ${parsed.subtaskId}`,
+        offset: idNode.offset,
+        length: idNode.length,
+        fix: replaceFix(
+          `Change ID to ${parsed.subtaskId}`,
+          idNode,
+          parsed.subtaskId
+        ),
+      });
+      return parsed.subtaskId;
+    }
+  }
+
+  issues.push({
+    code: "invalid-id",
+    severity: "error",
+    message: `${capitalize(
+      kind
+    )} ID must be a positive integer, got ${JSON.stringify(idNode.value)}`,
+    offset: idNode.offset,
+    length: idNode.length,
+  });
+  return undefined;
+}
+
+/**
+ * Report dependencies that point at tasks or subtasks that don't exist
+ */
+function validateDependencies(
+  node: JsonNode,
+  knownIds: Set<string>,
+  parent: { id: string | number; subtasks?: any[] } | undefined,
+  issues: TasksValidationIssue[]
+) {
+  const dependenciesNode = findNodeAtPath(node, ["dependencies"]);
+  if (!dependenciesNode) {
+    return;
+  }
+  if (dependenciesNode.type !== "array") {
+    issues.push(
+      structureIssue(dependenciesNode, '"dependencies" must be an array')
+    );
+    return;
+  }
+
+  const normalizedParent = parent && {
+    id: parent.id,
+    subtasks: (parent.subtasks || []).map((subtask: any) => ({
+      id: childId(subtask.id),
+    })),
+  };
+  const elements = dependenciesNode.children || [];
+  elements.forEach((dependencyNode, index) => {
+    const resolved = resolveDependencyId(
+      dependencyNode.value,
+      normalizedParent
+    );
+    if (knownIds.has(resolved)) {
+      return;
+    }
+    issues.push({
+      code: "dangling-dependency",
+      severity: "warning",
+      message: `Dependency ${JSON.stringify(
+        dependencyNode.value
+      )} does not match any task or subtask in this tag`,
+      offset: dependencyNode.offset,
+      length: dependencyNode.length,
+      fix: {
+        title: `Remove dependency ${JSON.stringify(dependencyNode.value)}`,
+        edits: [removeArrayElement(elements, index)],
+      },
+    });
+  });
+}
+
+/**
+ * Numeric child part of a subtask ID, accepting the "parent.child" form
+ */
+function childId(id: unknown): number {
+  const parsed = parseTaskId(id as string | number);
+  if (!parsed) {
+    return NaN;
+  }
+  return parsed.subtaskId ?? parsed.taskId;
+}
+
+/**
+ * Edit removing an array element together with its separating comma
+ */
+function removeArrayElement(
+  elements: JsonNode[],
+  index: number
+): JsonTextEdit {
+  const element = elements[index];
+  const end = element.offset + element.length;
+  if (index < elements.length - 1) {
+    const next = elements[index + 1];
+    return {
+      offset: element.offset,
+      length: next.offset - element.offset,
+      newText: "",
+    };
+  }
+  if (index > 0) {
+    const previous = elements[index - 1];
+    const previousEnd = previous.offset + previous.length;
+    return { offset: previousEnd, length: end - previousEnd, newText: "" };
+  }
+  return { offset: element.offset, length: element.length, newText: "" };
+}
+
+function replaceFix(
+  title: string,
+  node: JsonNode,
+  value: string | number
+): TasksValidationFix {
+  return {
+    title,
+    edits: [
+      {
+        offset: node.offset,
+        length: node.length,
+        newText: JSON.stringify(value),
+      },
+    ],
+  };
+}
+
+function structureIssue(node: JsonNode, message: string): TasksValidationIssue {
+  return {
+    code: "invalid-structure",
+    severity: "error",
+    message,
+    offset: node.offset,
+    length: node.type === "object" || node.type === "array" ? 1 : node.length,
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
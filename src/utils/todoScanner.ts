@@ -0,0 +1,114 @@
+import { Task } from "../types";
+
+/**
+ * Utility functions for finding TODO/FIXME/HACK comments in source files
+ * Matches them with the tasks created from them through the task filePath
+ */
+
+export type TodoKind = "TODO" | "FIXME" | "HACK";
+
+/**
+ * A TODO comment found in a file
+ */
+export interface TodoComment {
+  /** Path relative to the project root, with forward slashes */
+  filePath: string;
+  /** 1-based line number */
+  line: number;
+  kind: TodoKind;
+  /** Comment text after the marker, may be empty */
+  text: string;
+}
+
+const TODO_PATTERN =
+  /(?:\/\/+|\/\*+|^\s*\*+|#+|--|<!--|;+|%+)\s*(TODO|FIXME|HACK)\b(?:\([^)]*\))?[\s:-]*(.*?)\s*(?:\*+\/|-->)?\s*$/;
+
+/**
+ * Find the TODO, FIXME and HACK markers in the comments of a file
+ * Markers are recognized after the usual line and block comment starts
+ * ("//", "#", "/*", " * ", "--", "<!--", ";", "%") and must be uppercase
+ */
+export function findTodoComments(
+  content: string,
+  filePath: string
+): TodoComment[] {
+  const todos: TodoComment[] = [];
+  content.split(/\r?\n/).forEach((lineText, index) => {
+    const match = lineText.match(TODO_PATTERN);
+    if (match) {
+      todos.push({
+        filePath,
+        line: index + 1,
+        kind: match[1] as TodoKind,
+        text: match[2],
+      });
+    }
+  });
+  return todos;
+}
+
+/**
+ * Location recorded in the filePath of a task created from a TODO,
+ * e.g. "src/app.ts:12"
+ */
+export function formatTodoLocation(todo: TodoComment): string {
+  return `${todo.filePath}:${todo.line}`;
+}
+
+/**
+ * Title of the task created from a TODO: its text, or the marker and file
+ * when the comment has no text
+ */
+export function todoTaskTitle(todo: TodoComment): string {
+  const text = todo.text.trim();
+  if (!text) {
+    return `${todo.kind} in ${todo.filePath.split("/").pop()}`;
+  }
+  return text.length > 80 ? `${text.slice(0, 77).trimEnd()}...` : text;
+}
+
+/**
+ * Find the tasks already created for TODOs
+ * A task belongs to a TODO when it was created from the same file (its
+ * filePath is "file" or "file:line") and either still points at the same
+ * line or carries the title the TODO would get, so TODOs moved by edits
+ * are still recognized. Each task is matched to one TODO at most
+ */
+export function matchTodosToTasks(
+  todos: TodoComment[],
+  tasks: Task[]
+): Map<TodoComment, Task> {
+  const matches = new Map<TodoComment, Task>();
+  const candidates = tasks.flatMap((task) => {
+    const location = task.filePath?.match(/^(.*?)(?::(\d+))?$/);
+    return location
+      ? [{ task, filePath: location[1], line: Number(location[2]) }]
+      : [];
+  });
+  const used = new Set<Task>();
+
+  const assign = (
+    accepts: (
+      todo: TodoComment,
+      candidate: (typeof candidates)[number]
+    ) => boolean
+  ) => {
+    for (const todo of todos) {
+      if (matches.has(todo)) {
+        continue;
+      }
+      const candidate = candidates.find(
+        (c) =>
+          !used.has(c.task) && c.filePath === todo.filePath && accepts(todo, c)
+      );
+      if (candidate) {
+        matches.set(todo, candidate.task);
+        used.add(candidate.task);
+      }
+    }
+  };
+  // Exact locations first, so a moved TODO cannot take another's task
+  assign((todo, c) => c.line === todo.line);
+  assign((todo, c) => c.task.title === todoTaskTitle(todo));
+  return matches;
+}
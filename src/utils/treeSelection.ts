@@ -0,0 +1,18 @@
+/**
+ * Utility functions for multi-selections in tree views
+ * A selection may mix items of several kinds, of which only some are tasks
+ */
+
+/**
+ * Full IDs ("5" or "5.2") of the tasks in a tree selection, or of the
+ * clicked item when nothing else is selected; items that are not tasks,
+ * such as groups and workspace folders, are left out
+ */
+export function selectedTaskIds<T>(
+  item: T | undefined,
+  selection: readonly T[] | undefined,
+  taskIdOf: (treeItem: T) => string | undefined
+): string[] {
+  const items = selection?.length ? selection : item ? [item] : [];
+  return [...new Set(items.flatMap((treeItem) => taskIdOf(treeItem) ?? []))];
+}
@@ -0,0 +1,37 @@
+import * as crypto from "crypto";
+
+/**
+ * Shared helpers for building webview HTML
+ */
+
+/**
+ * Generate a random nonce for inline scripts
+ */
+export function getNonce(): string {
+  return crypto.randomBytes(16).toString("base64");
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Content Security Policy allowing only nonce'd scripts and theme styles
+ */
+export function getWebviewCsp(cspSource: string, nonce: string): string {
+  return [
+    "default-src 'none'",
+    `img-src ${cspSource} data:`,
+    `style-src ${cspSource} 'unsafe-inline'`,
+    `font-src ${cspSource}`,
+    `script-src 'nonce-${nonce}'`,
+  ].join("; ");
+}